@@ -293,10 +293,12 @@ describe('Performance Requirements', () => {
         response: 'B'.repeat(2000), // 2KB per response
         metrics: {
           overallScore: 85,
-          coherenceScore: 90,
-          taskCompletionScore: 80,
-          instructionAdherenceScore: 88,
-          efficiencyScore: 82
+          criterionScores: [
+            { criterionId: 'coherence', name: 'Coherence', score: 90, normalizedScore: 90 },
+            { criterionId: 'taskCompletion', name: 'Task Completion', score: 80, normalizedScore: 80 },
+            { criterionId: 'instructionAdherence', name: 'Instruction Adherence', score: 88, normalizedScore: 88 },
+            { criterionId: 'efficiency', name: 'Efficiency', score: 82, normalizedScore: 82 }
+          ]
         }
       }))
 
@@ -362,10 +364,12 @@ describe('Performance Requirements', () => {
           json: () => Promise.resolve({
             choices: [{ message: { content: JSON.stringify({
               overallScore: 85,
-              coherenceScore: 90,
-              taskCompletionScore: 80,
-              instructionAdherenceScore: 88,
-              efficiencyScore: 82,
+              scores: {
+                coherence: 90,
+                taskCompletion: 80,
+                instructionAdherence: 88,
+                efficiency: 82
+              },
               explanation: 'Test evaluation explanation'
             }) } }],
             usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 }
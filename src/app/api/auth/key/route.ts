@@ -0,0 +1,8 @@
+import { proxyToOpenRouter } from '@/lib/apiProxy';
+
+/**
+ * Key check used to validate an OpenRouter key through the proxy
+ */
+export async function GET(request: Request) {
+  return proxyToOpenRouter(request, '/auth/key', { method: 'GET', requireKey: true });
+}
\ No newline at end of file
@@ -0,0 +1,8 @@
+import { proxyToOpenRouter } from '@/lib/apiProxy';
+
+/**
+ * Chat completions, streamed or not, proxied to OpenRouter
+ */
+export async function POST(request: Request) {
+  return proxyToOpenRouter(request, '/chat/completions', { requireKey: true });
+}
\ No newline at end of file
@@ -0,0 +1,8 @@
+import { EvaluationApi } from '@/services/evaluationApi';
+
+/**
+ * Runs an evaluation on the server and returns its TestResult
+ */
+export async function POST(request: Request) {
+  return EvaluationApi.handleRequest(request);
+}
\ No newline at end of file
@@ -0,0 +1,8 @@
+import { proxyToOpenRouter } from '@/lib/apiProxy';
+
+/**
+ * OpenRouter's model list, proxied
+ */
+export async function GET(request: Request) {
+  return proxyToOpenRouter(request, '/models', { method: 'GET' });
+}
\ No newline at end of file
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { OPENAPI_DOCUMENT } from '@/services/openApiDocument';
+
+/**
+ * OpenAPI document describing the app's API routes
+ */
+export async function GET() {
+  return NextResponse.json(OPENAPI_DOCUMENT);
+}
\ No newline at end of file
@@ -20,7 +20,7 @@ import {
 export default function Home() {
   const [isTestFlowOpen, setIsTestFlowOpen] = useState(false)
   const [isHistoryLoading, setIsHistoryLoading] = useState(false)
-  const { testHistory, startTest, clearHistory } = useAppStore()
+  const { testHistory, suiteHistory, instructionDocuments, startTest, clearHistory } = useAppStore()
 
   const handleOpenHelp = () => {
     modalManager.open(HELP_MODAL_ID)
@@ -75,6 +75,8 @@ export default function Home() {
       {/* Test History */}
       <TestHistory 
         testRuns={testHistory}
+        suiteRuns={suiteHistory}
+        instructionDocuments={instructionDocuments}
         onStartTesting={handleStartTesting}
         onClearHistory={handleClearHistory}
         isLoading={isHistoryLoading}
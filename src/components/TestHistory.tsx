@@ -2,12 +2,16 @@
 
 import React, { useState } from 'react'
 import { ClockClockwise, PlayCircle, FileText, Trash, Warning, X, Download } from 'phosphor-react'
-import { TestRun } from '@/lib/types'
+import { InstructionDocument, SuiteRun, TestRun } from '@/lib/types'
+import { collectCriterionNames } from '@/lib/rubrics'
+import { formatInstructionVersion } from '@/lib/instructionVersions'
 import { ExportModal } from '@/components/modals'
 import { TestHistorySkeleton } from '@/components/ui/LoadingStates'
 
 interface TestHistoryProps {
   testRuns?: TestRun[]
+  suiteRuns?: SuiteRun[]
+  instructionDocuments?: InstructionDocument[] // Used to name the instruction version of each run
   onStartTesting?: () => void
   onClearHistory?: () => void
   isLoading?: boolean
@@ -102,13 +106,16 @@ function ConfirmationDialog({
 
 export default function TestHistory({ 
   testRuns = [], 
+  suiteRuns = [],
+  instructionDocuments = [],
   onStartTesting,
   onClearHistory,
   isLoading = false
 }: TestHistoryProps) {
   const [showClearConfirmation, setShowClearConfirmation] = useState(false)
   const [showExportModal, setShowExportModal] = useState(false)
-  const hasHistory = testRuns.length > 0
+  const hasHistory = testRuns.length > 0 || suiteRuns.length > 0
+  const criterionNames = collectCriterionNames(testRuns.map(run => run.metrics))
 
   const handleClearHistory = () => {
     setShowClearConfirmation(true)
@@ -237,6 +244,7 @@ export default function TestHistory({
             </h2>
             <p className="text-sm sm:text-base text-muted-foreground">
               {testRuns.length} test{testRuns.length !== 1 ? 's' : ''} completed
+              {suiteRuns.length > 0 && ` · ${suiteRuns.length} suite run${suiteRuns.length !== 1 ? 's' : ''}`}
             </p>
           </div>
           
@@ -275,6 +283,10 @@ export default function TestHistory({
         <div className="bg-card border border-border rounded-lg overflow-hidden shadow-custom-sm">
           {isLoading ? (
             <TestHistorySkeleton />
+          ) : testRuns.length === 0 ? (
+            <div className="p-6 text-center text-sm text-muted-foreground">
+              No single tests yet
+            </div>
           ) : (
             <div className="overflow-x-auto -webkit-overflow-scrolling-touch">
               <table className="w-full min-w-[800px]">
@@ -282,10 +294,9 @@ export default function TestHistory({
                   <tr>
                     <th className="text-left py-2 sm:py-3 px-2 sm:px-4 font-medium text-foreground text-xs sm:text-sm min-w-[120px] sm:min-w-[140px]">Model</th>
                     <th className="text-center py-2 sm:py-3 px-2 sm:px-4 font-medium text-foreground text-xs sm:text-sm min-w-[80px] sm:min-w-[100px]">Overall</th>
-                    <th className="text-center py-2 sm:py-3 px-2 sm:px-4 font-medium text-foreground text-xs sm:text-sm min-w-[70px] sm:min-w-[90px]">Coherence</th>
-                    <th className="text-center py-2 sm:py-3 px-2 sm:px-4 font-medium text-foreground text-xs sm:text-sm min-w-[80px] sm:min-w-[100px]">Task</th>
-                    <th className="text-center py-2 sm:py-3 px-2 sm:px-4 font-medium text-foreground text-xs sm:text-sm min-w-[70px] sm:min-w-[90px]">Adherence</th>
-                    <th className="text-center py-2 sm:py-3 px-2 sm:px-4 font-medium text-foreground text-xs sm:text-sm min-w-[70px] sm:min-w-[90px]">Efficiency</th>
+                    {criterionNames.map(name => (
+                      <th key={name} className="text-center py-2 sm:py-3 px-2 sm:px-4 font-medium text-foreground text-xs sm:text-sm min-w-[70px] sm:min-w-[90px]">{name}</th>
+                    ))}
                     <th className="text-center py-2 sm:py-3 px-2 sm:px-4 font-medium text-foreground text-xs sm:text-sm min-w-[60px] sm:min-w-[80px]">Tokens</th>
                     <th className="text-center py-2 sm:py-3 px-2 sm:px-4 font-medium text-foreground text-xs sm:text-sm min-w-[50px] sm:min-w-[70px]">Time</th>
                     <th className="text-center py-2 sm:py-3 px-2 sm:px-4 font-medium text-foreground text-xs sm:text-sm min-w-[60px] sm:min-w-[80px]">Cost</th>
@@ -306,32 +317,39 @@ export default function TestHistory({
                           <div className="text-xs text-muted-foreground truncate max-w-[100px] sm:max-w-[120px]" title={run.modelProvider}>
                             {run.modelProvider}
                           </div>
+                          {run.instructionVersion && (
+                            <div className="text-xs text-muted-foreground truncate max-w-[100px] sm:max-w-[120px]" title="Instruction version">
+                              {formatInstructionVersion(instructionDocuments, run.instructionVersion)}
+                            </div>
+                          )}
                         </td>
                         <td className="py-2 sm:py-3 px-2 sm:px-4 text-center">
-                          <div className={`text-xs sm:text-sm font-semibold ${getScoreColor(run.metrics.overallScore)}`}>
-                            {run.metrics.overallScore}%
-                          </div>
-                        </td>
-                        <td className="py-2 sm:py-3 px-2 sm:px-4 text-center">
-                          <div className={`text-xs sm:text-sm ${getScoreColor(run.metrics.coherenceScore)}`}>
-                            {run.metrics.coherenceScore}%
-                          </div>
-                        </td>
-                        <td className="py-2 sm:py-3 px-2 sm:px-4 text-center">
-                          <div className={`text-xs sm:text-sm ${getScoreColor(run.metrics.taskCompletionScore)}`}>
-                            {run.metrics.taskCompletionScore}%
-                          </div>
-                        </td>
-                        <td className="py-2 sm:py-3 px-2 sm:px-4 text-center">
-                          <div className={`text-xs sm:text-sm ${getScoreColor(run.metrics.instructionAdherenceScore)}`}>
-                            {run.metrics.instructionAdherenceScore}%
-                          </div>
-                        </td>
-                        <td className="py-2 sm:py-3 px-2 sm:px-4 text-center">
-                          <div className={`text-xs sm:text-sm ${getScoreColor(run.metrics.efficiencyScore)}`}>
-                            {run.metrics.efficiencyScore}%
+                          <div
+                            className={`text-xs sm:text-sm font-semibold ${run.metrics.evaluationError ? 'text-muted-foreground' : getScoreColor(run.metrics.overallScore)}`}
+                            title={run.metrics.evaluationError}
+                          >
+                            {run.metrics.evaluationError ? 'Failed' : `${run.metrics.overallScore}%`}
                           </div>
+                          {run.judgeTemplateVersion && (
+                            <div className="text-xs text-muted-foreground" title="Judge template version">
+                              {run.judgeTemplateVersion}
+                            </div>
+                          )}
                         </td>
+                        {criterionNames.map(name => {
+                          const score = run.metrics.criterionScores.find(entry => entry.name === name)
+                          return (
+                            <td key={name} className="py-2 sm:py-3 px-2 sm:px-4 text-center">
+                              {score ? (
+                                <div className={`text-xs sm:text-sm ${getScoreColor(score.normalizedScore)}`}>
+                                  {score.normalizedScore}%
+                                </div>
+                              ) : (
+                                <div className="text-xs sm:text-sm text-muted-foreground">—</div>
+                              )}
+                            </td>
+                          )
+                        })}
                         <td className="py-2 sm:py-3 px-2 sm:px-4 text-center text-xs sm:text-sm text-muted-foreground">
                           {run.tokenUsage.totalTokens > 1000 
                             ? `${(run.tokenUsage.totalTokens / 1000).toFixed(1)}k`
@@ -380,6 +398,68 @@ export default function TestHistory({
           </div>
         </div>
 
+        {/* Suite Runs */}
+        {suiteRuns.length > 0 && !isLoading && (
+          <div className="mt-8">
+            <h3 className="text-lg font-semibold text-foreground mb-3">Suite Runs</h3>
+            <div className="bg-card border border-border rounded-lg overflow-hidden shadow-custom-sm">
+              <div className="overflow-x-auto -webkit-overflow-scrolling-touch">
+                <table className="w-full min-w-[700px]">
+                  <thead className="bg-muted/50 border-b border-border">
+                    <tr>
+                      <th className="text-left py-2 sm:py-3 px-2 sm:px-4 font-medium text-foreground text-xs sm:text-sm">Suite</th>
+                      <th className="text-left py-2 sm:py-3 px-2 sm:px-4 font-medium text-foreground text-xs sm:text-sm">Model</th>
+                      <th className="text-center py-2 sm:py-3 px-2 sm:px-4 font-medium text-foreground text-xs sm:text-sm">Pass Rate</th>
+                      <th className="text-center py-2 sm:py-3 px-2 sm:px-4 font-medium text-foreground text-xs sm:text-sm">Mean Score</th>
+                      <th className="text-center py-2 sm:py-3 px-2 sm:px-4 font-medium text-foreground text-xs sm:text-sm">Cases</th>
+                      <th className="text-center py-2 sm:py-3 px-2 sm:px-4 font-medium text-foreground text-xs sm:text-sm">Cost</th>
+                      <th className="text-center py-2 sm:py-3 px-2 sm:px-4 font-medium text-foreground text-xs sm:text-sm">Date</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {suiteRuns.map((run, index) => {
+                      const { date, time } = formatDate(run.timestamp)
+                      const { summary } = run
+                      return (
+                        <tr key={run.id} className={`hover:bg-muted/30 transition-colors ${
+                          index % 2 === 0 ? 'bg-background' : 'bg-muted/20'
+                        }`}>
+                          <td className="py-2 sm:py-3 px-2 sm:px-4 text-xs sm:text-sm font-medium text-foreground">{run.suiteName}</td>
+                          <td className="py-2 sm:py-3 px-2 sm:px-4 text-xs sm:text-sm">
+                            <div className="text-foreground">{run.model}</div>
+                            <div className="text-xs text-muted-foreground">{run.modelProvider}</div>
+                          </td>
+                          <td className={`py-2 sm:py-3 px-2 sm:px-4 text-center text-xs sm:text-sm font-semibold ${getScoreColor(summary.passRate)}`}>
+                            {summary.passRate}%
+                          </td>
+                          <td className="py-2 sm:py-3 px-2 sm:px-4 text-center text-xs sm:text-sm">
+                            {summary.meanOverallScore === null ? (
+                              <span className="text-muted-foreground">—</span>
+                            ) : (
+                              <span className={getScoreColor(summary.meanOverallScore)}>{summary.meanOverallScore}%</span>
+                            )}
+                          </td>
+                          <td className="py-2 sm:py-3 px-2 sm:px-4 text-center text-xs sm:text-sm text-muted-foreground">
+                            {summary.passedCases}/{summary.totalCases} passed
+                            {summary.erroredCases > 0 && `, ${summary.erroredCases} errors`}
+                          </td>
+                          <td className="py-2 sm:py-3 px-2 sm:px-4 text-center text-xs sm:text-sm text-muted-foreground">
+                            {formatCost(summary.totalCost)}
+                          </td>
+                          <td className="py-2 sm:py-3 px-2 sm:px-4 text-center text-xs sm:text-sm text-muted-foreground">
+                            <div>{date}</div>
+                            <div className="text-xs opacity-75">{time}</div>
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Confirmation Dialog */}
         <ConfirmationDialog
           isOpen={showClearConfirmation}
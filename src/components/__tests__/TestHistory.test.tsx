@@ -2,15 +2,17 @@ import React from 'react'
 import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import TestHistory from '../TestHistory'
-import { TestRun, SuccessMetrics, TokenStats } from '@/lib/types'
+import { TestRun, SuccessMetrics, TokenStats, SuiteRun } from '@/lib/types'
 
 // Mock data
 const mockMetrics: SuccessMetrics = {
   overallScore: 85,
-  coherenceScore: 90,
-  taskCompletionScore: 80,
-  instructionAdherenceScore: 88,
-  efficiencyScore: 82,
+  criterionScores: [
+    { criterionId: 'coherence', name: 'Coherence', score: 90, normalizedScore: 90 },
+    { criterionId: 'taskCompletion', name: 'Task Completion', score: 80, normalizedScore: 80 },
+    { criterionId: 'instructionAdherence', name: 'Instruction Adherence', score: 88, normalizedScore: 88 },
+    { criterionId: 'efficiency', name: 'Efficiency', score: 82, normalizedScore: 82 }
+  ],
   explanation: 'Test explanation'
 }
 
@@ -44,7 +46,9 @@ const mockTestRuns: TestRun[] = [
     metrics: {
       ...mockMetrics,
       overallScore: 75,
-      coherenceScore: 70
+      criterionScores: mockMetrics.criterionScores.map(score =>
+        score.criterionId === 'coherence' ? { ...score, score: 70, normalizedScore: 70 } : score
+      )
     },
     cost: 0.0018
   }
@@ -176,6 +180,65 @@ describe('TestHistory', () => {
     })
   })
 
+  describe('Suite Runs', () => {
+    const mockSuiteRun: SuiteRun = {
+      id: 'suite-run-1',
+      suiteId: 'suite-1',
+      suiteName: 'Support questions',
+      timestamp: Date.now(),
+      model: 'gpt-4',
+      modelProvider: 'OpenAI',
+      instructions: 'Test instructions',
+      passThreshold: 70,
+      results: [],
+      summary: {
+        totalCases: 4,
+        passedCases: 3,
+        failedCases: 0,
+        erroredCases: 1,
+        passRate: 75,
+        meanOverallScore: 64,
+        criterionMeans: [],
+        worstCaseIds: [],
+        totalCost: 0.012,
+        totalTokens: 1200,
+        executionTime: 8000
+      }
+    }
+
+    it('lists suite runs alongside test runs', () => {
+      render(
+        <TestHistory
+          testRuns={mockTestRuns}
+          suiteRuns={[mockSuiteRun]}
+          onStartTesting={mockOnStartTesting}
+          onClearHistory={mockOnClearHistory}
+        />
+      )
+
+      expect(screen.getByText('Suite Runs')).toBeInTheDocument()
+      expect(screen.getByText('Support questions')).toBeInTheDocument()
+      expect(screen.getByText('64%')).toHaveClass('text-warning')
+      expect(screen.getByText('3/4 passed, 1 errors')).toBeInTheDocument()
+      expect(screen.getByText(/1 suite run$/)).toBeInTheDocument()
+    })
+
+    it('shows the history when there are only suite runs', () => {
+      render(
+        <TestHistory
+          testRuns={[]}
+          suiteRuns={[mockSuiteRun]}
+          onStartTesting={mockOnStartTesting}
+          onClearHistory={mockOnClearHistory}
+        />
+      )
+
+      expect(screen.queryByText('No tests yet')).not.toBeInTheDocument()
+      expect(screen.getByText('No single tests yet')).toBeInTheDocument()
+      expect(screen.getByText('Support questions')).toBeInTheDocument()
+    })
+  })
+
   describe('Clear History Functionality', () => {
     it('shows confirmation dialog when clear history is clicked', () => {
       render(
@@ -4,13 +4,14 @@ import React, { useState } from 'react'
 import { X, Download, FileText, Table, FilePdf, CheckCircle, Warning } from 'phosphor-react'
 import Modal from '@/components/ui/Modal'
 import { ExportService, ExportFormat } from '@/services'
-import { TestRun } from '@/lib/types'
+import { TestRun, ComparisonRun } from '@/lib/types'
 
 interface ExportModalProps {
   isOpen: boolean
   onClose: () => void
   testRuns: TestRun[]
   singleTest?: TestRun | null
+  comparison?: ComparisonRun | null
   title?: string
 }
 
@@ -51,6 +52,7 @@ export default function ExportModal({
   onClose, 
   testRuns, 
   singleTest = null,
+  comparison = null,
   title
 }: ExportModalProps) {
   const [selectedFormat, setSelectedFormat] = useState<ExportFormat>('json')
@@ -60,9 +62,10 @@ export default function ExportModal({
     message: string
   }>({ type: null, message: '' })
 
+  const isComparison = comparison !== null
   const isSingleTest = singleTest !== null
-  const exportData = isSingleTest ? [singleTest] : testRuns
-  const exportTitle = title || (isSingleTest ? 'Export Test Result' : 'Export Test History')
+  const exportData = isComparison ? [comparison] : isSingleTest ? [singleTest] : testRuns
+  const exportTitle = title || (isComparison ? 'Export Comparison' : isSingleTest ? 'Export Test Result' : 'Export Test History')
 
   const handleExport = async () => {
     if (exportData.length === 0) {
@@ -77,7 +80,9 @@ export default function ExportModal({
     setExportStatus({ type: null, message: '' })
 
     try {
-      if (isSingleTest && singleTest) {
+      if (isComparison && comparison) {
+        await ExportService.exportComparison(comparison, selectedFormat)
+      } else if (isSingleTest && singleTest) {
         await ExportService.exportSingleTest(singleTest, selectedFormat)
       } else {
         await ExportService.exportHistory(testRuns, selectedFormat)
@@ -85,7 +90,9 @@ export default function ExportModal({
 
       setExportStatus({
         type: 'success',
-        message: `Successfully exported ${exportData.length} test${exportData.length !== 1 ? 's' : ''} as ${selectedFormat.toUpperCase()}`
+        message: isComparison
+          ? `Successfully exported comparison as ${selectedFormat.toUpperCase()}`
+          : `Successfully exported ${exportData.length} test${exportData.length !== 1 ? 's' : ''} as ${selectedFormat.toUpperCase()}`
       })
 
       // Auto-close after successful export
@@ -134,7 +141,9 @@ export default function ExportModal({
         <div className="p-6 space-y-6">
           {/* Export info */}
           <div className="text-sm text-muted-foreground">
-            {isSingleTest ? (
+            {isComparison ? (
+              <>Exporting A/B comparison from {comparison?.model}</>
+            ) : isSingleTest ? (
               <>Exporting 1 test result from {singleTest?.model}</>
             ) : (
               <>Exporting {testRuns.length} test{testRuns.length !== 1 ? 's' : ''} from your history</>
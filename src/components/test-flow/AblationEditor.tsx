@@ -0,0 +1,124 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Play } from 'phosphor-react'
+import { AblationConfig, SegmentMode, TestSuite } from '@/lib/types'
+import { createTestCase, DEFAULT_PASS_THRESHOLD } from '@/lib/suites'
+import { MAX_ABLATION_EVALUATIONS, splitInstructionSegments, validateAblationConfig } from '@/lib/ablation'
+
+interface AblationEditorProps {
+  instructions: string // Instructions to take apart
+  prompt: string // Prompt set when no suite is chosen
+  suites: TestSuite[] // Saved suites whose cases can be used as the prompt set
+  onRun: (ablationConfig: AblationConfig) => void | Promise<void>
+  canRun?: boolean // False until the evaluation model is selected
+  disabled?: boolean
+}
+
+const SEGMENT_MODES: { value: SegmentMode; label: string }[] = [
+  { value: 'sentence', label: 'Sentences' },
+  { value: 'bullet', label: 'Bullets' },
+  { value: 'section', label: 'Sections' }
+]
+
+/**
+ * Setup for an ablation run: how to split the instructions into segments,
+ * with a preview of the segments, and the prompt set to score against.
+ */
+export default function AblationEditor({
+  instructions,
+  prompt,
+  suites,
+  onRun,
+  canRun = true,
+  disabled = false
+}: AblationEditorProps) {
+  const [mode, setMode] = useState<SegmentMode>('sentence')
+  const [suiteId, setSuiteId] = useState('')
+
+  const suite = suites.find(entry => entry.id === suiteId) || null
+  const ablationConfig: AblationConfig = {
+    instructions,
+    mode,
+    prompts: suite ? suite.cases : [createTestCase(prompt)],
+    passThreshold: suite?.passThreshold ?? DEFAULT_PASS_THRESHOLD
+  }
+  const segments = splitInstructionSegments(instructions, mode)
+  const errors = validateAblationConfig(ablationConfig)
+  const evaluations = (segments.length + 1) * ablationConfig.prompts.length
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Split the instructions into segments and run them once in full and once with each segment removed. The score change shows what each segment contributes, so segments that do not help can be trimmed.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex gap-1" role="group" aria-label="Split instructions into">
+          {SEGMENT_MODES.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setMode(option.value)}
+              aria-pressed={mode === option.value}
+              disabled={disabled}
+              className={`px-2 py-1 text-xs rounded-md border disabled:opacity-50 ${mode === option.value ? 'bg-primary text-primary-foreground border-primary' : 'border-border hover:bg-muted/50'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <label htmlFor="ablation-prompts" className="text-xs font-medium text-muted-foreground">Prompts</label>
+          <select
+            id="ablation-prompts"
+            value={suiteId}
+            onChange={(e) => setSuiteId(e.target.value)}
+            className="px-2 py-1.5 border border-input rounded-md text-xs bg-background"
+            disabled={disabled}
+          >
+            <option value="">Current prompt</option>
+            {suites.map(entry => (
+              <option key={entry.id} value={entry.id}>
+                {entry.name} ({entry.cases.length} case{entry.cases.length !== 1 ? 's' : ''})
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Segment preview */}
+      {segments.length > 0 && (
+        <ol className="space-y-1 max-h-48 overflow-y-auto">
+          {segments.map((segment, index) => (
+            <li key={index} className="flex gap-2 p-2 bg-background rounded border text-xs">
+              <span className="shrink-0 font-medium text-muted-foreground">{index + 1}.</span>
+              <span className="whitespace-pre-wrap break-words">{segment.trim()}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-destructive space-y-1">
+          {errors.map(error => (
+            <li key={error}>• {error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => onRun(ablationConfig)}
+          disabled={disabled || !canRun || errors.length > 0}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          <Play size={12} weight="fill" />
+          Run ablation ({segments.length} segment{segments.length !== 1 ? 's' : ''})
+        </button>
+        <span className="text-xs text-muted-foreground">
+          {evaluations} of at most {MAX_ABLATION_EVALUATIONS} evaluations
+        </span>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,182 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Clock, CurrencyDollar, ArrowClockwise, Scissors } from 'phosphor-react'
+import { useAppStore } from '@/lib/store'
+import { SegmentImpact, SegmentVerdict, summarizeAblation, trimInstructions } from '@/lib/ablation'
+
+type ImpactOrder = 'segment' | 'impact'
+
+const VERDICT_LABELS: Record<SegmentVerdict, string> = {
+  helps: 'Helps',
+  hurts: 'Hurts',
+  neutral: 'No effect'
+}
+
+const VERDICT_CLASSES: Record<SegmentVerdict, string> = {
+  helps: 'text-green-600',
+  hurts: 'text-red-600',
+  neutral: 'text-muted-foreground'
+}
+
+const formatDelta = (delta: number | null, suffix = '') =>
+  delta === null ? '—' : `${delta > 0 ? '+' : ''}${delta}${suffix}`
+
+// Largest score change first; unscored segments last
+const byImpact = (a: SegmentImpact, b: SegmentImpact) =>
+  (b.scoreDelta ?? -Infinity) - (a.scoreDelta ?? -Infinity)
+
+/**
+ * Results view for an ablation run: the score change attributed to each
+ * segment of the instructions, the prompt tokens it costs, and the option to
+ * load the instructions without the segments that did not help.
+ */
+export default function AblationResults() {
+  const { currentTest, setInstructions, setCurrentStep, resetCurrentTest } = useAppStore()
+  const [order, setOrder] = useState<ImpactOrder>('segment')
+  const ablationRun = currentTest.ablationRun
+
+  if (!ablationRun) {
+    return null
+  }
+
+  const impacts = summarizeAblation(ablationRun.variants)
+  const rows = order === 'impact' ? [...impacts].sort(byImpact) : impacts
+  const removable = impacts.filter(impact => impact.verdict === 'neutral' || impact.verdict === 'hurts')
+  const tokensSaved = removable.reduce((total, impact) => total + Math.max(0, impact.promptTokensSaved || 0), 0)
+  const maxDelta = Math.max(1, ...impacts.map(impact => Math.abs(impact.scoreDelta || 0)))
+  const fullSummary = ablationRun.variants.find(variant => variant.segmentIndex === null)?.summary
+
+  const handleLoadTrimmed = () => {
+    setInstructions(trimInstructions(ablationRun.instructions, ablationRun.mode, impacts))
+    setCurrentStep(1)
+  }
+
+  const handleNewTest = () => {
+    resetCurrentTest()
+    setCurrentStep(0)
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Segment impact */}
+      <div className="p-4 border border-border rounded-lg space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="text-lg font-semibold">
+            Ablation: {impacts.length} {ablationRun.mode}{impacts.length !== 1 ? 's' : ''}
+          </h3>
+          <div className="flex gap-1" role="group" aria-label="Order segments by">
+            {(['segment', 'impact'] as ImpactOrder[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setOrder(option)}
+                aria-pressed={order === option}
+                className={`px-2 py-1 text-xs rounded-md border ${order === option ? 'bg-primary text-primary-foreground border-primary' : 'border-border hover:bg-muted/50'}`}
+              >
+                {option === 'segment' ? 'In order' : 'By impact'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Full instructions scored {fullSummary?.meanOverallScore ?? '—'}% over {ablationRun.prompts.length} prompt{ablationRun.prompts.length !== 1 ? 's' : ''}. Each change is the score lost when the segment is removed, so a positive change means the segment helps.
+        </p>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-muted-foreground border-b border-border">
+                <th className="py-2 px-2 font-medium">Segment</th>
+                <th className="py-2 px-2 font-medium w-40">Score change</th>
+                <th className="py-2 px-2 font-medium text-right">Pass rate</th>
+                <th className="py-2 px-2 font-medium text-right">Prompt tokens</th>
+                <th className="py-2 px-2 font-medium">Effect</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(impact => (
+                <tr key={impact.segmentIndex} className="border-b border-border/50 align-top">
+                  <td className="py-2 px-2 text-xs">
+                    <span className="font-medium text-muted-foreground">{impact.segmentIndex + 1}. </span>
+                    <span className="whitespace-pre-wrap break-words">{impact.segment}</span>
+                  </td>
+                  <td className="py-2 px-2">
+                    <div className="flex items-center gap-2">
+                      <span className="w-12 text-right text-xs">{formatDelta(impact.scoreDelta)}</span>
+                      <div className="flex-1 h-2 bg-muted/40 rounded" aria-hidden="true">
+                        {impact.scoreDelta !== null && (
+                          <div
+                            className={`h-2 rounded ${impact.scoreDelta >= 0 ? 'bg-green-500' : 'bg-red-500'}`}
+                            style={{ width: `${(Math.abs(impact.scoreDelta) / maxDelta) * 100}%` }}
+                          />
+                        )}
+                      </div>
+                    </div>
+                  </td>
+                  <td className="py-2 px-2 text-right text-xs">{formatDelta(impact.passRateDelta, ' pts')}</td>
+                  <td className="py-2 px-2 text-right text-xs">{impact.promptTokensSaved ?? '—'}</td>
+                  <td className={`py-2 px-2 text-xs ${impact.verdict ? VERDICT_CLASSES[impact.verdict] : 'text-muted-foreground'}`}>
+                    {impact.verdict ? VERDICT_LABELS[impact.verdict] : 'Not scored'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Trimming */}
+      <div className="p-4 border border-border rounded-lg space-y-2">
+        {removable.length > 0 ? (
+          <>
+            <p className="text-sm">
+              {removable.length} segment{removable.length !== 1 ? 's' : ''} did not help. Removing {removable.length !== 1 ? 'them' : 'it'} saves about {tokensSaved} prompt tokens per test.
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Each segment was removed on its own, so test the trimmed instructions again before relying on them.
+            </p>
+            <button
+              onClick={handleLoadTrimmed}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors"
+            >
+              <Scissors size={12} />
+              Edit trimmed instructions
+            </button>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">Every scored segment made a difference; nothing to trim.</p>
+        )}
+      </div>
+
+      {/* Run details */}
+      <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <Clock size={14} />
+          {(ablationRun.executionTime / 1000).toFixed(1)}s
+        </span>
+        <span className="flex items-center gap-1">
+          <CurrencyDollar size={14} />
+          ${ablationRun.cost.toFixed(4)}
+        </span>
+        <span>Pass at {ablationRun.passThreshold}%</span>
+      </div>
+
+      {/* Actions */}
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => setCurrentStep(2)}
+          className="flex items-center gap-2 px-4 py-2 border border-border rounded-md hover:bg-muted/50 transition-colors"
+        >
+          <ArrowClockwise size={16} />
+          Back to Test
+        </button>
+        <button
+          onClick={handleNewTest}
+          className="px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors"
+        >
+          New Test
+        </button>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
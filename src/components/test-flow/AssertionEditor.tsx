@@ -0,0 +1,178 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Plus, Trash } from 'phosphor-react'
+import { Assertion, AssertionType } from '@/lib/types'
+import { ASSERTION_LABELS, MAX_ASSERTIONS, createAssertion, validateAssertion } from '@/lib/assertions'
+
+interface AssertionEditorProps {
+  assertions: Assertion[]
+  onChange: (assertions: Assertion[]) => void
+  disabled?: boolean
+}
+
+const COUNT_TYPES: AssertionType[] = ['wordCount', 'characterCount', 'sentenceCount']
+const LIST_TYPES: AssertionType[] = ['contains', 'excludes']
+const TEXT_MATCH_TYPES: AssertionType[] = ['regex', 'notRegex', 'contains', 'excludes', 'startsWith', 'endsWith']
+
+const VALUE_PLACEHOLDERS: Partial<Record<AssertionType, string>> = {
+  regex: '^\\{[\\s\\S]*\\}$',
+  notRegex: 'CompetitorX|AcmeCorp',
+  jsonSchema: '{ "type": "object", "required": ["answer"] }',
+  startsWith: 'Sure,',
+  endsWith: '?'
+}
+
+/**
+ * Editor for deterministic checks run on the response alongside the judge.
+ */
+export default function AssertionEditor({ assertions, onChange, disabled = false }: AssertionEditorProps) {
+  const [newType, setNewType] = useState<AssertionType>('regex')
+
+  const updateAssertion = (index: number, updates: Partial<Assertion>) => {
+    onChange(assertions.map((assertion, i) => (i === index ? { ...assertion, ...updates } : assertion)))
+  }
+
+  const removeAssertion = (index: number) => {
+    onChange(assertions.filter((_, i) => i !== index))
+  }
+
+  const parseLimit = (value: string) => (value === '' ? undefined : Number(value))
+
+  const inputClasses = 'w-full p-2 border border-input rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary'
+
+  return (
+    <div className="space-y-3">
+      {assertions.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          Add hard rules the response must satisfy, such as valid JSON or a word limit. They are checked locally and never cost tokens.
+        </p>
+      )}
+
+      {assertions.map((assertion, index) => {
+        const errors = validateAssertion(assertion)
+
+        return (
+          <div key={assertion.id} className="space-y-2 p-3 border border-border rounded-lg">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-muted-foreground">{ASSERTION_LABELS[assertion.type]}</span>
+              <button
+                onClick={() => removeAssertion(index)}
+                disabled={disabled}
+                className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-50"
+                aria-label={`Remove assertion ${index + 1}`}
+              >
+                <Trash size={14} />
+              </button>
+            </div>
+
+            {assertion.type === 'jsonSchema' && (
+              <textarea
+                value={assertion.value || ''}
+                onChange={(e) => updateAssertion(index, { value: e.target.value })}
+                placeholder={VALUE_PLACEHOLDERS.jsonSchema}
+                aria-label={`Assertion ${index + 1} JSON Schema`}
+                className={`${inputClasses} font-mono`}
+                rows={4}
+                disabled={disabled}
+              />
+            )}
+
+            {['regex', 'notRegex', 'startsWith', 'endsWith'].includes(assertion.type) && (
+              <input
+                type="text"
+                value={assertion.value || ''}
+                onChange={(e) => updateAssertion(index, { value: e.target.value })}
+                placeholder={VALUE_PLACEHOLDERS[assertion.type]}
+                aria-label={`Assertion ${index + 1} value`}
+                className={`${inputClasses} font-mono`}
+                disabled={disabled}
+              />
+            )}
+
+            {LIST_TYPES.includes(assertion.type) && (
+              <textarea
+                value={(assertion.values || []).join('\n')}
+                onChange={(e) => updateAssertion(index, { values: e.target.value.split('\n') })}
+                placeholder="One phrase per line"
+                aria-label={`Assertion ${index + 1} phrases`}
+                className={inputClasses}
+                rows={3}
+                disabled={disabled}
+              />
+            )}
+
+            {COUNT_TYPES.includes(assertion.type) && (
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-xs text-muted-foreground space-y-1">
+                  <span>Minimum</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={assertion.min ?? ''}
+                    onChange={(e) => updateAssertion(index, { min: parseLimit(e.target.value) })}
+                    className={inputClasses}
+                    disabled={disabled}
+                  />
+                </label>
+                <label className="text-xs text-muted-foreground space-y-1">
+                  <span>Maximum</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={assertion.max ?? ''}
+                    onChange={(e) => updateAssertion(index, { max: parseLimit(e.target.value) })}
+                    className={inputClasses}
+                    disabled={disabled}
+                  />
+                </label>
+              </div>
+            )}
+
+            {TEXT_MATCH_TYPES.includes(assertion.type) && (
+              <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                <input
+                  type="checkbox"
+                  checked={assertion.caseSensitive || false}
+                  onChange={(e) => updateAssertion(index, { caseSensitive: e.target.checked })}
+                  disabled={disabled}
+                />
+                Case sensitive
+              </label>
+            )}
+
+            {errors.length > 0 && (
+              <ul className="text-xs text-destructive space-y-1">
+                {errors.map(error => (
+                  <li key={error}>• {error}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )
+      })}
+
+      <div className="flex gap-2">
+        <select
+          value={newType}
+          onChange={(e) => setNewType(e.target.value as AssertionType)}
+          aria-label="Assertion type"
+          className="px-2 py-1.5 border border-input rounded-md text-xs bg-background"
+          disabled={disabled}
+        >
+          {(Object.keys(ASSERTION_LABELS) as AssertionType[]).map(type => (
+            <option key={type} value={type}>{ASSERTION_LABELS[type]}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => onChange([...assertions, createAssertion(newType)])}
+          disabled={disabled || assertions.length >= MAX_ASSERTIONS}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs border border-border rounded-md hover:bg-muted/50 transition-colors disabled:opacity-50"
+        >
+          <Plus size={12} />
+          Add assertion
+        </button>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
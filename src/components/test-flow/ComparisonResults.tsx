@@ -0,0 +1,208 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Trophy, Clock, CurrencyDollar, ArrowClockwise, Download, CaretDown, CaretRight } from 'phosphor-react'
+import { useAppStore } from '@/lib/store'
+import { ExportModal } from '@/components/modals'
+import { ComparisonRun, ComparisonVariant, ComparisonVariantResult } from '@/lib/types'
+
+const getScoreColor = (score: number) => {
+  if (score >= 80) return 'text-green-600'
+  if (score >= 60) return 'text-yellow-600'
+  return 'text-red-600'
+}
+
+const describeWinner = (winner: ComparisonRun['preference']['winner']) => {
+  if (winner === null) return 'No preference recorded'
+  return winner === 'tie' ? 'Tie' : `Variant ${winner} preferred`
+}
+
+interface VariantCardProps {
+  label: ComparisonVariant
+  variant: ComparisonVariantResult
+  preferred: boolean
+}
+
+function VariantCard({ label, variant, preferred }: VariantCardProps) {
+  const [showInstructions, setShowInstructions] = useState(false)
+
+  return (
+    <div className={`space-y-3 p-4 border rounded-lg ${preferred ? 'border-green-500' : 'border-border'}`}>
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium">Variant {label}</h4>
+        {preferred && (
+          <span className="flex items-center gap-1 text-xs text-green-600">
+            <Trophy size={12} />
+            Preferred
+          </span>
+        )}
+      </div>
+
+      {variant.metrics.evaluationError ? (
+        <div className="text-sm text-destructive">{variant.metrics.evaluationError}</div>
+      ) : (
+        <div className={`text-2xl font-bold ${getScoreColor(variant.metrics.overallScore)}`}>
+          {variant.metrics.overallScore}%
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {variant.metrics.reference && (
+          <div className="flex justify-between text-xs">
+            <span className="text-muted-foreground">Correctness vs reference</span>
+            <span className={getScoreColor(variant.metrics.reference.correctness)}>{variant.metrics.reference.correctness}%</span>
+          </div>
+        )}
+        {variant.metrics.criterionScores.map(score => (
+          <div key={score.criterionId} className="flex justify-between text-xs">
+            <span className="text-muted-foreground">{score.name}</span>
+            <span className={getScoreColor(score.normalizedScore)}>{score.normalizedScore}%</span>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={() => setShowInstructions(!showInstructions)}
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+      >
+        {showInstructions ? <CaretDown size={12} /> : <CaretRight size={12} />}
+        System instructions
+      </button>
+      {showInstructions && (
+        <pre className="text-xs whitespace-pre-wrap font-mono bg-muted/50 rounded p-2">
+          {variant.instructions}
+        </pre>
+      )}
+
+      <div className="text-sm whitespace-pre-wrap bg-muted/30 rounded p-3 max-h-64 overflow-y-auto">
+        {variant.response}
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        {variant.tokenUsage.totalTokens.toLocaleString()} tokens
+        {variant.assertionResults && variant.assertionResults.length > 0 && (
+          <> · {variant.assertionResults.filter(result => result.passed).length}/{variant.assertionResults.length} assertions passed</>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Results view for an A/B comparison: the judge's preference plus both
+ * variants' rubric scores and responses side by side.
+ */
+export default function ComparisonResults() {
+  const { currentTest, comparisonHistory, setCurrentStep, resetCurrentTest } = useAppStore()
+  const [showExportModal, setShowExportModal] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const comparison = currentTest.comparison
+
+  if (!comparison) {
+    return null
+  }
+
+  const { preference } = comparison
+  const previousComparisons = (comparisonHistory || []).filter(entry => entry.id !== comparison.id)
+
+  const handleNewTest = () => {
+    resetCurrentTest()
+    setCurrentStep(0)
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Preference */}
+      <div className="p-4 border border-border rounded-lg space-y-2">
+        <div className="flex items-center gap-2">
+          <Trophy size={20} className={preference.winner === 'A' || preference.winner === 'B' ? 'text-green-600' : 'text-muted-foreground'} />
+          <h3 className="text-lg font-semibold">{describeWinner(preference.winner)}</h3>
+        </div>
+        <p className="text-sm text-muted-foreground">{preference.rationale}</p>
+        <p className="text-xs text-muted-foreground">
+          Variant {preference.presentedFirst} was shown to the judge first.
+        </p>
+      </div>
+
+      {/* Variants */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <VariantCard label="A" variant={comparison.variantA} preferred={preference.winner === 'A'} />
+        <VariantCard label="B" variant={comparison.variantB} preferred={preference.winner === 'B'} />
+      </div>
+
+      {/* Run details */}
+      <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+        <span>{comparison.model}</span>
+        <span className="flex items-center gap-1">
+          <Clock size={14} />
+          {(comparison.executionTime / 1000).toFixed(1)}s
+        </span>
+        <span className="flex items-center gap-1">
+          <CurrencyDollar size={14} />
+          ${comparison.cost.toFixed(4)}
+        </span>
+      </div>
+
+      {/* Actions */}
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => setShowExportModal(true)}
+          className="flex items-center gap-2 px-4 py-2 border border-border rounded-md hover:bg-muted/50 transition-colors"
+        >
+          <Download size={16} />
+          Export
+        </button>
+        <button
+          onClick={() => setCurrentStep(2)}
+          className="flex items-center gap-2 px-4 py-2 border border-border rounded-md hover:bg-muted/50 transition-colors"
+        >
+          <ArrowClockwise size={16} />
+          Run Again
+        </button>
+        <button
+          onClick={handleNewTest}
+          className="px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors"
+        >
+          New Test
+        </button>
+      </div>
+
+      {/* Previous comparisons */}
+      {previousComparisons.length > 0 && (
+        <div className="bg-muted/50 rounded-lg p-4">
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className="flex items-center justify-between w-full text-left"
+          >
+            <span className="text-sm font-medium">Previous comparisons ({previousComparisons.length})</span>
+            {showHistory ? <CaretDown size={16} /> : <CaretRight size={16} />}
+          </button>
+          {showHistory && (
+            <ul className="mt-3 space-y-2">
+              {previousComparisons.map(entry => (
+                <li key={entry.id} className="flex items-center justify-between p-2 bg-background rounded border text-sm">
+                  <span>
+                    {entry.model}{' '}
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(entry.timestamp).toLocaleString()}
+                    </span>
+                  </span>
+                  <span className="text-xs">
+                    A {entry.variantA.metrics.overallScore}% · B {entry.variantB.metrics.overallScore}% · {describeWinner(entry.preference.winner)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <ExportModal
+        isOpen={showExportModal}
+        onClose={() => setShowExportModal(false)}
+        testRuns={[]}
+        comparison={comparison}
+      />
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,95 @@
+'use client'
+
+import React from 'react'
+import { Plus, Trash } from 'phosphor-react'
+import { ConversationTurn } from '@/lib/types'
+
+interface ConversationEditorProps {
+  turns: ConversationTurn[]
+  onChange: (turns: ConversationTurn[]) => void
+  disabled?: boolean
+}
+
+/**
+ * Editor for the scripted turns that follow the initial test prompt.
+ * User turns are sent to the model in order; an assistant turn is used
+ * verbatim as the model's reply instead of generating one, and is not scored.
+ */
+export default function ConversationEditor({ turns, onChange, disabled = false }: ConversationEditorProps) {
+  const filledTurns = turns.filter(turn => turn.content.trim())
+  const endsWithFixedReply = filledTurns.length > 0 && filledTurns[filledTurns.length - 1].role === 'assistant'
+
+  const updateTurn = (index: number, updates: Partial<ConversationTurn>) => {
+    onChange(turns.map((turn, i) => (i === index ? { ...turn, ...updates } : turn)))
+  }
+
+  const addTurn = (role: ConversationTurn['role']) => {
+    onChange([...turns, { role, content: '' }])
+  }
+
+  const removeTurn = (index: number) => {
+    onChange(turns.filter((_, i) => i !== index))
+  }
+
+  return (
+    <div className="space-y-3">
+      {turns.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          Add scripted follow-up messages to test how your instructions hold up over a longer conversation.
+        </p>
+      )}
+
+      {turns.map((turn, index) => (
+        <div key={index} className="space-y-1">
+          <div className="flex items-center justify-between">
+            <label htmlFor={`conversation-turn-${index}`} className="text-xs font-medium text-muted-foreground">
+              Turn {index + 2}: {turn.role === 'user' ? 'User follow-up' : 'Fixed assistant reply'}
+            </label>
+            <button
+              onClick={() => removeTurn(index)}
+              disabled={disabled}
+              className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-50"
+              aria-label={`Remove turn ${index + 2}`}
+            >
+              <Trash size={14} />
+            </button>
+          </div>
+          <textarea
+            id={`conversation-turn-${index}`}
+            value={turn.content}
+            onChange={(e) => updateTurn(index, { content: e.target.value })}
+            placeholder={turn.role === 'user' ? 'Now make it shorter...' : 'Assistant reply to use verbatim...'}
+            className="w-full p-2 border border-input rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary"
+            rows={2}
+            disabled={disabled}
+          />
+        </div>
+      ))}
+
+      {endsWithFixedReply && (
+        <p className="text-xs text-destructive">
+          End with a user follow-up: the model needs a message to answer, and fixed replies are not scored.
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => addTurn('user')}
+          disabled={disabled}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs border border-border rounded-md hover:bg-muted/50 transition-colors disabled:opacity-50"
+        >
+          <Plus size={12} />
+          Add user follow-up
+        </button>
+        <button
+          onClick={() => addTurn('assistant')}
+          disabled={disabled}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs border border-border rounded-md hover:bg-muted/50 transition-colors disabled:opacity-50"
+        >
+          <Plus size={12} />
+          Add fixed assistant reply
+        </button>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
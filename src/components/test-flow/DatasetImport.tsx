@@ -0,0 +1,203 @@
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import { UploadSimple, X } from 'phosphor-react'
+import { TestCase } from '@/lib/types'
+import {
+  ColumnMapping,
+  DatasetColumnRole,
+  DatasetTable,
+  MAX_DATASET_BYTES,
+  detectDatasetFormat,
+  getVariableName,
+  guessColumnMapping,
+  importDataset,
+  parseDataset,
+  validateColumnMapping
+} from '@/lib/datasets'
+
+interface DatasetImportProps {
+  onImport: (cases: TestCase[], name: string) => void
+  onCancel: () => void
+  disabled?: boolean
+}
+
+const ROLE_OPTIONS: { value: DatasetColumnRole; label: string }[] = [
+  { value: 'prompt', label: 'Prompt' },
+  { value: 'referenceAnswer', label: 'Expected answer' },
+  { value: 'tags', label: 'Tags' },
+  { value: 'variable', label: 'Template variable' },
+  { value: 'ignore', label: 'Ignore' }
+]
+
+// Rows shown in the accepted and rejected previews
+const PREVIEW_ROWS = 5
+const REJECTED_ROWS = 50
+
+/**
+ * Imports test cases from a CSV or JSONL file: map the columns, check each
+ * prompt, and preview the rows that will be rejected before importing.
+ */
+export default function DatasetImport({ onImport, onCancel, disabled = false }: DatasetImportProps) {
+  const [fileName, setFileName] = useState('')
+  const [table, setTable] = useState<DatasetTable | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [fileError, setFileError] = useState<string | null>(null)
+
+  const handleFile = async (file: File | undefined) => {
+    setTable(null)
+    setFileError(null)
+    if (!file) return
+
+    if (file.size > MAX_DATASET_BYTES) {
+      setFileError(`The file is larger than ${MAX_DATASET_BYTES / 1024 / 1024} MB`)
+      return
+    }
+
+    try {
+      const text = await file.text()
+      const parsed = parseDataset(text, detectDatasetFormat(file.name, text))
+      if (parsed.rows.length === 0) {
+        setFileError('The file has no rows to import')
+        return
+      }
+      setFileName(file.name)
+      setTable(parsed)
+      setMapping(guessColumnMapping(parsed.headers))
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : 'The file could not be read')
+    }
+  }
+
+  const mappingErrors = useMemo(() => (table ? validateColumnMapping(mapping) : []), [table, mapping])
+  const result = useMemo(
+    () => (table && mappingErrors.length === 0 ? importDataset(table, mapping) : null),
+    [table, mapping, mappingErrors]
+  )
+
+  return (
+    <div className="space-y-3 p-3 border border-border rounded-lg bg-background">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium">Import cases from CSV or JSONL</span>
+        <button
+          onClick={onCancel}
+          aria-label="Close import"
+          className="p-1 text-muted-foreground hover:text-foreground"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 w-fit px-3 py-1.5 text-xs border border-border rounded-md hover:bg-muted/50 transition-colors cursor-pointer">
+        <UploadSimple size={12} />
+        {fileName || 'Choose file'}
+        <input
+          type="file"
+          accept=".csv,.jsonl,.ndjson,text/csv,application/x-ndjson"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="sr-only"
+          aria-label="Dataset file"
+          disabled={disabled}
+        />
+      </label>
+      <p className="text-xs text-muted-foreground">
+        One case per row. Columns can hold the prompt, an expected answer, tags (comma separated) and template variables.
+      </p>
+
+      {fileError && <p className="text-xs text-destructive">{fileError}</p>}
+
+      {table && (
+        <>
+          {/* Column mapping */}
+          <div className="space-y-1">
+            <h5 className="text-xs font-medium text-muted-foreground">Columns</h5>
+            {table.headers.map(header => (
+              <div key={header} className="flex items-center justify-between gap-2 text-xs">
+                <span className="truncate font-mono">{header}</span>
+                <span className="flex items-center gap-2">
+                  {mapping[header] === 'variable' && (
+                    <span className="text-muted-foreground font-mono">{`{{${getVariableName(header)}}}`}</span>
+                  )}
+                  <select
+                    value={mapping[header] || 'ignore'}
+                    onChange={(e) => setMapping({ ...mapping, [header]: e.target.value as DatasetColumnRole })}
+                    aria-label={`Column ${header}`}
+                    className="px-2 py-1 border border-input rounded-md text-xs bg-background"
+                    disabled={disabled}
+                  >
+                    {ROLE_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {mappingErrors.length > 0 && (
+            <ul className="text-xs text-destructive space-y-1">
+              {mappingErrors.map(error => (
+                <li key={error}>• {error}</li>
+              ))}
+            </ul>
+          )}
+
+          {result && (
+            <>
+              {/* Preview */}
+              <div className="space-y-1">
+                <h5 className="text-xs font-medium text-muted-foreground">
+                  {result.cases.length} of {table.rows.length} row{table.rows.length !== 1 ? 's' : ''} ready to import
+                </h5>
+                <ul className="space-y-1">
+                  {result.cases.slice(0, PREVIEW_ROWS).map(testCase => (
+                    <li key={testCase.id} className="p-2 bg-muted/30 rounded border text-xs">
+                      <p className="truncate">{testCase.prompt}</p>
+                      {(testCase.referenceAnswer || testCase.tags || testCase.variables) && (
+                        <p className="truncate text-muted-foreground">
+                          {[
+                            testCase.referenceAnswer && `Expected: ${testCase.referenceAnswer}`,
+                            testCase.tags && `Tags: ${testCase.tags.join(', ')}`,
+                            testCase.variables && Object.entries(testCase.variables).map(([name, value]) => `${name}=${value}`).join(', ')
+                          ].filter(Boolean).join(' · ')}
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {result.rejected.length > 0 && (
+                <div className="space-y-1">
+                  <h5 className="text-xs font-medium text-destructive">
+                    {result.rejected.length} row{result.rejected.length !== 1 ? 's' : ''} rejected
+                  </h5>
+                  <ul className="space-y-1 max-h-40 overflow-y-auto">
+                    {result.rejected.slice(0, REJECTED_ROWS).map(rejected => (
+                      <li key={rejected.row} className="p-2 rounded border border-destructive/30 text-xs">
+                        <span className="font-medium">Row {rejected.row}</span>
+                        {rejected.prompt && <span className="text-muted-foreground"> · {rejected.prompt.slice(0, 60)}</span>}
+                        <span className="block text-destructive">{rejected.errors.join('; ')}</span>
+                      </li>
+                    ))}
+                    {result.rejected.length > REJECTED_ROWS && (
+                      <li className="text-xs text-muted-foreground">and {result.rejected.length - REJECTED_ROWS} more</li>
+                    )}
+                  </ul>
+                </div>
+              )}
+
+              <button
+                onClick={() => onImport(result.cases, fileName.replace(/\.[^.]+$/, ''))}
+                disabled={disabled || result.cases.length === 0}
+                className="px-3 py-1.5 text-xs bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                Import {result.cases.length} case{result.cases.length !== 1 ? 's' : ''} as a new suite
+              </button>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,268 @@
+'use client'
+
+import React, { useEffect, useMemo, useState } from 'react'
+import { FloppyDisk, Plus } from 'phosphor-react'
+import { InstructionDocument, InstructionVersion, TestRun } from '@/lib/types'
+import {
+  VersionScore,
+  diffLines,
+  getInstructionVersionId,
+  getLatestVersion,
+  summarizeVersionScores
+} from '@/lib/instructionVersions'
+
+interface InstructionHistoryProps {
+  documents: InstructionDocument[]
+  activeDocumentId: string | null
+  instructions: string // Text in the editor, possibly unsaved
+  testHistory: TestRun[]
+  onSave: (message: string) => void
+  onCreate: (name: string, message: string) => void
+  onRename: (documentId: string, name: string) => void
+  onLoad: (versionId: string, instructions: string) => void
+  disabled?: boolean
+}
+
+const formatScore = (score?: VersionScore) =>
+  score?.meanScore !== null && score?.meanScore !== undefined
+    ? `${Math.round(score.meanScore)}% over ${score.runs} run${score.runs !== 1 ? 's' : ''}`
+    : 'No scored runs'
+
+/**
+ * Saved versions of the instructions: save with a message, load any version
+ * back into the editor, and diff two versions alongside their scores.
+ */
+export default function InstructionHistory({
+  documents,
+  activeDocumentId,
+  instructions,
+  testHistory,
+  onSave,
+  onCreate,
+  onRename,
+  onLoad,
+  disabled = false
+}: InstructionHistoryProps) {
+  const active = documents.find(document => document.id === activeDocumentId)
+  const [message, setMessage] = useState('')
+  const [name, setName] = useState(active?.name || '')
+  const [creating, setCreating] = useState(!active)
+  const [fromVersion, setFromVersion] = useState(0)
+  const [toVersion, setToVersion] = useState(0)
+
+  const latest = active ? getLatestVersion(active) : undefined
+  const versionCount = active?.versions.length || 0
+
+  // Compare the previous version with the latest by default, and again after each save
+  useEffect(() => {
+    setName(active?.name || '')
+    setCreating(!active)
+    setToVersion(latest?.version || 0)
+    setFromVersion(Math.max(1, (latest?.version || 0) - 1))
+  }, [active, latest])
+
+  const scores = useMemo(() => summarizeVersionScores(testHistory || []), [testHistory])
+  const savedVersion = active?.versions.find(version => version.instructions === instructions)
+  const from = active?.versions.find(version => version.version === fromVersion)
+  const to = active?.versions.find(version => version.version === toVersion)
+  const diff = useMemo(() => (from && to ? diffLines(from.instructions, to.instructions) : []), [from, to])
+  const canSave = !disabled && instructions.trim().length > 0
+
+  const scoreFor = (version: InstructionVersion) => (active ? scores[getInstructionVersionId(active, version)] : undefined)
+
+  const inputClasses = 'w-full p-2 border border-input rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary'
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Save the instructions as numbered versions. Each test run records the version it used, and unsaved changes are saved as a new version when a test runs.
+      </p>
+
+      {/* Document */}
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={creating ? '' : active?.id || ''}
+          onChange={(e) => {
+            const document = documents.find(entry => entry.id === e.target.value)
+            const version = document && getLatestVersion(document)
+            if (document && version) {
+              onLoad(getInstructionVersionId(document, version), version.instructions)
+            } else {
+              setCreating(true)
+            }
+          }}
+          aria-label="Instruction document"
+          className="px-2 py-1.5 border border-input rounded-md text-xs bg-background"
+          disabled={disabled}
+        >
+          <option value="">New document</option>
+          {documents.map(document => (
+            <option key={document.id} value={document.id}>
+              {document.name} (v{getLatestVersion(document)?.version || 0})
+            </option>
+          ))}
+        </select>
+        {active && !creating && (
+          <span className="text-xs text-muted-foreground">
+            {savedVersion ? `Editor matches v${savedVersion.version}` : 'Unsaved changes'}
+          </span>
+        )}
+      </div>
+
+      {/* Save */}
+      <div className="space-y-2">
+        {(creating || active) && (
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Document name"
+              aria-label="Document name"
+              className={inputClasses}
+              disabled={disabled}
+            />
+            {active && !creating && name.trim() && name.trim() !== active.name && (
+              <button
+                onClick={() => onRename(active.id, name)}
+                disabled={disabled}
+                className="shrink-0 px-3 py-1.5 text-xs border border-border rounded-md hover:bg-muted/50 transition-colors disabled:opacity-50"
+              >
+                Rename
+              </button>
+            )}
+          </div>
+        )}
+        <input
+          type="text"
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder="What changed? e.g. Ask for shorter answers"
+          aria-label="Version message"
+          className={inputClasses}
+          disabled={disabled}
+        />
+        <div className="flex flex-wrap gap-2">
+          {creating || !active ? (
+            <button
+              onClick={() => {
+                onCreate(name, message)
+                setMessage('')
+              }}
+              disabled={!canSave}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              <FloppyDisk size={12} />
+              Save as v1
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={() => {
+                  onSave(message)
+                  setMessage('')
+                }}
+                disabled={!canSave || Boolean(savedVersion)}
+                className="flex items-center gap-1 px-3 py-1.5 text-xs bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                <FloppyDisk size={12} />
+                Save as v{(latest?.version || 0) + 1}
+              </button>
+              <button
+                onClick={() => {
+                  setCreating(true)
+                  setName('')
+                }}
+                disabled={disabled}
+                className="flex items-center gap-1 px-3 py-1.5 text-xs border border-border rounded-md hover:bg-muted/50 transition-colors disabled:opacity-50"
+              >
+                <Plus size={12} />
+                New document
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Versions, newest first */}
+      {active && !creating && (
+        <ul className="space-y-1 max-h-48 overflow-y-auto">
+          {[...active.versions].reverse().map(version => (
+            <li key={version.version} className="flex items-center justify-between gap-2 p-2 bg-background rounded border text-xs">
+              <span className="min-w-0">
+                <span className="font-medium">v{version.version}</span>
+                <span className="text-muted-foreground"> · {new Date(version.createdAt).toLocaleString()}</span>
+                {version.message && <span className="block truncate">{version.message}</span>}
+                <span className="block text-muted-foreground">{formatScore(scoreFor(version))}</span>
+              </span>
+              <button
+                onClick={() => onLoad(getInstructionVersionId(active, version), version.instructions)}
+                disabled={disabled || version.instructions === instructions}
+                className="shrink-0 px-2 py-1 border border-border rounded-md hover:bg-muted/50 transition-colors disabled:opacity-50"
+              >
+                Load
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Diff between two versions */}
+      {active && !creating && versionCount > 1 && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="text-muted-foreground">Compare</span>
+            {[
+              { label: 'Older version', value: fromVersion, onChange: setFromVersion },
+              { label: 'Newer version', value: toVersion, onChange: setToVersion }
+            ].map(({ label, value, onChange }, index) => (
+              <React.Fragment key={label}>
+                {index > 0 && <span className="text-muted-foreground">with</span>}
+                <select
+                  value={value}
+                  onChange={(e) => onChange(Number(e.target.value))}
+                  aria-label={label}
+                  className="px-2 py-1 border border-input rounded-md text-xs bg-background"
+                  disabled={disabled}
+                >
+                  {active.versions.map(version => (
+                    <option key={version.version} value={version.version}>v{version.version}</option>
+                  ))}
+                </select>
+              </React.Fragment>
+            ))}
+          </div>
+
+          {from && to && (
+            <>
+              <p className="text-xs text-muted-foreground">
+                v{from.version}: {formatScore(scoreFor(from))} · v{to.version}: {formatScore(scoreFor(to))}
+              </p>
+              <pre className="max-h-64 overflow-auto p-2 bg-background rounded border text-xs font-mono whitespace-pre-wrap" aria-label="Version diff">
+                {diff.every(line => line.type === 'unchanged') ? (
+                  <span className="text-muted-foreground">No differences</span>
+                ) : (
+                  diff.map((line, index) => (
+                    <div
+                      key={index}
+                      className={
+                        line.type === 'added'
+                          ? 'bg-success/10 text-success'
+                          : line.type === 'removed'
+                            ? 'bg-destructive/10 text-destructive'
+                            : 'text-muted-foreground'
+                      }
+                    >
+                      {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                      {line.text}
+                    </div>
+                  ))
+                )}
+              </pre>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
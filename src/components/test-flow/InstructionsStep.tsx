@@ -1,8 +1,17 @@
 'use client'
 
 import React, { useState, useEffect } from 'react'
+import { CaretDown, CaretRight } from 'phosphor-react'
 import { useAppStore } from '@/lib/store'
 import { validateInstructions, getInputClasses, getHelperTextClasses } from '@/lib/validation'
+import { DEFAULT_RUBRIC } from '@/lib/rubrics'
+import { DEFAULT_JUDGE_TEMPLATE, resolveJudgeTemplate, saveJudgeTemplateVersion } from '@/lib/judgeTemplates'
+import { extractTemplateVariables } from '@/lib/templateVariables'
+import { getLatestVersion } from '@/lib/instructionVersions'
+import RubricEditor from './RubricEditor'
+import JudgeTemplateEditor from './JudgeTemplateEditor'
+import InstructionHistory from './InstructionHistory'
+import VariableInputs from './VariableInputs'
 
 interface InstructionsStepProps {
   onNext?: () => void
@@ -10,11 +19,40 @@ interface InstructionsStepProps {
 }
 
 export default function InstructionsStep({ onNext, onBack }: InstructionsStepProps) {
-  const { currentTest, setInstructions, setCurrentStep } = useAppStore()
+  const {
+    currentTest,
+    settings,
+    testHistory,
+    instructionDocuments,
+    setInstructions,
+    setComparisonInstructions,
+    setVariables,
+    setCurrentStep,
+    updateSettings,
+    recomputeHistoryScores,
+    saveInstructionVersion,
+    createInstructionDocument,
+    renameInstructionDocument,
+    loadInstructionVersion
+  } = useAppStore()
   const [instructions, setInstructionsLocal] = useState(currentTest.instructions)
+  const [showHistory, setShowHistory] = useState(false)
+  const [showRubric, setShowRubric] = useState(false)
+  const [showJudgeTemplate, setShowJudgeTemplate] = useState(false)
+  const [showComparison, setShowComparison] = useState(Boolean(currentTest.comparisonInstructions))
+  const rubric = settings?.rubric || DEFAULT_RUBRIC
+  const judgeTemplates = settings?.judgeTemplates || []
+  const judgeTemplateId = settings?.judgeTemplateId || DEFAULT_JUDGE_TEMPLATE.id
+  const judgeTemplate = resolveJudgeTemplate(judgeTemplates, judgeTemplateId)
+  const documents = instructionDocuments || []
+  const activeDocument = documents.find(document => document.id === currentTest.instructionDocumentId)
+  const variantB = currentTest.comparisonInstructions || ''
+  const variableNames = extractTemplateVariables(instructions, variantB)
   
   // Validate instructions
   const validation = validateInstructions(instructions)
+  const variantBValidation = validateInstructions(variantB)
+  const canProceed = validation.isValid && (!variantB.trim() || variantBValidation.isValid)
 
   // Update store when instructions change
   useEffect(() => {
@@ -22,7 +60,7 @@ export default function InstructionsStep({ onNext, onBack }: InstructionsStepPro
   }, [instructions, setInstructions])
 
   const handleNext = () => {
-    if (validation.isValid) {
+    if (canProceed) {
       setCurrentStep(2) // Move to test step
       onNext?.()
     }
@@ -91,6 +129,169 @@ export default function InstructionsStep({ onNext, onBack }: InstructionsStepPro
         </p>
       </div>
 
+      {/* Version history (collapsible) */}
+      <div className="bg-muted/50 rounded-lg p-4">
+        <button
+          onClick={() => setShowHistory(!showHistory)}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <span className="text-sm font-medium cursor-pointer">
+            Version History{activeDocument ? ` (${activeDocument.name} v${getLatestVersion(activeDocument)?.version})` : ''}
+          </span>
+          {showHistory ? (
+            <CaretDown size={16} className="text-muted-foreground" />
+          ) : (
+            <CaretRight size={16} className="text-muted-foreground" />
+          )}
+        </button>
+        {showHistory && (
+          <div className="mt-3">
+            <InstructionHistory
+              documents={documents}
+              activeDocumentId={currentTest.instructionDocumentId || null}
+              instructions={instructions}
+              testHistory={testHistory || []}
+              onSave={(message) => saveInstructionVersion(message)}
+              onCreate={(name, message) => createInstructionDocument(name, message)}
+              onRename={(documentId, name) => renameInstructionDocument(documentId, name)}
+              onLoad={(versionId, text) => {
+                loadInstructionVersion(versionId)
+                setInstructionsLocal(text)
+              }}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Template variables */}
+      {variableNames.length > 0 && (
+        <div className="bg-muted/50 rounded-lg p-4 space-y-2">
+          <h4 className="text-sm font-medium">Template variables</h4>
+          <p className="text-xs text-muted-foreground">
+            Each {'{{variable}}'} is replaced with its value before the instructions are sent. Test cases in a suite can set their own values.
+          </p>
+          <VariableInputs
+            names={variableNames}
+            values={currentTest.variables || {}}
+            onChange={(variables) => setVariables?.(variables)}
+          />
+        </div>
+      )}
+
+      {/* Evaluation Rubric (collapsible) */}
+      <div className="bg-muted/50 rounded-lg p-4">
+        <button
+          onClick={() => setShowRubric(!showRubric)}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <span className="text-sm font-medium cursor-pointer">
+            Evaluation Rubric ({rubric.criteria.length} criteria)
+          </span>
+          {showRubric ? (
+            <CaretDown size={16} className="text-muted-foreground" />
+          ) : (
+            <CaretRight size={16} className="text-muted-foreground" />
+          )}
+        </button>
+        {showRubric && (
+          <div className="mt-3">
+            <RubricEditor
+              rubric={rubric}
+              onSave={(updated) => updateSettings({ rubric: updated })}
+            />
+            {(testHistory?.length || 0) > 0 && (
+              <div className="flex items-center justify-between gap-2 mt-3 pt-3 border-t border-border">
+                <p className="text-xs text-muted-foreground">
+                  Past runs keep the weights they were scored with until recomputed.
+                </p>
+                <button
+                  onClick={() => recomputeHistoryScores()}
+                  className="shrink-0 px-3 py-1.5 text-xs border border-border rounded-md hover:bg-muted/50 transition-colors"
+                >
+                  Recompute {testHistory.length} past {testHistory.length === 1 ? 'run' : 'runs'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Judge template (collapsible) */}
+      <div className="bg-muted/50 rounded-lg p-4">
+        <button
+          onClick={() => setShowJudgeTemplate(!showJudgeTemplate)}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <span className="text-sm font-medium cursor-pointer">
+            Judge Template ({judgeTemplate.name} v{judgeTemplate.version})
+          </span>
+          {showJudgeTemplate ? (
+            <CaretDown size={16} className="text-muted-foreground" />
+          ) : (
+            <CaretRight size={16} className="text-muted-foreground" />
+          )}
+        </button>
+        {showJudgeTemplate && (
+          <div className="mt-3">
+            <JudgeTemplateEditor
+              templates={judgeTemplates}
+              activeId={judgeTemplateId}
+              onSelect={(id) => updateSettings({ judgeTemplateId: id })}
+              onSave={(template) => updateSettings({
+                judgeTemplates: saveJudgeTemplateVersion(judgeTemplates, template),
+                judgeTemplateId: template.id
+              })}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* A/B comparison (collapsible) */}
+      <div className="bg-muted/50 rounded-lg p-4">
+        <button
+          onClick={() => setShowComparison(!showComparison)}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <span className="text-sm font-medium cursor-pointer">
+            Compare with a second variant{variantB.trim() ? ' (enabled)' : ''}
+          </span>
+          {showComparison ? (
+            <CaretDown size={16} className="text-muted-foreground" />
+          ) : (
+            <CaretRight size={16} className="text-muted-foreground" />
+          )}
+        </button>
+        {showComparison && (
+          <div className="mt-3 space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Both variants run against the same prompt and model, and the judge picks the better response. Leave empty to run a single test.
+            </p>
+            <textarea
+              id="variant-b-instructions"
+              value={variantB}
+              onChange={(e) => setComparisonInstructions?.(e.target.value)}
+              placeholder="Variant B system instructions..."
+              aria-label="Variant B instructions"
+              className={`${getInputClasses(variantB.trim() ? variantBValidation.status : 'neutral')} min-h-[160px]`}
+              rows={6}
+            />
+            {variantB.trim() && (
+              <p className={getHelperTextClasses(variantBValidation.status)}>
+                {variantBValidation.message}
+              </p>
+            )}
+            {variantB.trim() && (
+              <button
+                onClick={() => setComparisonInstructions?.('')}
+                className="px-3 py-1.5 text-xs border border-border rounded-md hover:bg-muted/50 transition-colors"
+              >
+                Remove variant B
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
       {/* Tips */}
       <div className="bg-muted/50 p-4 rounded-lg">
         <h4 className="text-sm font-medium mb-2">💡 Tips for effective instructions:</h4>
@@ -104,7 +305,7 @@ export default function InstructionsStep({ onNext, onBack }: InstructionsStepPro
       </div>
 
       {/* Progress indicator */}
-      {validation.isValid && (
+      {canProceed && (
         <div className="flex items-center gap-2 pt-4 border-t border-border text-sm text-success">
           <div className="w-2 h-2 rounded-full bg-success" />
           <span>Instructions ready! Click "Test" above to continue.</span>
@@ -0,0 +1,94 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Plus, X } from 'phosphor-react'
+import { Model, ScoreAggregation } from '@/lib/types'
+import ModelSearch from './ModelSearch'
+
+interface JudgePanelProps {
+  primaryJudge: Model
+  judges: Model[]
+  aggregation: ScoreAggregation
+  onJudgesChange: (judges: Model[]) => void
+  onAggregationChange: (aggregation: ScoreAggregation) => void
+}
+
+const AGGREGATION_OPTIONS: { value: ScoreAggregation; label: string }[] = [
+  { value: 'mean', label: 'Mean' },
+  { value: 'median', label: 'Median' },
+  { value: 'trimmedMean', label: 'Trimmed mean' }
+]
+
+/**
+ * Lets the user add judges that score alongside the evaluation model.
+ * With more than one judge, scores are combined using the chosen aggregation.
+ */
+export default function JudgePanel({ primaryJudge, judges, aggregation, onJudgesChange, onAggregationChange }: JudgePanelProps) {
+  const [showSearch, setShowSearch] = useState(false)
+
+  const addJudge = (model: Model) => {
+    if (model.id !== primaryJudge.id && !judges.some(judge => judge.id === model.id)) {
+      onJudgesChange([...judges, model])
+    }
+  }
+
+  const removeJudge = (modelId: string) => {
+    onJudgesChange(judges.filter(judge => judge.id !== modelId))
+  }
+
+  return (
+    <div className="space-y-3">
+      {judges.length > 0 && (
+        <ul className="space-y-2">
+          {judges.map(judge => (
+            <li key={judge.id} className="flex items-center justify-between p-2 border border-border rounded-md text-sm">
+              <span className="truncate">
+                {judge.name} <span className="text-xs text-muted-foreground">({judge.provider})</span>
+              </span>
+              <button
+                onClick={() => removeJudge(judge.id)}
+                className="p-1 text-muted-foreground hover:text-foreground"
+                aria-label={`Remove judge ${judge.name}`}
+              >
+                <X size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {judges.length > 0 && (
+        <div className="flex items-center gap-2">
+          <label htmlFor="judge-aggregation" className="text-xs text-muted-foreground">
+            Combine {judges.length + 1} judges using
+          </label>
+          <select
+            id="judge-aggregation"
+            value={aggregation}
+            onChange={(e) => onAggregationChange(e.target.value as ScoreAggregation)}
+            className="px-2 py-1 border border-input rounded-md text-xs bg-background"
+          >
+            {AGGREGATION_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {showSearch ? (
+        <ModelSearch
+          onClose={() => setShowSearch(false)}
+          onSelect={addJudge}
+        />
+      ) : (
+        <button
+          onClick={() => setShowSearch(true)}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs border border-border rounded-md hover:bg-muted/50 transition-colors"
+        >
+          <Plus size={12} />
+          Add judge
+        </button>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
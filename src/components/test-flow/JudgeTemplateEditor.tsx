@@ -0,0 +1,137 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Plus, ArrowCounterClockwise } from 'phosphor-react'
+import { JudgeTemplate } from '@/lib/types'
+import {
+  DEFAULT_JUDGE_TEMPLATE,
+  JUDGE_TEMPLATE_PLACEHOLDERS,
+  createJudgeTemplateId,
+  getJudgeTemplateVersionId,
+  getLatestJudgeTemplates,
+  resolveJudgeTemplate,
+  validateJudgeTemplate
+} from '@/lib/judgeTemplates'
+
+interface JudgeTemplateEditorProps {
+  templates: JudgeTemplate[]
+  activeId: string
+  onSelect: (id: string) => void
+  onSave: (template: JudgeTemplate) => void
+  disabled?: boolean
+}
+
+/**
+ * Editor for the wording sent to the judge model. Saving a change adds a
+ * new version rather than overwriting, so past runs stay traceable.
+ */
+export default function JudgeTemplateEditor({ templates, activeId, onSelect, onSave, disabled = false }: JudgeTemplateEditorProps) {
+  const active = resolveJudgeTemplate(templates, activeId)
+  const [draft, setDraft] = useState<JudgeTemplate>(active)
+
+  useEffect(() => {
+    setDraft(active)
+  }, [active])
+
+  const errors = validateJudgeTemplate(draft)
+  const isNew = !getLatestJudgeTemplates(templates).some(template => template.id === draft.id)
+  const isDirty = isNew || draft.name !== active.name || draft.systemPrompt !== active.systemPrompt || draft.prompt !== active.prompt
+
+  const createTemplate = () => {
+    const name = `${active.name} copy`
+    setDraft({ ...active, id: createJudgeTemplateId(name, templates), name, version: 0 })
+  }
+
+  const inputClasses = 'w-full p-2 border border-input rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary'
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Controls how the judge is briefed. The reply format is added automatically. Use{' '}
+        {JUDGE_TEMPLATE_PLACEHOLDERS.map(placeholder => `{{${placeholder}}}`).join(', ')} in the prompt.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={isNew ? '' : draft.id}
+          onChange={(e) => onSelect(e.target.value)}
+          aria-label="Judge template"
+          className="px-2 py-1.5 border border-input rounded-md text-xs bg-background"
+          disabled={disabled}
+        >
+          {isNew && <option value="">{draft.name} (unsaved)</option>}
+          {getLatestJudgeTemplates(templates).map(template => (
+            <option key={template.id} value={template.id}>
+              {template.name} (v{template.version})
+            </option>
+          ))}
+        </select>
+        {!isNew && (
+          <span className="text-xs text-muted-foreground">Version ID {getJudgeTemplateVersionId(active)}</span>
+        )}
+      </div>
+
+      <input
+        type="text"
+        value={draft.name}
+        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        placeholder="Template name"
+        aria-label="Template name"
+        className={inputClasses}
+        disabled={disabled}
+      />
+      <textarea
+        value={draft.systemPrompt}
+        onChange={(e) => setDraft({ ...draft, systemPrompt: e.target.value })}
+        placeholder="System prompt for the judge"
+        aria-label="Judge system prompt"
+        className={inputClasses}
+        rows={3}
+        disabled={disabled}
+      />
+      <textarea
+        value={draft.prompt}
+        onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+        placeholder="Evaluation prompt"
+        aria-label="Judge evaluation prompt"
+        className={`${inputClasses} font-mono`}
+        rows={10}
+        disabled={disabled}
+      />
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-destructive space-y-1">
+          {errors.map(error => (
+            <li key={error}>• {error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={createTemplate}
+          disabled={disabled}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs border border-border rounded-md hover:bg-muted/50 transition-colors disabled:opacity-50"
+        >
+          <Plus size={12} />
+          New template
+        </button>
+        <button
+          onClick={() => setDraft({ ...draft, systemPrompt: DEFAULT_JUDGE_TEMPLATE.systemPrompt, prompt: DEFAULT_JUDGE_TEMPLATE.prompt })}
+          disabled={disabled}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs border border-border rounded-md hover:bg-muted/50 transition-colors disabled:opacity-50"
+        >
+          <ArrowCounterClockwise size={12} />
+          Reset wording
+        </button>
+        <button
+          onClick={() => onSave(draft)}
+          disabled={disabled || !isDirty || errors.length > 0}
+          className="px-3 py-1.5 text-xs bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          {isNew ? 'Save template' : 'Save new version'}
+        </button>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
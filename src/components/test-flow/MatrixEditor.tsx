@@ -0,0 +1,209 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Plus, Trash, Play, X } from 'phosphor-react'
+import { InstructionVariant, MatrixConfig, Model, TestSuite } from '@/lib/types'
+import { createTestCase, DEFAULT_PASS_THRESHOLD } from '@/lib/suites'
+import {
+  MAX_MATRIX_EVALUATIONS,
+  MAX_MATRIX_MODELS,
+  MAX_MATRIX_VARIANTS,
+  createInstructionVariant,
+  validateMatrixConfig
+} from '@/lib/matrix'
+import ModelSearch from './ModelSearch'
+
+interface MatrixEditorProps {
+  models: Model[] // Starting models, usually the selected model
+  instructions: string // First variant
+  comparisonInstructions?: string // Second variant, when set
+  prompt: string // Prompt set when no suite is chosen
+  suites: TestSuite[] // Saved suites whose cases can be used as the prompt set
+  onRun: (matrixConfig: MatrixConfig) => void | Promise<void>
+  canRun?: boolean // False until the evaluation model is selected
+  disabled?: boolean
+}
+
+const inputClasses = 'w-full p-2 border border-input rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary'
+
+const initialVariants = (instructions: string, comparisonInstructions?: string): InstructionVariant[] => [
+  createInstructionVariant('A', instructions),
+  ...(comparisonInstructions?.trim() ? [createInstructionVariant('B', comparisonInstructions)] : [])
+]
+
+/**
+ * Setup for a matrix run: several models and instruction variants, run as
+ * every combination over the current prompt or a saved suite's cases.
+ */
+export default function MatrixEditor({
+  models: initialModels,
+  instructions,
+  comparisonInstructions,
+  prompt,
+  suites,
+  onRun,
+  canRun = true,
+  disabled = false
+}: MatrixEditorProps) {
+  const [models, setModels] = useState<Model[]>(initialModels)
+  const [variants, setVariants] = useState<InstructionVariant[]>(() => initialVariants(instructions, comparisonInstructions))
+  const [suiteId, setSuiteId] = useState('')
+  const [showSearch, setShowSearch] = useState(false)
+
+  const suite = suites.find(entry => entry.id === suiteId) || null
+  const matrixConfig: MatrixConfig = {
+    models,
+    variants,
+    prompts: suite ? suite.cases : [createTestCase(prompt)],
+    passThreshold: suite?.passThreshold ?? DEFAULT_PASS_THRESHOLD
+  }
+  const errors = validateMatrixConfig(matrixConfig)
+  const evaluations = models.length * variants.length * matrixConfig.prompts.length
+
+  const addModel = (model: Model) => {
+    if (!models.some(entry => entry.id === model.id)) {
+      setModels([...models, model])
+    }
+  }
+
+  const updateVariant = (index: number, variant: InstructionVariant) => {
+    setVariants(variants.map((entry, i) => (i === index ? variant : entry)))
+  }
+
+  const addVariant = () => {
+    setVariants([...variants, createInstructionVariant(String.fromCharCode(65 + variants.length), instructions)])
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Run every model with every instruction variant over a set of prompts, then compare score, cost and latency side by side.
+      </p>
+
+      {/* Models */}
+      <div className="space-y-2">
+        <h5 className="text-xs font-medium text-muted-foreground">Models ({models.length}/{MAX_MATRIX_MODELS})</h5>
+        {models.length > 0 && (
+          <ul className="space-y-2">
+            {models.map(model => (
+              <li key={model.id} className="flex items-center justify-between p-2 border border-border rounded-md text-sm bg-background">
+                <span className="truncate">
+                  {model.name} <span className="text-xs text-muted-foreground">({model.provider})</span>
+                </span>
+                <button
+                  onClick={() => setModels(models.filter(entry => entry.id !== model.id))}
+                  disabled={disabled}
+                  className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-50"
+                  aria-label={`Remove model ${model.name}`}
+                >
+                  <X size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {showSearch ? (
+          <ModelSearch
+            onClose={() => setShowSearch(false)}
+            onSelect={addModel}
+          />
+        ) : (
+          <button
+            onClick={() => setShowSearch(true)}
+            disabled={disabled || models.length >= MAX_MATRIX_MODELS}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs border border-border rounded-md hover:bg-muted/50 transition-colors disabled:opacity-50"
+          >
+            <Plus size={12} />
+            Add model
+          </button>
+        )}
+      </div>
+
+      {/* Instruction variants */}
+      <div className="space-y-2">
+        <h5 className="text-xs font-medium text-muted-foreground">Instruction variants ({variants.length}/{MAX_MATRIX_VARIANTS})</h5>
+        {variants.map((variant, index) => (
+          <div key={variant.id} className="space-y-2 p-3 border border-border rounded-lg bg-background">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={variant.label}
+                onChange={(e) => updateVariant(index, { ...variant, label: e.target.value })}
+                placeholder="Label"
+                aria-label={`Label for variant ${index + 1}`}
+                className={`${inputClasses} flex-1`}
+                disabled={disabled}
+              />
+              <button
+                onClick={() => setVariants(variants.filter((_, i) => i !== index))}
+                disabled={disabled}
+                aria-label={`Remove variant ${index + 1}`}
+                className="p-1 text-muted-foreground hover:text-destructive disabled:opacity-50"
+              >
+                <Trash size={14} />
+              </button>
+            </div>
+            <textarea
+              value={variant.instructions}
+              onChange={(e) => updateVariant(index, { ...variant, instructions: e.target.value })}
+              placeholder="System instructions"
+              aria-label={`Instructions for variant ${index + 1}`}
+              className={`${inputClasses} font-mono`}
+              rows={3}
+              disabled={disabled}
+            />
+          </div>
+        ))}
+        <button
+          onClick={addVariant}
+          disabled={disabled || variants.length >= MAX_MATRIX_VARIANTS}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs border border-border rounded-md hover:bg-muted/50 transition-colors disabled:opacity-50"
+        >
+          <Plus size={12} />
+          Add variant
+        </button>
+      </div>
+
+      {/* Prompt set */}
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor="matrix-prompts" className="text-xs font-medium text-muted-foreground">Prompts</label>
+        <select
+          id="matrix-prompts"
+          value={suiteId}
+          onChange={(e) => setSuiteId(e.target.value)}
+          className="px-2 py-1.5 border border-input rounded-md text-xs bg-background"
+          disabled={disabled}
+        >
+          <option value="">Current prompt</option>
+          {suites.map(entry => (
+            <option key={entry.id} value={entry.id}>
+              {entry.name} ({entry.cases.length} case{entry.cases.length !== 1 ? 's' : ''})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-destructive space-y-1">
+          {errors.map(error => (
+            <li key={error}>• {error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => onRun(matrixConfig)}
+          disabled={disabled || !canRun || errors.length > 0}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          <Play size={12} weight="fill" />
+          Run matrix ({models.length} × {variants.length})
+        </button>
+        <span className="text-xs text-muted-foreground">
+          {evaluations} of at most {MAX_MATRIX_EVALUATIONS} evaluations
+        </span>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,303 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Clock, CurrencyDollar, ArrowClockwise, CaretDown, CaretUp } from 'phosphor-react'
+import { useAppStore } from '@/lib/store'
+import { MatrixCell, TestRun } from '@/lib/types'
+import { LeaderboardKey, rankMatrixCells } from '@/lib/matrix'
+
+type HeatmapMetric = 'meanOverallScore' | 'totalCost' | 'meanLatency'
+
+const HEATMAP_METRICS: { value: HeatmapMetric; label: string }[] = [
+  { value: 'meanOverallScore', label: 'Score' },
+  { value: 'totalCost', label: 'Cost' },
+  { value: 'meanLatency', label: 'Latency' }
+]
+
+const LEADERBOARD_COLUMNS: { key: LeaderboardKey; label: string }[] = [
+  { key: 'meanOverallScore', label: 'Score' },
+  { key: 'passRate', label: 'Pass rate' },
+  { key: 'totalCost', label: 'Cost' },
+  { key: 'meanLatency', label: 'Latency' }
+]
+
+const getScoreColor = (score: number) => {
+  if (score >= 80) return 'text-green-600'
+  if (score >= 60) return 'text-yellow-600'
+  return 'text-red-600'
+}
+
+const formatMetric = (cell: MatrixCell, key: LeaderboardKey) => {
+  const value = cell[key]
+  if (value === null) return '—'
+  if (key === 'totalCost') return `$${value.toFixed(4)}`
+  if (key === 'meanLatency') return `${(value / 1000).toFixed(1)}s`
+  return `${value}%`
+}
+
+// Scores rank highest first and cost and latency lowest first, unless reversed
+const isDescending = (key: LeaderboardKey, reversed: boolean) =>
+  (key === 'meanOverallScore' || key === 'passRate') !== reversed
+
+const cellKey = (cell: MatrixCell) => `${cell.modelId}:${cell.variantId}`
+
+// Scores are shaded by value; cost and latency by where they fall between the cheapest and dearest cells
+const getHeatClass = (cells: MatrixCell[], cell: MatrixCell, metric: HeatmapMetric) => {
+  const value = cell[metric]
+  if (value === null) return 'bg-muted/30 text-muted-foreground'
+
+  let quality: number
+  if (metric === 'meanOverallScore') {
+    quality = value / 100
+  } else {
+    const values = cells.map(entry => entry[metric]).filter((entry): entry is number => entry !== null)
+    const min = Math.min(...values)
+    const max = Math.max(...values)
+    quality = max === min ? 1 : (max - value) / (max - min)
+  }
+
+  if (quality >= 0.8) return 'bg-green-100 dark:bg-green-950/40 text-green-800 dark:text-green-200'
+  if (quality >= 0.6) return 'bg-yellow-100 dark:bg-yellow-950/40 text-yellow-800 dark:text-yellow-200'
+  return 'bg-red-100 dark:bg-red-950/40 text-red-800 dark:text-red-200'
+}
+
+function CellRuns({ testRuns }: { testRuns: TestRun[] }) {
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  if (testRuns.length === 0) {
+    return <p className="text-xs text-muted-foreground">No responses were recorded for this combination.</p>
+  }
+
+  return (
+    <ul className="space-y-1">
+      {testRuns.map(testRun => (
+        <li key={testRun.id} className="bg-background rounded border text-sm">
+          <button
+            onClick={() => setExpandedId(expandedId === testRun.id ? null : testRun.id)}
+            className="flex items-center justify-between gap-4 w-full p-2 text-left"
+            aria-expanded={expandedId === testRun.id}
+          >
+            <span className="truncate">{testRun.prompt}</span>
+            <span className={`text-xs whitespace-nowrap ${testRun.metrics.evaluationError ? 'text-destructive' : getScoreColor(testRun.metrics.overallScore)}`}>
+              {testRun.metrics.evaluationError ? 'error' : `${testRun.metrics.overallScore}%`}
+            </span>
+          </button>
+          {expandedId === testRun.id && (
+            <div className="space-y-2 px-3 pb-3">
+              <div className="text-sm whitespace-pre-wrap bg-muted/30 rounded p-2 max-h-48 overflow-y-auto">
+                {testRun.response}
+              </div>
+              {testRun.metrics.explanation && (
+                <p className="text-xs text-muted-foreground">{testRun.metrics.explanation}</p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {(testRun.executionTime / 1000).toFixed(1)}s · ${testRun.cost.toFixed(4)} · Test run {testRun.id.slice(0, 8)}
+              </p>
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+/**
+ * Results view for a matrix run: a heatmap of every model and instruction
+ * variant, a sortable leaderboard, and the test runs behind each cell.
+ */
+export default function MatrixResults() {
+  const { currentTest, testHistory, setCurrentStep, resetCurrentTest } = useAppStore()
+  const [metric, setMetric] = useState<HeatmapMetric>('meanOverallScore')
+  const [sortKey, setSortKey] = useState<LeaderboardKey>('meanOverallScore')
+  const [reversed, setReversed] = useState(false)
+  const [selectedKey, setSelectedKey] = useState<string | null>(null)
+  const matrixRun = currentTest.matrixRun
+
+  if (!matrixRun) {
+    return null
+  }
+
+  const modelName = (modelId: string) => matrixRun.models.find(model => model.id === modelId)?.name || modelId
+  const variantLabel = (variantId: string) => matrixRun.variants.find(variant => variant.id === variantId)?.label || variantId
+  const findCell = (modelId: string, variantId: string) =>
+    matrixRun.cells.find(cell => cell.modelId === modelId && cell.variantId === variantId)
+
+  const leaderboard = rankMatrixCells(matrixRun.cells, sortKey, reversed)
+  const selectedCell = matrixRun.cells.find(cell => cellKey(cell) === selectedKey) || null
+  const knownRuns = [...(currentTest.matrixTestRuns || []), ...(testHistory || [])]
+  const selectedRuns = selectedCell
+    ? selectedCell.testRunIds
+      .map(testRunId => knownRuns.find(testRun => testRun.id === testRunId))
+      .filter((testRun): testRun is TestRun => !!testRun)
+    : []
+
+  const sortBy = (key: LeaderboardKey) => {
+    if (key === sortKey) {
+      setReversed(!reversed)
+    } else {
+      setSortKey(key)
+      setReversed(false)
+    }
+  }
+
+  const toggleCell = (cell: MatrixCell) => {
+    setSelectedKey(selectedKey === cellKey(cell) ? null : cellKey(cell))
+  }
+
+  const handleNewTest = () => {
+    resetCurrentTest()
+    setCurrentStep(0)
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Heatmap */}
+      <div className="p-4 border border-border rounded-lg space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="text-lg font-semibold">
+            Matrix: {matrixRun.models.length} model{matrixRun.models.length !== 1 ? 's' : ''} × {matrixRun.variants.length} variant{matrixRun.variants.length !== 1 ? 's' : ''}
+          </h3>
+          <div className="flex gap-1" role="group" aria-label="Heatmap metric">
+            {HEATMAP_METRICS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setMetric(option.value)}
+                aria-pressed={metric === option.value}
+                className={`px-2 py-1 text-xs rounded-md border ${metric === option.value ? 'bg-primary text-primary-foreground border-primary' : 'border-border hover:bg-muted/50'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {matrixRun.prompts.length} prompt{matrixRun.prompts.length !== 1 ? 's' : ''} per cell. Select a cell to see its test runs.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm border-separate border-spacing-1">
+            <thead>
+              <tr>
+                <th className="text-left text-xs font-medium text-muted-foreground">Model</th>
+                {matrixRun.variants.map(variant => (
+                  <th key={variant.id} className="text-center text-xs font-medium text-muted-foreground" title={variant.instructions}>
+                    {variant.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {matrixRun.models.map(model => (
+                <tr key={model.id}>
+                  <th scope="row" className="text-left text-xs font-medium pr-2 whitespace-nowrap">{model.name}</th>
+                  {matrixRun.variants.map(variant => {
+                    const cell = findCell(model.id, variant.id)
+                    if (!cell) {
+                      return <td key={variant.id} />
+                    }
+                    return (
+                      <td key={variant.id}>
+                        <button
+                          onClick={() => toggleCell(cell)}
+                          aria-pressed={selectedKey === cellKey(cell)}
+                          aria-label={`${model.name} with ${variant.label}`}
+                          className={`w-full px-3 py-2 rounded font-medium ${getHeatClass(matrixRun.cells, cell, metric)} ${selectedKey === cellKey(cell) ? 'ring-2 ring-primary' : ''}`}
+                        >
+                          {formatMetric(cell, metric)}
+                          {cell.errors > 0 && <span className="block text-[10px] font-normal">{cell.errors} error{cell.errors !== 1 ? 's' : ''}</span>}
+                        </button>
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Selected cell's test runs */}
+      {selectedCell && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">
+            {modelName(selectedCell.modelId)} · {variantLabel(selectedCell.variantId)}: {selectedRuns.length} test run{selectedRuns.length !== 1 ? 's' : ''}
+          </h4>
+          <CellRuns testRuns={selectedRuns} />
+        </div>
+      )}
+
+      {/* Leaderboard */}
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Leaderboard</h4>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border text-xs text-muted-foreground">
+                <th className="text-left py-2 px-2 font-medium">#</th>
+                <th className="text-left py-2 px-2 font-medium">Model</th>
+                <th className="text-left py-2 px-2 font-medium">Variant</th>
+                {LEADERBOARD_COLUMNS.map(column => (
+                  <th
+                    key={column.key}
+                    className="text-right py-2 px-2 font-medium"
+                    aria-sort={sortKey === column.key ? (isDescending(column.key, reversed) ? 'descending' : 'ascending') : undefined}
+                  >
+                    <button onClick={() => sortBy(column.key)} className="inline-flex items-center gap-1 hover:text-foreground">
+                      {column.label}
+                      {sortKey === column.key && (isDescending(column.key, reversed) ? <CaretDown size={10} /> : <CaretUp size={10} />)}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {leaderboard.map((cell, index) => (
+                <tr
+                  key={cellKey(cell)}
+                  onClick={() => toggleCell(cell)}
+                  className={`border-b border-border/50 cursor-pointer hover:bg-muted/30 ${selectedKey === cellKey(cell) ? 'bg-muted/50' : ''}`}
+                >
+                  <td className="py-2 px-2 text-muted-foreground">{index + 1}</td>
+                  <td className="py-2 px-2">{modelName(cell.modelId)}</td>
+                  <td className="py-2 px-2">{variantLabel(cell.variantId)}</td>
+                  {LEADERBOARD_COLUMNS.map(column => (
+                    <td key={column.key} className="py-2 px-2 text-right">{formatMetric(cell, column.key)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Run details */}
+      <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <Clock size={14} />
+          {(matrixRun.executionTime / 1000).toFixed(1)}s
+        </span>
+        <span className="flex items-center gap-1">
+          <CurrencyDollar size={14} />
+          ${matrixRun.cost.toFixed(4)}
+        </span>
+        <span>Pass at {matrixRun.passThreshold}%</span>
+      </div>
+
+      {/* Actions */}
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => setCurrentStep(2)}
+          className="flex items-center gap-2 px-4 py-2 border border-border rounded-md hover:bg-muted/50 transition-colors"
+        >
+          <ArrowClockwise size={16} />
+          Back to Matrix
+        </button>
+        <button
+          onClick={handleNewTest}
+          className="px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors"
+        >
+          New Test
+        </button>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -11,9 +11,10 @@ import { ModelSearchSkeleton } from '@/components/ui/LoadingStates'
 interface ModelSearchProps {
   onClose: () => void
   isEvaluationModel?: boolean
+  onSelect?: (model: Model) => void // Overrides the default store selection
 }
 
-export default function ModelSearch({ onClose, isEvaluationModel = false }: ModelSearchProps) {
+export default function ModelSearch({ onClose, isEvaluationModel = false, onSelect }: ModelSearchProps) {
   const { availableModels, isLoading, fetchModels, searchModels, selectModel, selectEvaluationModel } = useAppStore()
   const [searchQuery, setSearchQuery] = useState('')
   const [isSearching, setIsSearching] = useState(false)
@@ -68,7 +69,10 @@ export default function ModelSearch({ onClose, isEvaluationModel = false }: Mode
   // Removed focus management to prevent interference
 
   const handleModelSelect = (model: Model) => {
-    if (isEvaluationModel) {
+    if (onSelect) {
+      onSelect(model)
+      announceToScreenReader(`Selected model: ${model.name} by ${model.provider}`)
+    } else if (isEvaluationModel) {
       selectEvaluationModel(model)
       announceToScreenReader(`Selected evaluation model: ${model.name} by ${model.provider}`)
     } else {
@@ -174,7 +178,7 @@ export default function ModelSearch({ onClose, isEvaluationModel = false }: Mode
           <div className="divide-y divide-border">
             {filteredModels.map((model, index) => (
               <button
-                key={model.id}
+                key={`${model.providerId || ''}:${model.id}`}
                 data-model-button
                 onClick={() => handleModelSelect(model)}
                 className="w-full p-4 text-left hover:bg-accent transition-colors focus:outline-none focus:bg-accent focus-visible-enhanced"
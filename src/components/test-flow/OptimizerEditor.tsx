@@ -0,0 +1,130 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Play } from 'phosphor-react'
+import { OptimizerConfig, TestSuite } from '@/lib/types'
+import { createTestCase, DEFAULT_PASS_THRESHOLD } from '@/lib/suites'
+import {
+  DEFAULT_OPTIMIZER_BUDGET,
+  DEFAULT_OPTIMIZER_ROUNDS,
+  MAX_OPTIMIZER_EVALUATIONS,
+  MAX_OPTIMIZER_ROUNDS,
+  validateOptimizerConfig
+} from '@/lib/optimizer'
+
+interface OptimizerEditorProps {
+  instructions: string // Starting instructions
+  prompt: string // Prompt set when no suite is chosen
+  suites: TestSuite[] // Saved suites whose cases can be used as the prompt set
+  optimizerModelName?: string // Model that proposes the revisions
+  onRun: (optimizerConfig: OptimizerConfig) => void | Promise<void>
+  canRun?: boolean // False until the evaluation model is selected
+  disabled?: boolean
+}
+
+const inputClasses = 'w-24 p-2 border border-input rounded-md text-sm text-center focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary'
+
+/**
+ * Setup for an optimizer run: the prompt set to score against and how many
+ * rounds and dollars the optimizer may spend improving the instructions.
+ */
+export default function OptimizerEditor({
+  instructions,
+  prompt,
+  suites,
+  optimizerModelName,
+  onRun,
+  canRun = true,
+  disabled = false
+}: OptimizerEditorProps) {
+  const [suiteId, setSuiteId] = useState('')
+  const [maxRounds, setMaxRounds] = useState(DEFAULT_OPTIMIZER_ROUNDS)
+  const [maxCost, setMaxCost] = useState(DEFAULT_OPTIMIZER_BUDGET)
+
+  const suite = suites.find(entry => entry.id === suiteId) || null
+  const optimizerConfig: OptimizerConfig = {
+    instructions,
+    prompts: suite ? suite.cases : [createTestCase(prompt)],
+    maxRounds,
+    maxCost,
+    passThreshold: suite?.passThreshold ?? DEFAULT_PASS_THRESHOLD
+  }
+  const errors = validateOptimizerConfig(optimizerConfig)
+  const evaluations = (maxRounds + 1) * optimizerConfig.prompts.length
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        {optimizerModelName || 'The evaluation model'} reads the judge&apos;s explanations and failed checks, proposes revised instructions, and each revision is scored over the same prompts. The best scoring instructions are revised again each round.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <label htmlFor="optimizer-prompts" className="block text-xs font-medium text-muted-foreground">Prompts</label>
+          <select
+            id="optimizer-prompts"
+            value={suiteId}
+            onChange={(e) => setSuiteId(e.target.value)}
+            className="px-2 py-2 border border-input rounded-md text-xs bg-background"
+            disabled={disabled}
+          >
+            <option value="">Current prompt</option>
+            {suites.map(entry => (
+              <option key={entry.id} value={entry.id}>
+                {entry.name} ({entry.cases.length} case{entry.cases.length !== 1 ? 's' : ''})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="optimizer-rounds" className="block text-xs font-medium text-muted-foreground">Rounds</label>
+          <input
+            id="optimizer-rounds"
+            type="number"
+            min={1}
+            max={MAX_OPTIMIZER_ROUNDS}
+            value={maxRounds}
+            onChange={(e) => setMaxRounds(Math.floor(Number(e.target.value) || 0))}
+            className={inputClasses}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="optimizer-budget" className="block text-xs font-medium text-muted-foreground">Budget ($)</label>
+          <input
+            id="optimizer-budget"
+            type="number"
+            min={0}
+            step={0.1}
+            value={maxCost}
+            onChange={(e) => setMaxCost(Number(e.target.value) || 0)}
+            className={inputClasses}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-destructive space-y-1">
+          {errors.map(error => (
+            <li key={error}>• {error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => onRun(optimizerConfig)}
+          disabled={disabled || !canRun || errors.length > 0}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          <Play size={12} weight="fill" />
+          Optimize instructions
+        </button>
+        <span className="text-xs text-muted-foreground">
+          Up to {evaluations} of at most {MAX_OPTIMIZER_EVALUATIONS} evaluations. The run stops before a round that would go over the budget, and starts no more prompts once the budget is spent.
+        </span>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
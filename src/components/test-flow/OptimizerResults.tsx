@@ -0,0 +1,248 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Clock, CurrencyDollar, ArrowClockwise, Check } from 'phosphor-react'
+import { useAppStore } from '@/lib/store'
+import { OptimizerCandidate } from '@/lib/types'
+import { ImprovementPoint, getImprovementCurve } from '@/lib/optimizer'
+import { diffLines, formatInstructionVersion } from '@/lib/instructionVersions'
+
+const CHART_WIDTH = 480
+const CHART_HEIGHT = 160
+const CHART_PADDING = 24
+
+const STOP_REASONS = {
+  rounds: 'Stopped after the last round',
+  budget: 'Stopped early to stay within the budget'
+}
+
+const getScoreColor = (score: number) => {
+  if (score >= 80) return 'text-green-600'
+  if (score >= 60) return 'text-yellow-600'
+  return 'text-red-600'
+}
+
+const candidateLabel = (candidate: OptimizerCandidate) =>
+  candidate.round === 0 ? 'Start' : `Round ${candidate.round}`
+
+/**
+ * Score of each round's candidate, with the best score so far as a second line
+ */
+function ImprovementCurve({ points, maxRound }: { points: ImprovementPoint[]; maxRound: number }) {
+  if (points.length === 0) {
+    return <p className="text-sm text-muted-foreground">No candidate was scored.</p>
+  }
+
+  const x = (round: number) => CHART_PADDING + (maxRound > 0 ? (round / maxRound) * (CHART_WIDTH - 2 * CHART_PADDING) : 0)
+  const y = (score: number) => CHART_HEIGHT - CHART_PADDING - (score / 100) * (CHART_HEIGHT - 2 * CHART_PADDING)
+  const line = (key: 'score' | 'bestScore') => points.map(point => `${x(point.round)},${y(point[key])}`).join(' ')
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label={`Improvement curve from ${points[0].score}% to ${points[points.length - 1].bestScore}%`}
+    >
+      {[0, 50, 100].map(score => (
+        <g key={score}>
+          <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={y(score)} y2={y(score)} stroke="currentColor" className="text-muted/40" />
+          <text x={CHART_PADDING - 4} y={y(score) + 3} textAnchor="end" fontSize={9} fill="currentColor" className="text-muted-foreground">{score}</text>
+        </g>
+      ))}
+      <polyline points={line('bestScore')} fill="none" stroke="currentColor" strokeWidth={2} className="text-primary" />
+      <polyline points={line('score')} fill="none" stroke="currentColor" strokeDasharray="4 3" className="text-muted-foreground" />
+      {points.map(point => (
+        <g key={point.round}>
+          <circle cx={x(point.round)} cy={y(point.score)} r={3} fill="currentColor" className={getScoreColor(point.score)} />
+          <text x={x(point.round)} y={CHART_HEIGHT - 6} textAnchor="middle" fontSize={9} fill="currentColor" className="text-muted-foreground">{point.round}</text>
+        </g>
+      ))}
+    </svg>
+  )
+}
+
+/**
+ * Results view for an optimizer run: the improvement curve, every candidate
+ * with its score, and a diff of the chosen candidate against the starting
+ * instructions, which can be accepted as a new instruction version.
+ */
+export default function OptimizerResults() {
+  const { currentTest, instructionDocuments, setCurrentStep, resetCurrentTest, acceptOptimizerCandidate } = useAppStore()
+  const optimizerRun = currentTest.optimizerRun
+  const [selectedId, setSelectedId] = useState<string | null>(optimizerRun?.bestCandidateId || null)
+  const [accepting, setAccepting] = useState(false)
+
+  if (!optimizerRun) {
+    return null
+  }
+
+  const start = optimizerRun.candidates[0]
+  const best = optimizerRun.candidates.find(candidate => candidate.id === optimizerRun.bestCandidateId)
+  const selected = optimizerRun.candidates.find(candidate => candidate.id === selectedId) || best || start
+  const diff = start && selected ? diffLines(start.instructions, selected.instructions) : []
+  const startScore = start?.summary?.meanOverallScore
+  const bestScore = best?.summary?.meanOverallScore
+
+  const handleAccept = async () => {
+    if (!selected) return
+    setAccepting(true)
+    try {
+      await acceptOptimizerCandidate(selected.id)
+    } finally {
+      setAccepting(false)
+    }
+  }
+
+  const handleNewTest = () => {
+    resetCurrentTest()
+    setCurrentStep(0)
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Improvement curve */}
+      <div className="p-4 border border-border rounded-lg space-y-3">
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <h3 className="text-lg font-semibold">Instruction Optimizer</h3>
+          {startScore !== null && startScore !== undefined && bestScore !== null && bestScore !== undefined && (
+            <span className="text-sm">
+              <span className={getScoreColor(startScore)}>{startScore}%</span>
+              {' → '}
+              <span className={`font-semibold ${getScoreColor(bestScore)}`}>{bestScore}%</span>
+            </span>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {optimizerRun.prompts.length} prompt{optimizerRun.prompts.length !== 1 ? 's' : ''} per candidate. The solid line is the best score so far; dots are each round&apos;s candidate.
+          {optimizerRun.stopReason && ` ${STOP_REASONS[optimizerRun.stopReason]}.`}
+        </p>
+        <ImprovementCurve
+          points={getImprovementCurve(optimizerRun.candidates)}
+          maxRound={Math.max(1, ...optimizerRun.candidates.map(candidate => candidate.round))}
+        />
+      </div>
+
+      {/* Candidates */}
+      <div className="p-4 border border-border rounded-lg space-y-3">
+        <h4 className="text-sm font-medium">Candidates</h4>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-muted-foreground border-b border-border">
+                <th className="py-2 px-2 font-medium">Round</th>
+                <th className="py-2 px-2 font-medium">Change</th>
+                <th className="py-2 px-2 font-medium text-right">Score</th>
+                <th className="py-2 px-2 font-medium text-right">Pass rate</th>
+                <th className="py-2 px-2 font-medium text-right">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {optimizerRun.candidates.map(candidate => (
+                <tr
+                  key={candidate.id}
+                  onClick={() => setSelectedId(candidate.id)}
+                  aria-selected={selected?.id === candidate.id}
+                  className={`border-b border-border/50 cursor-pointer hover:bg-muted/30 ${selected?.id === candidate.id ? 'bg-muted/50' : ''}`}
+                >
+                  <td className="py-2 px-2 whitespace-nowrap">
+                    {candidateLabel(candidate)}
+                    {candidate.id === optimizerRun.bestCandidateId && <span className="ml-1 text-xs text-primary">Best</span>}
+                  </td>
+                  <td className="py-2 px-2 text-xs">
+                    {candidate.status === 'rejected'
+                      ? <span className="text-muted-foreground">Not scored: {candidate.error}</span>
+                      : candidate.rationale || <span className="text-muted-foreground">Starting instructions</span>}
+                  </td>
+                  <td className="py-2 px-2 text-right">
+                    {candidate.summary?.meanOverallScore !== null && candidate.summary?.meanOverallScore !== undefined
+                      ? <span className={getScoreColor(candidate.summary.meanOverallScore)}>{candidate.summary.meanOverallScore}%</span>
+                      : '—'}
+                  </td>
+                  <td className="py-2 px-2 text-right">{candidate.summary ? `${candidate.summary.passRate}%` : '—'}</td>
+                  <td className="py-2 px-2 text-right">${candidate.cost.toFixed(4)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Selected candidate */}
+      {selected && (
+        <div className="p-4 border border-border rounded-lg space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h4 className="text-sm font-medium">{candidateLabel(selected)} compared with the starting instructions</h4>
+            {optimizerRun.acceptedVersion ? (
+              <span className="flex items-center gap-1 text-xs text-green-600">
+                <Check size={12} />
+                Saved as {formatInstructionVersion(instructionDocuments || [], optimizerRun.acceptedVersion)}
+              </span>
+            ) : (
+              <button
+                onClick={handleAccept}
+                disabled={accepting || selected.status !== 'complete'}
+                className="flex items-center gap-1 px-3 py-1.5 text-xs bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                <Check size={12} />
+                Accept as new version
+              </button>
+            )}
+          </div>
+          <pre className="max-h-64 overflow-auto p-2 bg-background rounded border text-xs font-mono whitespace-pre-wrap" aria-label="Candidate diff">
+            {diff.every(line => line.type === 'unchanged') ? (
+              <span className="text-muted-foreground">Same as the starting instructions</span>
+            ) : (
+              diff.map((line, index) => (
+                <div
+                  key={index}
+                  className={
+                    line.type === 'added'
+                      ? 'bg-success/10 text-success'
+                      : line.type === 'removed'
+                        ? 'bg-destructive/10 text-destructive'
+                        : 'text-muted-foreground'
+                  }
+                >
+                  {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                  {line.text}
+                </div>
+              ))
+            )}
+          </pre>
+        </div>
+      )}
+
+      {/* Run details */}
+      <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <Clock size={14} />
+          {(optimizerRun.executionTime / 1000).toFixed(1)}s
+        </span>
+        <span className="flex items-center gap-1">
+          <CurrencyDollar size={14} />
+          ${optimizerRun.cost.toFixed(4)} of ${optimizerRun.maxCost.toFixed(2)}
+        </span>
+        <span>Revisions by {optimizerRun.optimizerModel}</span>
+        <span>Pass at {optimizerRun.passThreshold}%</span>
+      </div>
+
+      {/* Actions */}
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => setCurrentStep(2)}
+          className="flex items-center gap-2 px-4 py-2 border border-border rounded-md hover:bg-muted/50 transition-colors"
+        >
+          <ArrowClockwise size={16} />
+          Back to Test
+        </button>
+        <button
+          onClick={handleNewTest}
+          className="px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors"
+        >
+          New Test
+        </button>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,157 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Plus, X } from 'phosphor-react'
+import { ProviderConfig, ProviderKind } from '@/lib/types'
+import { AppError } from '@/lib/errorHandling'
+import { PROVIDER_KINDS, createProvider, createProviderId } from '@/services/providers'
+
+interface ProviderSettingsProps {
+  providers: ProviderConfig[]
+  onChange: (providers: ProviderConfig[]) => void
+}
+
+const emptyDraft = (): Omit<ProviderConfig, 'id'> => ({
+  name: '',
+  kind: 'openai-compatible',
+  baseUrl: PROVIDER_KINDS[0].defaultBaseUrl,
+  apiKey: ''
+})
+
+/**
+ * Lets the user add providers besides OpenRouter. Their models are listed
+ * alongside OpenRouter's, so the test model and judges can each come from
+ * any provider.
+ */
+export default function ProviderSettings({ providers, onChange }: ProviderSettingsProps) {
+  const [draft, setDraft] = useState(emptyDraft)
+  const [showForm, setShowForm] = useState(false)
+  const [isChecking, setIsChecking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const changeKind = (kind: ProviderKind) => {
+    const defaultBaseUrl = PROVIDER_KINDS.find(option => option.value === kind)?.defaultBaseUrl || ''
+    setDraft({ ...draft, kind, baseUrl: defaultBaseUrl })
+  }
+
+  const addProvider = async () => {
+    const config: ProviderConfig = {
+      ...draft,
+      id: createProviderId(draft.name, providers),
+      name: draft.name.trim(),
+      baseUrl: draft.baseUrl.trim()
+    }
+
+    setIsChecking(true)
+    setError(null)
+    try {
+      if (!(await createProvider(config).validateApiKey(config.apiKey))) {
+        setError(`${config.name} rejected the API key`)
+        return
+      }
+      onChange([...providers, config])
+      setDraft(emptyDraft())
+      setShowForm(false)
+    } catch (err) {
+      setError((err as AppError).message || `Could not reach ${config.name}`)
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  const inputClasses = 'w-full p-2 border border-input rounded-md text-sm bg-background focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary'
+
+  return (
+    <div className="space-y-3">
+      {providers.length > 0 && (
+        <ul className="space-y-2">
+          {providers.map(provider => (
+            <li key={provider.id} className="flex items-center justify-between p-2 border border-border rounded-md text-sm">
+              <span className="truncate">
+                {provider.name}{' '}
+                <span className="text-xs text-muted-foreground">
+                  ({PROVIDER_KINDS.find(option => option.value === provider.kind)?.label} · {provider.baseUrl})
+                </span>
+              </span>
+              <button
+                onClick={() => onChange(providers.filter(other => other.id !== provider.id))}
+                className="p-1 text-muted-foreground hover:text-foreground"
+                aria-label={`Remove provider ${provider.name}`}
+              >
+                <X size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {showForm ? (
+        <div className="space-y-2 p-3 border border-border rounded-md">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Name, e.g. OpenAI"
+              aria-label="Provider name"
+              className={inputClasses}
+            />
+            <select
+              value={draft.kind}
+              onChange={(e) => changeKind(e.target.value as ProviderKind)}
+              aria-label="Provider API"
+              className={inputClasses}
+            >
+              {PROVIDER_KINDS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <input
+            type="url"
+            value={draft.baseUrl}
+            onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })}
+            placeholder="Base URL"
+            aria-label="Provider base URL"
+            className={inputClasses}
+          />
+          <input
+            type="password"
+            value={draft.apiKey}
+            onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+            placeholder="API key (leave empty if the server needs none)"
+            aria-label="Provider API key"
+            autoComplete="off"
+            className={inputClasses}
+          />
+
+          {error && <p className="text-xs text-destructive">{error}</p>}
+
+          <div className="flex gap-2">
+            <button
+              onClick={addProvider}
+              disabled={isChecking || !draft.name.trim() || !draft.baseUrl.trim()}
+              className="px-3 py-1.5 text-xs bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              {isChecking ? 'Checking...' : 'Add provider'}
+            </button>
+            <button
+              onClick={() => { setShowForm(false); setError(null) }}
+              className="px-3 py-1.5 text-xs border border-border rounded-md hover:bg-muted/50 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setShowForm(true)}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs border border-border rounded-md hover:bg-muted/50 transition-colors"
+        >
+          <Plus size={12} />
+          Add provider
+        </button>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
@@ -1,10 +1,19 @@
 'use client'
 
 import React, { useEffect, useState } from 'react'
-import { CheckCircle, Clock, CurrencyDollar, Hash, ArrowClockwise, Download, Copy, CaretDown, CaretRight } from 'phosphor-react'
+import { CheckCircle, XCircle, Clock, CurrencyDollar, Hash, ArrowClockwise, Download, Copy, CaretDown, CaretRight } from 'phosphor-react'
 import { useAppStore } from '@/lib/store'
 import { ExportModal } from '@/components/modals'
-import { TestRun } from '@/lib/types'
+import ComparisonResults from './ComparisonResults'
+import SuiteResults from './SuiteResults'
+import MatrixResults from './MatrixResults'
+import OptimizerResults from './OptimizerResults'
+import AblationResults from './AblationResults'
+import { TestRun, ConversationTurn, TurnScore, EnsembleSummary, SamplingSummary, MetricStatistics, AssertionResult } from '@/lib/types'
+
+const CRITERION_COLORS = ['bg-blue-500', 'bg-green-500', 'bg-purple-500', 'bg-orange-500', 'bg-pink-500', 'bg-teal-500']
+
+const getCriterionColor = (index: number) => CRITERION_COLORS[index % CRITERION_COLORS.length]
 
 interface AnimatedCounterProps {
   value: number
@@ -175,6 +184,165 @@ function StatCard({ icon, label, value, suffix = '', decimals = 0 }: StatCardPro
   )
 }
 
+interface ConversationTranscriptProps {
+  conversation: ConversationTurn[]
+  turnScores?: TurnScore[]
+}
+
+function ConversationTranscript({ conversation, turnScores = [] }: ConversationTranscriptProps) {
+  let assistantTurn = 0
+
+  return (
+    <div className="space-y-2">
+      {conversation.map((turn, index) => {
+        const turnScore = turn.role === 'assistant' && !turn.scripted
+          ? turnScores.find(score => score.turn === ++assistantTurn)
+          : undefined
+        const label = turn.role === 'user' ? 'User' : turn.scripted ? 'Scripted reply · not scored' : `Model · Turn ${assistantTurn}`
+
+        return (
+          <div
+            key={index}
+            className={`rounded border p-3 ${turn.role === 'user' || turn.scripted ? 'bg-background' : 'bg-primary/5 border-primary/20'}`}
+          >
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs font-medium text-muted-foreground">
+                {label}
+              </span>
+              {turnScore && (
+                <span className="text-xs font-medium text-foreground" title={turnScore.explanation}>
+                  Adherence {turnScore.instructionAdherenceScore}%
+                </span>
+              )}
+            </div>
+            <p className="text-sm text-foreground font-mono whitespace-pre-wrap">
+              {turn.content}
+            </p>
+            {turnScore?.explanation && (
+              <p className="text-xs text-muted-foreground mt-2">{turnScore.explanation}</p>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+const AGGREGATION_LABELS: Record<EnsembleSummary['aggregation'], string> = {
+  mean: 'mean',
+  median: 'median',
+  trimmedMean: 'trimmed mean'
+}
+
+interface JudgeBreakdownProps {
+  ensemble: EnsembleSummary
+}
+
+function JudgeBreakdown({ ensemble }: JudgeBreakdownProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+        <span>Combined by {AGGREGATION_LABELS[ensemble.aggregation]}</span>
+        <span>Spread <span className="font-medium text-foreground">{ensemble.spread} pts</span></span>
+        <span>Agreement <span className="font-medium text-foreground">{ensemble.agreement}%</span></span>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-muted-foreground">
+              <th className="text-left font-medium py-1 pr-3">Judge</th>
+              <th className="text-center font-medium py-1 px-2">Overall</th>
+              {ensemble.judges[0]?.metrics.criterionScores.map(score => (
+                <th key={score.criterionId} className="text-center font-medium py-1 px-2">{score.name}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {ensemble.judges.map(judge => (
+              <tr key={judge.modelId} className="border-t border-border">
+                <td className="py-1 pr-3 text-foreground" title={judge.metrics.explanation}>{judge.modelName}</td>
+                <td className="py-1 px-2 text-center font-medium text-foreground">{judge.metrics.overallScore}%</td>
+                {judge.metrics.criterionScores.map(score => (
+                  <td key={score.criterionId} className="py-1 px-2 text-center text-muted-foreground">{score.normalizedScore}%</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {ensemble.failedJudges && ensemble.failedJudges.length > 0 && (
+        <p className="text-xs text-destructive">
+          No score from: {ensemble.failedJudges.join(', ')}
+        </p>
+      )}
+    </div>
+  )
+}
+
+interface AssertionChecklistProps {
+  results: AssertionResult[]
+}
+
+function AssertionChecklist({ results }: AssertionChecklistProps) {
+  return (
+    <ul className="space-y-2">
+      {results.map(result => (
+        <li key={result.assertionId} className="flex items-start gap-2 text-sm">
+          {result.passed ? (
+            <CheckCircle size={16} weight="fill" className="text-green-600 mt-0.5 flex-shrink-0" />
+          ) : (
+            <XCircle size={16} weight="fill" className="text-red-600 mt-0.5 flex-shrink-0" />
+          )}
+          <div className="min-w-0">
+            <div className="text-foreground break-words">{result.description}</div>
+            <div className="text-xs text-muted-foreground break-words">{result.message}</div>
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+interface SamplingTableProps {
+  sampling: SamplingSummary
+}
+
+function SamplingTable({ sampling }: SamplingTableProps) {
+  const rows: { label: string; statistics: MetricStatistics }[] = [
+    { label: 'Overall', statistics: sampling.overall },
+    ...sampling.criteria.map(criterion => ({ label: criterion.name, statistics: criterion.statistics }))
+  ]
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-muted-foreground">
+            <th className="text-left font-medium py-1 pr-3">Metric</th>
+            <th className="text-center font-medium py-1 px-2">Mean</th>
+            <th className="text-center font-medium py-1 px-2">SD</th>
+            <th className="text-center font-medium py-1 px-2">Min–Max</th>
+            <th className="text-center font-medium py-1 px-2">95% CI</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ label, statistics }) => (
+            <tr key={label} className="border-t border-border">
+              <td className="py-1 pr-3 text-foreground">{label}</td>
+              <td className="py-1 px-2 text-center font-medium text-foreground">{statistics.mean}</td>
+              <td className="py-1 px-2 text-center text-muted-foreground">{statistics.standardDeviation}</td>
+              <td className="py-1 px-2 text-center text-muted-foreground">{statistics.min}–{statistics.max}</td>
+              <td className="py-1 px-2 text-center text-muted-foreground">
+                {statistics.confidenceInterval.lower}–{statistics.confidenceInterval.upper}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
 interface HistoryTestCardProps {
   test: TestRun
   testNumber: number
@@ -227,34 +395,18 @@ function HistoryTestCard({ test, testNumber }: HistoryTestCardProps) {
         <div className="grid grid-cols-5 gap-2 mb-2">
           <div className="text-center">
             <div className="text-xs text-muted-foreground">Overall</div>
-            <div className={`text-sm font-medium ${getScoreColor(test.metrics.overallScore)}`}>
-              {test.metrics.overallScore}%
-            </div>
-          </div>
-          <div className="text-center">
-            <div className="text-xs text-muted-foreground">Coherence</div>
-            <div className={`text-sm font-medium ${getScoreColor(test.metrics.coherenceScore)}`}>
-              {test.metrics.coherenceScore}%
-            </div>
-          </div>
-          <div className="text-center">
-            <div className="text-xs text-muted-foreground">Task</div>
-            <div className={`text-sm font-medium ${getScoreColor(test.metrics.taskCompletionScore)}`}>
-              {test.metrics.taskCompletionScore}%
+            <div className={`text-sm font-medium ${test.metrics.evaluationError ? 'text-muted-foreground' : getScoreColor(test.metrics.overallScore)}`}>
+              {test.metrics.evaluationError ? 'Failed' : `${test.metrics.overallScore}%`}
             </div>
           </div>
-          <div className="text-center">
-            <div className="text-xs text-muted-foreground">Adherence</div>
-            <div className={`text-sm font-medium ${getScoreColor(test.metrics.instructionAdherenceScore)}`}>
-              {test.metrics.instructionAdherenceScore}%
-            </div>
-          </div>
-          <div className="text-center">
-            <div className="text-xs text-muted-foreground">Efficiency</div>
-            <div className={`text-sm font-medium ${getScoreColor(test.metrics.efficiencyScore)}`}>
-              {test.metrics.efficiencyScore}%
+          {test.metrics.criterionScores.slice(0, 4).map(score => (
+            <div key={score.criterionId} className="text-center">
+              <div className="text-xs text-muted-foreground truncate" title={score.name}>{score.name}</div>
+              <div className={`text-sm font-medium ${getScoreColor(score.normalizedScore)}`}>
+                {score.normalizedScore}%
+              </div>
             </div>
-          </div>
+          ))}
         </div>
 
         {/* Performance Row */}
@@ -263,6 +415,14 @@ function HistoryTestCard({ test, testNumber }: HistoryTestCardProps) {
             {test.prompt}
           </p>
           <div className="flex items-center gap-3 text-xs text-muted-foreground">
+            {test.metrics.reference && (
+              <span>{test.metrics.reference.correctness}% vs reference</span>
+            )}
+            {test.assertionResults && test.assertionResults.length > 0 && (
+              <span>
+                {test.assertionResults.filter(result => result.passed).length}/{test.assertionResults.length} assertions
+              </span>
+            )}
             <span>{(test.executionTime / 1000).toFixed(1)}s</span>
             <span>${test.cost.toFixed(4)}</span>
             <span>{test.tokenUsage.totalTokens} tokens</span>
@@ -277,62 +437,22 @@ function HistoryTestCard({ test, testNumber }: HistoryTestCardProps) {
           <div>
             <h5 className="text-sm font-medium text-foreground mb-3">Detailed Scores</h5>
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-              <div className="space-y-2">
-                <div className="flex justify-between items-center">
-                  <span className="text-xs text-muted-foreground">Coherence</span>
-                  <span className={`text-xs font-medium px-2 py-1 rounded ${getScoreBgColor(test.metrics.coherenceScore)}`}>
-                    {test.metrics.coherenceScore}%
-                  </span>
-                </div>
-                <div className="w-full bg-muted rounded-full h-1.5">
-                  <div
-                    className="h-1.5 rounded-full bg-blue-500"
-                    style={{ width: `${test.metrics.coherenceScore}%` }}
-                  />
-                </div>
-              </div>
-              <div className="space-y-2">
-                <div className="flex justify-between items-center">
-                  <span className="text-xs text-muted-foreground">Task Completion</span>
-                  <span className={`text-xs font-medium px-2 py-1 rounded ${getScoreBgColor(test.metrics.taskCompletionScore)}`}>
-                    {test.metrics.taskCompletionScore}%
-                  </span>
-                </div>
-                <div className="w-full bg-muted rounded-full h-1.5">
-                  <div
-                    className="h-1.5 rounded-full bg-green-500"
-                    style={{ width: `${test.metrics.taskCompletionScore}%` }}
-                  />
-                </div>
-              </div>
-              <div className="space-y-2">
-                <div className="flex justify-between items-center">
-                  <span className="text-xs text-muted-foreground">Instruction Adherence</span>
-                  <span className={`text-xs font-medium px-2 py-1 rounded ${getScoreBgColor(test.metrics.instructionAdherenceScore)}`}>
-                    {test.metrics.instructionAdherenceScore}%
-                  </span>
-                </div>
-                <div className="w-full bg-muted rounded-full h-1.5">
-                  <div
-                    className="h-1.5 rounded-full bg-purple-500"
-                    style={{ width: `${test.metrics.instructionAdherenceScore}%` }}
-                  />
-                </div>
-              </div>
-              <div className="space-y-2">
-                <div className="flex justify-between items-center">
-                  <span className="text-xs text-muted-foreground">Efficiency</span>
-                  <span className={`text-xs font-medium px-2 py-1 rounded ${getScoreBgColor(test.metrics.efficiencyScore)}`}>
-                    {test.metrics.efficiencyScore}%
-                  </span>
-                </div>
-                <div className="w-full bg-muted rounded-full h-1.5">
-                  <div
-                    className="h-1.5 rounded-full bg-orange-500"
-                    style={{ width: `${test.metrics.efficiencyScore}%` }}
-                  />
+              {test.metrics.criterionScores.map((score, index) => (
+                <div key={score.criterionId} className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <span className="text-xs text-muted-foreground">{score.name}</span>
+                    <span className={`text-xs font-medium px-2 py-1 rounded ${getScoreBgColor(score.normalizedScore)}`}>
+                      {score.normalizedScore}%
+                    </span>
+                  </div>
+                  <div className="w-full bg-muted rounded-full h-1.5">
+                    <div
+                      className={`h-1.5 rounded-full ${getCriterionColor(index)}`}
+                      style={{ width: `${score.normalizedScore}%` }}
+                    />
+                  </div>
                 </div>
-              </div>
+              ))}
             </div>
           </div>
 
@@ -348,12 +468,20 @@ function HistoryTestCard({ test, testNumber }: HistoryTestCardProps) {
 
           {/* Model Response */}
           <div>
-            <h5 className="text-sm font-medium text-foreground mb-2">Model Response</h5>
-            <div className="bg-muted/30 rounded p-3 max-h-24 overflow-y-auto">
-              <p className="text-xs text-foreground font-mono whitespace-pre-wrap">
-                {test.response}
-              </p>
-            </div>
+            <h5 className="text-sm font-medium text-foreground mb-2">
+              {test.conversation ? 'Conversation' : 'Model Response'}
+            </h5>
+            {test.conversation ? (
+              <div className="max-h-48 overflow-y-auto">
+                <ConversationTranscript conversation={test.conversation} turnScores={test.metrics.turnScores} />
+              </div>
+            ) : (
+              <div className="bg-muted/30 rounded p-3 max-h-24 overflow-y-auto">
+                <p className="text-xs text-foreground font-mono whitespace-pre-wrap">
+                  {test.response}
+                </p>
+              </div>
+            )}
           </div>
 
           {/* Evaluation Analysis */}
@@ -400,11 +528,31 @@ function HistoryTestCard({ test, testNumber }: HistoryTestCardProps) {
 
 export default function ResultsStep() {
   const { currentTest, testHistory, setCurrentStep, resetCurrentTest } = useAppStore()
-  const { results, response, model, tokenUsage, executionTime, cost } = currentTest
+  const { results, response, model, tokenUsage, executionTime, cost, transcript, assertionResults } = currentTest
   const [showExportModal, setShowExportModal] = useState(false)
   const [showInstructions, setShowInstructions] = useState(false)
   const [showHistory, setShowHistory] = useState(false)
 
+  if (currentTest.ablationRun) {
+    return <AblationResults />
+  }
+
+  if (currentTest.optimizerRun) {
+    return <OptimizerResults />
+  }
+
+  if (currentTest.matrixRun) {
+    return <MatrixResults />
+  }
+
+  if (currentTest.suiteRun) {
+    return <SuiteResults />
+  }
+
+  if (currentTest.comparison) {
+    return <ComparisonResults />
+  }
+
   if (!results || !response || !model) {
     return (
       <div className="text-center py-8">
@@ -445,12 +593,13 @@ Model: ${model.name}
 Provider: ${model.provider}
 
 Scores:
-- Overall Score: ${results.overallScore}/100
-- Coherence: ${results.coherenceScore}/100
-- Task Completion: ${results.taskCompletionScore}/100
-- Instruction Adherence: ${results.instructionAdherenceScore}/100
-- Efficiency: ${results.efficiencyScore}/100
-
+- Overall Score: ${results.evaluationError ? `not recorded (${results.evaluationError})` : `${results.overallScore}/100`}${results.judgeOverallScore !== undefined ? ` (judge reported ${results.judgeOverallScore}/100)` : ''}
+${results.criterionScores.map(score => `- ${score.name}: ${score.normalizedScore}/100`).join('\n')}
+${results.reference ? `- Correctness vs Reference: ${results.reference.correctness}/100 (agreement ${results.reference.factualAgreement}, coverage ${results.reference.coverage})
+` : ''}${assertionResults && assertionResults.length > 0 ? `
+Assertions:
+${assertionResults.map(result => `- [${result.passed ? 'PASS' : 'FAIL'}] ${result.description}: ${result.message}`).join('\n')}
+` : ''}
 System Instructions:
 ${currentTest.instructions}
 
@@ -459,13 +608,24 @@ ${currentTest.prompt}
 
 Model Response:
 ${response}
-
+${transcript ? `
+Conversation:
+${transcript.map(turn => `[${turn.role}] ${turn.content}`).join('\n')}
+${results.turnScores?.map(score => `- Turn ${score.turn} Adherence: ${score.instructionAdherenceScore}/100`).join('\n') || ''}
+` : ''}
 Evaluation Summary:
 ${results.explanation}
-
+${results.sampling ? `
+Variance across ${results.sampling.runs} runs (overall): mean ${results.sampling.overall.mean}, SD ${results.sampling.overall.standardDeviation}, range ${results.sampling.overall.min}-${results.sampling.overall.max}, 95% CI ${results.sampling.overall.confidenceInterval.lower}-${results.sampling.overall.confidenceInterval.upper}
+` : ''}${results.ensemble ? `
+Judges (${AGGREGATION_LABELS[results.ensemble.aggregation]}, spread ${results.ensemble.spread} pts, agreement ${results.ensemble.agreement}%):
+${results.ensemble.judges.map(judge => `- ${judge.modelName}: ${judge.metrics.overallScore}/100`).join('\n')}
+` : ''}
 Performance Metrics:
 - Execution Time: ${executionTime ? `${executionTime}ms` : 'N/A'}
-- Total Cost: ${cost ? `$${cost.toFixed(4)}` : 'N/A'}
+${currentTest.streamTiming ? `- Time to First Token: ${currentTest.streamTiming.timeToFirstToken}ms
+- Tokens per Second: ${currentTest.streamTiming.tokensPerSecond}
+` : ''}- Total Cost: ${cost ? `$${cost.toFixed(4)}` : 'N/A'}
 - Tokens Used: ${tokenUsage ? `${tokenUsage.totalTokens}` : 'N/A'}
 `.trim()
 
@@ -506,50 +666,86 @@ Performance Metrics:
     metrics: results,
     tokenUsage: displayTokenUsage,
     executionTime: displayExecutionTime,
-    cost: displayCost
+    cost: displayCost,
+    ...(transcript && { conversation: transcript }),
+    ...(assertionResults && { assertionResults }),
+    ...(currentTest.referenceAnswer?.trim() && { referenceAnswer: currentTest.referenceAnswer.trim() }),
+    ...(currentTest.streamTiming && { streamTiming: currentTest.streamTiming })
   } : null
 
   return (
     <div className="space-y-6">
-      {/* Success indicator */}
-      <div className="text-center">
-        <div className="inline-flex items-center space-x-2 text-success mb-2">
-          <CheckCircle size={24} weight="fill" />
-          <span className="font-medium">Evaluation Complete</span>
+      {results.evaluationError ? (
+        /* Failed evaluation: the response is shown but no scores are recorded */
+        <div className="text-center">
+          <div className="inline-flex items-center space-x-2 text-destructive mb-2">
+            <XCircle size={24} weight="fill" />
+            <span className="font-medium">Evaluation Failed</span>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {results.evaluationError}. This run is saved without scores and left out of averages.
+          </p>
         </div>
-        <p className="text-sm text-muted-foreground">
-          Your instructions have been tested and evaluated
-        </p>
-      </div>
+      ) : (
+        <>
+          {/* Success indicator */}
+          <div className="text-center">
+            <div className="inline-flex items-center space-x-2 text-success mb-2">
+              <CheckCircle size={24} weight="fill" />
+              <span className="font-medium">Evaluation Complete</span>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Your instructions have been tested and evaluated
+            </p>
+          </div>
 
-      {/* Overall score with circular progress */}
-      <div className="flex justify-center">
-        <CircularProgress value={results.overallScore} />
-      </div>
+          {/* Overall score with circular progress */}
+          <div className="flex flex-col items-center gap-1">
+            <CircularProgress value={results.overallScore} />
+            {results.judgeOverallScore !== undefined && (
+              <p className="text-xs text-muted-foreground">
+                Weighted from criteria · judge reported {results.judgeOverallScore}%
+              </p>
+            )}
+          </div>
 
-      {/* Individual metrics grid */}
-      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
-        <MetricBar
-          label="Coherence"
-          value={results.coherenceScore}
-          color="bg-blue-500"
-        />
-        <MetricBar
-          label="Task Completion"
-          value={results.taskCompletionScore}
-          color="bg-green-500"
-        />
-        <MetricBar
-          label="Instruction Adherence"
-          value={results.instructionAdherenceScore}
-          color="bg-purple-500"
-        />
-        <MetricBar
-          label="Efficiency"
-          value={results.efficiencyScore}
-          color="bg-orange-500"
-        />
-      </div>
+          {/* Individual metrics grid */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+            {results.criterionScores.map((score, index) => (
+              <MetricBar
+                key={score.criterionId}
+                label={score.name}
+                value={score.normalizedScore}
+                color={getCriterionColor(index)}
+              />
+            ))}
+          </div>
+        </>
+      )}
+
+      {/* Correctness against the reference answer */}
+      {results.reference && (
+        <div className="bg-muted/50 rounded-lg p-4 space-y-3">
+          <h4 className="font-medium text-foreground">Correctness vs Reference: {results.reference.correctness}%</h4>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+            <MetricBar label="Factual Agreement" value={results.reference.factualAgreement} color="bg-emerald-500" />
+            <MetricBar label="Coverage" value={results.reference.coverage} color="bg-cyan-500" />
+          </div>
+          {results.reference.explanation && (
+            <p className="text-sm text-muted-foreground">{results.reference.explanation}</p>
+          )}
+        </div>
+      )}
+
+      {/* Deterministic assertion results */}
+      {assertionResults && assertionResults.length > 0 && (
+        <div className="bg-muted/50 rounded-lg p-4">
+          <h4 className="font-medium text-foreground mb-3">
+            Assertions ({assertionResults.filter(result => result.passed).length}/{assertionResults.length} passed)
+          </h4>
+          <AssertionChecklist results={assertionResults} />
+        </div>
+      )}
 
       {/* Statistics grid */}
       <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 sm:gap-4">
@@ -577,6 +773,24 @@ Performance Metrics:
           label="Model"
           value={model.name}
         />
+        {currentTest.streamTiming && (
+          <>
+            <StatCard
+              icon={<Clock size={16} />}
+              label="Time to First Token"
+              value={currentTest.streamTiming.timeToFirstToken / 1000}
+              suffix="s"
+              decimals={2}
+            />
+            <StatCard
+              icon={<Hash size={16} />}
+              label="Tokens / Second"
+              value={currentTest.streamTiming.tokensPerSecond}
+              suffix=""
+              decimals={1}
+            />
+          </>
+        )}
       </div>
 
       {/* Evaluation explanation */}
@@ -589,6 +803,35 @@ Performance Metrics:
         </div>
       )}
 
+      {/* Variance across repeated runs */}
+      {results.sampling && (
+        <div className="bg-muted/50 rounded-lg p-4">
+          <h4 className="font-medium text-foreground mb-1">Variance across {results.sampling.runs} runs</h4>
+          <p className="text-xs text-muted-foreground mb-3">
+            Scores above are means. Tokens and cost below are totals for all runs.
+          </p>
+          <SamplingTable sampling={results.sampling} />
+        </div>
+      )}
+
+      {/* Per-judge scores for ensemble evaluations */}
+      {results.ensemble && (
+        <div className="bg-muted/50 rounded-lg p-4">
+          <h4 className="font-medium text-foreground mb-3">Judges ({results.ensemble.judges.length})</h4>
+          <JudgeBreakdown ensemble={results.ensemble} />
+        </div>
+      )}
+
+      {/* Conversation transcript with per-turn adherence */}
+      {transcript && transcript.length > 0 && (
+        <div className="bg-muted/50 rounded-lg p-4">
+          <h4 className="font-medium text-foreground mb-3">Conversation</h4>
+          <div className="max-h-96 overflow-y-auto">
+            <ConversationTranscript conversation={transcript} turnScores={results.turnScores} />
+          </div>
+        </div>
+      )}
+
       {/* System Instructions (collapsible) */}
       <div className="bg-muted/50 rounded-lg p-4">
         <button
@@ -0,0 +1,171 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Plus, Trash, ArrowCounterClockwise } from 'phosphor-react'
+import { Rubric, RubricCriterion } from '@/lib/types'
+import { DEFAULT_RUBRIC, MAX_RUBRIC_CRITERIA, createCriterionId, validateRubric } from '@/lib/rubrics'
+
+interface RubricEditorProps {
+  rubric: Rubric
+  onSave: (rubric: Rubric) => void
+  disabled?: boolean
+}
+
+/**
+ * Editor for the criteria the judge model scores responses against.
+ * Changes are kept as a draft until they validate and are saved.
+ */
+export default function RubricEditor({ rubric, onSave, disabled = false }: RubricEditorProps) {
+  const [draft, setDraft] = useState<Rubric>(rubric)
+
+  useEffect(() => {
+    setDraft(rubric)
+  }, [rubric])
+
+  const errors = validateRubric(draft)
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(rubric)
+
+  const updateCriterion = (index: number, updates: Partial<RubricCriterion>) => {
+    setDraft({
+      ...draft,
+      criteria: draft.criteria.map((criterion, i) => (i === index ? { ...criterion, ...updates } : criterion))
+    })
+  }
+
+  const updateName = (index: number, name: string) => {
+    const others = draft.criteria.filter((_, i) => i !== index)
+    updateCriterion(index, { name, id: createCriterionId(name, others) })
+  }
+
+  const addCriterion = () => {
+    const name = `Criterion ${draft.criteria.length + 1}`
+    setDraft({
+      ...draft,
+      criteria: [
+        ...draft.criteria,
+        {
+          id: createCriterionId(name, draft.criteria),
+          name,
+          description: '',
+          scale: { min: 0, max: 100 },
+          weight: 0.1
+        }
+      ]
+    })
+  }
+
+  const removeCriterion = (index: number) => {
+    setDraft({ ...draft, criteria: draft.criteria.filter((_, i) => i !== index) })
+  }
+
+  const inputClasses = 'w-full p-2 border border-input rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary'
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        The judge model scores each criterion on its own scale. Scores are normalized to 0-100 and combined using the weights.
+      </p>
+
+      {draft.criteria.map((criterion, index) => (
+        <div key={index} className="space-y-2 p-3 border border-border rounded-lg">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={criterion.name}
+              onChange={(e) => updateName(index, e.target.value)}
+              placeholder="Criterion name"
+              aria-label={`Criterion ${index + 1} name`}
+              className={inputClasses}
+              disabled={disabled}
+            />
+            <button
+              onClick={() => removeCriterion(index)}
+              disabled={disabled || draft.criteria.length === 1}
+              className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-50"
+              aria-label={`Remove criterion ${index + 1}`}
+            >
+              <Trash size={14} />
+            </button>
+          </div>
+          <textarea
+            value={criterion.description}
+            onChange={(e) => updateCriterion(index, { description: e.target.value })}
+            placeholder="What should the judge look for?"
+            aria-label={`Criterion ${index + 1} description`}
+            className={inputClasses}
+            rows={2}
+            disabled={disabled}
+          />
+          <div className="grid grid-cols-3 gap-2">
+            <label className="text-xs text-muted-foreground space-y-1">
+              <span>Min score</span>
+              <input
+                type="number"
+                value={criterion.scale.min}
+                onChange={(e) => updateCriterion(index, { scale: { ...criterion.scale, min: Number(e.target.value) } })}
+                className={inputClasses}
+                disabled={disabled}
+              />
+            </label>
+            <label className="text-xs text-muted-foreground space-y-1">
+              <span>Max score</span>
+              <input
+                type="number"
+                value={criterion.scale.max}
+                onChange={(e) => updateCriterion(index, { scale: { ...criterion.scale, max: Number(e.target.value) } })}
+                className={inputClasses}
+                disabled={disabled}
+              />
+            </label>
+            <label className="text-xs text-muted-foreground space-y-1">
+              <span>Weight</span>
+              <input
+                type="number"
+                min={0}
+                step={0.05}
+                value={criterion.weight}
+                onChange={(e) => updateCriterion(index, { weight: Number(e.target.value) })}
+                className={inputClasses}
+                disabled={disabled}
+              />
+            </label>
+          </div>
+        </div>
+      ))}
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-destructive space-y-1">
+          {errors.map(error => (
+            <li key={error}>• {error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={addCriterion}
+          disabled={disabled || draft.criteria.length >= MAX_RUBRIC_CRITERIA}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs border border-border rounded-md hover:bg-muted/50 transition-colors disabled:opacity-50"
+        >
+          <Plus size={12} />
+          Add criterion
+        </button>
+        <button
+          onClick={() => setDraft(DEFAULT_RUBRIC)}
+          disabled={disabled}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs border border-border rounded-md hover:bg-muted/50 transition-colors disabled:opacity-50"
+        >
+          <ArrowCounterClockwise size={12} />
+          Reset to default
+        </button>
+        <button
+          onClick={() => onSave(draft)}
+          disabled={disabled || !isDirty || errors.length > 0}
+          className="px-3 py-1.5 text-xs bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          Save rubric
+        </button>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -4,11 +4,15 @@ import React, { useState, useRef, useEffect } from 'react'
 import ApiKeyInput from './ApiKeyInput'
 import ModelSearch from './ModelSearch'
 import SelectedModelDisplay from './SelectedModelDisplay'
+import JudgePanel from './JudgePanel'
+import ProviderSettings from './ProviderSettings'
+import { getActiveProviders } from '@/services/providers'
+import { openRouterService } from '@/services/openRouterService'
 import { useAppStore } from '@/lib/store'
 import { ArrowRight } from 'phosphor-react'
 
 export default function SetupStep() {
-  const { currentTest, settings, isApiKeyValid, setCurrentStep } = useAppStore()
+  const { currentTest, settings, isApiKeyValid, setCurrentStep, updateSettings } = useAppStore()
   const [showModelSearch, setShowModelSearch] = useState(false)
   const [showEvaluationModelSearch, setShowEvaluationModelSearch] = useState(false)
   
@@ -86,7 +90,10 @@ export default function SetupStep() {
     }
   }, [showEvaluationModelSearch])
 
-  const canProceed = isApiKeyValid && currentTest.model?.id && settings.evaluationModel?.id
+  // A configured provider, such as a local server, or a proxy holding the
+  // key can stand in for the user's OpenRouter key
+  const hasModelAccess = isApiKeyValid || !openRouterService.requiresApiKey || getActiveProviders(settings.providers).length > 0
+  const canProceed = hasModelAccess && currentTest.model?.id && settings.evaluationModel?.id
 
   const handleNext = () => {
     if (canProceed) {
@@ -102,13 +109,27 @@ export default function SetupStep() {
           OpenRouter API Key
         </h3>
         <p className="text-xs sm:text-sm text-muted-foreground mb-3 sm:mb-4">
-          Enter your OpenRouter API key to access AI models. Your key is encrypted and stored only in your browser session.
+          Enter your OpenRouter API key to access AI models. Your key is encrypted and stored only in your browser session. To keep prompts on your machine, skip this and add a local provider below.
         </p>
         <ApiKeyInput />
       </div>
 
+      {/* Other Providers Section */}
+      <div>
+        <h3 className="text-base sm:text-lg font-semibold text-foreground mb-2">
+          Other Providers <span className="text-sm font-normal text-muted-foreground">(optional)</span>
+        </h3>
+        <p className="text-xs sm:text-sm text-muted-foreground mb-3 sm:mb-4">
+          Add an OpenAI-compatible, Anthropic or local Ollama / llama.cpp endpoint to test and judge with its models alongside OpenRouter&apos;s.
+        </p>
+        <ProviderSettings
+          providers={settings.providers || []}
+          onChange={(providers) => updateSettings({ providers })}
+        />
+      </div>
+
       {/* Model Selection Section */}
-      {isApiKeyValid && (
+      {hasModelAccess && (
         <div>
           <h3 className="text-base sm:text-lg font-semibold text-foreground mb-2">
             Select Model
@@ -140,7 +161,7 @@ export default function SetupStep() {
       )}
 
       {/* Evaluation Model Selection Section */}
-      {isApiKeyValid && currentTest.model && (
+      {hasModelAccess && currentTest.model && (
         <div>
           <h3 className="text-base sm:text-lg font-semibold text-foreground mb-2">
             Select Evaluation Model
@@ -174,6 +195,25 @@ export default function SetupStep() {
         </div>
       )}
 
+      {/* Additional Judges Section */}
+      {hasModelAccess && currentTest.model && settings.evaluationModel?.id && (
+        <div>
+          <h3 className="text-base sm:text-lg font-semibold text-foreground mb-2">
+            Additional Judges <span className="text-sm font-normal text-muted-foreground">(optional)</span>
+          </h3>
+          <p className="text-xs sm:text-sm text-muted-foreground mb-3 sm:mb-4">
+            Score each response with several evaluation models in parallel so no single judge decides the result.
+          </p>
+          <JudgePanel
+            primaryJudge={settings.evaluationModel}
+            judges={settings.additionalEvaluationModels || []}
+            aggregation={settings.judgeAggregation || 'mean'}
+            onJudgesChange={(judges) => updateSettings({ additionalEvaluationModels: judges })}
+            onAggregationChange={(aggregation) => updateSettings({ judgeAggregation: aggregation })}
+          />
+        </div>
+      )}
+
       {/* Progress indicator */}
       {canProceed && (
         <div className="flex items-center gap-2 pt-3 sm:pt-4 border-t border-border text-sm text-success">
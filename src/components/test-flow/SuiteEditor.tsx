@@ -0,0 +1,306 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Plus, Trash, Play, CaretDown, CaretRight, UploadSimple } from 'phosphor-react'
+import { TestCase, TestSuite } from '@/lib/types'
+import { MAX_SUITE_CASES, createTestCase, createTestSuite, validateTestSuite } from '@/lib/suites'
+import AssertionEditor from './AssertionEditor'
+import DatasetImport from './DatasetImport'
+import VariableInputs from './VariableInputs'
+import { extractTemplateVariables } from '@/lib/templateVariables'
+
+interface SuiteEditorProps {
+  suites: TestSuite[]
+  instructions: string // Used for new suites
+  prompt: string // First case of a new suite
+  variables?: Record<string, string> // The test's variable values, used by cases that leave one blank
+  onSave: (suite: TestSuite) => void | Promise<void>
+  onDelete: (suiteId: string) => void | Promise<void>
+  onRun: (suite: TestSuite) => void | Promise<void> // Called with the draft, which the caller saves first
+  canRun?: boolean // False until the models are selected
+  disabled?: boolean
+}
+
+interface CaseEditorProps {
+  index: number
+  testCase: TestCase
+  instructions: string // Suite instructions, for the variables they use
+  defaultVariables: Record<string, string>
+  onChange: (testCase: TestCase) => void
+  onRemove: () => void
+  disabled: boolean
+}
+
+const inputClasses = 'w-full p-2 border border-input rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary'
+
+function CaseEditor({ index, testCase, instructions, defaultVariables, onChange, onRemove, disabled }: CaseEditorProps) {
+  const [showChecks, setShowChecks] = useState(Boolean(testCase.referenceAnswer || testCase.assertions?.length))
+  const checkCount = (testCase.assertions?.length || 0) + (testCase.referenceAnswer?.trim() ? 1 : 0)
+  const variableNames = Array.from(new Set([
+    ...extractTemplateVariables(instructions, testCase.prompt),
+    ...Object.keys(testCase.variables || {})
+  ]))
+
+  return (
+    <div className="space-y-2 p-3 border border-border rounded-lg bg-background">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-muted-foreground">Case {index + 1}</span>
+        <button
+          onClick={onRemove}
+          disabled={disabled}
+          aria-label={`Remove case ${index + 1}`}
+          className="p-1 text-muted-foreground hover:text-destructive disabled:opacity-50"
+        >
+          <Trash size={14} />
+        </button>
+      </div>
+      <textarea
+        value={testCase.prompt}
+        onChange={(e) => onChange({ ...testCase, prompt: e.target.value })}
+        placeholder="Test prompt"
+        aria-label={`Prompt for case ${index + 1}`}
+        className={inputClasses}
+        rows={2}
+        disabled={disabled}
+      />
+      {!!testCase.tags?.length && (
+        <p className="text-xs text-muted-foreground truncate">
+          {testCase.tags.map(tag => (
+            <span key={tag} className="inline-block mr-1 px-1.5 py-0.5 rounded bg-muted">{tag}</span>
+          ))}
+        </p>
+      )}
+      <VariableInputs
+        names={variableNames}
+        values={testCase.variables || {}}
+        onChange={(variables) => onChange({ ...testCase, variables })}
+        placeholders={defaultVariables}
+        disabled={disabled}
+      />
+      <button
+        onClick={() => setShowChecks(!showChecks)}
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+      >
+        {showChecks ? <CaretDown size={12} /> : <CaretRight size={12} />}
+        Reference answer and assertions {checkCount > 0 && `(${checkCount})`}
+      </button>
+      {showChecks && (
+        <div className="space-y-2">
+          <textarea
+            value={testCase.referenceAnswer || ''}
+            onChange={(e) => onChange({ ...testCase, referenceAnswer: e.target.value })}
+            placeholder="Expected answer (optional)"
+            aria-label={`Reference answer for case ${index + 1}`}
+            className={inputClasses}
+            rows={2}
+            disabled={disabled}
+          />
+          <AssertionEditor
+            assertions={testCase.assertions || []}
+            onChange={(assertions) => onChange({ ...testCase, assertions })}
+            disabled={disabled}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Editor for test suites: a set of instructions plus many prompts, each
+ * with optional checks, run together and reported as one result.
+ */
+export default function SuiteEditor({ suites, instructions, prompt, variables = {}, onSave, onDelete, onRun, canRun = true, disabled = false }: SuiteEditorProps) {
+  const [selectedId, setSelectedId] = useState<string>(suites[0]?.id || '')
+  const selected = suites.find(suite => suite.id === selectedId) || null
+  const [draft, setDraft] = useState<TestSuite | null>(selected)
+  const [showImport, setShowImport] = useState(false)
+
+  // Follow the saved suite; an unsaved new suite is kept until it is saved
+  useEffect(() => {
+    if (selected) {
+      setDraft(selected)
+    }
+  }, [selected])
+
+  const createSuite = () => {
+    const suite = createTestSuite(`Suite ${suites.length + 1}`, instructions, [createTestCase(prompt)])
+    setSelectedId(suite.id)
+    setDraft(suite)
+  }
+
+  const importSuite = (cases: TestCase[], name: string) => {
+    const suite = createTestSuite(name || `Suite ${suites.length + 1}`, instructions, cases)
+    setSelectedId(suite.id)
+    setDraft(suite)
+    setShowImport(false)
+  }
+
+  const deleteSuite = (suiteId: string) => {
+    const next = suites.find(suite => suite.id !== suiteId) || null
+    setSelectedId(next?.id || '')
+    setDraft(next)
+    onDelete(suiteId)
+  }
+
+  const updateCase = (index: number, testCase: TestCase) => {
+    if (draft) {
+      setDraft({ ...draft, cases: draft.cases.map((entry, i) => (i === index ? testCase : entry)) })
+    }
+  }
+
+  const errors = draft ? validateTestSuite(draft) : []
+  const isSaved = !!draft && suites.some(suite => suite.id === draft.id)
+  const isDirty = !!draft && (!isSaved || JSON.stringify(draft) !== JSON.stringify(selected))
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Run many prompts against one set of instructions and get a pass rate, mean scores and the worst cases.
+        A case passes when its assertions hold and its overall score reaches the threshold.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {suites.length > 0 && (
+          <select
+            value={isSaved ? draft?.id : ''}
+            onChange={(e) => setSelectedId(e.target.value)}
+            aria-label="Test suite"
+            className="px-2 py-1.5 border border-input rounded-md text-xs bg-background"
+            disabled={disabled}
+          >
+            {!isSaved && <option value="">{draft?.name || 'New suite'} (unsaved)</option>}
+            {suites.map(suite => (
+              <option key={suite.id} value={suite.id}>
+                {suite.name} ({suite.cases.length} case{suite.cases.length !== 1 ? 's' : ''})
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={createSuite}
+          disabled={disabled}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs border border-border rounded-md hover:bg-muted/50 transition-colors disabled:opacity-50"
+        >
+          <Plus size={12} />
+          New suite
+        </button>
+        <button
+          onClick={() => setShowImport(!showImport)}
+          disabled={disabled}
+          aria-expanded={showImport}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs border border-border rounded-md hover:bg-muted/50 transition-colors disabled:opacity-50"
+        >
+          <UploadSimple size={12} />
+          Import cases
+        </button>
+      </div>
+
+      {showImport && (
+        <DatasetImport
+          onImport={importSuite}
+          onCancel={() => setShowImport(false)}
+          disabled={disabled}
+        />
+      )}
+
+      {draft && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto] gap-2">
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Suite name"
+              aria-label="Suite name"
+              className={inputClasses}
+              disabled={disabled}
+            />
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              Pass at
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={draft.passThreshold}
+                onChange={(e) => setDraft({ ...draft, passThreshold: Number(e.target.value) })}
+                aria-label="Pass threshold"
+                className="w-16 p-2 border border-input rounded-md text-sm text-center"
+                disabled={disabled}
+              />
+              %
+            </label>
+          </div>
+          <textarea
+            value={draft.instructions}
+            onChange={(e) => setDraft({ ...draft, instructions: e.target.value })}
+            placeholder="System instructions for every case"
+            aria-label="Suite instructions"
+            className={`${inputClasses} font-mono`}
+            rows={4}
+            disabled={disabled}
+          />
+
+          <div className="space-y-2">
+            {draft.cases.map((testCase, index) => (
+              <CaseEditor
+                key={testCase.id}
+                index={index}
+                testCase={testCase}
+                instructions={draft.instructions}
+                defaultVariables={variables}
+                onChange={(updated) => updateCase(index, updated)}
+                onRemove={() => setDraft({ ...draft, cases: draft.cases.filter((_, i) => i !== index) })}
+                disabled={disabled}
+              />
+            ))}
+            <button
+              onClick={() => setDraft({ ...draft, cases: [...draft.cases, createTestCase()] })}
+              disabled={disabled || draft.cases.length >= MAX_SUITE_CASES}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs border border-border rounded-md hover:bg-muted/50 transition-colors disabled:opacity-50"
+            >
+              <Plus size={12} />
+              Add case
+            </button>
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-destructive space-y-1">
+              {errors.map(error => (
+                <li key={error}>• {error}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => onSave(draft)}
+              disabled={disabled || !isDirty || errors.length > 0}
+              className="px-3 py-1.5 text-xs border border-border rounded-md hover:bg-muted/50 transition-colors disabled:opacity-50"
+            >
+              Save suite
+            </button>
+            {isSaved && (
+              <button
+                onClick={() => deleteSuite(draft.id)}
+                disabled={disabled}
+                className="flex items-center gap-1 px-3 py-1.5 text-xs border border-border rounded-md hover:bg-muted/50 transition-colors disabled:opacity-50"
+              >
+                <Trash size={12} />
+                Delete
+              </button>
+            )}
+            <button
+              onClick={() => onRun(draft)}
+              disabled={disabled || !canRun || errors.length > 0}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              <Play size={12} weight="fill" />
+              Run suite ({draft.cases.length} case{draft.cases.length !== 1 ? 's' : ''})
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
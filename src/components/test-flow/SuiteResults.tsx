@@ -0,0 +1,198 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Clock, CurrencyDollar, ArrowClockwise, CaretDown, CaretRight, Warning } from 'phosphor-react'
+import { useAppStore } from '@/lib/store'
+import { SuiteCaseResult, SuiteCaseStatus } from '@/lib/types'
+
+const getScoreColor = (score: number) => {
+  if (score >= 80) return 'text-green-600'
+  if (score >= 60) return 'text-yellow-600'
+  return 'text-red-600'
+}
+
+const STATUS_CLASSES: Record<SuiteCaseStatus, string> = {
+  pending: 'text-muted-foreground',
+  running: 'text-muted-foreground',
+  passed: 'text-green-600',
+  failed: 'text-red-600',
+  error: 'text-destructive'
+}
+
+interface CaseRowProps {
+  index: number
+  result: SuiteCaseResult
+}
+
+function CaseRow({ index, result }: CaseRowProps) {
+  const [expanded, setExpanded] = useState(false)
+  const failedAssertions = result.assertionResults?.filter(assertion => !assertion.passed) || []
+
+  return (
+    <li className="bg-background rounded border text-sm">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center justify-between gap-4 w-full p-2 text-left"
+        aria-expanded={expanded}
+      >
+        <span className="flex items-center gap-2 min-w-0">
+          {expanded ? <CaretDown size={12} /> : <CaretRight size={12} />}
+          <span className="truncate">{index + 1}. {result.prompt}</span>
+        </span>
+        <span className={`text-xs whitespace-nowrap ${STATUS_CLASSES[result.status]}`}>
+          {result.status}
+          {result.metrics && !result.metrics.evaluationError && ` · ${result.metrics.overallScore}%`}
+        </span>
+      </button>
+      {expanded && (
+        <div className="space-y-2 px-3 pb-3">
+          {result.error && <p className="text-xs text-destructive">{result.error}</p>}
+          {failedAssertions.map(assertion => (
+            <p key={assertion.assertionId} className="text-xs text-red-600">✗ {assertion.description}: {assertion.message}</p>
+          ))}
+          {result.metrics?.reference && (
+            <p className="text-xs text-muted-foreground">Correctness vs reference: {result.metrics.reference.correctness}%</p>
+          )}
+          {result.response && (
+            <div className="text-sm whitespace-pre-wrap bg-muted/30 rounded p-2 max-h-48 overflow-y-auto">
+              {result.response}
+            </div>
+          )}
+          {result.metrics?.explanation && (
+            <p className="text-xs text-muted-foreground">{result.metrics.explanation}</p>
+          )}
+        </div>
+      )}
+    </li>
+  )
+}
+
+/**
+ * Results view for a test suite run: pass rate and mean scores across the
+ * cases, the worst cases, and each case's outcome.
+ */
+export default function SuiteResults() {
+  const { currentTest, setCurrentStep, resetCurrentTest } = useAppStore()
+  const suiteRun = currentTest.suiteRun
+
+  if (!suiteRun) {
+    return null
+  }
+
+  const { summary } = suiteRun
+  const worstCases = summary.worstCaseIds
+    .map(caseId => suiteRun.results.find(result => result.caseId === caseId))
+    .filter((result): result is SuiteCaseResult => !!result)
+
+  const handleNewTest = () => {
+    resetCurrentTest()
+    setCurrentStep(0)
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="p-4 border border-border rounded-lg space-y-3">
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <h3 className="text-lg font-semibold">{suiteRun.suiteName}</h3>
+          <span className="text-sm text-muted-foreground">{suiteRun.model}</span>
+        </div>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          <div>
+            <p className="text-xs text-muted-foreground">Pass rate</p>
+            <p className={`text-2xl font-bold ${getScoreColor(summary.passRate)}`}>{summary.passRate}%</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Mean score</p>
+            <p className={`text-2xl font-bold ${summary.meanOverallScore === null ? 'text-muted-foreground' : getScoreColor(summary.meanOverallScore)}`}>
+              {summary.meanOverallScore === null ? '—' : `${summary.meanOverallScore}%`}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Cases</p>
+            <p className="text-sm">
+              <span className="text-green-600">{summary.passedCases} passed</span>
+              {' · '}
+              <span className="text-red-600">{summary.failedCases} failed</span>
+              {summary.erroredCases > 0 && (
+                <>
+                  {' · '}
+                  <span className="text-destructive">{summary.erroredCases} errors</span>
+                </>
+              )}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Pass threshold</p>
+            <p className="text-sm">{suiteRun.passThreshold}%</p>
+          </div>
+        </div>
+        {summary.criterionMeans.length > 0 && (
+          <div className="space-y-1">
+            {summary.criterionMeans.map(criterion => (
+              <div key={criterion.criterionId} className="flex justify-between text-xs">
+                <span className="text-muted-foreground">{criterion.name}</span>
+                <span className={getScoreColor(criterion.mean)}>{criterion.mean}%</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Worst cases */}
+      {worstCases.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="flex items-center gap-2 text-sm font-medium">
+            <Warning size={16} className="text-yellow-600" />
+            Worst cases
+          </h4>
+          <ul className="space-y-1">
+            {worstCases.map(result => (
+              <CaseRow key={result.caseId} index={suiteRun.results.indexOf(result)} result={result} />
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* All cases */}
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">All cases</h4>
+        <ul className="space-y-1">
+          {suiteRun.results.map((result, index) => (
+            <CaseRow key={result.caseId} index={index} result={result} />
+          ))}
+        </ul>
+      </div>
+
+      {/* Run details */}
+      <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <Clock size={14} />
+          {(summary.executionTime / 1000).toFixed(1)}s
+        </span>
+        <span className="flex items-center gap-1">
+          <CurrencyDollar size={14} />
+          ${summary.totalCost.toFixed(4)}
+        </span>
+        <span>{summary.totalTokens.toLocaleString()} tokens</span>
+      </div>
+
+      {/* Actions */}
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => setCurrentStep(2)}
+          className="flex items-center gap-2 px-4 py-2 border border-border rounded-md hover:bg-muted/50 transition-colors"
+        >
+          <ArrowClockwise size={16} />
+          Back to Suites
+        </button>
+        <button
+          onClick={handleNewTest}
+          className="px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors"
+        >
+          New Test
+        </button>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
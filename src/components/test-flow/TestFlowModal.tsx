@@ -4,6 +4,8 @@ import React, { useEffect, Suspense, createElement } from 'react'
 import Modal from '@/components/ui/Modal'
 import { useAppStore } from '@/lib/store'
 import { announceToScreenReader } from '@/lib/accessibility'
+import { getActiveProviders } from '@/services/providers'
+import { openRouterService } from '@/services/openRouterService'
 import { X } from 'phosphor-react'
 import dynamic from 'next/dynamic'
 
@@ -38,12 +40,14 @@ interface StepConfig {
   id: number
   title: string
   description: string
-  isAccessible: (currentTest: any, isApiKeyValid: boolean) => boolean
-  isComplete: (currentTest: any, isApiKeyValid: boolean) => boolean
+  isAccessible: (currentTest: any, hasModelAccess: boolean) => boolean
+  isComplete: (currentTest: any, hasModelAccess: boolean) => boolean
 }
 
 export default function TestFlowModal({ isOpen, onClose }: TestFlowModalProps) {
-  const { currentTest, isApiKeyValid, setCurrentStep } = useAppStore()
+  const { currentTest, isApiKeyValid, settings, setCurrentStep } = useAppStore()
+  // A configured provider, such as a local server, can stand in for the OpenRouter key
+  const hasModelAccess = isApiKeyValid || !openRouterService.requiresApiKey || getActiveProviders(settings?.providers).length > 0
   
   const currentStep = currentTest.currentStep || 0
   
@@ -121,13 +125,13 @@ export default function TestFlowModal({ isOpen, onClose }: TestFlowModalProps) {
     const targetStep = stepConfigs[stepIndex]
     
     // Check if the step is accessible
-    if (targetStep.isAccessible(currentTest, isApiKeyValid)) {
+    if (targetStep.isAccessible(currentTest, hasModelAccess)) {
       setCurrentStep(stepIndex)
       announceToScreenReader(`Navigated to ${targetStep.title} step`)
     } else {
       // Announce why the step is not accessible
       const missingRequirements = []
-      if (!isApiKeyValid) missingRequirements.push('valid API key')
+      if (!hasModelAccess) missingRequirements.push('valid API key or provider')
       if (!currentTest.model) missingRequirements.push('model selection')
       if (!currentTest.instructions || currentTest.instructions.trim().length < 10) {
         missingRequirements.push('system instructions')
@@ -202,8 +206,8 @@ export default function TestFlowModal({ isOpen, onClose }: TestFlowModalProps) {
       <nav className="mb-6" aria-label="Test flow progress">
         <div className="flex items-center justify-between" role="tablist">
           {stepConfigs.map((step, index) => {
-            const isAccessible = step.isAccessible(currentTest, isApiKeyValid)
-            const isComplete = step.isComplete(currentTest, isApiKeyValid)
+            const isAccessible = step.isAccessible(currentTest, hasModelAccess)
+            const isComplete = step.isComplete(currentTest, hasModelAccess)
             const isCurrent = index === currentStep
             
             return (
@@ -260,12 +264,12 @@ export default function TestFlowModal({ isOpen, onClose }: TestFlowModalProps) {
         <div className="mb-4 p-3 bg-muted/30 rounded-lg border">
           <div className="flex items-center gap-2 text-sm">
             <div className={`w-2 h-2 rounded-full ${
-              stepConfigs[currentStep].isComplete(currentTest, isApiKeyValid) 
+              stepConfigs[currentStep].isComplete(currentTest, hasModelAccess) 
                 ? 'bg-success' 
                 : 'bg-orange-500'
             }`} />
             <span className="text-muted-foreground">
-              {stepConfigs[currentStep].isComplete(currentTest, isApiKeyValid)
+              {stepConfigs[currentStep].isComplete(currentTest, hasModelAccess)
                 ? `${stepConfigs[currentStep].title} step completed`
                 : `Complete ${stepConfigs[currentStep].title.toLowerCase()} to continue`
               }
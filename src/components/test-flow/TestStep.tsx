@@ -3,7 +3,45 @@
 import React, { useState, useEffect } from 'react'
 import { useAppStore } from '@/lib/store'
 import { validatePrompt, getInputClasses, getHelperTextClasses } from '@/lib/validation'
-import { Play, ArrowLeft, CaretDown, CaretRight, Clock } from 'phosphor-react'
+import { Play, ArrowLeft, CaretDown, CaretRight, Clock, X } from 'phosphor-react'
+import { AblationConfig, MatrixCell, MatrixConfig, OptimizerCandidate, OptimizerConfig, SuiteCaseStatus, TestSuite } from '@/lib/types'
+import ConversationEditor from './ConversationEditor'
+import AssertionEditor from './AssertionEditor'
+import SuiteEditor from './SuiteEditor'
+import MatrixEditor from './MatrixEditor'
+import OptimizerEditor from './OptimizerEditor'
+import AblationEditor from './AblationEditor'
+import VariableInputs from './VariableInputs'
+import { extractTemplateVariables } from '@/lib/templateVariables'
+import { MAX_RUNS_PER_TEST } from '@/lib/statistics'
+
+const CASE_STATUS_LABELS: Record<SuiteCaseStatus, string> = {
+  pending: 'Waiting',
+  running: 'Running',
+  passed: 'Passed',
+  failed: 'Failed',
+  error: 'Error'
+}
+
+const CASE_STATUS_CLASSES: Record<SuiteCaseStatus, string> = {
+  pending: 'text-muted-foreground',
+  running: 'text-blue-600',
+  passed: 'text-green-600',
+  failed: 'text-red-600',
+  error: 'text-destructive'
+}
+
+const CELL_STATUS_CLASSES: Record<MatrixCell['status'], string> = {
+  pending: 'text-muted-foreground',
+  running: 'text-blue-600',
+  complete: 'text-green-600'
+}
+
+const CANDIDATE_STATUS_CLASSES: Record<OptimizerCandidate['status'], string> = {
+  running: 'text-blue-600',
+  complete: 'text-green-600',
+  rejected: 'text-muted-foreground'
+}
 
 interface TestStepProps {
   onNext?: () => void
@@ -15,13 +53,46 @@ export default function TestStep({ onBack }: TestStepProps) {
     currentTest, 
     settings,
     setPrompt, 
+    setConversation,
+    setAssertions,
+    setReferenceAnswer,
+    setVariables,
     setCurrentStep, 
     runEvaluation,
+    cancelEvaluation,
+    updateSettings,
+    testSuites,
+    saveTestSuite,
+    deleteTestSuite,
+    runSuite,
+    runMatrix,
+    runOptimizer,
+    runAblation,
     isLoading 
   } = useAppStore()
   
   const [prompt, setPromptLocal] = useState(currentTest.prompt)
   const [showInstructions, setShowInstructions] = useState(false)
+  const [showConversation, setShowConversation] = useState((currentTest.conversation?.length || 0) > 0)
+  const conversation = currentTest.conversation || []
+  const [showAssertions, setShowAssertions] = useState((currentTest.assertions?.length || 0) > 0)
+  const assertions = currentTest.assertions || []
+  const referenceAnswer = currentTest.referenceAnswer || ''
+  const [showReference, setShowReference] = useState(Boolean(referenceAnswer))
+  const [showSuites, setShowSuites] = useState((testSuites?.length || 0) > 0)
+  const suiteRun = currentTest.suiteRun
+  const [showMatrix, setShowMatrix] = useState(false)
+  const matrixRun = currentTest.matrixRun
+  const [showOptimizer, setShowOptimizer] = useState(false)
+  const optimizerRun = currentTest.optimizerRun
+  const [showAblation, setShowAblation] = useState(false)
+  const ablationRun = currentTest.ablationRun
+  const variableNames = extractTemplateVariables(
+    currentTest.instructions,
+    currentTest.comparisonInstructions || '',
+    prompt,
+    ...conversation.map(turn => turn.content)
+  )
   const [elapsedTime, setElapsedTime] = useState(0)
   const [startTime, setStartTime] = useState<number | null>(null)
   
@@ -68,6 +139,39 @@ export default function TestStep({ onBack }: TestStepProps) {
     }
   }
 
+  const handleRunSuite = async (suite: TestSuite) => {
+    if (!isLoading) {
+      await saveTestSuite(suite)
+      setStartTime(Date.now())
+      setElapsedTime(0)
+      await runSuite(suite.id)
+    }
+  }
+
+  const handleRunMatrix = async (matrixConfig: MatrixConfig) => {
+    if (!isLoading) {
+      setStartTime(Date.now())
+      setElapsedTime(0)
+      await runMatrix(matrixConfig)
+    }
+  }
+
+  const handleRunOptimizer = async (optimizerConfig: OptimizerConfig) => {
+    if (!isLoading) {
+      setStartTime(Date.now())
+      setElapsedTime(0)
+      await runOptimizer(optimizerConfig)
+    }
+  }
+
+  const handleRunAblation = async (ablationConfig: AblationConfig) => {
+    if (!isLoading) {
+      setStartTime(Date.now())
+      setElapsedTime(0)
+      await runAblation(ablationConfig)
+    }
+  }
+
   const handleBack = () => {
     setCurrentStep(1) // Back to instructions step
     onBack?.()
@@ -178,13 +282,261 @@ export default function TestStep({ onBack }: TestStepProps) {
         </p>
       </div>
 
+      {/* Template variables used by the instructions, prompt or follow-up turns */}
+      {variableNames.length > 0 && (
+        <div className="bg-muted/50 rounded-lg p-4 space-y-2">
+          <h4 className="text-sm font-medium">Template variables</h4>
+          <VariableInputs
+            names={variableNames}
+            values={currentTest.variables || {}}
+            onChange={(variables) => setVariables?.(variables)}
+            disabled={isLoading}
+          />
+        </div>
+      )}
+
+      {/* Follow-up Turns (collapsible) */}
+      <div className="bg-muted/50 rounded-lg p-4">
+        <button
+          onClick={() => setShowConversation(!showConversation)}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <span className="text-sm font-medium cursor-pointer">
+            Follow-up Turns {conversation.length > 0 && `(${conversation.length})`}
+          </span>
+          {showConversation ? (
+            <CaretDown size={16} className="text-muted-foreground" />
+          ) : (
+            <CaretRight size={16} className="text-muted-foreground" />
+          )}
+        </button>
+        {showConversation && (
+          <div className="mt-3">
+            <ConversationEditor
+              turns={conversation}
+              onChange={setConversation}
+              disabled={isLoading}
+            />
+            {conversation.length > 0 && (
+              <p className="mt-2 text-xs text-muted-foreground">
+                Conversations are judged with a built-in conversation prompt; only the judge template&apos;s system prompt applies.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Reference answer (collapsible) */}
+      <div className="bg-muted/50 rounded-lg p-4">
+        <button
+          onClick={() => setShowReference(!showReference)}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <span className="text-sm font-medium cursor-pointer">
+            Reference Answer {referenceAnswer.trim() && '(set)'}
+          </span>
+          {showReference ? (
+            <CaretDown size={16} className="text-muted-foreground" />
+          ) : (
+            <CaretRight size={16} className="text-muted-foreground" />
+          )}
+        </button>
+        {showReference && (
+          <div className="mt-3 space-y-2">
+            <p className="text-xs text-muted-foreground">
+              The judge also grades the response for factual agreement with, and coverage of, this expected answer.
+            </p>
+            <textarea
+              value={referenceAnswer}
+              onChange={(e) => setReferenceAnswer(e.target.value)}
+              placeholder="The capital of France is Paris."
+              aria-label="Reference answer"
+              className="w-full p-2 border border-input rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary"
+              rows={4}
+              disabled={isLoading}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Assertions (collapsible) */}
+      <div className="bg-muted/50 rounded-lg p-4">
+        <button
+          onClick={() => setShowAssertions(!showAssertions)}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <span className="text-sm font-medium cursor-pointer">
+            Assertions {assertions.length > 0 && `(${assertions.length})`}
+          </span>
+          {showAssertions ? (
+            <CaretDown size={16} className="text-muted-foreground" />
+          ) : (
+            <CaretRight size={16} className="text-muted-foreground" />
+          )}
+        </button>
+        {showAssertions && (
+          <div className="mt-3">
+            <AssertionEditor
+              assertions={assertions}
+              onChange={setAssertions}
+              disabled={isLoading}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Test suites (collapsible) */}
+      <div className="bg-muted/50 rounded-lg p-4">
+        <button
+          onClick={() => setShowSuites(!showSuites)}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <span className="text-sm font-medium cursor-pointer">
+            Test Suites {(testSuites?.length || 0) > 0 && `(${testSuites.length})`}
+          </span>
+          {showSuites ? (
+            <CaretDown size={16} className="text-muted-foreground" />
+          ) : (
+            <CaretRight size={16} className="text-muted-foreground" />
+          )}
+        </button>
+        {showSuites && (
+          <div className="mt-3">
+            <SuiteEditor
+              suites={testSuites || []}
+              instructions={currentTest.instructions}
+              prompt={prompt}
+              variables={currentTest.variables}
+              onSave={saveTestSuite}
+              onDelete={deleteTestSuite}
+              onRun={handleRunSuite}
+              canRun={!!currentTest.model && !!settings?.evaluationModel}
+              disabled={isLoading}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Matrix run (collapsible) */}
+      <div className="bg-muted/50 rounded-lg p-4">
+        <button
+          onClick={() => setShowMatrix(!showMatrix)}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <span className="text-sm font-medium cursor-pointer">
+            Matrix Run
+          </span>
+          {showMatrix ? (
+            <CaretDown size={16} className="text-muted-foreground" />
+          ) : (
+            <CaretRight size={16} className="text-muted-foreground" />
+          )}
+        </button>
+        {showMatrix && (
+          <div className="mt-3">
+            <MatrixEditor
+              models={currentTest.model ? [currentTest.model] : []}
+              instructions={currentTest.instructions}
+              comparisonInstructions={currentTest.comparisonInstructions}
+              prompt={prompt}
+              suites={testSuites || []}
+              onRun={handleRunMatrix}
+              canRun={!!settings?.evaluationModel}
+              disabled={isLoading}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Instruction optimizer (collapsible) */}
+      <div className="bg-muted/50 rounded-lg p-4">
+        <button
+          onClick={() => setShowOptimizer(!showOptimizer)}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <span className="text-sm font-medium cursor-pointer">
+            Optimize Instructions
+          </span>
+          {showOptimizer ? (
+            <CaretDown size={16} className="text-muted-foreground" />
+          ) : (
+            <CaretRight size={16} className="text-muted-foreground" />
+          )}
+        </button>
+        {showOptimizer && (
+          <div className="mt-3">
+            <OptimizerEditor
+              instructions={currentTest.instructions}
+              prompt={prompt}
+              suites={testSuites || []}
+              optimizerModelName={settings?.evaluationModel?.name}
+              onRun={handleRunOptimizer}
+              canRun={!!settings?.evaluationModel}
+              disabled={isLoading}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Ablation analysis (collapsible) */}
+      <div className="bg-muted/50 rounded-lg p-4">
+        <button
+          onClick={() => setShowAblation(!showAblation)}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <span className="text-sm font-medium cursor-pointer">
+            Ablation Analysis
+          </span>
+          {showAblation ? (
+            <CaretDown size={16} className="text-muted-foreground" />
+          ) : (
+            <CaretRight size={16} className="text-muted-foreground" />
+          )}
+        </button>
+        {showAblation && (
+          <div className="mt-3">
+            <AblationEditor
+              instructions={currentTest.instructions}
+              prompt={prompt}
+              suites={testSuites || []}
+              onRun={handleRunAblation}
+              canRun={!!settings?.evaluationModel}
+              disabled={isLoading}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Repeated sampling */}
+      <div className="flex items-center justify-between gap-4 bg-muted/50 rounded-lg p-4">
+        <div>
+          <label htmlFor="runs-per-test" className="text-sm font-medium">Runs per test</label>
+          <p className="text-xs text-muted-foreground">
+            Repeat the test and judging to measure variance. Cost scales with the number of runs.
+          </p>
+        </div>
+        <input
+          id="runs-per-test"
+          type="number"
+          min={1}
+          max={MAX_RUNS_PER_TEST}
+          value={settings?.runsPerTest || 1}
+          onChange={(e) => {
+            const runs = Math.min(MAX_RUNS_PER_TEST, Math.max(1, Math.floor(Number(e.target.value) || 1)))
+            updateSettings({ runsPerTest: runs })
+          }}
+          className="w-20 p-2 border border-input rounded-md text-sm text-center"
+          disabled={isLoading}
+        />
+      </div>
+
       {/* Test Guidelines */}
       <div className="bg-blue-50 dark:bg-blue-950/20 p-4 rounded-lg border border-blue-200 dark:border-blue-800">
         <h4 className="text-sm font-medium mb-2 text-blue-900 dark:text-blue-100">
           🧪 What happens when you run the test:
         </h4>
         <ol className="text-xs text-blue-800 dark:text-blue-200 space-y-1 list-decimal list-inside">
-          <li>Your prompt will be sent to {currentTest.model?.name} with your system instructions</li>
+          <li>Your prompt will be sent to {currentTest.model?.name} with your system instructions{conversation.length > 0 && `, followed by ${conversation.length} scripted turn${conversation.length !== 1 ? 's' : ''}`}</li>
           <li>The response will be evaluated by {settings.evaluationModel?.name || 'the evaluation model'} for quality and instruction adherence</li>
           <li>You&apos;ll receive detailed metrics and an overall success score</li>
           <li>Results will be saved to your session history for comparison</li>
@@ -192,7 +544,7 @@ export default function TestStep({ onBack }: TestStepProps) {
       </div>
 
       {/* Run Evaluation Button */}
-      <div className="flex justify-center pt-4 border-t border-border">
+      <div className="flex justify-center gap-2 pt-4 border-t border-border">
         <button
           onClick={handleRunEvaluation}
           disabled={!validation.isValid || isLoading}
@@ -207,7 +559,7 @@ export default function TestStep({ onBack }: TestStepProps) {
           {isLoading ? (
             <>
               <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
-              Running Evaluation... {elapsedTime > 0 && `(${formatElapsedTime(elapsedTime)})`}
+              {ablationRun ? 'Running Ablation...' : optimizerRun ? 'Optimizing...' : matrixRun ? 'Running Matrix...' : suiteRun ? 'Running Suite...' : 'Running Evaluation...'} {elapsedTime > 0 && `(${formatElapsedTime(elapsedTime)})`}
             </>
           ) : (
             <>
@@ -216,6 +568,15 @@ export default function TestStep({ onBack }: TestStepProps) {
             </>
           )}
         </button>
+        {isLoading && (
+          <button
+            onClick={() => cancelEvaluation?.()}
+            className="flex items-center gap-2 px-6 py-3 text-sm rounded-lg font-medium border border-border hover:bg-muted/50 transition-colors min-h-[44px]"
+          >
+            <X size={16} />
+            Cancel
+          </button>
+        )}
       </div>
 
       {/* Elapsed Time Display */}
@@ -233,6 +594,109 @@ export default function TestStep({ onBack }: TestStepProps) {
         </div>
       )}
 
+      {/* Per-case progress while a suite runs */}
+      {isLoading && suiteRun && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-foreground">
+            {suiteRun.suiteName}: {suiteRun.results.filter(result => result.status !== 'pending' && result.status !== 'running').length} of {suiteRun.results.length} cases done
+          </h4>
+          <ul className="space-y-1 max-h-64 overflow-y-auto" aria-live="polite">
+            {suiteRun.results.map((result, index) => (
+              <li key={result.caseId} className="flex items-center justify-between gap-4 p-2 bg-muted/30 rounded border text-sm">
+                <span className="truncate">{index + 1}. {result.prompt}</span>
+                <span className={`text-xs whitespace-nowrap ${CASE_STATUS_CLASSES[result.status]}`}>
+                  {CASE_STATUS_LABELS[result.status]}
+                  {result.metrics && !result.metrics.evaluationError && ` · ${result.metrics.overallScore}%`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Per-cell progress while a matrix runs */}
+      {isLoading && matrixRun && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-foreground">
+            Matrix: {matrixRun.cells.filter(cell => cell.status === 'complete').length} of {matrixRun.cells.length} combinations done
+          </h4>
+          <ul className="space-y-1 max-h-64 overflow-y-auto" aria-live="polite">
+            {matrixRun.cells.map(cell => (
+              <li key={`${cell.modelId}:${cell.variantId}`} className="flex items-center justify-between gap-4 p-2 bg-muted/30 rounded border text-sm">
+                <span className="truncate">
+                  {matrixRun.models.find(model => model.id === cell.modelId)?.name} · {matrixRun.variants.find(variant => variant.id === cell.variantId)?.label}
+                </span>
+                <span className={`text-xs whitespace-nowrap ${CELL_STATUS_CLASSES[cell.status]}`}>
+                  {cell.completedCases} of {matrixRun.prompts.length}
+                  {cell.meanOverallScore !== null && ` · ${cell.meanOverallScore}%`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Per-candidate progress while the optimizer runs */}
+      {isLoading && optimizerRun && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-foreground">
+            Optimizer: {optimizerRun.candidates.filter(candidate => candidate.round > 0).length} of {optimizerRun.maxRounds} rounds · ${optimizerRun.candidates.reduce((total, candidate) => total + candidate.cost, 0).toFixed(4)} of ${optimizerRun.maxCost.toFixed(2)}
+          </h4>
+          <ul className="space-y-1 max-h-64 overflow-y-auto" aria-live="polite">
+            {optimizerRun.candidates.map(candidate => (
+              <li key={candidate.id} className="flex items-center justify-between gap-4 p-2 bg-muted/30 rounded border text-sm">
+                <span className="truncate">
+                  {candidate.round === 0 ? 'Starting instructions' : `Round ${candidate.round}`}
+                  {candidate.rationale && ` · ${candidate.rationale}`}
+                </span>
+                <span className={`text-xs whitespace-nowrap ${CANDIDATE_STATUS_CLASSES[candidate.status]}`}>
+                  {candidate.status === 'rejected'
+                    ? candidate.error
+                    : `${candidate.results.filter(result => result.status !== 'pending' && result.status !== 'running').length} of ${optimizerRun.prompts.length}`}
+                  {candidate.summary?.meanOverallScore !== null && candidate.summary?.meanOverallScore !== undefined && ` · ${candidate.summary.meanOverallScore}%`}
+                  {candidate.id === optimizerRun.bestCandidateId && ' · Best'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Per-variant progress while an ablation runs */}
+      {isLoading && ablationRun && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-foreground">
+            Ablation: {ablationRun.variants.filter(variant => variant.status === 'complete').length} of {ablationRun.variants.length} variants done
+          </h4>
+          <ul className="space-y-1 max-h-64 overflow-y-auto" aria-live="polite">
+            {ablationRun.variants.map((variant, index) => (
+              <li key={index} className="flex items-center justify-between gap-4 p-2 bg-muted/30 rounded border text-sm">
+                <span className="truncate">
+                  {variant.segmentIndex === null ? 'Full instructions' : `Without ${variant.segmentIndex + 1}. ${variant.segment}`}
+                </span>
+                <span className={`text-xs whitespace-nowrap ${CELL_STATUS_CLASSES[variant.status]}`}>
+                  {variant.results.filter(result => result.status !== 'pending' && result.status !== 'running').length} of {ablationRun.prompts.length}
+                  {variant.summary?.meanOverallScore !== null && variant.summary?.meanOverallScore !== undefined && ` · ${variant.summary.meanOverallScore}%`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Live response while the primary model streams */}
+      {isLoading && currentTest.streamingResponse && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-foreground">Live response from {currentTest.model?.name}</h4>
+          <div
+            className="text-sm whitespace-pre-wrap bg-muted/30 rounded-lg border p-3 max-h-64 overflow-y-auto"
+            aria-busy="true"
+          >
+            {currentTest.streamingResponse}
+          </div>
+        </div>
+      )}
+
     </div>
   )
 }
\ No newline at end of file
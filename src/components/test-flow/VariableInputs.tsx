@@ -0,0 +1,39 @@
+'use client'
+
+import React from 'react'
+
+interface VariableInputsProps {
+  names: string[] // Variables to show, in order
+  values: Record<string, string>
+  onChange: (values: Record<string, string>) => void
+  placeholders?: Record<string, string> // Shown when a value is blank, e.g. the test's default
+  disabled?: boolean
+}
+
+/**
+ * One input per {{variable}} found in the instructions or prompt
+ */
+export default function VariableInputs({ names, values, onChange, placeholders = {}, disabled = false }: VariableInputsProps) {
+  if (names.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+      {names.map(name => (
+        <label key={name} className="space-y-1">
+          <span className="block text-xs font-mono text-muted-foreground">{`{{${name}}}`}</span>
+          <input
+            type="text"
+            value={values[name] || ''}
+            onChange={(e) => onChange({ ...values, [name]: e.target.value })}
+            placeholder={placeholders[name] || `Value for ${name}`}
+            aria-label={`Value for ${name}`}
+            className="w-full p-2 border border-input rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary"
+            disabled={disabled}
+          />
+        </label>
+      ))}
+    </div>
+  )
+}
\ No newline at end of file
@@ -17,10 +17,12 @@ describe('ResultsStep', () => {
 
   const mockResults = {
     overallScore: 85,
-    coherenceScore: 90,
-    taskCompletionScore: 85,
-    instructionAdherenceScore: 80,
-    efficiencyScore: 85,
+    criterionScores: [
+      { criterionId: 'coherence', name: 'Coherence', score: 90, normalizedScore: 90 },
+      { criterionId: 'taskCompletion', name: 'Task Completion', score: 85, normalizedScore: 85 },
+      { criterionId: 'instructionAdherence', name: 'Instruction Adherence', score: 80, normalizedScore: 80 },
+      { criterionId: 'efficiency', name: 'Efficiency', score: 85, normalizedScore: 85 }
+    ],
     explanation: 'The response demonstrates good coherence and task completion.'
   }
 
@@ -5,4 +5,21 @@ export { default as TestStep } from './TestStep'
 export { default as ResultsStep } from './ResultsStep'
 export { default as ApiKeyInput } from './ApiKeyInput'
 export { default as ModelSearch } from './ModelSearch'
-export { default as SelectedModelDisplay } from './SelectedModelDisplay'
\ No newline at end of file
+export { default as SelectedModelDisplay } from './SelectedModelDisplay'
+export { default as ConversationEditor } from './ConversationEditor'
+export { default as RubricEditor } from './RubricEditor'
+export { default as JudgePanel } from './JudgePanel'
+export { default as ComparisonResults } from './ComparisonResults'
+export { default as AssertionEditor } from './AssertionEditor'
+export { default as JudgeTemplateEditor } from './JudgeTemplateEditor'
+export { default as InstructionHistory } from './InstructionHistory'
+export { default as SuiteEditor } from './SuiteEditor'
+export { default as SuiteResults } from './SuiteResults'
+export { default as MatrixEditor } from './MatrixEditor'
+export { default as MatrixResults } from './MatrixResults'
+export { default as OptimizerEditor } from './OptimizerEditor'
+export { default as OptimizerResults } from './OptimizerResults'
+export { default as AblationEditor } from './AblationEditor'
+export { default as AblationResults } from './AblationResults'
+export { default as DatasetImport } from './DatasetImport'
+export { default as VariableInputs } from './VariableInputs'
\ No newline at end of file
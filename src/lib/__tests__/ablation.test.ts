@@ -0,0 +1,184 @@
+/**
+ * Tests for ablation runs: splitting instructions, removing segments and attributing score changes
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+  MAX_ABLATION_EVALUATIONS,
+  createAblationVariants,
+  removeSegments,
+  runAblation,
+  splitInstructionSegments,
+  summarizeAblation,
+  trimInstructions,
+  validateAblationConfig
+} from '../ablation'
+import { createTestCase } from '../suites'
+import { CancellationError } from '../errorHandling'
+import { AblationVariant } from '../types'
+import { TestResult } from '@/services/evaluationEngine'
+
+const INSTRUCTIONS = 'You are a helpful assistant. Always answer in English! Keep answers short.'
+
+const testResult = (overallScore: number, promptTokens = 100): TestResult => ({
+  response: `Reply scoring ${overallScore}`,
+  metrics: {
+    overallScore,
+    criterionScores: [{ criterionId: 'coherence', name: 'Coherence', score: overallScore, normalizedScore: overallScore }],
+    explanation: 'Judged.'
+  },
+  tokenUsage: { promptTokens, completionTokens: 5, totalTokens: promptTokens + 5 },
+  executionTime: 100,
+  cost: 0.001
+})
+
+const setup = (overrides = {}) => ({
+  instructions: INSTRUCTIONS,
+  mode: 'sentence' as const,
+  prompts: [createTestCase('What is the capital of France?'), createTestCase('What is the capital of Japan?')],
+  ...overrides
+})
+
+describe('splitInstructionSegments', () => {
+  it('should split sentences and keep the text when joined back', () => {
+    const instructions = 'You are a guide. Be friendly!\nNever guess.\n\nCite "sources." Done'
+
+    const segments = splitInstructionSegments(instructions, 'sentence')
+
+    expect(segments.map(segment => segment.trim())).toEqual(['You are a guide.', 'Be friendly!', 'Never guess.', 'Cite "sources."', 'Done'])
+    expect(segments.join('')).toBe(instructions)
+  })
+
+  it('should split bullets, keeping indented lines with their item', () => {
+    const instructions = 'Follow these rules:\n- Be brief\n  even when asked for detail\n- Use British spelling\n1. Cite sources\nThanks.'
+
+    const segments = splitInstructionSegments(instructions, 'bullet')
+
+    expect(segments.map(segment => segment.trim())).toEqual([
+      'Follow these rules:',
+      '- Be brief\n  even when asked for detail',
+      '- Use British spelling',
+      '1. Cite sources',
+      'Thanks.'
+    ])
+    expect(segments.join('')).toBe(instructions)
+  })
+
+  it('should split sections at headings, or at paragraphs without headings', () => {
+    const withHeadings = 'Intro line.\n# Tone\nBe warm.\n\nStay calm.\n## Format\nUse lists.'
+    const withoutHeadings = 'First paragraph.\nStill first.\n\nSecond paragraph.'
+
+    expect(splitInstructionSegments(withHeadings, 'section').map(segment => segment.trim())).toEqual([
+      'Intro line.',
+      '# Tone\nBe warm.\n\nStay calm.',
+      '## Format\nUse lists.'
+    ])
+    expect(splitInstructionSegments(withoutHeadings, 'section').map(segment => segment.trim())).toEqual([
+      'First paragraph.\nStill first.',
+      'Second paragraph.'
+    ])
+  })
+})
+
+describe('removeSegments', () => {
+  it('should remove segments but keep the line breaks around them', () => {
+    expect(removeSegments(INSTRUCTIONS, 'sentence', [1])).toBe('You are a helpful assistant. Keep answers short.')
+    expect(removeSegments('One.\nTwo.\nThree.', 'sentence', [1])).toBe('One.\nThree.')
+    expect(removeSegments('Intro.\n\n- A\n- B\n\nOutro.', 'bullet', [1, 2])).toBe('Intro.\n\nOutro.')
+    expect(removeSegments('- A\n- B\n\nOutro.', 'bullet', [1])).toBe('- A\n\nOutro.')
+  })
+})
+
+describe('validateAblationConfig', () => {
+  it('should accept instructions with several segments', () => {
+    expect(validateAblationConfig(setup())).toEqual([])
+  })
+
+  it('should need at least two segments', () => {
+    expect(validateAblationConfig(setup({ instructions: 'You are a helpful assistant.' }))).toEqual([
+      'The instructions split into 1 sentence; at least 2 segments are needed'
+    ])
+  })
+
+  it('should cap the number of evaluations', () => {
+    const prompts = Array.from({ length: MAX_ABLATION_EVALUATIONS / 4 + 1 }, () => createTestCase('A valid prompt'))
+
+    expect(validateAblationConfig(setup({ prompts }))).toContain(
+      `This run needs ${MAX_ABLATION_EVALUATIONS + 4} evaluations; the limit is ${MAX_ABLATION_EVALUATIONS}`
+    )
+  })
+})
+
+describe('runAblation', () => {
+  it('should run the full instructions and each segment removed over every prompt', async () => {
+    const runCase = vi.fn(async (instructions: string) =>
+      testResult(instructions.includes('English') ? 80 : 60, instructions.length))
+
+    const variants = await runAblation(setup(), { runCase })
+
+    expect(runCase).toHaveBeenCalledTimes(8)
+    expect(variants.map(variant => [variant.segmentIndex, variant.status, variant.summary?.meanOverallScore])).toEqual([
+      [null, 'complete', 80],
+      [0, 'complete', 80],
+      [1, 'complete', 60],
+      [2, 'complete', 80]
+    ])
+    expect(variants[2].segment).toBe('Always answer in English!')
+  })
+
+  it('should report each variant as it progresses', async () => {
+    const onVariantUpdate = vi.fn()
+
+    await runAblation(setup(), { runCase: async () => testResult(80), onVariantUpdate })
+
+    const updates = onVariantUpdate.mock.calls.map(([variant, index]) => [index, variant.status])
+    expect(updates[0]).toEqual([0, 'running'])
+    expect(updates[updates.length - 1]).toEqual([3, 'complete'])
+  })
+
+  it('should stop when cancelled', async () => {
+    const controller = new AbortController()
+    const runCase = vi.fn(async () => {
+      controller.abort()
+      throw new CancellationError()
+    })
+
+    await expect(runAblation(setup(), { runCase, signal: controller.signal })).rejects.toBeInstanceOf(CancellationError)
+    expect(runCase.mock.calls.length).toBeLessThanOrEqual(2)
+  })
+})
+
+describe('summarizeAblation', () => {
+  const scoredVariants = async (scores: number[]): Promise<AblationVariant[]> => {
+    const variants = createAblationVariants(INSTRUCTIONS, 'sentence', setup().prompts)
+    return runAblation(setup(), {
+      runCase: async instructions => {
+        const index = variants.findIndex(variant => variant.instructions === instructions)
+        return testResult(scores[index], instructions.length)
+      }
+    })
+  }
+
+  it('should attribute the score change and token saving to each segment', async () => {
+    const impacts = summarizeAblation(await scoredVariants([80, 79, 60, 85]))
+
+    expect(impacts.map(impact => [impact.segmentIndex, impact.scoreDelta, impact.passRateDelta, impact.verdict])).toEqual([
+      [0, 1, 0, 'neutral'],
+      [1, 20, 100, 'helps'],
+      [2, -5, 0, 'hurts']
+    ])
+    expect(impacts[1].promptTokensSaved).toBe(INSTRUCTIONS.length - removeSegments(INSTRUCTIONS, 'sentence', [1]).length)
+  })
+
+  it('should leave segments unscored until both runs are complete', () => {
+    const impacts = summarizeAblation(createAblationVariants(INSTRUCTIONS, 'sentence', setup().prompts))
+
+    expect(impacts.every(impact => impact.scoreDelta === null && impact.verdict === null)).toBe(true)
+  })
+
+  it('should trim the segments that did not help', async () => {
+    const impacts = summarizeAblation(await scoredVariants([80, 79, 60, 85]))
+
+    expect(trimInstructions(INSTRUCTIONS, 'sentence', impacts)).toBe('Always answer in English!')
+  })
+})
\ No newline at end of file
@@ -0,0 +1,160 @@
+/**
+ * Tests for the server-side OpenRouter proxy
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { ProxyConfig, RateLimiter, getClientIp, getProxyConfig, proxyToOpenRouter, redactSecrets, resetRateLimiter } from '../apiProxy'
+
+const proxyConfig: ProxyConfig = {
+  upstreamUrl: 'https://openrouter.ai/api/v1',
+  serverApiKey: 'server-held-key-123',
+  rateLimit: 2,
+  rateLimitWindowMs: 60000,
+  trustedProxyHops: 1
+}
+
+const chatRequest = (headers: Record<string, string> = {}, body = '{"model":"openai/gpt-4","messages":[]}') =>
+  new Request('http://localhost:3000/api/chat', {
+    method: 'POST',
+    headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1', ...headers },
+    body
+  })
+
+describe('RateLimiter', () => {
+  it('should limit each client per window', () => {
+    const limiter = new RateLimiter(2, 1000)
+
+    expect(limiter.check('a', 0)).toEqual({ allowed: true, remaining: 1, retryAfterMs: 0 })
+    expect(limiter.check('a', 100).allowed).toBe(true)
+    expect(limiter.check('a', 400)).toEqual({ allowed: false, remaining: 0, retryAfterMs: 600 })
+    expect(limiter.check('b', 400).allowed).toBe(true)
+    expect(limiter.check('a', 1000).allowed).toBe(true)
+  })
+
+  it('should allow everything with a limit of zero', () => {
+    const limiter = new RateLimiter(0, 1000)
+
+    expect(Array.from({ length: 5 }, () => limiter.check('a').allowed)).toEqual([true, true, true, true, true])
+  })
+})
+
+describe('proxy helpers', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should take the forwarded address appended by the trusted proxies as the client IP', () => {
+    const forwarded = (value: string) => new Request('http://localhost/', { headers: { 'x-forwarded-for': value } })
+
+    expect(getClientIp(chatRequest())).toBe('10.0.0.1')
+    expect(getClientIp(forwarded('203.0.113.7, 10.0.0.1'), 2)).toBe('203.0.113.7')
+    expect(getClientIp(forwarded('10.0.0.1'), 2)).toBe('10.0.0.1')
+    expect(getClientIp(new Request('http://localhost/', { headers: { 'x-real-ip': '198.51.100.2' } }))).toBe('198.51.100.2')
+    expect(getClientIp(new Request('http://localhost/'))).toBe('unknown')
+  })
+
+  it('should fall back to the default rate limit when the settings are malformed', () => {
+    vi.stubEnv('PROXY_RATE_LIMIT', 'sixty')
+    vi.stubEnv('PROXY_RATE_LIMIT_WINDOW_MS', '')
+
+    expect(getProxyConfig()).toMatchObject({ rateLimit: 60, rateLimitWindowMs: 60000 })
+
+    vi.stubEnv('PROXY_RATE_LIMIT', '0')
+    vi.stubEnv('PROXY_RATE_LIMIT_WINDOW_MS', '1000')
+
+    expect(getProxyConfig()).toMatchObject({ rateLimit: 0, rateLimitWindowMs: 1000 })
+  })
+
+  it('should redact known and key-shaped secrets', () => {
+    expect(redactSecrets('bad key server-held-key-123 and sk-or-v1-abcdef123456', ['server-held-key-123']))
+      .toBe('bad key [REDACTED] and [REDACTED]')
+  })
+})
+
+describe('proxyToOpenRouter', () => {
+  const mockFetch = vi.fn()
+
+  beforeEach(() => {
+    resetRateLimiter()
+    mockFetch.mockReset()
+    vi.stubGlobal('fetch', mockFetch)
+    vi.spyOn(console, 'info').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('should forward the request with the server key and pass the response back', async () => {
+    mockFetch.mockResolvedValueOnce(new Response('data: {"id":"1"}\n\n', { status: 200, headers: { 'content-type': 'text/event-stream' } }))
+
+    const response = await proxyToOpenRouter(chatRequest(), '/chat/completions', { requireKey: true }, proxyConfig)
+
+    const [url, init] = mockFetch.mock.calls[0]
+    expect(url).toBe('https://openrouter.ai/api/v1/chat/completions')
+    expect(init.headers.Authorization).toBe('Bearer server-held-key-123')
+    expect(init.body).toBe('{"model":"openai/gpt-4","messages":[]}')
+    expect(response.status).toBe(200)
+    expect(response.headers.get('content-type')).toBe('text/event-stream')
+    expect(response.headers.get('x-ratelimit-remaining')).toBe('1')
+    expect(await response.text()).toBe('data: {"id":"1"}\n\n')
+  })
+
+  it("should prefer the user's own key", async () => {
+    mockFetch.mockResolvedValueOnce(new Response('{}'))
+
+    await proxyToOpenRouter(chatRequest({ authorization: 'Bearer user-key-456' }), '/chat/completions', { requireKey: true }, proxyConfig)
+
+    expect(mockFetch.mock.calls[0][1].headers.Authorization).toBe('Bearer user-key-456')
+  })
+
+  it('should reject requests without any key or with a body that is not JSON', async () => {
+    const withoutKey = await proxyToOpenRouter(chatRequest(), '/chat/completions', { requireKey: true }, { ...proxyConfig, serverApiKey: null })
+    const badBody = await proxyToOpenRouter(chatRequest({}, 'not json'), '/chat/completions', { requireKey: true }, proxyConfig)
+
+    expect(withoutKey.status).toBe(401)
+    expect(badBody.status).toBe(400)
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should rate limit per client IP', async () => {
+    mockFetch.mockImplementation(async () => new Response('{}'))
+
+    await proxyToOpenRouter(chatRequest(), '/chat/completions', {}, proxyConfig)
+    await proxyToOpenRouter(chatRequest(), '/chat/completions', {}, proxyConfig)
+    const limited = await proxyToOpenRouter(chatRequest(), '/chat/completions', {}, proxyConfig)
+    const otherClient = await proxyToOpenRouter(chatRequest({ 'x-forwarded-for': '198.51.100.2' }), '/chat/completions', {}, proxyConfig)
+
+    expect(limited.status).toBe(429)
+    expect(limited.headers.get('retry-after')).toBe('60')
+    expect(otherClient.status).toBe(200)
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('should not let a spoofed forwarded address reset the limit', async () => {
+    mockFetch.mockImplementation(async () => new Response('{}'))
+    const spoofed = (index: number) => chatRequest({ 'x-forwarded-for': `192.0.2.${index}, 203.0.113.7` })
+
+    const statuses: number[] = []
+    for (let index = 0; index < 3; index++) {
+      statuses.push((await proxyToOpenRouter(spoofed(index), '/chat/completions', {}, proxyConfig)).status)
+    }
+
+    expect(statuses).toEqual([200, 200, 429])
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should keep keys out of the logs when the upstream call fails', async () => {
+    mockFetch.mockRejectedValueOnce(new TypeError('connect failed for Bearer user-key-456'))
+
+    const response = await proxyToOpenRouter(chatRequest({ authorization: 'Bearer user-key-456' }), '/chat/completions', {}, proxyConfig)
+
+    expect(response.status).toBe(502)
+    const logged = vi.mocked(console.error).mock.calls.flat().join(' ')
+    expect(logged).toContain('connect failed')
+    expect(logged).not.toContain('user-key-456')
+  })
+})
\ No newline at end of file
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest'
+import {
+  MAX_PATTERN_LENGTH,
+  countSentences,
+  countWords,
+  evaluateAssertion,
+  hasNestedQuantifier,
+  runAssertions,
+  validateAssertion,
+  validateJsonSchema,
+  validatePatternSafety
+} from '../assertions'
+import { Assertion } from '../types'
+
+const assertion = (overrides: Omit<Assertion, 'id'>): Assertion => ({ id: 'a1', ...overrides })
+
+describe('assertion utilities', () => {
+  describe('validateAssertion', () => {
+    it('rejects invalid patterns, schemas and limits', () => {
+      expect(validateAssertion(assertion({ type: 'regex', value: '(' })))
+        .toEqual(['Matches regex pattern is not a valid regular expression'])
+      expect(validateAssertion(assertion({ type: 'jsonSchema', value: '[1]' })))
+        .toEqual(['JSON Schema must be an object'])
+      expect(validateAssertion(assertion({ type: 'wordCount', min: 10, max: 5 })))
+        .toEqual(['Word count minimum must not exceed its maximum'])
+      expect(validateAssertion(assertion({ type: 'contains', values: [' '] })))
+        .toEqual(['Contains all of needs at least one phrase'])
+    })
+
+    it('fails invalid assertions instead of throwing', () => {
+      const result = evaluateAssertion(assertion({ type: 'regex', value: '(' }), 'anything')
+      expect(result.passed).toBe(false)
+      expect(result.message).toContain('Invalid assertion')
+    })
+  })
+
+  describe('validatePatternSafety', () => {
+    it('finds quantified groups that contain a quantifier', () => {
+      expect(['(a+)+', '(\\w*\\s?)*', '((ab)+c)*', '(?:x+){2,}', '([a-z]+)+$'].map(hasNestedQuantifier))
+        .toEqual([true, true, true, true, true])
+      expect(['(a+)?', '(ab)+', '(\\d{3}-)+', '[(a+)]+', '\\(a+\\)+', '^\\w+@\\w+\\.com$'].map(hasNestedQuantifier))
+        .toEqual([false, false, false, false, false, false])
+    })
+
+    it('rejects long or nested patterns in regex and JSON Schema assertions', () => {
+      expect(validatePatternSafety(assertion({ type: 'regex', value: 'x'.repeat(MAX_PATTERN_LENGTH + 1) })))
+        .toEqual([`Matches regex pattern must be at most ${MAX_PATTERN_LENGTH} characters`])
+      expect(validatePatternSafety(assertion({ type: 'notRegex', value: '(a+)+b' })))
+        .toEqual(['Does not match regex pattern must not repeat a group that contains a quantifier'])
+      expect(validatePatternSafety(assertion({
+        type: 'jsonSchema',
+        value: '{"properties": {"code": {"type": "string", "pattern": "^(\\\\d+)*$"}, "name": {"pattern": "^[A-Z]"}}}'
+      }))).toEqual(['JSON Schema pattern /^(\\d+)*$/ must not repeat a group that contains a quantifier'])
+      expect(validatePatternSafety(assertion({ type: 'regex', value: '^Paris\\.?$' }))).toEqual([])
+    })
+  })
+
+  describe('text checks', () => {
+    it('matches and rejects regular expressions, ignoring case by default', () => {
+      expect(evaluateAssertion(assertion({ type: 'regex', value: 'paris' }), 'It is Paris.').passed).toBe(true)
+      expect(evaluateAssertion(assertion({ type: 'regex', value: 'paris', caseSensitive: true }), 'It is Paris.').passed).toBe(false)
+      expect(evaluateAssertion(assertion({ type: 'notRegex', value: 'acme\\s?corp' }), 'Try AcmeCorp instead').passed).toBe(false)
+    })
+
+    it('reports missing and forbidden phrases', () => {
+      const contains = evaluateAssertion(assertion({ type: 'contains', values: ['Paris', 'France'] }), 'Paris is lovely')
+      expect(contains).toMatchObject({ passed: false, message: 'Missing "France"' })
+
+      const excludes = evaluateAssertion(assertion({ type: 'excludes', values: ['competitor', 'rival'] }), 'Our rival is slower')
+      expect(excludes).toMatchObject({ passed: false, message: 'Found "rival"' })
+    })
+
+    it('checks prefixes and suffixes of the trimmed response', () => {
+      expect(evaluateAssertion(assertion({ type: 'startsWith', value: 'sure' }), '  Sure, here it is.').passed).toBe(true)
+      expect(evaluateAssertion(assertion({ type: 'endsWith', value: '?' }), 'Anything else?\n').passed).toBe(true)
+      expect(evaluateAssertion(assertion({ type: 'endsWith', value: '?' }), 'Done.').passed).toBe(false)
+    })
+  })
+
+  describe('length limits', () => {
+    it('counts words and sentences', () => {
+      expect(countWords('  one two\nthree ')).toBe(3)
+      expect(countWords('')).toBe(0)
+      expect(countSentences('First. Second! Third? And a fragment')).toBe(4)
+      expect(countSentences('Version 1.5 is out.')).toBe(1)
+    })
+
+    it('enforces minimum and maximum counts', () => {
+      const limit = assertion({ type: 'wordCount', max: 3 })
+      expect(evaluateAssertion(limit, 'one two three')).toMatchObject({ passed: true, message: '3 words' })
+      expect(evaluateAssertion(limit, 'one two three four').passed).toBe(false)
+      expect(evaluateAssertion(assertion({ type: 'characterCount', min: 5 }), 'abc').passed).toBe(false)
+      expect(evaluateAssertion(assertion({ type: 'sentenceCount', min: 1, max: 2 }), 'One. Two.').passed).toBe(true)
+    })
+  })
+
+  describe('JSON checks', () => {
+    const schema = JSON.stringify({
+      type: 'object',
+      required: ['answer', 'confidence'],
+      additionalProperties: false,
+      properties: {
+        answer: { type: 'string', minLength: 1 },
+        confidence: { type: 'number', minimum: 0, maximum: 1 },
+        tags: { type: 'array', items: { type: 'string' } }
+      }
+    })
+
+    it('detects whether the response parses as JSON', () => {
+      expect(evaluateAssertion(assertion({ type: 'isJson' }), ' {"a": 1} ').passed).toBe(true)
+      expect(evaluateAssertion(assertion({ type: 'isJson' }), '```json\n{"a": 1}\n```').passed).toBe(false)
+    })
+
+    it('validates the response against a JSON Schema', () => {
+      const check = assertion({ type: 'jsonSchema', value: schema })
+      expect(evaluateAssertion(check, '{"answer": "Paris", "confidence": 0.9, "tags": ["geo"]}').passed).toBe(true)
+
+      const result = evaluateAssertion(check, '{"answer": "Paris", "confidence": 2, "extra": true}')
+      expect(result.passed).toBe(false)
+      expect(result.message).toBe('$.confidence should be at most 1; $ has unexpected property "extra"')
+    })
+
+    it('supports type unions, enums and combinators', () => {
+      expect(validateJsonSchema(null, { type: ['string', 'null'] })).toEqual([])
+      expect(validateJsonSchema(1.5, { type: 'integer' })).toEqual(['$ should be integer'])
+      expect(validateJsonSchema('maybe', { enum: ['yes', 'no'] })).toEqual(['$ should be one of "yes", "no"'])
+      expect(validateJsonSchema(5, { anyOf: [{ type: 'string' }, { minimum: 10 }] }))
+        .toEqual(['$ should match at least one allowed schema'])
+      expect(validateJsonSchema([1, 'a'], { items: { type: 'number' } })).toEqual(['$[1] should be number'])
+    })
+  })
+
+  it('runs every assertion in order', () => {
+    const results = runAssertions([
+      { id: 'json', type: 'isJson' },
+      { id: 'short', type: 'characterCount', max: 100 }
+    ], 'not json')
+
+    expect(results.map(result => [result.assertionId, result.passed])).toEqual([['json', false], ['short', true]])
+  })
+})
\ No newline at end of file
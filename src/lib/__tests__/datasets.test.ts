@@ -0,0 +1,125 @@
+/**
+ * Tests for dataset import: CSV and JSONL parsing, column mapping and row validation
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  detectDatasetFormat,
+  guessColumnMapping,
+  importDataset,
+  parseCsv,
+  parseDataset,
+  validateColumnMapping
+} from '../datasets'
+
+describe('parseCsv', () => {
+  it('should handle quoted fields with commas, quotes and line breaks', () => {
+    const text = '\uFEFFprompt,expected\r\n"Hello, world","She said ""hi""\nthen left"\r\n\r\nPlain,row'
+
+    expect(parseCsv(text)).toEqual([
+      ['prompt', 'expected'],
+      ['Hello, world', 'She said "hi"\nthen left'],
+      ['Plain', 'row']
+    ])
+  })
+
+  it('should throw on an unclosed quote', () => {
+    expect(() => parseCsv('prompt\n"never closed')).toThrow('The file ends inside a quoted field')
+  })
+})
+
+describe('parseDataset', () => {
+  it('should read CSV rows by header and flag rows with the wrong number of columns', () => {
+    const table = parseDataset('prompt,tags\nWhat is the capital of France?,geo\nToo,many,fields', 'csv')
+
+    expect(table.headers).toEqual(['prompt', 'tags'])
+    expect(table.rows[0]).toEqual({ row: 1, values: { prompt: 'What is the capital of France?', tags: 'geo' } })
+    expect(table.rows[1].error).toBe('Expected 2 columns, found 3')
+  })
+
+  it('should flatten JSONL objects and keep unreadable lines as errors', () => {
+    const text = [
+      '{"prompt": "Greet the customer warmly", "tags": ["support", "tone"], "variables": {"persona": "pirate"}}',
+      '',
+      'not json',
+      '["an", "array"]'
+    ].join('\n')
+
+    const table = parseDataset(text, 'jsonl')
+
+    expect(table.headers).toEqual(['prompt', 'tags', 'variables.persona'])
+    expect(table.rows[0].values).toEqual({ prompt: 'Greet the customer warmly', tags: 'support, tone', 'variables.persona': 'pirate' })
+    expect(table.rows.slice(1).map(row => [row.row, row.error])).toEqual([
+      [2, 'Not valid JSON'],
+      [3, 'Each line must be a JSON object']
+    ])
+  })
+
+  it('should pick the format from the file name or content', () => {
+    expect(detectDatasetFormat('cases.JSONL', '')).toBe('jsonl')
+    expect(detectDatasetFormat('cases.csv', '{"prompt": "x"}')).toBe('csv')
+    expect(detectDatasetFormat('cases.txt', '  {"prompt": "x"}')).toBe('jsonl')
+  })
+})
+
+describe('column mapping', () => {
+  it('should recognize common headers and ignore the rest', () => {
+    expect(guessColumnMapping(['Question', 'expected_answer', 'tags', 'variables.persona', 'notes', 'input'])).toEqual({
+      Question: 'prompt',
+      expected_answer: 'referenceAnswer',
+      tags: 'tags',
+      'variables.persona': 'variable',
+      notes: 'ignore',
+      input: 'ignore'
+    })
+  })
+
+  it('should require one prompt column and valid, distinct variable names', () => {
+    expect(validateColumnMapping({ notes: 'ignore' })).toContain('Choose exactly one prompt column')
+    expect(validateColumnMapping({ prompt: 'prompt', 'first name': 'variable' })).toContain(
+      '"first name" is not a valid variable name; use letters, digits and underscores'
+    )
+    expect(validateColumnMapping({ prompt: 'prompt', persona: 'variable', 'variables.persona': 'variable' })).toContain(
+      'Each variable can only come from one column'
+    )
+    expect(validateColumnMapping({ prompt: 'prompt', expected: 'referenceAnswer', 'var.tone': 'variable' })).toEqual([])
+  })
+})
+
+describe('importDataset', () => {
+  const csv = [
+    'prompt,expected,tags,variables.persona',
+    'What is the capital of France?,Paris,"geo; easy, geo",tourist',
+    'Hi,,,',
+    'What is the capital of Japan?,,,',
+    'Name three primary colors.,,,'
+  ].join('\n')
+
+  it('should turn valid rows into test cases and reject the rest with reasons', () => {
+    const table = parseDataset(csv, 'csv')
+
+    const { cases, rejected } = importDataset(table, guessColumnMapping(table.headers))
+
+    expect(cases).toHaveLength(3)
+    expect(cases[0]).toMatchObject({
+      prompt: 'What is the capital of France?',
+      referenceAnswer: 'Paris',
+      tags: ['geo', 'easy'],
+      variables: { persona: 'tourist' }
+    })
+    expect(cases[1].referenceAnswer).toBeUndefined()
+    expect(cases[1].tags).toBeUndefined()
+    expect(rejected).toHaveLength(1)
+    expect(rejected[0].row).toBe(2)
+    expect(rejected[0].prompt).toBe('Hi')
+  })
+
+  it('should reject rows past the limit', () => {
+    const table = parseDataset(csv, 'csv')
+
+    const { cases, rejected } = importDataset(table, { prompt: 'prompt' }, 1)
+
+    expect(cases.map(testCase => testCase.prompt)).toEqual(['What is the capital of France?'])
+    expect(rejected.map(row => row.errors)).toContainEqual(['Over the limit of 1 cases'])
+  })
+})
\ No newline at end of file
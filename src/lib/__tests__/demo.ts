@@ -57,10 +57,12 @@ export async function demonstrateSecurityAndSessionManagement() {
       response: 'The capital of France is Paris.',
       metrics: {
         overallScore: 95,
-        coherenceScore: 98,
-        taskCompletionScore: 100,
-        instructionAdherenceScore: 92,
-        efficiencyScore: 88,
+        criterionScores: [
+          { criterionId: 'coherence', name: 'Coherence', score: 98, normalizedScore: 98 },
+          { criterionId: 'taskCompletion', name: 'Task Completion', score: 100, normalizedScore: 100 },
+          { criterionId: 'instructionAdherence', name: 'Instruction Adherence', score: 92, normalizedScore: 92 },
+          { criterionId: 'efficiency', name: 'Efficiency', score: 88, normalizedScore: 88 }
+        ],
         explanation: 'Excellent response with accurate information.'
       },
       tokenUsage: {
@@ -9,10 +9,15 @@ import {
   ErrorRecoveryManager,
   ApiClient,
   DEFAULT_RETRY_CONFIG,
-  AppError
+  AppError,
+  CancellationError
 } from '../errorHandling'
 
 describe('ErrorClassifier', () => {
+  it('should classify cancellations ahead of other errors', () => {
+    expect(ErrorClassifier.classifyError(new CancellationError()).type).toBe('cancelled')
+  })
+
   it('should classify network errors correctly', () => {
     const networkError = new TypeError('Failed to fetch')
     const classified = ErrorClassifier.classifyError(networkError)
@@ -137,6 +142,28 @@ describe('RetryManager', () => {
     await expect(retryManager.executeWithRetry(operation)).rejects.toThrow()
     expect(operation).toHaveBeenCalledTimes(3) // Initial + 2 retries
   })
+
+  it('should stop a pending retry when cancelled', async () => {
+    const controller = new AbortController()
+    const operation = vi.fn().mockImplementation(async () => {
+      setTimeout(() => controller.abort(), 10)
+      throw new TypeError('Failed to fetch')
+    })
+
+    await expect(retryManager.executeWithRetry(operation, undefined, controller.signal))
+      .rejects.toMatchObject({ type: 'cancelled', retryable: false })
+    expect(operation).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not start when already cancelled', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    const operation = vi.fn().mockResolvedValue('success')
+
+    await expect(retryManager.executeWithRetry(operation, undefined, controller.signal))
+      .rejects.toMatchObject({ type: 'cancelled' })
+    expect(operation).not.toHaveBeenCalled()
+  })
 })
 
 describe('ErrorRecoveryManager', () => {
@@ -235,6 +262,21 @@ describe('ApiClient', () => {
     await expect(apiClient.fetch('https://api.example.com/test')).rejects.toThrow()
   }, 10000)
 
+  it('should abort the request when the caller cancels', async () => {
+    const controller = new AbortController()
+    vi.mocked(fetch).mockImplementation((_, init) =>
+      new Promise((_, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+      })
+    )
+
+    const request = apiClient.fetch('https://api.example.com/test', { signal: controller.signal })
+    controller.abort()
+
+    await expect(request).rejects.toMatchObject({ type: 'cancelled' })
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
   it('should parse JSON responses', async () => {
     const mockData = { message: 'success' }
     const mockResponse = new Response(JSON.stringify(mockData), {
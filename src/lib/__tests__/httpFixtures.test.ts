@@ -0,0 +1,151 @@
+/**
+ * Tests for HTTP fixture recording and replay
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { HttpFixtureFile, HttpFixtureStore, REDACTED, hashRequest, httpFixtures } from '../httpFixtures'
+import { ApiClient } from '../errorHandling'
+
+const chatRequest = (apiKey: string, body: Record<string, unknown>): RequestInit => ({
+  method: 'POST',
+  headers: { 'Authorization': `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+  body: JSON.stringify(body)
+})
+
+describe('hashRequest', () => {
+  it('should ignore headers, JSON key order and query parameter order', () => {
+    const hash = hashRequest('https://api.test/chat?b=2&a=1', chatRequest('sk-or-first-key', { model: 'm', temperature: 0 }))
+
+    expect(hashRequest('https://api.test/chat?a=1&b=2', chatRequest('sk-or-other-key', { temperature: 0, model: 'm' }))).toBe(hash)
+    expect(hashRequest('https://api.test/chat?a=1&b=2', chatRequest('sk-or-first-key', { model: 'm', temperature: 1 }))).not.toBe(hash)
+    expect(hashRequest('https://api.test/chat?a=1&b=2', { method: 'GET' })).not.toBe(hash)
+  })
+})
+
+describe('HttpFixtureStore', () => {
+  let store: HttpFixtureStore
+  const mockFetch = vi.fn()
+
+  beforeEach(() => {
+    store = new HttpFixtureStore()
+    mockFetch.mockReset()
+    vi.stubGlobal('fetch', mockFetch)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should pass requests through when off', async () => {
+    mockFetch.mockResolvedValueOnce(new Response('{}'))
+
+    await store.fetch('https://api.test/models')
+
+    expect(mockFetch).toHaveBeenCalledWith('https://api.test/models', {})
+    expect(store.toFile().fixtures).toEqual([])
+  })
+
+  it('should record responses with keys and secrets redacted', async () => {
+    mockFetch.mockResolvedValueOnce(new Response('{"echo":"sk-or-v1-abcdef123456"}', {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', 'Set-Cookie': 'session=abc' }
+    }))
+    store.startRecording()
+
+    const response = await store.fetch('https://api.test/chat?api_key=secret-value', chatRequest('sk-or-v1-abcdef123456', {
+      model: 'm',
+      apiKey: 'sk-or-v1-abcdef123456',
+      max_tokens: 10
+    }))
+    await store.whenIdle()
+
+    const [fixture] = store.toFile().fixtures
+    expect(await response.text()).toBe('{"echo":"sk-or-v1-abcdef123456"}')
+    expect(fixture.request).toEqual({
+      method: 'POST',
+      url: `https://api.test/chat?api_key=${encodeURIComponent(REDACTED)}`,
+      headers: { 'authorization': REDACTED, 'content-type': 'application/json' },
+      body: { apiKey: REDACTED, max_tokens: 10, model: 'm' }
+    })
+    expect(fixture.response).toMatchObject({
+      status: 200,
+      headers: { 'content-type': 'application/json', 'set-cookie': REDACTED },
+      body: `{"echo":"${REDACTED}"}`
+    })
+    expect(JSON.stringify(store.toFile())).not.toContain('abcdef123456')
+    expect(JSON.stringify(store.toFile())).not.toContain('secret-value')
+  })
+
+  it('should replay recorded responses in order without the network', async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response('busy', { status: 429, statusText: 'Too Many Requests' }))
+      .mockResolvedValueOnce(new Response('{"n":1}'))
+    store.startRecording()
+    await store.fetch('https://api.test/chat', chatRequest('sk-or-recording-key', { model: 'm' }))
+    await store.fetch('https://api.test/chat', chatRequest('sk-or-recording-key', { model: 'm' }))
+    await store.whenIdle()
+
+    const replay = new HttpFixtureStore()
+    replay.startReplay(JSON.parse(JSON.stringify(store.toFile())))
+    const first = await replay.fetch('https://api.test/chat', chatRequest('sk-or-replay-key', { model: 'm' }))
+    const second = await replay.fetch('https://api.test/chat', chatRequest('sk-or-replay-key', { model: 'm' }))
+    const third = await replay.fetch('https://api.test/chat', chatRequest('sk-or-replay-key', { model: 'm' }))
+
+    expect(first.status).toBe(429)
+    expect(first.statusText).toBe('Too Many Requests')
+    expect(await second.json()).toEqual({ n: 1 })
+    expect(await third.json()).toEqual({ n: 1 })
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should fail requests that have no fixture', async () => {
+    store.startReplay({ version: 1, fixtures: [] })
+
+    await expect(store.fetch('https://api.test/models')).rejects.toThrow('No recorded fixture for GET https://api.test/models')
+    expect(mockFetch).not.toHaveBeenCalled()
+    expect(() => store.startReplay({ fixtures: [] } as unknown as HttpFixtureFile)).toThrow('Unsupported fixture file format')
+  })
+
+  it('should record a streamed body while the caller reads it', async () => {
+    const encoder = new TextEncoder()
+    mockFetch.mockResolvedValueOnce(new Response(new ReadableStream({
+      start(controller) {
+        controller.enqueue(encoder.encode('data: {"delta":"Hel"}\n\n'))
+        controller.enqueue(encoder.encode('data: {"delta":"lo"}\n\ndata: [DONE]\n\n'))
+        controller.close()
+      }
+    })))
+    store.startRecording()
+
+    const response = await store.fetch('https://api.test/chat', chatRequest('sk-or-recording-key', { model: 'm', stream: true }))
+    const streamed = await response.text()
+    await store.whenIdle()
+
+    expect(store.toFile().fixtures[0].response.body).toBe(streamed)
+  })
+})
+
+describe('ApiClient with fixtures', () => {
+  afterEach(() => {
+    httpFixtures.stop()
+    vi.unstubAllGlobals()
+  })
+
+  it('should retry replayed error responses like live ones', async () => {
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(new Response('', { status: 500, statusText: 'Internal Server Error' }))
+      .mockResolvedValueOnce(new Response('{"ok":true}'))
+    vi.stubGlobal('fetch', mockFetch)
+    const apiClient = new ApiClient({ maxRetries: 2, baseDelay: 1, maxDelay: 10 })
+
+    httpFixtures.startRecording()
+    const recorded = await apiClient.fetchJson('https://api.test/data', { method: 'GET' })
+    await httpFixtures.whenIdle()
+    httpFixtures.startReplay(httpFixtures.toFile())
+    const replayed = await apiClient.fetchJson('https://api.test/data', { method: 'GET' })
+
+    expect(recorded).toEqual({ ok: true })
+    expect(replayed).toEqual({ ok: true })
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+})
\ No newline at end of file
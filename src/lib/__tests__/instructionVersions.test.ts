@@ -0,0 +1,106 @@
+/**
+ * Tests for instruction documents: append-only versions, lookups, line diffs and per-version scores
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  appendInstructionVersion,
+  createInstructionDocument,
+  diffLines,
+  findInstructionVersion,
+  findVersionByText,
+  formatInstructionVersion,
+  getInstructionVersionId,
+  suggestDocumentName,
+  summarizeVersionScores
+} from '../instructionVersions'
+import { TestRun } from '../types'
+
+const testRun = (instructionVersion: string | undefined, overallScore: number, evaluationError?: string): TestRun => ({
+  id: crypto.randomUUID(),
+  timestamp: 0,
+  model: 'GPT-4',
+  modelProvider: 'OpenAI',
+  instructions: 'Be brief.',
+  prompt: 'Hi',
+  response: 'Hello.',
+  metrics: { overallScore, criterionScores: [], explanation: '', ...(evaluationError && { evaluationError }) },
+  tokenUsage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+  executionTime: 0,
+  cost: 0,
+  ...(instructionVersion && { instructionVersion })
+})
+
+describe('instruction versions', () => {
+  it('should append new text as the next version and reuse identical text', () => {
+    const document = createInstructionDocument('Support bot', 'Be brief.', ' First draft ', 1000)
+    const second = appendInstructionVersion(document, 'Be brief.\nUse bullet points.', 'Add bullets', 2000)
+
+    expect(second.version).toMatchObject({ version: 2, message: 'Add bullets', createdAt: 2000 })
+    expect(second.document.versions.map(version => version.version)).toEqual([1, 2])
+    expect(document.versions).toHaveLength(1)
+
+    const repeat = appendInstructionVersion(second.document, 'Be brief.', 'Back to v1', 3000)
+    expect(repeat.document).toBe(second.document)
+    expect(repeat.version.version).toBe(1)
+  })
+
+  it('should name documents after the first line of the instructions', () => {
+    expect(createInstructionDocument('  ', '\nYou are a support agent.\nBe brief.', '').name).toBe('You are a support agent.')
+    expect(suggestDocumentName('')).toBe('Untitled instructions')
+    expect(suggestDocumentName('x'.repeat(80))).toHaveLength(60)
+  })
+
+  it('should look up versions by ID and by text', () => {
+    const first = createInstructionDocument('A', 'Be brief.', '', 1000)
+    const { document: second } = appendInstructionVersion(
+      createInstructionDocument('B', 'Be formal.', '', 2000),
+      'Be brief.',
+      '',
+      3000
+    )
+    const documents = [first, second]
+    const versionId = getInstructionVersionId(second, second.versions[1])
+
+    expect(versionId).toBe(`${second.id}@2`)
+    expect(findInstructionVersion(documents, versionId)?.version.instructions).toBe('Be brief.')
+    expect(findVersionByText(documents, 'Be brief.')?.document.id).toBe(second.id)
+    expect(findVersionByText(documents, 'Be casual.')).toBeUndefined()
+    expect(formatInstructionVersion(documents, versionId)).toBe('B v2')
+    expect(formatInstructionVersion(documents, 'gone@1')).toBe('gone@1')
+  })
+})
+
+describe('diffLines', () => {
+  it('should mark removed and added lines with their line numbers', () => {
+    expect(diffLines('Be brief.\nUse bullets.\nSign off.', 'Be brief.\nUse a table.\nSign off.\nAdd a summary.')).toEqual([
+      { type: 'unchanged', text: 'Be brief.', oldLine: 1, newLine: 1 },
+      { type: 'removed', text: 'Use bullets.', oldLine: 2 },
+      { type: 'added', text: 'Use a table.', newLine: 2 },
+      { type: 'unchanged', text: 'Sign off.', oldLine: 3, newLine: 3 },
+      { type: 'added', text: 'Add a summary.', newLine: 4 }
+    ])
+  })
+
+  it('should handle empty texts', () => {
+    expect(diffLines('', 'New')).toEqual([{ type: 'added', text: 'New', newLine: 1 }])
+    expect(diffLines('Old', '')).toEqual([{ type: 'removed', text: 'Old', oldLine: 1 }])
+  })
+})
+
+describe('summarizeVersionScores', () => {
+  it('should average the scored runs of each version', () => {
+    const scores = summarizeVersionScores([
+      testRun('doc@6', 70),
+      testRun('doc@7', 80),
+      testRun('doc@7', 90),
+      testRun('doc@7', 0, 'Judge failed'),
+      testRun(undefined, 50)
+    ])
+
+    expect(scores).toEqual({
+      'doc@6': { runs: 1, meanScore: 70 },
+      'doc@7': { runs: 3, meanScore: 85 }
+    })
+  })
+})
\ No newline at end of file
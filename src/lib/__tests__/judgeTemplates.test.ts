@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_JUDGE_TEMPLATE,
+  createJudgeTemplateId,
+  findJudgeTemplateVersion,
+  getJudgeTemplateVersionId,
+  getLatestJudgeTemplates,
+  renderJudgeTemplate,
+  resolveJudgeTemplate,
+  saveJudgeTemplateVersion,
+  validateJudgeTemplate
+} from '../judgeTemplates'
+import { JudgeTemplate } from '../types'
+
+const template = (overrides: Partial<JudgeTemplate> = {}): JudgeTemplate => ({
+  ...DEFAULT_JUDGE_TEMPLATE,
+  id: 'strict',
+  name: 'Strict',
+  prompt: 'Rules: {{instructions}}\nAsked: {{prompt}}\nAnswer: {{response}}\nCriteria:\n{{rubric}}',
+  ...overrides
+})
+
+describe('judge template utilities', () => {
+  describe('validateJudgeTemplate', () => {
+    it('accepts the default template', () => {
+      expect(validateJudgeTemplate(DEFAULT_JUDGE_TEMPLATE)).toEqual([])
+    })
+
+    it('reports missing and unknown placeholders', () => {
+      expect(validateJudgeTemplate(template({ prompt: 'Judge {{response}} against {{rubric}} and {{reference}}' }))).toEqual([
+        'Template must include {{instructions}}',
+        'Template must include {{prompt}}',
+        'Unknown placeholder {{reference}}'
+      ])
+    })
+
+    it('requires a name and system prompt', () => {
+      expect(validateJudgeTemplate(template({ name: ' ', systemPrompt: '' })))
+        .toEqual(['Template name is required', 'System prompt is required'])
+    })
+  })
+
+  it('renders placeholders without expanding placeholder text inside values', () => {
+    const rendered = renderJudgeTemplate(template(), {
+      instructions: 'Be brief.',
+      prompt: 'Hi',
+      response: 'Your {{rubric}} is showing',
+      rubric: '1. TONE'
+    })
+
+    expect(rendered).toBe('Rules: Be brief.\nAsked: Hi\nAnswer: Your {{rubric}} is showing\nCriteria:\n1. TONE')
+  })
+
+  describe('versioning', () => {
+    it('appends a new version only when the template changes', () => {
+      const first = saveJudgeTemplateVersion([], template(), 1)
+      expect(first.map(getJudgeTemplateVersionId)).toEqual(['strict@1'])
+      expect(saveJudgeTemplateVersion(first, template(), 2)).toBe(first)
+
+      const second = saveJudgeTemplateVersion(first, template({ systemPrompt: 'Be harsh.' }), 3)
+      expect(second.map(getJudgeTemplateVersionId)).toEqual(['strict@1', 'strict@2'])
+      expect(second[1].createdAt).toBe(3)
+      expect(resolveJudgeTemplate(second, 'strict').systemPrompt).toBe('Be harsh.')
+      expect(findJudgeTemplateVersion(second, 'strict@1')?.systemPrompt).toBe(DEFAULT_JUDGE_TEMPLATE.systemPrompt)
+    })
+
+    it('versions edits of the built-in template after its first version', () => {
+      const templates = saveJudgeTemplateVersion([], { ...DEFAULT_JUDGE_TEMPLATE, systemPrompt: 'Be fair.' })
+
+      expect(getJudgeTemplateVersionId(resolveJudgeTemplate(templates, 'default'))).toBe('default@2')
+      expect(findJudgeTemplateVersion(templates, 'default@1')).toBe(DEFAULT_JUDGE_TEMPLATE)
+      expect(getLatestJudgeTemplates(templates)).toHaveLength(1)
+    })
+
+    it('falls back to the default for unknown IDs', () => {
+      expect(resolveJudgeTemplate([], 'missing')).toBe(DEFAULT_JUDGE_TEMPLATE)
+    })
+  })
+
+  describe('createJudgeTemplateId', () => {
+    it('creates a unique kebab-case ID', () => {
+      expect(createJudgeTemplateId('Strict Grader!', [])).toBe('strict-grader')
+      expect(createJudgeTemplateId('Strict', [template()])).toBe('strict-2')
+      expect(createJudgeTemplateId('Default', [])).toBe('default-2')
+    })
+  })
+})
\ No newline at end of file
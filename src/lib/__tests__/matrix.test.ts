@@ -0,0 +1,183 @@
+/**
+ * Tests for matrix runs: validation, running the cross product and ranking cells
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+  MAX_MATRIX_EVALUATIONS,
+  createInstructionVariant,
+  createMatrixCells,
+  rankMatrixCells,
+  runMatrix,
+  summarizeMatrixCell,
+  validateMatrixConfig
+} from '../matrix'
+import { createTestCase } from '../suites'
+import { CancellationError } from '../errorHandling'
+import { MatrixCell, Model, SuiteCaseResult } from '../types'
+import { TestResult } from '@/services/evaluationEngine'
+
+const model = (id: string): Model => ({
+  id,
+  name: id.toUpperCase(),
+  provider: 'Test',
+  contextLength: 8192,
+  pricing: { prompt: 0.000001, completion: 0.000002 }
+})
+
+const testResult = (overallScore: number, executionTime = 100): TestResult => ({
+  response: `Reply scoring ${overallScore}`,
+  metrics: {
+    overallScore,
+    criterionScores: [{ criterionId: 'coherence', name: 'Coherence', score: overallScore, normalizedScore: overallScore }],
+    explanation: 'Judged.'
+  },
+  tokenUsage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+  executionTime,
+  cost: 0.001
+})
+
+const cell = (modelId: string, overrides: Partial<MatrixCell> = {}): MatrixCell => ({
+  ...createMatrixCells([{ id: modelId }], [{ id: 'variant', label: 'A', instructions: '' }])[0],
+  status: 'complete',
+  ...overrides
+})
+
+const setup = () => ({
+  models: [model('fast'), model('smart')],
+  variants: [
+    createInstructionVariant('Terse', 'You are a helpful assistant. Answer in one sentence.'),
+    createInstructionVariant('Detailed', 'You are a helpful assistant. Explain your reasoning step by step.')
+  ],
+  prompts: [createTestCase('What is the capital of France?'), createTestCase('What is the capital of Japan?')]
+})
+
+describe('validateMatrixConfig', () => {
+  it('should accept models, variants and prompts within the limits', () => {
+    expect(validateMatrixConfig(setup())).toEqual([])
+  })
+
+  it('should report missing, duplicate and invalid entries', () => {
+    const errors = validateMatrixConfig({
+      models: [model('fast'), model('fast')],
+      variants: [createInstructionVariant(' ', 'Short')],
+      prompts: [createTestCase('Hi')]
+    })
+
+    expect(errors).toContain('Each model can only be added once')
+    expect(errors).toContain('Variant 1: a label is required')
+    expect(errors.filter(error => error.startsWith('Variant 1:'))).toHaveLength(2)
+    expect(errors.some(error => error.startsWith('Case 1:'))).toBe(true)
+    expect(validateMatrixConfig({ models: [], variants: [], prompts: [] })).toEqual(expect.arrayContaining([
+      'At least one model is required',
+      'At least one instruction variant is required',
+      'At least one test case is required'
+    ]))
+  })
+
+  it('should cap the number of evaluations', () => {
+    const { models, variants } = setup()
+    const prompts = Array.from({ length: MAX_MATRIX_EVALUATIONS / 4 + 1 }, () => createTestCase('A valid prompt'))
+
+    expect(validateMatrixConfig({ models, variants, prompts })).toContain(
+      `This matrix needs ${MAX_MATRIX_EVALUATIONS + 4} evaluations; the limit is ${MAX_MATRIX_EVALUATIONS}`
+    )
+  })
+})
+
+describe('runMatrix', () => {
+  it('should run every prompt for every model and variant and link each cell to its test runs', async () => {
+    const matrixConfig = setup()
+    const runCase = vi.fn(async (runModel: Model, variant: { label: string }) =>
+      testResult(runModel.id === 'smart' ? 90 : 60, variant.label === 'Detailed' ? 300 : 100))
+
+    const { cells, testRuns } = await runMatrix(matrixConfig, { matrixRunId: 'matrix-1', runCase })
+
+    expect(runCase).toHaveBeenCalledTimes(8)
+    expect(cells.map(entry => [entry.modelId, entry.variantId])).toEqual([
+      ['fast', matrixConfig.variants[0].id],
+      ['fast', matrixConfig.variants[1].id],
+      ['smart', matrixConfig.variants[0].id],
+      ['smart', matrixConfig.variants[1].id]
+    ])
+    expect(cells.map(entry => entry.meanOverallScore)).toEqual([60, 60, 90, 90])
+    expect(cells.map(entry => entry.passRate)).toEqual([0, 0, 100, 100])
+    expect(cells.map(entry => entry.meanLatency)).toEqual([100, 300, 100, 300])
+    expect(cells.every(entry => entry.status === 'complete' && entry.completedCases === 2)).toBe(true)
+
+    expect(testRuns).toHaveLength(8)
+    expect(testRuns.every(testRun => testRun.matrixRunId === 'matrix-1')).toBe(true)
+    const smartDetailed = testRuns.filter(testRun => cells[3].testRunIds.includes(testRun.id))
+    expect(smartDetailed.map(testRun => [testRun.model, testRun.instructions])).toEqual([
+      ['SMART', matrixConfig.variants[1].instructions],
+      ['SMART', matrixConfig.variants[1].instructions]
+    ])
+  })
+
+  it('should count failed evaluations as errors without saving a test run', async () => {
+    const matrixConfig = { ...setup(), models: [model('fast')], variants: [setup().variants[0]] }
+    const runCase = vi.fn()
+      .mockResolvedValueOnce(testResult(80))
+      .mockRejectedValueOnce(new Error('Evaluation failed: Rate limit exceeded'))
+
+    const { cells, testRuns } = await runMatrix(matrixConfig, { matrixRunId: 'matrix-1', runCase })
+
+    expect(cells[0].errors).toBe(1)
+    expect(cells[0].testRunIds).toEqual([testRuns[0].id])
+    expect(testRuns).toHaveLength(1)
+  })
+
+  it('should report each cell as it progresses', async () => {
+    const matrixConfig = { ...setup(), models: [model('fast')] }
+    const onCellUpdate = vi.fn()
+
+    await runMatrix(matrixConfig, { matrixRunId: 'matrix-1', runCase: async () => testResult(80), onCellUpdate })
+
+    const updates = onCellUpdate.mock.calls.map(([entry, index]) => [index, entry.status, entry.completedCases])
+    expect(updates[0]).toEqual([0, 'running', 0])
+    expect(updates).toContainEqual([0, 'complete', 2])
+    expect(updates[updates.length - 1]).toEqual([1, 'complete', 2])
+  })
+
+  it('should stop when cancelled', async () => {
+    const controller = new AbortController()
+    const runCase = vi.fn(async () => {
+      controller.abort()
+      throw new CancellationError()
+    })
+
+    await expect(runMatrix(setup(), { matrixRunId: 'matrix-1', runCase, signal: controller.signal })).rejects.toBeInstanceOf(CancellationError)
+    expect(runCase.mock.calls.length).toBeLessThanOrEqual(2)
+  })
+})
+
+describe('summarizeMatrixCell', () => {
+  it('should only count finished prompts', () => {
+    const results: SuiteCaseResult[] = [
+      { caseId: 'a', prompt: 'A', status: 'passed', response: 'Yes', metrics: testResult(80).metrics, cost: 0.002, executionTime: 200 },
+      { caseId: 'b', prompt: 'B', status: 'running', cost: 0, executionTime: 0 }
+    ]
+
+    const summary = summarizeMatrixCell(cell('fast', { status: 'running' }), results)
+
+    expect(summary).toMatchObject({ completedCases: 1, meanOverallScore: 80, passRate: 100, totalCost: 0.002, meanLatency: 200, errors: 0 })
+  })
+})
+
+describe('rankMatrixCells', () => {
+  const cells = [
+    cell('a', { meanOverallScore: 70, totalCost: 0.01, meanLatency: 900 }),
+    cell('b', { meanOverallScore: null, totalCost: 0, meanLatency: null }),
+    cell('c', { meanOverallScore: 90, totalCost: 0.03, meanLatency: 400 })
+  ]
+
+  it('should rank scores highest first and cost and latency lowest first', () => {
+    expect(rankMatrixCells(cells, 'meanOverallScore').map(entry => entry.modelId)).toEqual(['c', 'a', 'b'])
+    expect(rankMatrixCells(cells, 'totalCost').map(entry => entry.modelId)).toEqual(['b', 'a', 'c'])
+    expect(rankMatrixCells(cells, 'meanLatency').map(entry => entry.modelId)).toEqual(['c', 'a', 'b'])
+  })
+
+  it('should reverse the order but keep empty cells last', () => {
+    expect(rankMatrixCells(cells, 'meanOverallScore', true).map(entry => entry.modelId)).toEqual(['a', 'c', 'b'])
+  })
+})
\ No newline at end of file
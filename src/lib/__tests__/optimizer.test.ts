@@ -0,0 +1,230 @@
+/**
+ * Tests for the instruction optimizer: validation, feedback and the revision loop
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+  MAX_OPTIMIZER_EVALUATIONS,
+  buildOptimizerFeedback,
+  getImprovementCurve,
+  runOptimizer,
+  validateOptimizerConfig
+} from '../optimizer'
+import { createTestCase, summarizeSuiteRun } from '../suites'
+import { CancellationError } from '../errorHandling'
+import { OptimizerCandidate, SuiteCaseResult } from '../types'
+import { RevisionResult, TestResult } from '@/services/evaluationEngine'
+
+const START = 'You are a helpful assistant. Answer questions.'
+
+const testResult = (overallScore: number, explanation = 'Judged.'): TestResult => ({
+  response: `Reply scoring ${overallScore}`,
+  metrics: {
+    overallScore,
+    criterionScores: [{ criterionId: 'coherence', name: 'Coherence', score: overallScore, normalizedScore: overallScore }],
+    explanation
+  },
+  tokenUsage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+  executionTime: 100,
+  cost: 0.01
+})
+
+const revision = (instructions: string, cost = 0.005): RevisionResult => ({
+  instructions,
+  rationale: `Changed to: ${instructions}`,
+  cost
+})
+
+const setup = (overrides = {}) => ({
+  instructions: START,
+  prompts: [createTestCase('What is the capital of France?'), createTestCase('What is the capital of Japan?')],
+  maxRounds: 3,
+  maxCost: 1,
+  ...overrides
+})
+
+const candidate = (results: SuiteCaseResult[]): OptimizerCandidate => ({
+  id: 'candidate-1',
+  round: 0,
+  instructions: START,
+  rationale: '',
+  status: 'complete',
+  results,
+  summary: summarizeSuiteRun(results, 0),
+  cost: 0
+})
+
+describe('validateOptimizerConfig', () => {
+  it('should accept a valid setup', () => {
+    expect(validateOptimizerConfig(setup())).toEqual([])
+  })
+
+  it('should report invalid rounds, budget and instructions', () => {
+    const errors = validateOptimizerConfig(setup({ instructions: 'Short', maxRounds: 0, maxCost: 0 }))
+
+    expect(errors).toHaveLength(3)
+    expect(errors).toContain('Rounds must be a whole number from 1 to 10')
+    expect(errors).toContain('The budget must be more than $0')
+  })
+
+  it('should cap the number of evaluations', () => {
+    const prompts = Array.from({ length: MAX_OPTIMIZER_EVALUATIONS / 4 + 1 }, () => createTestCase('A valid prompt'))
+
+    expect(validateOptimizerConfig(setup({ prompts }))).toContain(
+      `This run needs up to ${MAX_OPTIMIZER_EVALUATIONS + 4} evaluations; the limit is ${MAX_OPTIMIZER_EVALUATIONS}`
+    )
+  })
+})
+
+describe('buildOptimizerFeedback', () => {
+  it('should describe the lowest scoring prompts with the judge and failed checks', () => {
+    const results: SuiteCaseResult[] = [
+      { caseId: 'a', prompt: 'Good prompt', status: 'passed', metrics: testResult(90).metrics, cost: 0, executionTime: 0 },
+      {
+        caseId: 'b',
+        prompt: 'Bad prompt',
+        status: 'failed',
+        metrics: testResult(40, 'Too long and off topic.').metrics,
+        assertionResults: [{ assertionId: 'x', type: 'regex', description: 'Mentions Paris', passed: false, message: 'No match' }],
+        cost: 0,
+        executionTime: 0
+      }
+    ]
+
+    const feedback = buildOptimizerFeedback(candidate(results))
+
+    expect(feedback).toContain('Mean score 65/100; 1 of 2 prompts passed.')
+    expect(feedback.indexOf('Bad prompt')).toBeLessThan(feedback.indexOf('Good prompt'))
+    expect(feedback).toContain('JUDGE: Too long and off topic.')
+    expect(feedback).toContain('FAILED CHECK: Mentions Paris: No match')
+  })
+})
+
+describe('runOptimizer', () => {
+  it('should score each revision, keep the best and revise the best again', async () => {
+    const scores: Record<string, number> = { [START]: 50, [`${START} Be concise.`]: 80, [`${START} Be very brief.`]: 70 }
+    const runCase = vi.fn(async (instructions: string) => testResult(scores[instructions]))
+    const proposeRevision = vi.fn()
+      .mockResolvedValueOnce(revision(`${START} Be concise.`))
+      .mockResolvedValueOnce(revision(`${START} Be very brief.`))
+
+    const { candidates, bestCandidateId, stopReason } = await runOptimizer(setup({ maxRounds: 2 }), { runCase, proposeRevision })
+
+    expect(runCase).toHaveBeenCalledTimes(6)
+    expect(candidates.map(entry => [entry.round, entry.status, entry.summary?.meanOverallScore])).toEqual([
+      [0, 'complete', 50],
+      [1, 'complete', 80],
+      [2, 'complete', 70]
+    ])
+    expect(bestCandidateId).toBe(candidates[1].id)
+    expect(proposeRevision.mock.calls[1][0]).toBe(`${START} Be concise.`)
+    expect(candidates[1].cost).toBeCloseTo(0.025)
+    expect(stopReason).toBe('rounds')
+  })
+
+  it('should reject revisions that failed, are invalid or repeat an earlier candidate', async () => {
+    const runCase = vi.fn(async () => testResult(60))
+    const proposeRevision = vi.fn()
+      .mockResolvedValueOnce({ ...revision(''), error: 'No usable revision after 2 attempts (Bad JSON)' })
+      .mockResolvedValueOnce(revision('Too short'))
+      .mockResolvedValueOnce(revision(START))
+
+    const { candidates, bestCandidateId } = await runOptimizer(setup(), { runCase, proposeRevision })
+
+    expect(runCase).toHaveBeenCalledTimes(2)
+    expect(candidates.map(entry => entry.status)).toEqual(['complete', 'rejected', 'rejected', 'rejected'])
+    expect(candidates[1].error).toContain('No usable revision')
+    expect(candidates[3].error).toBe('Same as an earlier candidate')
+    expect(bestCandidateId).toBe(candidates[0].id)
+  })
+
+  it('should stop before a round that would go over the budget', async () => {
+    const runCase = vi.fn(async () => testResult(60))
+    const proposeRevision = vi.fn(async (instructions: string) => revision(`${instructions} Be concise.`))
+
+    // Each round costs about $0.025, so only one revision fits in $0.06
+    const { candidates, stopReason } = await runOptimizer(setup({ maxCost: 0.06 }), { runCase, proposeRevision })
+
+    expect(candidates).toHaveLength(2)
+    expect(proposeRevision).toHaveBeenCalledTimes(1)
+    expect(stopReason).toBe('budget')
+  })
+
+  it('should stop starting prompts once the spend is over the budget', async () => {
+    const runCase = vi.fn(async () => testResult(60))
+    const proposeRevision = vi.fn(async (instructions: string) => revision(`${instructions} Be concise.`))
+    const prompts = Array.from({ length: 5 }, (_, index) => createTestCase(`What is the capital of country ${index + 1}?`))
+
+    // The first three prompts start together; once one has spent $0.01 of $0.005, the rest are skipped
+    const { candidates, bestCandidateId, stopReason } = await runOptimizer(setup({ prompts, maxCost: 0.005 }), { runCase, proposeRevision })
+
+    expect(runCase).toHaveBeenCalledTimes(3)
+    expect(proposeRevision).not.toHaveBeenCalled()
+    expect(candidates).toHaveLength(1)
+    expect(candidates[0].status).toBe('rejected')
+    expect(candidates[0].error).toBe('The budget ran out after 3 of 5 prompts')
+    expect(candidates[0].cost).toBeCloseTo(0.03)
+    expect(bestCandidateId).toBeNull()
+    expect(stopReason).toBe('budget')
+  })
+
+  it('should not start without a budget', async () => {
+    const runCase = vi.fn(async () => testResult(60))
+
+    const { candidates, stopReason } = await runOptimizer(setup({ maxCost: 0 }), { runCase, proposeRevision: vi.fn() })
+
+    expect(runCase).not.toHaveBeenCalled()
+    expect(candidates).toEqual([])
+    expect(stopReason).toBe('budget')
+  })
+
+  it('should report candidates as they progress', async () => {
+    const onUpdate = vi.fn()
+
+    await runOptimizer(setup({ maxRounds: 1 }), {
+      runCase: async () => testResult(60),
+      proposeRevision: async () => revision(`${START} Be concise.`),
+      onUpdate
+    })
+
+    const [firstCandidates, firstBest] = onUpdate.mock.calls[0]
+    expect(firstCandidates.map((entry: OptimizerCandidate) => entry.status)).toEqual(['running'])
+    expect(firstBest).toBeNull()
+    const [lastCandidates, lastBest] = onUpdate.mock.calls[onUpdate.mock.calls.length - 1]
+    expect(lastCandidates).toHaveLength(2)
+    expect(lastBest).toBe(lastCandidates[0].id)
+  })
+
+  it('should stop when cancelled', async () => {
+    const controller = new AbortController()
+    const proposeRevision = vi.fn(async () => {
+      controller.abort()
+      return revision(`${START} Be concise.`)
+    })
+
+    await expect(runOptimizer(setup(), {
+      runCase: async () => testResult(60),
+      proposeRevision,
+      signal: controller.signal
+    })).rejects.toBeInstanceOf(CancellationError)
+    expect(proposeRevision).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('getImprovementCurve', () => {
+  it('should plot scored candidates with the best score so far', () => {
+    const scored = (round: number, score: number): OptimizerCandidate => ({
+      ...candidate([]),
+      id: `round-${round}`,
+      round,
+      summary: { ...summarizeSuiteRun([], 0), meanOverallScore: score }
+    })
+    const rejected: OptimizerCandidate = { ...candidate([]), id: 'rejected', round: 2, status: 'rejected', summary: null }
+
+    expect(getImprovementCurve([scored(0, 50), scored(1, 80), rejected, scored(3, 70)])).toEqual([
+      { round: 0, score: 50, bestScore: 50 },
+      { round: 1, score: 80, bestScore: 80 },
+      { round: 3, score: 70, bestScore: 80 }
+    ])
+  })
+})
\ No newline at end of file
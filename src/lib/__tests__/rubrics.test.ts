@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_RUBRIC, MAX_RUBRIC_CRITERIA, validateRubric, createCriterionId, normalizeScore, collectCriterionNames, calculateWeightedScore, reweightTestRun, isScoredRun } from '../rubrics'
+import { Rubric, SuccessMetrics, TestRun } from '../types'
+
+describe('rubric utilities', () => {
+  describe('validateRubric', () => {
+    it('accepts the default rubric', () => {
+      expect(validateRubric(DEFAULT_RUBRIC)).toEqual([])
+    })
+
+    it('reports missing names, descriptions and inverted scales', () => {
+      const rubric: Rubric = {
+        id: 'custom',
+        name: 'Custom',
+        criteria: [{ id: 'tone', name: '', description: '', scale: { min: 5, max: 1 }, weight: 1 }]
+      }
+
+      expect(validateRubric(rubric)).toEqual([
+        'Criterion 1 needs a name',
+        'Criterion 1 needs a description',
+        'Criterion 1 scale maximum must be greater than its minimum'
+      ])
+    })
+
+    it('rejects duplicate IDs, too many criteria and all-zero weights', () => {
+      const criterion = { id: 'tone', name: 'Tone', description: 'Friendly?', scale: { min: 1, max: 5 }, weight: 0 }
+      const rubric: Rubric = {
+        id: 'custom',
+        name: 'Custom',
+        criteria: Array.from({ length: MAX_RUBRIC_CRITERIA + 1 }, () => criterion)
+      }
+
+      const errors = validateRubric(rubric)
+      expect(errors).toContain(`A rubric can have at most ${MAX_RUBRIC_CRITERIA} criteria`)
+      expect(errors).toContain('Tone needs a unique ID')
+      expect(errors).toContain('At least one criterion must have a positive weight')
+    })
+  })
+
+  describe('createCriterionId', () => {
+    it('camel-cases the name', () => {
+      expect(createCriterionId('Tone of voice', [])).toBe('toneOfVoice')
+    })
+
+    it('adds a suffix when the ID is taken', () => {
+      const existing = [{ ...DEFAULT_RUBRIC.criteria[0], id: 'tone' }]
+      expect(createCriterionId('Tone', existing)).toBe('tone2')
+    })
+
+    it('falls back to a generic ID for names without letters or digits', () => {
+      expect(createCriterionId('  ', [])).toBe('criterion')
+    })
+  })
+
+  describe('normalizeScore', () => {
+    it('maps a score onto 0-100', () => {
+      expect(normalizeScore(1, { min: 1, max: 5 })).toBe(0)
+      expect(normalizeScore(4, { min: 1, max: 5 })).toBe(75)
+      expect(normalizeScore(7, { min: 0, max: 10 })).toBe(70)
+    })
+
+    it('clamps scores outside the scale', () => {
+      expect(normalizeScore(12, { min: 0, max: 10 })).toBe(100)
+      expect(normalizeScore(-1, { min: 0, max: 10 })).toBe(0)
+    })
+  })
+
+  describe('calculateWeightedScore', () => {
+    const scores = [
+      { criterionId: 'coherence', name: 'Coherence', score: 100, normalizedScore: 100 },
+      { criterionId: 'efficiency', name: 'Efficiency', score: 40, normalizedScore: 40 }
+    ]
+
+    it('weights only the criteria that were scored', () => {
+      // (100*0.2 + 40*0.1) / 0.3 = 80
+      expect(calculateWeightedScore(scores, DEFAULT_RUBRIC)).toBe(80)
+    })
+
+    it('returns null when no weighted criterion was scored', () => {
+      const rubric: Rubric = { ...DEFAULT_RUBRIC, criteria: [{ ...DEFAULT_RUBRIC.criteria[1] }] }
+      expect(calculateWeightedScore(scores, rubric)).toBeNull()
+    })
+  })
+
+  describe('reweightTestRun', () => {
+    const testRun: TestRun = {
+      id: 'run-1',
+      timestamp: 0,
+      model: 'GPT-4',
+      modelProvider: 'OpenAI',
+      instructions: 'Be brief.',
+      prompt: 'Hi',
+      response: 'Hello.',
+      metrics: {
+        overallScore: 70,
+        judgeOverallScore: 75,
+        criterionScores: [
+          { criterionId: 'coherence', name: 'Coherence', score: 100, normalizedScore: 100 },
+          { criterionId: 'efficiency', name: 'Efficiency', score: 40, normalizedScore: 40 }
+        ],
+        explanation: ''
+      },
+      tokenUsage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+      executionTime: 100,
+      cost: 0,
+      rubric: DEFAULT_RUBRIC
+    }
+
+    it('recomputes the overall score and keeps the judge score', () => {
+      const rubric: Rubric = {
+        ...DEFAULT_RUBRIC,
+        criteria: DEFAULT_RUBRIC.criteria.map(criterion => ({ ...criterion, weight: criterion.id === 'efficiency' ? 1 : 0 }))
+      }
+
+      const result = reweightTestRun(testRun, rubric)
+      expect(result.metrics.overallScore).toBe(40)
+      expect(result.metrics.judgeOverallScore).toBe(75)
+      expect(result.rubric?.criteria.find(criterion => criterion.id === 'efficiency')?.weight).toBe(1)
+    })
+
+    it('leaves runs without shared criteria unchanged', () => {
+      const rubric: Rubric = { id: 'other', name: 'Other', criteria: [{ ...DEFAULT_RUBRIC.criteria[1] }] }
+      expect(reweightTestRun(testRun, rubric)).toBe(testRun)
+    })
+  })
+
+  describe('isScoredRun', () => {
+    it('excludes runs whose evaluation failed', () => {
+      const baseRun = { metrics: { overallScore: 0, criterionScores: [], explanation: '' } } as unknown as TestRun
+      expect(isScoredRun(baseRun)).toBe(true)
+      expect(isScoredRun({ ...baseRun, metrics: { ...baseRun.metrics, evaluationError: 'Judge returned no JSON' } })).toBe(false)
+    })
+  })
+
+  describe('collectCriterionNames', () => {
+    it('returns names in first-seen order without duplicates', () => {
+      const metrics = (names: string[]): SuccessMetrics => ({
+        overallScore: 80,
+        criterionScores: names.map(name => ({ criterionId: name.toLowerCase(), name, score: 80, normalizedScore: 80 })),
+        explanation: ''
+      })
+
+      expect(collectCriterionNames([metrics(['Tone', 'Accuracy']), metrics(['Accuracy', 'Brevity'])]))
+        .toEqual(['Tone', 'Accuracy', 'Brevity'])
+    })
+  })
+})
\ No newline at end of file
@@ -179,10 +179,12 @@ describe('Session and Security Integration', () => {
           response: 'Test',
           metrics: {
             overallScore: 85,
-            coherenceScore: 90,
-            taskCompletionScore: 80,
-            instructionAdherenceScore: 88,
-            efficiencyScore: 82,
+            criterionScores: [
+              { criterionId: 'coherence', name: 'Coherence', score: 90, normalizedScore: 90 },
+              { criterionId: 'taskCompletion', name: 'Task Completion', score: 80, normalizedScore: 80 },
+              { criterionId: 'instructionAdherence', name: 'Instruction Adherence', score: 88, normalizedScore: 88 },
+              { criterionId: 'efficiency', name: 'Efficiency', score: 82, normalizedScore: 82 }
+            ],
             explanation: 'Test'
           },
           tokenUsage: {
@@ -5,7 +5,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { SessionManager } from '../sessionManager'
 import { SecurityManager } from '../security'
-import { SessionData, TestRun, UserSettings } from '../types'
+import { SessionData, TestRun, UserSettings, ComparisonRun, MatrixRun } from '../types'
+import { DEFAULT_RUBRIC } from '../rubrics'
+import { createTestCase, createTestSuite, summarizeSuiteRun } from '../suites'
 
 // Mock SecurityManager
 vi.mock('../security', () => ({
@@ -52,10 +54,12 @@ describe('SessionManager', () => {
     response: 'Test response',
     metrics: {
       overallScore: 85,
-      coherenceScore: 90,
-      taskCompletionScore: 80,
-      instructionAdherenceScore: 88,
-      efficiencyScore: 82,
+      criterionScores: [
+        { criterionId: 'coherence', name: 'Coherence', score: 90, normalizedScore: 90 },
+        { criterionId: 'taskCompletion', name: 'Task Completion', score: 80, normalizedScore: 80 },
+        { criterionId: 'instructionAdherence', name: 'Instruction Adherence', score: 88, normalizedScore: 88 },
+        { criterionId: 'efficiency', name: 'Efficiency', score: 82, normalizedScore: 82 }
+      ],
       explanation: 'Test explanation'
     },
     tokenUsage: {
@@ -93,13 +97,34 @@ describe('SessionManager', () => {
         createdAt: expect.any(Number),
         expiresAt: expect.any(Number),
         testHistory: [],
+        comparisonHistory: [],
+        testSuites: [],
+        suiteHistory: [],
+        matrixHistory: [],
+        instructionDocuments: [],
         currentTest: {
           status: 'idle',
           currentStep: 0,
           model: null,
           instructions: '',
+          instructionDocumentId: null,
           prompt: '',
+          conversation: [],
+          transcript: null,
+          assertions: [],
+          assertionResults: null,
+          referenceAnswer: '',
+          comparisonInstructions: '',
+          variables: {},
+          comparison: null,
+          suiteRun: null,
+          matrixRun: null,
+          matrixTestRuns: null,
+          optimizerRun: null,
+          ablationRun: null,
           response: null,
+          streamingResponse: null,
+          streamTiming: null,
           results: null,
           error: null
         },
@@ -107,6 +132,13 @@ describe('SessionManager', () => {
           temperature: 0.7,
           maxTokens: 2000,
           evaluationModel: 'openai/gpt-4',
+          additionalEvaluationModels: [],
+          judgeAggregation: 'mean',
+          runsPerTest: 1,
+          rubric: DEFAULT_RUBRIC,
+          judgeTemplates: [],
+          judgeTemplateId: 'default',
+          providers: [],
           autoSave: true
         }
       })
@@ -285,6 +317,66 @@ describe('SessionManager', () => {
     })
   })
 
+  describe('addComparisonToHistory', () => {
+    it('should add a comparison alongside the test history', async () => {
+      const session = {
+        ...SessionManager.createSession(),
+        testHistory: [mockTestRun]
+      }
+      const variant = {
+        instructions: mockTestRun.instructions,
+        response: mockTestRun.response,
+        metrics: mockTestRun.metrics,
+        tokenUsage: mockTestRun.tokenUsage
+      }
+      const comparison: ComparisonRun = {
+        id: 'comparison-1',
+        timestamp: Date.now(),
+        model: 'gpt-4',
+        modelProvider: 'OpenAI',
+        prompt: 'Test prompt',
+        variantA: variant,
+        variantB: { ...variant, instructions: 'Alternative instructions' },
+        preference: { winner: 'A', rationale: 'Clearer.', presentedFirst: 'B' },
+        executionTime: 3000,
+        cost: 0.006
+      }
+
+      const updatedSession = await SessionManager.addComparisonToHistory(comparison, session)
+
+      expect(updatedSession.comparisonHistory).toEqual([comparison])
+      expect(updatedSession.testHistory).toEqual([mockTestRun])
+      expect(mockSessionStorage.setItem).toHaveBeenCalled()
+    })
+  })
+
+  describe('addMatrixRunToHistory', () => {
+    it('should save the matrix run together with its test runs', async () => {
+      const session = {
+        ...SessionManager.createSession(),
+        testHistory: [mockTestRun]
+      }
+      const cellRun: TestRun = { ...mockTestRun, id: 'matrix-test-1', matrixRunId: 'matrix-1' }
+      const matrixRun: MatrixRun = {
+        id: 'matrix-1',
+        timestamp: Date.now(),
+        models: [{ id: 'openai/gpt-4', name: 'GPT-4', provider: 'OpenAI' }],
+        variants: [{ id: 'variant-a', label: 'A', instructions: mockTestRun.instructions }],
+        prompts: [createTestCase(mockTestRun.prompt)],
+        passThreshold: 70,
+        cells: [],
+        executionTime: 2000,
+        cost: cellRun.cost
+      }
+
+      const updatedSession = await SessionManager.addMatrixRunToHistory(matrixRun, [cellRun], session)
+
+      expect(updatedSession.matrixHistory).toEqual([matrixRun])
+      expect(updatedSession.testHistory).toEqual([mockTestRun, cellRun])
+      expect(mockSessionStorage.setItem).toHaveBeenCalledTimes(1)
+    })
+  })
+
   describe('clearTestHistory', () => {
     it('should clear all test history', async () => {
       const session = {
@@ -297,6 +389,29 @@ describe('SessionManager', () => {
       expect(updatedSession.testHistory).toHaveLength(0)
       expect(mockSessionStorage.setItem).toHaveBeenCalled()
     })
+
+    it('should clear suite runs but keep the saved suites', async () => {
+      const suite = createTestSuite('Support', 'Answer support questions politely.', [createTestCase('How do I reset my password?')])
+      let session = await SessionManager.replaceTestSuites([suite], SessionManager.createSession())
+      session = await SessionManager.addSuiteRunToHistory({
+        id: 'suite-run-1',
+        suiteId: suite.id,
+        suiteName: suite.name,
+        timestamp: Date.now(),
+        model: 'gpt-4',
+        modelProvider: 'OpenAI',
+        instructions: suite.instructions,
+        passThreshold: suite.passThreshold,
+        results: [],
+        summary: summarizeSuiteRun([], 0)
+      }, session)
+      expect(session.suiteHistory).toHaveLength(1)
+
+      const updatedSession = await SessionManager.clearTestHistory(session)
+
+      expect(updatedSession.suiteHistory).toEqual([])
+      expect(updatedSession.testSuites).toEqual([suite])
+    })
   })
 
   describe('updateSettings', () => {
@@ -313,7 +428,14 @@ describe('SessionManager', () => {
         temperature: 0.5,
         maxTokens: 1500,
         evaluationModel: 'openai/gpt-4',
-        autoSave: true
+        additionalEvaluationModels: [],
+        judgeAggregation: 'mean',
+        runsPerTest: 1,
+        autoSave: true,
+        rubric: DEFAULT_RUBRIC,
+        judgeTemplates: [],
+        judgeTemplateId: 'default',
+        providers: []
       })
       expect(mockSessionStorage.setItem).toHaveBeenCalled()
     })
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { mean, median, trimmedMean, aggregate, range, pairwiseAgreement, standardDeviation, confidenceInterval95, summarize } from '../statistics'
+
+describe('statistics utilities', () => {
+  describe('central tendency', () => {
+    it('computes the mean and median', () => {
+      expect(mean([60, 70, 95])).toBeCloseTo(75)
+      expect(median([95, 60, 70])).toBe(70)
+      expect(median([60, 70, 80, 90])).toBe(75)
+    })
+
+    it('returns 0 for empty input', () => {
+      expect(mean([])).toBe(0)
+      expect(median([])).toBe(0)
+    })
+
+    it('drops at least one value from each end for the trimmed mean', () => {
+      expect(trimmedMean([10, 70, 80, 100])).toBe(75)
+      expect(trimmedMean([70, 80])).toBe(75)
+    })
+
+    it('dispatches on the aggregation method', () => {
+      const values = [20, 80, 90]
+      expect(aggregate(values, 'mean')).toBeCloseTo(63.33, 1)
+      expect(aggregate(values, 'median')).toBe(80)
+      expect(aggregate(values, 'trimmedMean')).toBe(80)
+    })
+  })
+
+  describe('dispersion', () => {
+    it('computes the sample standard deviation', () => {
+      expect(standardDeviation([70, 80, 90])).toBe(10)
+      expect(standardDeviation([80])).toBe(0)
+    })
+
+    it('uses the t distribution for the 95% confidence interval', () => {
+      // mean 80, sd 10, n 3: 4.303 * 10 / sqrt(3) = 24.84
+      const interval = confidenceInterval95([70, 80, 90])
+      expect(interval.lower).toBeCloseTo(55.16, 2)
+      expect(interval.upper).toBeCloseTo(104.84, 2)
+    })
+
+    it('collapses the interval to the mean for a single value', () => {
+      expect(confidenceInterval95([75])).toEqual({ lower: 75, upper: 75 })
+    })
+
+    it('summarizes a metric rounded to one decimal', () => {
+      expect(summarize([70, 80, 95])).toEqual({
+        mean: 81.7,
+        standardDeviation: 12.6,
+        min: 70,
+        max: 95,
+        confidenceInterval: { lower: 50.4, upper: 112.9 }
+      })
+    })
+  })
+
+  describe('range', () => {
+    it('returns the difference between extremes', () => {
+      expect(range([70, 95, 80])).toBe(25)
+      expect(range([])).toBe(0)
+    })
+  })
+
+  describe('pairwiseAgreement', () => {
+    it('is 100 for identical ratings', () => {
+      expect(pairwiseAgreement([[80, 90], [80, 90]])).toBe(100)
+    })
+
+    it('subtracts the mean absolute difference across rater pairs', () => {
+      // Pairs: |80-60|, |90-70|, |80-80|, |90-90|, |60-80|, |70-90| -> mean 13.33
+      expect(pairwiseAgreement([[80, 90], [60, 70], [80, 90]])).toBe(87)
+    })
+
+    it('is 100 for a single rater', () => {
+      expect(pairwiseAgreement([[50, 60]])).toBe(100)
+    })
+  })
+})
\ No newline at end of file
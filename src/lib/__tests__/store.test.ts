@@ -0,0 +1,82 @@
+/**
+ * Tests for the store's evaluation runs
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { useAppStore } from '../store'
+import { SessionManager } from '../sessionManager'
+import { DEFAULT_JUDGE_TEMPLATE } from '../judgeTemplates'
+import { EvaluationEngine, TestResult } from '@/services/evaluationEngine'
+import { MOCK_MODELS } from '@/services/providers/mockProvider'
+
+const testResult: TestResult = {
+  response: 'Paris.',
+  metrics: {
+    overallScore: 80,
+    criterionScores: [{ criterionId: 'coherence', name: 'Coherence', score: 80, normalizedScore: 80 }],
+    explanation: 'Judged.'
+  },
+  tokenUsage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+  executionTime: 100,
+  cost: 0.001
+}
+
+describe('store evaluation runs', () => {
+  const initialState = useAppStore.getState()
+
+  beforeEach(() => {
+    vi.spyOn(SessionManager, 'loadSession').mockResolvedValue(null)
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    useAppStore.setState({
+      apiKey: 'sk-or-test-key',
+      testHistory: [],
+      saveInstructionVersion: async () => null,
+      settings: { ...initialState.settings, evaluationModel: MOCK_MODELS[1] },
+      currentTest: {
+        ...initialState.currentTest,
+        model: MOCK_MODELS[0],
+        instructions: 'You are a helpful assistant. Be brief.',
+        prompt: 'What is the capital of France?'
+      }
+    })
+  })
+
+  afterEach(() => {
+    useAppStore.setState(initialState, true)
+    vi.restoreAllMocks()
+  })
+
+  it('should record the judge template version on conversation runs', async () => {
+    const executeEvaluation = vi.spyOn(EvaluationEngine, 'executeEvaluation').mockResolvedValue({
+      ...testResult,
+      conversation: [
+        { role: 'user', content: 'What is the capital of France?' },
+        { role: 'assistant', content: 'Paris.' },
+        { role: 'user', content: 'And of Spain?' },
+        { role: 'assistant', content: 'Madrid.' }
+      ]
+    })
+    useAppStore.setState(state => ({
+      currentTest: { ...state.currentTest, conversation: [{ role: 'user', content: 'And of Spain?' }] }
+    }))
+
+    await useAppStore.getState().runEvaluation()
+
+    expect(executeEvaluation.mock.calls[0][0].conversation).toEqual([{ role: 'user', content: 'And of Spain?' }])
+    await vi.waitFor(() => expect(useAppStore.getState().testHistory).toHaveLength(1))
+    expect(useAppStore.getState().testHistory[0].judgeTemplateVersion).toBe(`${DEFAULT_JUDGE_TEMPLATE.id}@${DEFAULT_JUDGE_TEMPLATE.version}`)
+  })
+  it('should put the test in the error state when the run fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(EvaluationEngine, 'executeEvaluation').mockRejectedValue(new Error('Model not found'))
+
+    await useAppStore.getState().runEvaluation()
+
+    const { currentTest, isLoading, error } = useAppStore.getState()
+    expect(currentTest.status).toBe('error')
+    expect(currentTest.streamingResponse).toBeNull()
+    expect(currentTest.error).toBe(error)
+    expect(error).toBeTruthy()
+    expect(isLoading).toBe(false)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,219 @@
+/**
+ * Tests for test suites: validation, running cases and summaries
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+  MAX_SUITE_CASES,
+  createTestCase,
+  createTestSuite,
+  getCaseStatus,
+  runSuiteCases,
+  summarizeSuiteRun,
+  validateTestSuite
+} from '../suites'
+import { createAssertion } from '../assertions'
+import { CancellationError } from '../errorHandling'
+import { Model, SuccessMetrics, SuiteCaseResult, TestCase } from '../types'
+import { EvaluationEngine, TestResult } from '@/services/evaluationEngine'
+import { MOCK_PROVIDER_CONFIG } from '@/services/providers'
+
+const INSTRUCTIONS = 'You are a helpful assistant. Answer briefly.'
+
+const metrics = (overallScore: number, evaluationError?: string): SuccessMetrics => ({
+  overallScore,
+  criterionScores: evaluationError ? [] : [
+    { criterionId: 'coherence', name: 'Coherence', score: overallScore, normalizedScore: overallScore },
+    { criterionId: 'efficiency', name: 'Efficiency', score: overallScore - 10, normalizedScore: overallScore - 10 }
+  ],
+  explanation: 'Judged.',
+  ...(evaluationError && { evaluationError })
+})
+
+const testResult = (overallScore: number, overrides: Partial<TestResult> = {}): TestResult => ({
+  response: `Reply scoring ${overallScore}`,
+  metrics: metrics(overallScore),
+  tokenUsage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+  executionTime: 100,
+  cost: 0.001,
+  ...overrides
+})
+
+const caseResult = (caseId: string, status: SuiteCaseResult['status'], overallScore?: number): SuiteCaseResult => ({
+  caseId,
+  prompt: `Prompt ${caseId}`,
+  status,
+  ...(overallScore !== undefined && { metrics: metrics(overallScore), tokenUsage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 } }),
+  cost: overallScore !== undefined ? 0.002 : 0,
+  executionTime: 100
+})
+
+describe('validateTestSuite', () => {
+  it('should accept a suite with valid cases', () => {
+    const suite = createTestSuite('Support', INSTRUCTIONS, [createTestCase('How do I reset my password?')])
+
+    expect(validateTestSuite(suite)).toEqual([])
+  })
+
+  it('should report problems with the suite and each case', () => {
+    const assertion = { ...createAssertion('regex'), value: '(' }
+    const suite = {
+      ...createTestSuite(' ', 'Short', [createTestCase('Hi'), { ...createTestCase('A valid prompt'), assertions: [assertion] }]),
+      passThreshold: 120
+    }
+
+    const errors = validateTestSuite(suite)
+
+    expect(errors).toContain('Suite name is required')
+    expect(errors.some(error => error.startsWith('Instructions:'))).toBe(true)
+    expect(errors).toContain('Pass threshold must be between 0 and 100')
+    expect(errors.some(error => error.startsWith('Case 1:'))).toBe(true)
+    expect(errors.some(error => error.startsWith('Case 2:'))).toBe(true)
+  })
+
+  it('should require between one and the maximum number of cases', () => {
+    expect(validateTestSuite(createTestSuite('Empty', INSTRUCTIONS, []))).toContain('At least one test case is required')
+
+    const cases = Array.from({ length: MAX_SUITE_CASES + 1 }, () => createTestCase('A valid prompt'))
+    expect(validateTestSuite(createTestSuite('Large', INSTRUCTIONS, cases))).toContain(`A suite can have at most ${MAX_SUITE_CASES} test cases`)
+  })
+})
+
+describe('getCaseStatus', () => {
+  it('should pass cases at or above the threshold with every assertion holding', () => {
+    expect(getCaseStatus(metrics(70), undefined, 70)).toBe('passed')
+    expect(getCaseStatus(metrics(69), undefined, 70)).toBe('failed')
+    expect(getCaseStatus(metrics(95), [{ assertionId: 'a', type: 'isJson', description: 'Is valid JSON', passed: false, message: 'Not JSON' }], 70)).toBe('failed')
+    expect(getCaseStatus(metrics(0, 'Judge returned no JSON'), undefined, 70)).toBe('error')
+  })
+})
+
+describe('runSuiteCases', () => {
+  const suiteWith = (count: number) =>
+    createTestSuite('Suite', INSTRUCTIONS, Array.from({ length: count }, (_, index) => createTestCase(`Prompt number ${index + 1}`)))
+
+  it('should run at most the given number of cases at once and keep case order', async () => {
+    const suite = suiteWith(5)
+    let running = 0
+    let maxRunning = 0
+    const runCase = async (testCase: TestCase) => {
+      running++
+      maxRunning = Math.max(maxRunning, running)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      running--
+      return testResult(60 + suite.cases.indexOf(testCase) * 5)
+    }
+
+    const results = await runSuiteCases(suite, runCase, { concurrency: 2 })
+
+    expect(maxRunning).toBe(2)
+    expect(results.map(result => result.caseId)).toEqual(suite.cases.map(testCase => testCase.id))
+    expect(results.map(result => result.status)).toEqual(['failed', 'failed', 'passed', 'passed', 'passed'])
+  })
+
+  it('should report each case as it starts and finishes', async () => {
+    const suite = suiteWith(2)
+    const onCaseUpdate = vi.fn()
+
+    await runSuiteCases(suite, async () => testResult(90), { concurrency: 1, onCaseUpdate })
+
+    expect(onCaseUpdate.mock.calls.map(([result, index]) => [index, result.status])).toEqual([
+      [0, 'running'], [0, 'passed'], [1, 'running'], [1, 'passed']
+    ])
+  })
+
+  it('should record a failing case as an error and carry on', async () => {
+    const suite = suiteWith(3)
+    const runCase = vi.fn()
+      .mockResolvedValueOnce(testResult(90))
+      .mockRejectedValueOnce(new Error('Evaluation failed: Rate limit exceeded'))
+      .mockResolvedValueOnce(testResult(80))
+
+    const results = await runSuiteCases(suite, runCase, { concurrency: 1 })
+
+    expect(results.map(result => result.status)).toEqual(['passed', 'error', 'passed'])
+    expect(results[1].error).toBe('Evaluation failed: Rate limit exceeded')
+  })
+
+  it('should stop when cancelled', async () => {
+    const suite = suiteWith(4)
+    const controller = new AbortController()
+    const runCase = vi.fn(async () => {
+      controller.abort()
+      throw new CancellationError()
+    })
+
+    await expect(runSuiteCases(suite, runCase, { concurrency: 1, signal: controller.signal })).rejects.toBeInstanceOf(CancellationError)
+    expect(runCase).toHaveBeenCalledTimes(1)
+  })
+
+  it('should run a suite end to end on the mock provider', async () => {
+    const model: Model = {
+      id: 'mock/assistant',
+      name: 'Mock Assistant',
+      provider: 'Mock',
+      contextLength: 8192,
+      pricing: { prompt: 0.000001, completion: 0.000002 },
+      providerId: 'mock'
+    }
+    const suite = createTestSuite('Geography', INSTRUCTIONS, [
+      createTestCase('What is the capital of France?'),
+      { ...createTestCase('What is the capital of Japan?'), assertions: [{ ...createAssertion('startsWith'), value: 'Never' }] }
+    ])
+
+    const results = await runSuiteCases(suite, testCase => EvaluationEngine.executeEvaluation({
+      apiKey: '',
+      providers: [MOCK_PROVIDER_CONFIG],
+      model,
+      evaluationModel: { ...model, id: 'mock/judge', name: 'Mock Judge' },
+      systemInstructions: suite.instructions,
+      userPrompt: testCase.prompt,
+      assertions: testCase.assertions
+    }))
+    const summary = summarizeSuiteRun(results, 1000)
+
+    expect(results.every(result => result.metrics && !result.metrics.evaluationError)).toBe(true)
+    expect(results[1].status).toBe('failed')
+    expect(summary.totalCases).toBe(2)
+    expect(summary.totalCost).toBeGreaterThan(0)
+    expect(summary.worstCaseIds).toContain(suite.cases[1].id)
+  })
+})
+
+describe('summarizeSuiteRun', () => {
+  it('should aggregate pass rate, means over scored cases, worst cases and cost', () => {
+    const results = [
+      caseResult('a', 'passed', 90),
+      caseResult('b', 'failed', 50),
+      caseResult('c', 'error'),
+      caseResult('d', 'passed', 70)
+    ]
+
+    const summary = summarizeSuiteRun(results, 4000)
+
+    expect(summary).toEqual({
+      totalCases: 4,
+      passedCases: 2,
+      failedCases: 1,
+      erroredCases: 1,
+      passRate: 50,
+      meanOverallScore: 70,
+      criterionMeans: [
+        { criterionId: 'coherence', name: 'Coherence', mean: 70 },
+        { criterionId: 'efficiency', name: 'Efficiency', mean: 60 }
+      ],
+      worstCaseIds: ['c', 'b', 'd'],
+      totalCost: 0.006,
+      totalTokens: 45,
+      executionTime: 4000
+    })
+  })
+
+  it('should leave the mean score empty when no case was scored', () => {
+    const summary = summarizeSuiteRun([caseResult('a', 'error')], 100)
+
+    expect(summary.meanOverallScore).toBeNull()
+    expect(summary.passRate).toBe(0)
+    expect(summarizeSuiteRun([], 0).passRate).toBe(0)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,62 @@
+/**
+ * Tests for {{variable}} placeholders: detection, interpolation and what a TestRun records
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  extractTemplateVariables,
+  findMissingVariables,
+  interpolateTemplate,
+  mergeVariables,
+  resolveTemplateRun
+} from '../templateVariables'
+
+describe('extractTemplateVariables', () => {
+  it('should list each variable once, in order of first use', () => {
+    expect(extractTemplateVariables('You are a {{persona}} who speaks {{ language }}.', 'Tell {{name}} about {{persona}}s'))
+      .toEqual(['persona', 'language', 'name'])
+  })
+
+  it('should ignore braces that are not valid placeholders', () => {
+    expect(extractTemplateVariables('Reply as {"answer": "..."} or {{ 1st }} or {{first name}}')).toEqual([])
+  })
+})
+
+describe('findMissingVariables', () => {
+  it('should treat blank values as missing', () => {
+    expect(findMissingVariables(['{{a}} {{b}} {{c}}'], { a: 'x', b: '  ' })).toEqual(['b', 'c'])
+  })
+})
+
+describe('interpolateTemplate', () => {
+  it('should fill in values in a single pass and keep unknown placeholders', () => {
+    expect(interpolateTemplate('{{greeting}}, {{ name }}! {{unknown}}', { greeting: 'Hello', name: '{{greeting}}' }))
+      .toBe('Hello, {{greeting}}! {{unknown}}')
+  })
+})
+
+describe('mergeVariables', () => {
+  it('should let later values win unless they are blank', () => {
+    expect(mergeVariables({ persona: 'pirate', tone: 'formal' }, undefined, { persona: 'chef', tone: '' }))
+      .toEqual({ persona: 'chef', tone: 'formal' })
+  })
+})
+
+describe('resolveTemplateRun', () => {
+  it('should record the templates and the values used', () => {
+    expect(resolveTemplateRun('You are a {{persona}}.', 'Describe {{city}}', { persona: 'guide', city: 'Paris', unused: 'x' }))
+      .toEqual({
+        instructions: 'You are a guide.',
+        prompt: 'Describe Paris',
+        template: {
+          instructions: 'You are a {{persona}}.',
+          prompt: 'Describe {{city}}',
+          variables: { persona: 'guide', city: 'Paris' }
+        }
+      })
+  })
+
+  it('should leave text without variables as is', () => {
+    expect(resolveTemplateRun('Be brief.', 'Hi', { persona: 'guide' })).toEqual({ instructions: 'Be brief.', prompt: 'Hi' })
+  })
+})
\ No newline at end of file
@@ -1,4 +1,15 @@
-import { validateInstructions, validatePrompt, validateTextInput } from '../validation'
+import { describe, it, expect } from 'vitest'
+import {
+  MAX_ADDITIONAL_JUDGES,
+  MAX_CONVERSATION_TURNS,
+  MAX_TURN_LENGTH,
+  validateEvaluationRequest,
+  validateInstructions,
+  validateModelLimits,
+  validatePrompt,
+  validateTextInput
+} from '../validation'
+import { DEFAULT_RUBRIC } from '../rubrics'
 
 describe('validation utilities', () => {
   describe('validateTextInput', () => {
@@ -74,4 +85,107 @@ describe('validation utilities', () => {
       expect(result.status).toBe('error')
     })
   })
+  describe('validateEvaluationRequest', () => {
+    const request = {
+      model: 'openai/gpt-4o',
+      judge: 'openai/gpt-4o-mini',
+      instructions: 'You are a helpful assistant.',
+      prompt: 'What is the capital of France?'
+    }
+
+    it('accepts a complete request', () => {
+      expect(validateEvaluationRequest(request)).toEqual([])
+      expect(validateEvaluationRequest({
+        ...request,
+        settings: {
+          runsPerTest: 3,
+          rubric: DEFAULT_RUBRIC,
+          conversation: [{ role: 'user', content: 'And of Spain?' }],
+          assertions: [{ id: 'a1', type: 'wordCount', max: 50 }]
+        }
+      })).toEqual([])
+    })
+
+    it('reports settings the engine could not use', () => {
+      expect(validateEvaluationRequest({
+        ...request,
+        settings: {
+          runsPerTest: 11,
+          rubric: { name: 'Broken' },
+          conversation: [{ role: 'system', content: 'Hi' }],
+          assertions: [{ id: 'a1', type: 'sentiment' }]
+        }
+      })).toEqual([
+        'settings.runsPerTest must be an integer from 1 to 10',
+        'settings.conversation must be a list of user and assistant turns with content',
+        'settings.rubric is malformed',
+        'settings.assertions[0] has an unknown type'
+      ])
+    })
+
+    it('caps the number of additional judges', () => {
+      const judges = (count: number) => Array.from({ length: count }, (_, index) => `judge/${index}`)
+
+      expect(validateEvaluationRequest({ ...request, additionalJudges: judges(MAX_ADDITIONAL_JUDGES) })).toEqual([])
+      expect(validateEvaluationRequest({ ...request, additionalJudges: judges(MAX_ADDITIONAL_JUDGES + 1) })).toEqual([
+        `additionalJudges must list at most ${MAX_ADDITIONAL_JUDGES} models`
+      ])
+    })
+
+    it('caps the number of conversation turns', () => {
+      const conversation = Array.from({ length: MAX_CONVERSATION_TURNS + 1 }, () => ({ role: 'user', content: 'Go on.' }))
+
+      expect(validateEvaluationRequest({ ...request, settings: { conversation } })).toEqual([
+        `settings.conversation must have at most ${MAX_CONVERSATION_TURNS} turns`
+      ])
+    })
+
+    it('caps the size of each conversation turn', () => {
+      const conversation = [{ role: 'user', content: 'x'.repeat(MAX_TURN_LENGTH + 1) }]
+
+      expect(validateEvaluationRequest({ ...request, settings: { conversation } })).toEqual([
+        `settings.conversation turns must be at most ${MAX_TURN_LENGTH} characters`
+      ])
+    })
+
+    it('requires the conversation to end with a user turn', () => {
+      const conversation = [{ role: 'user', content: 'And of Spain?' }, { role: 'assistant', content: 'Madrid.' }]
+
+      expect(validateEvaluationRequest({ ...request, settings: { conversation } })).toEqual([
+        'settings.conversation must end with a user turn for the model to answer'
+      ])
+    })
+
+    it("limits maxTokens to the model's context length", () => {
+      const model = { id: 'mock/assistant', name: 'Mock', provider: 'Mock', contextLength: 8192, pricing: { prompt: 0, completion: 0 } }
+      const withMaxTokens = (maxTokens: number) => ({ ...request, settings: { maxTokens } })
+
+      expect(validateModelLimits(withMaxTokens(8192), model)).toEqual([])
+      expect(validateModelLimits(withMaxTokens(8193), model)).toEqual([
+        'settings.maxTokens must be at most 8192, the context length of mock/assistant'
+      ])
+    })
+
+    it('rejects assertion patterns that could take exponential time', () => {
+      expect(validateEvaluationRequest({
+        ...request,
+        settings: {
+          assertions: [
+            { id: 'a1', type: 'regex', value: '^(\\w+\\s?)+$' },
+            { id: 'a2', type: 'jsonSchema', value: '{"items": {"pattern": "(a*)*"}}' },
+            { id: 'a3', type: 'regex', value: '(' }
+          ]
+        }
+      })).toEqual([
+        'settings.assertions[0]: Matches regex pattern must not repeat a group that contains a quantifier',
+        'settings.assertions[1]: JSON Schema pattern /(a*)*/ must not repeat a group that contains a quantifier',
+        'settings.assertions[2]: Matches regex pattern is not a valid regular expression'
+      ])
+    })
+
+    it('rejects bodies that are not objects', () => {
+      expect(validateEvaluationRequest(null)).toEqual(['Request body must be a JSON object'])
+      expect(validateEvaluationRequest([request])).toEqual(['Request body must be a JSON object'])
+    })
+  })
 })
\ No newline at end of file
@@ -0,0 +1,262 @@
+// Ablation runs: remove each segment of the instructions in turn and measure the score change
+
+import { AblationConfig, AblationVariant, SegmentMode, SuiteCaseResult, TestCase } from './types'
+import { mean } from './statistics'
+import { throwIfCancelled } from './errorHandling'
+import { validateInstructions } from './validation'
+import { DEFAULT_PASS_THRESHOLD, createPendingResults, runSuiteCases, summarizeSuiteRun, validateTestCases } from './suites'
+import type { TestResult } from '@/services/evaluationEngine'
+
+export const MAX_ABLATION_SEGMENTS = 30
+
+// Evaluations in one run (segments plus the full instructions, times prompts), to keep cost in check
+export const MAX_ABLATION_EVALUATIONS = 100
+
+// Score changes smaller than this many points are treated as judge noise
+export const ABLATION_NOISE_THRESHOLD = 2
+
+export type SegmentVerdict = 'helps' | 'hurts' | 'neutral'
+
+export interface SegmentImpact {
+  segmentIndex: number
+  segment: string
+  scoreDelta: number | null // Full instructions' mean score minus the score without the segment; positive when the segment helps
+  passRateDelta: number | null // Same for the pass rate, in points
+  promptTokensSaved: number | null // Mean prompt tokens per test saved by removing the segment
+  verdict: SegmentVerdict | null // Null until both runs are scored
+}
+
+export interface RunAblationOptions {
+  runCase: (instructions: string, testCase: TestCase) => Promise<TestResult>
+  signal?: AbortSignal
+  onVariantUpdate?: (variant: AblationVariant, index: number) => void // Called as each of the variant's prompts starts and finishes
+}
+
+const BULLET_LINE = /^\s*(?:[-*•+]|\d+[.)])\s+/
+const HEADING_LINE = /^\s*#{1,6}\s/
+const SENTENCE_BOUNDARY = /(?:[.!?]+["')\]]*[ \t]+|\s*\n\s*)(?=\S)/g
+
+const isBlank = (line: string) => line.trim() === ''
+const isIndented = (line: string) => /^\s/.test(line)
+
+// Offsets where a segment starts, by line for bullets and sections
+const findBoundaries = (instructions: string, mode: SegmentMode): number[] => {
+  if (mode === 'sentence') {
+    const boundaries: number[] = []
+    const pattern = new RegExp(SENTENCE_BOUNDARY.source, 'g')
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(instructions)) !== null) {
+      boundaries.push(match.index + match[0].length)
+    }
+    return boundaries
+  }
+
+  const lines = instructions.split('\n')
+  const hasHeadings = lines.some(line => HEADING_LINE.test(line))
+  const boundaries: number[] = []
+  let offset = 0
+  let inBullet = false
+  lines.forEach((line, index) => {
+    const previous = index > 0 ? lines[index - 1] : ''
+    if (!isBlank(line) && index > 0) {
+      const startsSegment = mode === 'bullet'
+        ? BULLET_LINE.test(line) || isBlank(previous) || (inBullet && !isIndented(line))
+        : hasHeadings ? HEADING_LINE.test(line) : isBlank(previous)
+      if (startsSegment) {
+        boundaries.push(offset)
+      }
+    }
+    if (!isBlank(line)) {
+      inBullet = BULLET_LINE.test(line) || (inBullet && isIndented(line))
+    }
+    offset += line.length + 1
+  })
+  return boundaries
+}
+
+/**
+ * Splits instructions into segments: sentences (ending in ., ! or ?, or at a
+ * line break), bullets (list items, with any indented lines under them, and
+ * paragraphs between lists) or sections (starting at markdown headings, or
+ * paragraphs when there are none). Each segment keeps the whitespace after
+ * it, so the segments joined together give back the instructions.
+ */
+export function splitInstructionSegments(instructions: string, mode: SegmentMode): string[] {
+  const starts = [0, ...findBoundaries(instructions, mode).filter(offset => offset > 0 && offset < instructions.length)]
+  const pieces = starts.map((start, index) => instructions.slice(start, starts[index + 1] ?? instructions.length))
+
+  // Whitespace on its own joins the segment before it, or after it at the start
+  const segments: string[] = []
+  pieces.forEach(piece => {
+    if (isBlank(piece) && segments.length > 0) {
+      segments[segments.length - 1] += piece
+    } else if (segments.length > 0 && isBlank(segments[segments.length - 1])) {
+      segments[segments.length - 1] += piece
+    } else {
+      segments.push(piece)
+    }
+  })
+  return segments.filter(segment => !isBlank(segment))
+}
+
+const trailingWhitespace = (text: string) => text.match(/\s*$/)![0]
+const countLineBreaks = (text: string) => text.split('\n').length - 1
+
+/**
+ * The instructions without the given segments. Where a removed segment was
+ * followed by more line breaks than the text before it, its line breaks are
+ * kept, so lines and paragraphs stay apart.
+ */
+export function removeSegments(instructions: string, mode: SegmentMode, segmentIndexes: number[]): string {
+  return splitInstructionSegments(instructions, mode)
+    .reduce((text, segment, index) => {
+      if (!segmentIndexes.includes(index)) return text + segment
+      const before = trailingWhitespace(text)
+      const after = trailingWhitespace(segment)
+      return countLineBreaks(after) > countLineBreaks(before) ? text.slice(0, text.length - before.length) + after : text
+    }, '')
+    .trim()
+}
+
+/**
+ * The full instructions followed by one variant per segment removed, none of them run yet
+ */
+export function createAblationVariants(instructions: string, mode: SegmentMode, prompts: TestCase[]): AblationVariant[] {
+  const pending = { status: 'pending' as const, results: createPendingResults({ cases: prompts }), summary: null }
+  return [
+    { segmentIndex: null, segment: '', instructions, ...pending },
+    ...splitInstructionSegments(instructions, mode).map((segment, index) => ({
+      segmentIndex: index,
+      segment: segment.trim(),
+      instructions: removeSegments(instructions, mode, [index]),
+      ...pending
+    }))
+  ]
+}
+
+/**
+ * Validates an ablation run's setup and returns a list of problems (empty when valid)
+ */
+export function validateAblationConfig(ablationConfig: AblationConfig): string[] {
+  const { instructions, mode, prompts } = ablationConfig
+  const errors: string[] = []
+
+  const validation = validateInstructions(instructions)
+  if (!validation.isValid) {
+    errors.push(validation.message)
+  }
+
+  errors.push(...validateTestCases(prompts))
+
+  const segmentCount = splitInstructionSegments(instructions, mode).length
+  if (validation.isValid && segmentCount < 2) {
+    errors.push(`The instructions split into ${segmentCount} ${mode}; at least 2 segments are needed`)
+  }
+  if (segmentCount > MAX_ABLATION_SEGMENTS) {
+    errors.push(`The instructions split into ${segmentCount} segments; the limit is ${MAX_ABLATION_SEGMENTS}`)
+  }
+
+  const evaluations = (segmentCount + 1) * prompts.length
+  if (evaluations > MAX_ABLATION_EVALUATIONS) {
+    errors.push(`This run needs ${evaluations} evaluations; the limit is ${MAX_ABLATION_EVALUATIONS}`)
+  }
+
+  return errors
+}
+
+/**
+ * Runs the full instructions, then each variant with a segment removed, over
+ * the same prompts. Variants run one after another, each with its prompts a
+ * few at a time like a test suite. Cancelling stops the run and rejects.
+ */
+export async function runAblation(ablationConfig: AblationConfig, options: RunAblationOptions): Promise<AblationVariant[]> {
+  const { instructions, mode, prompts } = ablationConfig
+  const { runCase, signal, onVariantUpdate } = options
+  const passThreshold = ablationConfig.passThreshold ?? DEFAULT_PASS_THRESHOLD
+  const variants = createAblationVariants(instructions, mode, prompts)
+
+  const update = (index: number, variant: AblationVariant) => {
+    variants[index] = variant
+    onVariantUpdate?.(variant, index)
+  }
+
+  for (let index = 0; index < variants.length; index++) {
+    throwIfCancelled(signal)
+    const variant = variants[index]
+    update(index, { ...variant, status: 'running' })
+
+    const results = await runSuiteCases(
+      { cases: prompts, passThreshold },
+      testCase => runCase(variant.instructions, testCase),
+      {
+        signal,
+        onCaseUpdate: (result, caseIndex) => {
+          const progress = [...variants[index].results]
+          progress[caseIndex] = result
+          update(index, { ...variants[index], results: progress })
+        }
+      }
+    )
+
+    update(index, { ...variants[index], status: 'complete', results, summary: summarizeSuiteRun(results, 0) })
+  }
+
+  return variants
+}
+
+// Unrounded mean overall score, so small differences between variants show
+const meanScore = (results: SuiteCaseResult[]): number | null => {
+  const scores = results
+    .filter(result => result.metrics && !result.metrics.evaluationError)
+    .map(result => result.metrics!.overallScore)
+  return scores.length > 0 ? mean(scores) : null
+}
+
+const meanPromptTokens = (results: SuiteCaseResult[]): number | null => {
+  const tokens = results.filter(result => result.tokenUsage).map(result => result.tokenUsage!.promptTokens)
+  return tokens.length > 0 ? mean(tokens) : null
+}
+
+/**
+ * What each segment contributes: how much the score and pass rate drop
+ * without it, and the prompt tokens it costs. A segment helps when removing
+ * it lowers the score by at least ABLATION_NOISE_THRESHOLD points, and hurts
+ * when removing it raises the score by as much.
+ */
+export function summarizeAblation(variants: AblationVariant[]): SegmentImpact[] {
+  const full = variants.find(variant => variant.segmentIndex === null)
+  const fullScore = full?.status === 'complete' ? meanScore(full.results) : null
+  const fullTokens = full?.status === 'complete' ? meanPromptTokens(full.results) : null
+
+  return variants
+    .filter(variant => variant.segmentIndex !== null)
+    .map(variant => {
+      const complete = variant.status === 'complete'
+      const score = complete ? meanScore(variant.results) : null
+      const tokens = complete ? meanPromptTokens(variant.results) : null
+      const scoreDelta = fullScore !== null && score !== null ? Math.round((fullScore - score) * 10) / 10 : null
+      const passRateDelta = complete && full?.summary && variant.summary ? full.summary.passRate - variant.summary.passRate : null
+
+      return {
+        segmentIndex: variant.segmentIndex!,
+        segment: variant.segment,
+        scoreDelta,
+        passRateDelta,
+        promptTokensSaved: fullTokens !== null && tokens !== null ? Math.round(fullTokens - tokens) : null,
+        verdict: scoreDelta === null
+          ? null
+          : scoreDelta >= ABLATION_NOISE_THRESHOLD ? 'helps' : scoreDelta <= -ABLATION_NOISE_THRESHOLD ? 'hurts' : 'neutral'
+      }
+    })
+}
+
+/**
+ * The instructions without every segment that did not help. Segments are
+ * measured one at a time, so removing several together should be tested again.
+ */
+export function trimInstructions(instructions: string, mode: SegmentMode, impacts: SegmentImpact[]): string {
+  const removable = impacts
+    .filter(impact => impact.verdict === 'neutral' || impact.verdict === 'hurts')
+    .map(impact => impact.segmentIndex)
+  return removeSegments(instructions, mode, removable)
+}
\ No newline at end of file
@@ -0,0 +1,238 @@
+/**
+ * Server-side proxy to OpenRouter for the route handlers under src/app/api.
+ * Lets a team share a deployment that holds the API key, instead of each
+ * browser calling OpenRouter with its own.
+ */
+
+import { config } from './config'
+import { redactText } from './httpFixtures'
+
+export interface ProxyConfig {
+  upstreamUrl: string
+  serverApiKey: string | null // Used when the request brings no key of its own
+  rateLimit: number // Requests per client IP per window; 0 disables the limit
+  rateLimitWindowMs: number
+  trustedProxyHops: number // Proxies in front of the app that append to X-Forwarded-For
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  retryAfterMs: number
+}
+
+export interface ProxyOptions {
+  method?: 'GET' | 'POST'
+  requireKey?: boolean // OpenRouter's model list is public, the rest needs a key
+}
+
+// An integer environment variable, or the fallback when it is unset or malformed
+function parseIntEnv(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10)
+  return Number.isFinite(parsed) ? parsed : fallback
+}
+
+/**
+ * Proxy settings from server-only environment variables
+ */
+export function getProxyConfig(): ProxyConfig {
+  return {
+    upstreamUrl: config.openRouterApiUrl.replace(/\/+$/, ''),
+    serverApiKey: process.env.OPENROUTER_API_KEY || null,
+    rateLimit: parseIntEnv(process.env.PROXY_RATE_LIMIT, 60),
+    rateLimitWindowMs: parseIntEnv(process.env.PROXY_RATE_LIMIT_WINDOW_MS, 60000),
+    trustedProxyHops: Math.max(1, parseInt(process.env.PROXY_TRUSTED_HOPS || '1', 10) || 1)
+  }
+}
+
+/**
+ * Fixed-window request counter per client. Counts live in memory, so each
+ * server instance limits on its own.
+ */
+export class RateLimiter {
+  private static readonly PRUNE_THRESHOLD = 1000
+
+  private windows = new Map<string, { count: number; resetAt: number }>()
+
+  constructor(private readonly limit: number, private readonly windowMs: number) {}
+
+  check(clientId: string, now = Date.now()): RateLimitResult {
+    if (this.limit <= 0) {
+      return { allowed: true, remaining: Infinity, retryAfterMs: 0 }
+    }
+
+    if (this.windows.size > RateLimiter.PRUNE_THRESHOLD) {
+      this.prune(now)
+    }
+
+    let window = this.windows.get(clientId)
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + this.windowMs }
+      this.windows.set(clientId, window)
+    }
+
+    if (window.count >= this.limit) {
+      return { allowed: false, remaining: 0, retryAfterMs: window.resetAt - now }
+    }
+
+    window.count++
+    return { allowed: true, remaining: this.limit - window.count, retryAfterMs: 0 }
+  }
+
+  private prune(now: number): void {
+    this.windows.forEach((window, clientId) => {
+      if (window.resetAt <= now) {
+        this.windows.delete(clientId)
+      }
+    })
+  }
+}
+
+/**
+ * Client IP from the proxy headers set by the hosting platform. Clients can
+ * send their own X-Forwarded-For, so entries are counted from the right: each
+ * trusted proxy appends the address it saw, and anything further left is
+ * unverified.
+ */
+export function getClientIp(request: Request, trustedProxyHops = 1): string {
+  const forwardedFor = request.headers.get('x-forwarded-for')
+  if (forwardedFor) {
+    const addresses = forwardedFor.split(',').map(address => address.trim()).filter(Boolean)
+    if (addresses.length > 0) {
+      return addresses[Math.max(0, addresses.length - trustedProxyHops)]
+    }
+  }
+  return request.headers.get('x-real-ip') || 'unknown'
+}
+
+/**
+ * Log text with API keys removed, both the known ones and anything shaped
+ * like a key
+ */
+export function redactSecrets(text: string, secrets: (string | null | undefined)[]): string {
+  return secrets
+    .filter((secret): secret is string => !!secret && secret.length >= 8)
+    .reduce((redacted, secret) => redacted.split(secret).join('[REDACTED]'), redactText(text))
+}
+
+let rateLimiter: RateLimiter | null = null
+
+function getRateLimiter(proxyConfig: ProxyConfig): RateLimiter {
+  if (!rateLimiter) {
+    rateLimiter = new RateLimiter(proxyConfig.rateLimit, proxyConfig.rateLimitWindowMs)
+  }
+  return rateLimiter
+}
+
+/**
+ * Start over with empty rate limit counts, for tests
+ */
+export function resetRateLimiter(): void {
+  rateLimiter = null
+}
+
+function errorResponse(status: number, message: string, headers: Record<string, string> = {}): Response {
+  return Response.json({ error: { code: status, message } }, { status, headers })
+}
+
+/**
+ * Count a request against its client's limit. Over the limit, `limited`
+ * holds the 429 response to send.
+ */
+export function checkRateLimit(
+  request: Request,
+  proxyConfig: ProxyConfig = getProxyConfig()
+): { limited: Response | null; remaining: number } {
+  const clientIp = getClientIp(request, proxyConfig.trustedProxyHops)
+  const limit = getRateLimiter(proxyConfig).check(clientIp)
+
+  if (limit.allowed) {
+    return { limited: null, remaining: limit.remaining }
+  }
+
+  console.warn(`[proxy] ${request.method} ${new URL(request.url).pathname} rate limited for ${clientIp}`)
+  return {
+    limited: errorResponse(429, 'Too many requests. Please wait before trying again.', {
+      'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000))
+    }),
+    remaining: 0
+  }
+}
+
+/**
+ * The OpenRouter key from the request's Authorization header, or else the
+ * server's key
+ */
+export function resolveApiKey(request: Request, proxyConfig: ProxyConfig = getProxyConfig()): { clientKey: string | null; apiKey: string | null } {
+  const clientKey = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '').trim() || null
+  return { clientKey, apiKey: clientKey || proxyConfig.serverApiKey }
+}
+
+/**
+ * Forward a request to the OpenRouter API path, rate limited per client IP.
+ * The key is taken from the request's Authorization header, falling back
+ * to the server's key. The upstream response, including a streamed body,
+ * is passed back as it arrives. Keys are never logged.
+ */
+export async function proxyToOpenRouter(
+  request: Request,
+  path: string,
+  options: ProxyOptions = {},
+  proxyConfig: ProxyConfig = getProxyConfig()
+): Promise<Response> {
+  const method = options.method || 'POST'
+  const startTime = Date.now()
+  const clientIp = getClientIp(request, proxyConfig.trustedProxyHops)
+
+  const { limited, remaining } = checkRateLimit(request, proxyConfig)
+  if (limited) {
+    return limited
+  }
+
+  const { clientKey, apiKey } = resolveApiKey(request, proxyConfig)
+  const secrets = [clientKey, proxyConfig.serverApiKey]
+
+  if (options.requireKey && !apiKey) {
+    return errorResponse(401, 'No API key. Enter your OpenRouter key, or set OPENROUTER_API_KEY on the server.')
+  }
+
+  let body: string | undefined
+  if (method === 'POST') {
+    body = await request.text()
+    try {
+      JSON.parse(body)
+    } catch {
+      return errorResponse(400, 'Request body must be JSON')
+    }
+  }
+
+  try {
+    const upstream = await fetch(`${proxyConfig.upstreamUrl}${path}`, {
+      method,
+      headers: {
+        ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+        'Content-Type': 'application/json',
+        'HTTP-Referer': config.appUrl || new URL(request.url).origin,
+        'X-Title': 'Instruct-Lab'
+      },
+      body,
+      signal: request.signal
+    })
+
+    console.info(`[proxy] ${method} ${path} ${upstream.status} in ${Date.now() - startTime}ms for ${clientIp}`)
+
+    return new Response(upstream.body, {
+      status: upstream.status,
+      statusText: upstream.statusText,
+      headers: {
+        'Content-Type': upstream.headers.get('content-type') || 'application/json',
+        'Cache-Control': 'no-store',
+        ...(Number.isFinite(remaining) && { 'X-RateLimit-Remaining': String(remaining) })
+      }
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    console.error(`[proxy] ${method} ${path} failed for ${clientIp}: ${redactSecrets(message, secrets)}`)
+    return errorResponse(502, 'Could not reach OpenRouter')
+  }
+}
\ No newline at end of file
@@ -0,0 +1,462 @@
+// Deterministic assertions checked locally against model responses
+
+import { Assertion, AssertionResult, AssertionType } from './types'
+
+export const ASSERTION_LABELS: Record<AssertionType, string> = {
+  regex: 'Matches regex',
+  notRegex: 'Does not match regex',
+  isJson: 'Is valid JSON',
+  jsonSchema: 'Matches JSON Schema',
+  wordCount: 'Word count',
+  characterCount: 'Character count',
+  sentenceCount: 'Sentence count',
+  contains: 'Contains all of',
+  excludes: 'Contains none of',
+  startsWith: 'Starts with',
+  endsWith: 'Ends with'
+}
+
+export const MAX_ASSERTIONS = 20
+
+// Longest regex an API request may send, counting JSON Schema patterns
+export const MAX_PATTERN_LENGTH = 200
+
+type JsonSchema = Record<string, unknown>
+
+/**
+ * Creates an assertion of the given type with empty settings
+ */
+export function createAssertion(type: AssertionType): Assertion {
+  const assertion: Assertion = { id: crypto.randomUUID(), type }
+
+  switch (type) {
+    case 'contains':
+    case 'excludes':
+      assertion.values = []
+      break
+    case 'regex':
+    case 'notRegex':
+    case 'jsonSchema':
+    case 'startsWith':
+    case 'endsWith':
+      assertion.value = ''
+      break
+  }
+
+  return assertion
+}
+
+/**
+ * Validates an assertion's settings and returns a list of problems (empty when valid)
+ */
+export function validateAssertion(assertion: Assertion): string[] {
+  const errors: string[] = []
+  const label = ASSERTION_LABELS[assertion.type]
+
+  switch (assertion.type) {
+    case 'regex':
+    case 'notRegex':
+      if (!assertion.value) {
+        errors.push(`${label} needs a pattern`)
+      } else {
+        try {
+          new RegExp(assertion.value)
+        } catch {
+          errors.push(`${label} pattern is not a valid regular expression`)
+        }
+      }
+      break
+    case 'jsonSchema':
+      try {
+        const schema = JSON.parse(assertion.value || '')
+        if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+          errors.push('JSON Schema must be an object')
+        }
+      } catch {
+        errors.push('JSON Schema is not valid JSON')
+      }
+      break
+    case 'wordCount':
+    case 'characterCount':
+    case 'sentenceCount':
+      if (assertion.min === undefined && assertion.max === undefined) {
+        errors.push(`${label} needs a minimum or maximum`)
+      }
+      if ([assertion.min, assertion.max].some(limit => limit !== undefined && (!Number.isFinite(limit) || limit < 0))) {
+        errors.push(`${label} limits must be zero or positive`)
+      }
+      if (assertion.min !== undefined && assertion.max !== undefined && assertion.min > assertion.max) {
+        errors.push(`${label} minimum must not exceed its maximum`)
+      }
+      break
+    case 'contains':
+    case 'excludes':
+      if (!assertion.values?.some(value => value.trim())) {
+        errors.push(`${label} needs at least one phrase`)
+      }
+      break
+    case 'startsWith':
+    case 'endsWith':
+      if (!assertion.value) {
+        errors.push(`${label} needs text to match`)
+      }
+      break
+  }
+
+  return errors
+}
+
+/**
+ * Finds a quantified group that itself contains a quantifier, such as
+ * (a+)+ or (\w*\s?)*. These can backtrack for exponential time on a
+ * response that almost matches. Fixed counts like {3} are not counted.
+ */
+export function hasNestedQuantifier(pattern: string): boolean {
+  const groups: boolean[] = [] // Whether each open group contains a quantifier
+  let quantified = false // Whether the group just closed contains one
+  let inClass = false
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index]
+    if (char === '\\') {
+      index++
+      quantified = false
+      continue
+    }
+    if (inClass) {
+      inClass = char !== ']'
+      continue
+    }
+
+    if (char === '+' || char === '*' || (char === '{' && /^\{\d*,\d*\}/.test(pattern.slice(index)))) {
+      if (quantified) {
+        return true
+      }
+      if (groups.length > 0) {
+        groups[groups.length - 1] = true
+      }
+    } else if (char === '(') {
+      groups.push(false)
+    } else if (char === ')') {
+      const inner = groups.pop() ?? false
+      if (inner && groups.length > 0) {
+        groups[groups.length - 1] = true
+      }
+      quantified = inner
+      continue
+    } else if (char === '[') {
+      inClass = true
+    }
+    quantified = false
+  }
+
+  return false
+}
+
+/**
+ * Regex patterns in a JSON Schema, from its `pattern` keywords at any depth
+ */
+export function collectSchemaPatterns(schema: unknown): string[] {
+  if (!schema || typeof schema !== 'object') {
+    return []
+  }
+  return Object.entries(schema).reduce<string[]>((patterns, [key, value]) => [
+    ...patterns,
+    ...(key === 'pattern' && typeof value === 'string' ? [value] : collectSchemaPatterns(value))
+  ], [])
+}
+
+/**
+ * Validates the patterns of an assertion from an untrusted source, such as
+ * an API request. They run on the server, so long patterns and ones with
+ * nested quantifiers are refused. Expects an assertion that already passes
+ * validateAssertion.
+ */
+export function validatePatternSafety(assertion: Assertion): string[] {
+  let patterns: { label: string; pattern: string }[] = []
+  if (assertion.type === 'regex' || assertion.type === 'notRegex') {
+    patterns = [{ label: `${ASSERTION_LABELS[assertion.type]} pattern`, pattern: assertion.value! }]
+  } else if (assertion.type === 'jsonSchema') {
+    patterns = collectSchemaPatterns(JSON.parse(assertion.value!))
+      .map(pattern => ({ label: `JSON Schema pattern /${pattern.slice(0, 40)}/`, pattern }))
+  }
+
+  return patterns.reduce<string[]>((errors, { label, pattern }) => {
+    if (pattern.length > MAX_PATTERN_LENGTH) {
+      errors.push(`${label} must be at most ${MAX_PATTERN_LENGTH} characters`)
+    } else if (hasNestedQuantifier(pattern)) {
+      errors.push(`${label} must not repeat a group that contains a quantifier`)
+    }
+    return errors
+  }, [])
+}
+
+/**
+ * Short human-readable description of what an assertion checks
+ */
+export function describeAssertion(assertion: Assertion): string {
+  const label = ASSERTION_LABELS[assertion.type]
+
+  switch (assertion.type) {
+    case 'regex':
+    case 'notRegex':
+      return `${label} /${assertion.value || ''}/`
+    case 'wordCount':
+    case 'characterCount':
+    case 'sentenceCount':
+      return `${label} ${formatLimits(assertion.min, assertion.max)}`
+    case 'contains':
+    case 'excludes':
+      return `${label}: ${(assertion.values || []).map(value => `"${value}"`).join(', ')}`
+    case 'startsWith':
+    case 'endsWith':
+      return `${label} "${assertion.value || ''}"`
+    default:
+      return label
+  }
+}
+
+/**
+ * Counts whitespace-separated words
+ */
+export function countWords(text: string): number {
+  const trimmed = text.trim()
+  return trimmed ? trimmed.split(/\s+/).length : 0
+}
+
+/**
+ * Counts sentences ending in ., ! or ?, plus any trailing unterminated sentence
+ */
+export function countSentences(text: string): number {
+  return text
+    .split(/[.!?]+(?:\s+|$)/)
+    .filter(sentence => sentence.trim())
+    .length
+}
+
+/**
+ * Checks a single assertion against a response
+ */
+export function evaluateAssertion(assertion: Assertion, response: string): AssertionResult {
+  const result = (passed: boolean, message: string): AssertionResult => ({
+    assertionId: assertion.id,
+    type: assertion.type,
+    description: describeAssertion(assertion),
+    passed,
+    message
+  })
+
+  const errors = validateAssertion(assertion)
+  if (errors.length > 0) {
+    return result(false, `Invalid assertion: ${errors[0]}`)
+  }
+
+  const ignoreCase = !assertion.caseSensitive
+  const normalize = (text: string) => (ignoreCase ? text.toLowerCase() : text)
+  const checkCount = (count: number, unit: string) => {
+    const tooFew = assertion.min !== undefined && count < assertion.min
+    const tooMany = assertion.max !== undefined && count > assertion.max
+    return result(!tooFew && !tooMany, `${count} ${unit}`)
+  }
+
+  switch (assertion.type) {
+    case 'regex':
+    case 'notRegex': {
+      const match = new RegExp(assertion.value!, ignoreCase ? 'i' : '').exec(response)
+      if (assertion.type === 'regex') {
+        return match ? result(true, `Matched "${match[0]}"`) : result(false, 'Pattern not found')
+      }
+      return match ? result(false, `Found "${match[0]}"`) : result(true, 'Pattern not found')
+    }
+    case 'isJson': {
+      const parsed = parseJson(response)
+      return parsed.ok ? result(true, 'Response is valid JSON') : result(false, parsed.error)
+    }
+    case 'jsonSchema': {
+      const parsed = parseJson(response)
+      if (!parsed.ok) {
+        return result(false, parsed.error)
+      }
+      const violations = validateJsonSchema(parsed.value, JSON.parse(assertion.value!))
+      return violations.length === 0
+        ? result(true, 'Response matches the schema')
+        : result(false, violations.slice(0, 3).join('; '))
+    }
+    case 'wordCount':
+      return checkCount(countWords(response), 'words')
+    case 'characterCount':
+      return checkCount(response.trim().length, 'characters')
+    case 'sentenceCount':
+      return checkCount(countSentences(response), 'sentences')
+    case 'contains': {
+      const missing = assertion.values!.filter(value => value.trim() && !normalize(response).includes(normalize(value)))
+      return missing.length === 0
+        ? result(true, 'All phrases found')
+        : result(false, `Missing ${missing.map(value => `"${value}"`).join(', ')}`)
+    }
+    case 'excludes': {
+      const found = assertion.values!.filter(value => value.trim() && normalize(response).includes(normalize(value)))
+      return found.length === 0
+        ? result(true, 'No excluded phrases found')
+        : result(false, `Found ${found.map(value => `"${value}"`).join(', ')}`)
+    }
+    case 'startsWith':
+      return normalize(response.trim()).startsWith(normalize(assertion.value!))
+        ? result(true, 'Prefix matched')
+        : result(false, `Starts with "${response.trim().slice(0, 40)}"`)
+    case 'endsWith':
+      return normalize(response.trim()).endsWith(normalize(assertion.value!))
+        ? result(true, 'Suffix matched')
+        : result(false, `Ends with "${response.trim().slice(-40)}"`)
+  }
+}
+
+/**
+ * Checks every assertion against a response
+ */
+export function runAssertions(assertions: Assertion[], response: string): AssertionResult[] {
+  return assertions.map(assertion => evaluateAssertion(assertion, response))
+}
+
+/**
+ * Validates a value against a JSON Schema and returns the violations found.
+ * Supports the commonly used keywords: type, enum, const, required,
+ * properties, additionalProperties, items, string/number/array bounds,
+ * pattern, and allOf/anyOf/oneOf. Unknown keywords are ignored.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = []
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type as string[] : [schema.type as string]
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${path} should be ${types.join(' or ')}`]
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => deepEqual(option, value))) {
+    errors.push(`${path} should be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`)
+  }
+
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    errors.push(`${path} should equal ${JSON.stringify(schema.const)}`)
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      errors.push(`${path} should have at least ${schema.minLength} characters`)
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      errors.push(`${path} should have at most ${schema.maxLength} characters`)
+    }
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path} should match /${schema.pattern}/`)
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      errors.push(`${path} should be at least ${schema.minimum}`)
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      errors.push(`${path} should be at most ${schema.maximum}`)
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      errors.push(`${path} should be greater than ${schema.exclusiveMinimum}`)
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      errors.push(`${path} should be less than ${schema.exclusiveMaximum}`)
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push(`${path} should have at least ${schema.minItems} items`)
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push(`${path} should have at most ${schema.maxItems} items`)
+    }
+    if (isPlainObject(schema.items)) {
+      value.forEach((item, index) => {
+        errors.push(...validateJsonSchema(item, schema.items as JsonSchema, `${path}[${index}]`))
+      })
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties = isPlainObject(schema.properties) ? schema.properties as Record<string, JsonSchema> : {}
+
+    if (Array.isArray(schema.required)) {
+      (schema.required as string[])
+        .filter(key => !(key in value))
+        .forEach(key => errors.push(`${path} is missing required property "${key}"`))
+    }
+
+    Object.entries(value).forEach(([key, propertyValue]) => {
+      if (key in properties) {
+        errors.push(...validateJsonSchema(propertyValue, properties[key], `${path}.${key}`))
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path} has unexpected property "${key}"`)
+      } else if (isPlainObject(schema.additionalProperties)) {
+        errors.push(...validateJsonSchema(propertyValue, schema.additionalProperties as JsonSchema, `${path}.${key}`))
+      }
+    })
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    (schema.allOf as JsonSchema[]).forEach(subschema => errors.push(...validateJsonSchema(value, subschema, path)))
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const matches = (schema.anyOf as JsonSchema[]).filter(subschema => validateJsonSchema(value, subschema, path).length === 0)
+    if (matches.length === 0) {
+      errors.push(`${path} should match at least one allowed schema`)
+    }
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const matches = (schema.oneOf as JsonSchema[]).filter(subschema => validateJsonSchema(value, subschema, path).length === 0)
+    if (matches.length !== 1) {
+      errors.push(`${path} should match exactly one allowed schema`)
+    }
+  }
+
+  return errors
+}
+
+function parseJson(text: string): { ok: true; value: unknown } | { ok: false; error: string } {
+  try {
+    return { ok: true, value: JSON.parse(text.trim()) }
+  } catch (error) {
+    return { ok: false, error: `Response is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}` }
+  }
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'object':
+      return isPlainObject(value)
+    case 'array':
+      return Array.isArray(value)
+    case 'integer':
+      return Number.isInteger(value)
+    case 'null':
+      return value === null
+    default:
+      return typeof value === type
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function formatLimits(min?: number, max?: number): string {
+  if (min !== undefined && max !== undefined) return `${min}-${max}`
+  if (min !== undefined) return `at least ${min}`
+  return `at most ${max}`
+}
\ No newline at end of file
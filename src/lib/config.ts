@@ -3,9 +3,13 @@
  * Centralizes environment variables and deployment settings
  */
 
+// How the browser reaches OpenRouter: directly, or through the app's /api routes
+export type OpenRouterMode = 'direct' | 'proxy';
+
 export interface AppConfig {
   // API Configuration
   openRouterApiUrl: string;
+  openRouterMode: OpenRouterMode;
   appUrl: string;
   
   // Security Configuration
@@ -22,11 +26,24 @@ export interface AppConfig {
   enableDebug: boolean;
   enablePerformanceMonitor: boolean;
   
+  // Mock Provider (offline development and tests)
+  enableMockProvider: boolean;
+  mockLatencyMs: number;
+  mockErrorStatus: 429 | 500 | null;
+  mockErrorEvery: number;
+  
   // Environment
   isDevelopment: boolean;
   isProduction: boolean;
 }
 
+/**
+ * Only rate limit and server errors can be injected
+ */
+function parseMockErrorStatus(value: string | undefined): 429 | 500 | null {
+  return value === '429' || value === '500' ? Number(value) as 429 | 500 : null;
+}
+
 /**
  * Get application configuration from environment variables
  */
@@ -37,6 +54,7 @@ export function getConfig(): AppConfig {
   return {
     // API Configuration
     openRouterApiUrl: process.env.NEXT_PUBLIC_OPENROUTER_API_URL || 'https://openrouter.ai/api/v1',
+    openRouterMode: process.env.NEXT_PUBLIC_OPENROUTER_MODE === 'proxy' ? 'proxy' : 'direct',
     appUrl: process.env.NEXT_PUBLIC_APP_URL || (isDevelopment ? 'http://localhost:3000' : ''),
     
     // Security Configuration (1 hour default)
@@ -53,6 +71,12 @@ export function getConfig(): AppConfig {
     enableDebug: process.env.NEXT_PUBLIC_ENABLE_DEBUG === 'true' || isDevelopment,
     enablePerformanceMonitor: process.env.NEXT_PUBLIC_ENABLE_PERFORMANCE_MONITOR === 'true' || isDevelopment,
     
+    // Mock Provider: every nth request fails with the error status, when set
+    enableMockProvider: process.env.NEXT_PUBLIC_ENABLE_MOCK_PROVIDER === 'true',
+    mockLatencyMs: parseInt(process.env.NEXT_PUBLIC_MOCK_LATENCY_MS || '0', 10),
+    mockErrorStatus: parseMockErrorStatus(process.env.NEXT_PUBLIC_MOCK_ERROR_STATUS),
+    mockErrorEvery: parseInt(process.env.NEXT_PUBLIC_MOCK_ERROR_EVERY || '0', 10),
+    
     // Environment
     isDevelopment,
     isProduction,
@@ -84,6 +108,10 @@ export function validateConfig(): { isValid: boolean; errors: string[] } {
     errors.push('NEXT_PUBLIC_MAX_RETRIES must be a non-negative number');
   }
 
+  if (config.mockLatencyMs < 0 || config.mockErrorEvery < 0) {
+    errors.push('NEXT_PUBLIC_MOCK_LATENCY_MS and NEXT_PUBLIC_MOCK_ERROR_EVERY must be non-negative numbers');
+  }
+
   return {
     isValid: errors.length === 0,
     errors,
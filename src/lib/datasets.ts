@@ -0,0 +1,278 @@
+// Importing test cases from CSV and JSONL files
+
+import { TestCase } from './types'
+import { validatePrompt } from './validation'
+import { MAX_SUITE_CASES, createTestCase } from './suites'
+import { TEMPLATE_VARIABLE_NAME } from './templateVariables'
+
+export type DatasetFormat = 'csv' | 'jsonl'
+
+// What a column holds; variable columns are named after their header
+export type DatasetColumnRole = 'prompt' | 'referenceAnswer' | 'tags' | 'variable' | 'ignore'
+
+export type ColumnMapping = Record<string, DatasetColumnRole>
+
+export interface DatasetRow {
+  row: number // 1-based, not counting the CSV header
+  values: Record<string, string>
+  error?: string // Set when the row could not be read
+}
+
+export interface DatasetTable {
+  format: DatasetFormat
+  headers: string[]
+  rows: DatasetRow[]
+}
+
+export interface RejectedRow {
+  row: number
+  prompt: string
+  errors: string[]
+}
+
+export interface DatasetImportResult {
+  cases: TestCase[]
+  rejected: RejectedRow[]
+}
+
+export const MAX_DATASET_BYTES = 1024 * 1024
+
+// Column headers recognized without mapping, compared lowercase
+const PROMPT_HEADERS = ['prompt', 'input', 'question', 'user_prompt', 'userprompt']
+const REFERENCE_HEADERS = ['referenceanswer', 'reference_answer', 'reference', 'expected', 'expected_answer', 'expectedanswer', 'answer']
+const TAG_HEADERS = ['tags', 'tag']
+const VARIABLE_PREFIXES = ['variables.', 'vars.', 'var.']
+
+/**
+ * Picks the format from the file extension, falling back to the content
+ */
+export function detectDatasetFormat(fileName: string, text: string): DatasetFormat {
+  const extension = fileName.toLowerCase().split('.').pop()
+  if (extension === 'jsonl' || extension === 'ndjson') return 'jsonl'
+  if (extension === 'csv') return 'csv'
+  return text.trimStart().startsWith('{') ? 'jsonl' : 'csv'
+}
+
+/**
+ * Splits CSV text into rows of fields. Quoted fields may contain commas,
+ * doubled quotes and line breaks. Throws on an unclosed quote.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (quoted) {
+    throw new Error('The file ends inside a quoted field')
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Blank lines are skipped
+  return rows.filter(fields => fields.some(value => value.trim() !== ''))
+}
+
+// Nested objects are flattened one level ("variables.persona"); lists are joined with commas
+function flattenRecord(record: Record<string, unknown>): Record<string, string> {
+  const values: Record<string, string> = {}
+  const toText = (value: unknown) => (Array.isArray(value) ? value.map(String).join(', ') : value === null || value === undefined ? '' : String(value))
+
+  Object.entries(record).forEach(([key, value]) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      Object.entries(value as Record<string, unknown>).forEach(([subKey, subValue]) => {
+        values[`${key}.${subKey}`] = toText(subValue)
+      })
+    } else {
+      values[key] = toText(value)
+    }
+  })
+  return values
+}
+
+/**
+ * Reads a CSV or JSONL file into rows keyed by column. Rows that cannot be
+ * read are kept with an error so they show up as rejected.
+ */
+export function parseDataset(text: string, format: DatasetFormat): DatasetTable {
+  if (format === 'csv') {
+    const [headerRow = [], ...dataRows] = parseCsv(text)
+    const headers = headerRow.map(header => header.trim())
+    return {
+      format,
+      headers,
+      rows: dataRows.map((fields, index) => ({
+        row: index + 1,
+        values: Object.fromEntries(headers.map((header, column) => [header, fields[column] ?? ''])),
+        ...(fields.length !== headers.length && { error: `Expected ${headers.length} columns, found ${fields.length}` })
+      }))
+    }
+  }
+
+  const headers: string[] = []
+  const rows = text
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '')
+    .map((line, index): DatasetRow => {
+      try {
+        const parsed: unknown = JSON.parse(line)
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+          return { row: index + 1, values: {}, error: 'Each line must be a JSON object' }
+        }
+        const values = flattenRecord(parsed as Record<string, unknown>)
+        Object.keys(values).forEach(key => {
+          if (!headers.includes(key)) headers.push(key)
+        })
+        return { row: index + 1, values }
+      } catch {
+        return { row: index + 1, values: {}, error: 'Not valid JSON' }
+      }
+    })
+
+  return { format, headers, rows }
+}
+
+/**
+ * Template variable name for a variable column, without any "variables." prefix
+ */
+export function getVariableName(header: string): string {
+  const prefix = VARIABLE_PREFIXES.find(entry => header.toLowerCase().startsWith(entry))
+  return prefix ? header.slice(prefix.length) : header
+}
+
+/**
+ * Guesses what each column holds from its header. Unrecognized columns are
+ * ignored until mapped.
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  const taken = new Set<DatasetColumnRole>()
+
+  headers.forEach(header => {
+    const key = header.toLowerCase()
+    let role: DatasetColumnRole = 'ignore'
+    if (PROMPT_HEADERS.includes(key)) role = 'prompt'
+    else if (REFERENCE_HEADERS.includes(key)) role = 'referenceAnswer'
+    else if (TAG_HEADERS.includes(key)) role = 'tags'
+    else if (VARIABLE_PREFIXES.some(prefix => key.startsWith(prefix))) role = 'variable'
+
+    // Only the first column claims a single-column role
+    if (role !== 'variable' && role !== 'ignore' && taken.has(role)) role = 'ignore'
+    taken.add(role)
+    mapping[header] = role
+  })
+
+  return mapping
+}
+
+/**
+ * Validates a column mapping and returns a list of problems (empty when valid)
+ */
+export function validateColumnMapping(mapping: ColumnMapping): string[] {
+  const errors: string[] = []
+  const columns = (role: DatasetColumnRole) => Object.keys(mapping).filter(header => mapping[header] === role)
+
+  if (columns('prompt').length !== 1) {
+    errors.push('Choose exactly one prompt column')
+  }
+  if (columns('referenceAnswer').length > 1) {
+    errors.push('Choose at most one expected answer column')
+  }
+  if (columns('tags').length > 1) {
+    errors.push('Choose at most one tags column')
+  }
+
+  const names = columns('variable').map(getVariableName)
+  names.forEach(name => {
+    if (!TEMPLATE_VARIABLE_NAME.test(name)) {
+      errors.push(`"${name}" is not a valid variable name; use letters, digits and underscores`)
+    }
+  })
+  if (new Set(names).size !== names.length) {
+    errors.push('Each variable can only come from one column')
+  }
+
+  return errors
+}
+
+/**
+ * Turns rows into test cases using the mapping. Each prompt is checked with
+ * validatePrompt, and rows that fail or go past the limit are rejected.
+ */
+export function importDataset(table: DatasetTable, mapping: ColumnMapping, limit = MAX_SUITE_CASES): DatasetImportResult {
+  const headerFor = (role: DatasetColumnRole) => table.headers.find(header => mapping[header] === role)
+  const promptHeader = headerFor('prompt')
+  const referenceHeader = headerFor('referenceAnswer')
+  const tagsHeader = headerFor('tags')
+  const variableHeaders = table.headers.filter(header => mapping[header] === 'variable')
+
+  const cases: TestCase[] = []
+  const rejected: RejectedRow[] = []
+
+  table.rows.forEach(({ row, values, error }) => {
+    const prompt = promptHeader ? (values[promptHeader] || '').trim() : ''
+    const errors: string[] = []
+
+    if (error) {
+      errors.push(error)
+    } else {
+      const validation = validatePrompt(prompt)
+      if (!validation.isValid) {
+        errors.push(validation.message)
+      }
+      if (cases.length >= limit) {
+        errors.push(`Over the limit of ${limit} cases`)
+      }
+    }
+
+    if (errors.length > 0) {
+      rejected.push({ row, prompt, errors })
+      return
+    }
+
+    const referenceAnswer = referenceHeader ? values[referenceHeader]?.trim() : ''
+    const tags = tagsHeader
+      ? Array.from(new Set((values[tagsHeader] || '').split(/[,;|]/).map(tag => tag.trim()).filter(Boolean)))
+      : []
+    const variables = Object.fromEntries(variableHeaders.map(header => [getVariableName(header), values[header] ?? '']))
+
+    cases.push({
+      ...createTestCase(prompt),
+      ...(referenceAnswer && { referenceAnswer }),
+      ...(tags.length > 0 && { tags }),
+      ...(variableHeaders.length > 0 && { variables })
+    })
+  })
+
+  return { cases, rejected }
+}
\ No newline at end of file
@@ -3,6 +3,8 @@
  * Implements retry mechanisms with exponential backoff and error recovery
  */
 
+import { httpFixtures } from './httpFixtures'
+
 // Error types for different categories of failures
 export type ErrorType = 
   | 'api' 
@@ -11,6 +13,7 @@ export type ErrorType =
   | 'authentication'
   | 'rate_limit'
   | 'timeout'
+  | 'cancelled'
   | 'unknown'
 
 export interface AppError {
@@ -47,12 +50,42 @@ export const DEFAULT_RETRY_CONFIG: RetryConfig = {
   retryableErrors: ['network', 'timeout', 'rate_limit', 'api']
 }
 
+/**
+ * Thrown when an operation is stopped through its cancellation signal
+ */
+export class CancellationError extends Error {
+  constructor(message = 'Operation cancelled') {
+    super(message)
+    this.name = 'CancellationError'
+  }
+}
+
+/**
+ * Throws a CancellationError if the signal has been aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal | null): void {
+  if (signal?.aborted) {
+    throw new CancellationError()
+  }
+}
+
 /**
  * Error classification utility
  */
 export class ErrorClassifier {
   static classifyError(error: Error | any): AppError {
     const timestamp = Date.now()
+
+    // Cancelled by the user; already-classified cancellations pass through
+    if (error instanceof CancellationError || error?.type === 'cancelled') {
+      return {
+        type: 'cancelled',
+        message: error.message || 'Operation cancelled',
+        retryable: false,
+        originalError: error instanceof Error ? error : error.originalError,
+        timestamp
+      }
+    }
     
     // Network errors
     if (error instanceof TypeError && error.message.includes('fetch')) {
@@ -169,19 +202,22 @@ export class RetryManager {
   }
 
   /**
-   * Execute an operation with retry logic
+   * Execute an operation with retry logic. Aborting the signal stops any
+   * pending retry and rejects with a cancellation.
    */
   async executeWithRetry<T>(
     operation: () => Promise<T>,
-    context?: Record<string, any>
+    context?: Record<string, any>,
+    signal?: AbortSignal | null
   ): Promise<T> {
     let lastError: AppError | null = null
     
     for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
       try {
+        throwIfCancelled(signal)
         return await operation()
       } catch (error) {
-        const appError = ErrorClassifier.classifyError(error)
+        const appError = ErrorClassifier.classifyError(signal?.aborted ? new CancellationError() : error)
         appError.retryCount = attempt
         appError.context = context
         
@@ -194,7 +230,7 @@ export class RetryManager {
 
         // Calculate delay with exponential backoff
         const delay = this.calculateDelay(attempt)
-        await this.sleep(delay)
+        await this.sleep(delay, signal)
       }
     }
 
@@ -210,10 +246,20 @@ export class RetryManager {
   }
 
   /**
-   * Sleep utility
+   * Sleep utility, cut short with a CancellationError when the signal aborts
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms))
+  private sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timeoutId)
+        reject(ErrorClassifier.classifyError(new CancellationError()))
+      }
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }, ms)
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
   }
 }
 
@@ -285,16 +331,23 @@ export class ApiClient {
   }
 
   /**
-   * Enhanced fetch with retry logic
+   * Enhanced fetch with retry logic. A signal in the options cancels the
+   * request, any pending retry and, once connected, reading the body.
+   * Requests are recorded or replayed while httpFixtures is active.
    */
   async fetch(
     url: string, 
     options: RequestInit = {},
     operationId?: string
   ): Promise<Response> {
+    const cancelSignal = options.signal
+    throwIfCancelled(cancelSignal)
+
     // Set default timeout
     const controller = new AbortController()
     const timeoutId = setTimeout(() => controller.abort(), 30000) // 30 second timeout
+    const onCancel = () => controller.abort()
+    cancelSignal?.addEventListener('abort', onCancel, { once: true })
 
     const fetchOptions: RequestInit = {
       ...options,
@@ -304,7 +357,7 @@ export class ApiClient {
     try {
       const response = await this.retryManager.executeWithRetry(
         async () => {
-          const res = await fetch(url, fetchOptions)
+          const res = await httpFixtures.fetch(url, fetchOptions)
           
           if (!res.ok) {
             const error = new Error(`HTTP ${res.status}: ${res.statusText}`)
@@ -315,13 +368,15 @@ export class ApiClient {
           
           return res
         },
-        { url, method: options.method || 'GET', operationId }
+        { url, method: options.method || 'GET', operationId },
+        cancelSignal
       )
 
       clearTimeout(timeoutId)
       return response
     } catch (error) {
       clearTimeout(timeoutId)
+      cancelSignal?.removeEventListener('abort', onCancel)
       throw error
     }
   }
@@ -0,0 +1,280 @@
+/**
+ * Record-and-replay fixtures for HTTP calls made through ApiClient
+ */
+
+export type HttpFixtureMode = 'off' | 'record' | 'replay'
+
+export interface RecordedRequest {
+  method: string
+  url: string
+  headers: Record<string, string>
+  body?: unknown
+}
+
+export interface RecordedResponse {
+  status: number
+  statusText: string
+  headers: Record<string, string>
+  body: string
+}
+
+export interface HttpFixture {
+  key: string // Hash of the normalized request
+  request: RecordedRequest
+  response: RecordedResponse
+  recordedAt: number
+}
+
+export interface HttpFixtureFile {
+  version: 1
+  fixtures: HttpFixture[]
+}
+
+export const REDACTED = '[REDACTED]'
+
+// Header names, query parameters and JSON fields whose values are never recorded
+const SENSITIVE_NAME = /^(authorization|proxy-authorization|cookie|set-cookie|token|key)$|api[-_]?key|secret|password|access[-_]?token/i
+
+// Key-shaped values (OpenRouter, OpenAI and Anthropic keys) anywhere in a recorded body
+const SECRET_VALUE = /\bsk-[A-Za-z0-9_-]{8,}/g
+
+// Describe the encoded body, which is not what gets recorded
+const ENCODING_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding']
+
+// Responses with these statuses cannot have a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304]
+
+/**
+ * Replace key-shaped values in text
+ */
+export function redactText(text: string): string {
+  return text.replace(SECRET_VALUE, REDACTED)
+}
+
+/**
+ * Lower-cased headers with sensitive values redacted
+ */
+export function redactHeaders(headers?: HeadersInit): Record<string, string> {
+  const redacted: Record<string, string> = {}
+  new Headers(headers).forEach((value, name) => {
+    redacted[name] = SENSITIVE_NAME.test(name) ? REDACTED : redactText(value)
+  })
+  return redacted
+}
+
+/**
+ * URL with sensitive query parameters redacted and the rest sorted
+ */
+export function normalizeUrl(url: string): string {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return url
+  }
+
+  const params = [...parsed.searchParams.entries()]
+    .map(([name, value]): [string, string] => [name, SENSITIVE_NAME.test(name) ? REDACTED : value])
+    .sort(([a], [b]) => a.localeCompare(b))
+  parsed.search = new URLSearchParams(params).toString()
+  return parsed.toString()
+}
+
+/**
+ * JSON request body with sensitive fields redacted and keys sorted, so
+ * equal requests normalize the same way. Other bodies are kept as text.
+ */
+export function normalizeBody(body: BodyInit | null | undefined): unknown {
+  if (body === undefined || body === null) {
+    return undefined
+  }
+  if (typeof body !== 'string') {
+    return '[binary body]'
+  }
+
+  try {
+    return redactValue(JSON.parse(body))
+  } catch {
+    return redactText(body)
+  }
+}
+
+function redactValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactValue)
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map(name => [name, SENSITIVE_NAME.test(name) ? REDACTED : redactValue((value as Record<string, unknown>)[name])])
+    )
+  }
+  return typeof value === 'string' ? redactText(value) : value
+}
+
+/**
+ * Hash identifying a request by method, normalized URL and normalized
+ * body. Headers are left out, so a replay matches whatever key it is
+ * made with.
+ */
+export function hashRequest(url: string, init: RequestInit = {}): string {
+  const canonical = JSON.stringify([
+    (init.method || 'GET').toUpperCase(),
+    normalizeUrl(url),
+    normalizeBody(init.body) ?? null
+  ])
+
+  // 53-bit string hash (cyrb53), enough to tell requests in a fixture file apart
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let index = 0; index < canonical.length; index++) {
+    const code = canonical.charCodeAt(index)
+    h1 = Math.imul(h1 ^ code, 2654435761)
+    h2 = Math.imul(h2 ^ code, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0')
+}
+
+/**
+ * Records the requests made through ApiClient, or serves them back without
+ * the network.
+ *
+ * While recording, every response (including error responses, so retries
+ * replay the same way) is saved with its request. Recording reads a copy
+ * of the body, so streamed responses still reach the caller as they
+ * arrive; call whenIdle() before saving the fixtures.
+ *
+ * While replaying, requests with the same key get their responses in
+ * recorded order, and the last one is repeated once they run out. A
+ * request without a fixture fails instead of reaching the network.
+ */
+export class HttpFixtureStore {
+  private mode: HttpFixtureMode = 'off'
+  private fixtures: HttpFixture[] = []
+  private replayCounts = new Map<string, number>()
+  private pendingRecordings = new Set<Promise<void>>()
+
+  getMode(): HttpFixtureMode {
+    return this.mode
+  }
+
+  /**
+   * Start recording into an empty fixture set
+   */
+  startRecording(): void {
+    this.fixtures = []
+    this.replayCounts.clear()
+    this.mode = 'record'
+  }
+
+  /**
+   * Serve the fixtures from a fixture file instead of the network
+   */
+  startReplay(file: HttpFixtureFile): void {
+    if (file?.version !== 1 || !Array.isArray(file.fixtures)) {
+      throw new Error('Unsupported fixture file format')
+    }
+
+    this.fixtures = [...file.fixtures]
+    this.replayCounts.clear()
+    this.mode = 'replay'
+  }
+
+  /**
+   * Go back to the network. Recorded fixtures are kept until the next start.
+   */
+  stop(): void {
+    this.mode = 'off'
+  }
+
+  /**
+   * Resolves once every response being recorded has been read
+   */
+  async whenIdle(): Promise<void> {
+    await Promise.all([...this.pendingRecordings])
+  }
+
+  /**
+   * The recorded fixtures, ready to be saved as JSON
+   */
+  toFile(): HttpFixtureFile {
+    return { version: 1, fixtures: [...this.fixtures] }
+  }
+
+  /**
+   * fetch() that records or replays according to the mode
+   */
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    if (this.mode === 'replay') {
+      return this.replay(url, init)
+    }
+
+    const response = await fetch(url, init)
+
+    if (this.mode === 'record') {
+      const recording = this.record(url, init, response)
+      this.pendingRecordings.add(recording)
+      recording.finally(() => this.pendingRecordings.delete(recording))
+    }
+
+    return response
+  }
+
+  private async record(url: string, init: RequestInit, response: Response): Promise<void> {
+    let body: string
+    try {
+      body = await response.clone().text()
+    } catch {
+      // The caller cancelled the response, so there is nothing to replay
+      return
+    }
+
+    this.fixtures.push({
+      key: hashRequest(url, init),
+      request: {
+        method: (init.method || 'GET').toUpperCase(),
+        url: normalizeUrl(url),
+        headers: redactHeaders(init.headers),
+        ...(init.body != null && { body: normalizeBody(init.body) })
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers: Object.fromEntries(
+          Object.entries(redactHeaders(response.headers)).filter(([name]) => !ENCODING_HEADERS.includes(name))
+        ),
+        body: redactText(body)
+      },
+      recordedAt: Date.now()
+    })
+  }
+
+  private replay(url: string, init: RequestInit): Response {
+    if (init.signal?.aborted) {
+      throw new DOMException('The operation was aborted.', 'AbortError')
+    }
+
+    const key = hashRequest(url, init)
+    const matches = this.fixtures.filter(fixture => fixture.key === key)
+    if (matches.length === 0) {
+      throw new Error(`No recorded fixture for ${(init.method || 'GET').toUpperCase()} ${normalizeUrl(url)}`)
+    }
+
+    const count = this.replayCounts.get(key) ?? 0
+    this.replayCounts.set(key, count + 1)
+    const { response } = matches[Math.min(count, matches.length - 1)]
+
+    return new Response(NULL_BODY_STATUSES.includes(response.status) ? null : response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    })
+  }
+}
+
+// Shared store consulted by every ApiClient
+export const httpFixtures = new HttpFixtureStore()
\ No newline at end of file
@@ -0,0 +1,184 @@
+// Named instruction documents with an append-only version history
+
+import { InstructionDocument, InstructionVersion, TestRun } from './types'
+
+export type LineDiffType = 'unchanged' | 'added' | 'removed'
+
+export interface LineDiff {
+  type: LineDiffType
+  text: string
+  oldLine?: number // 1-based line in the older text; unset for added lines
+  newLine?: number // 1-based line in the newer text; unset for removed lines
+}
+
+export interface VersionScore {
+  runs: number
+  meanScore: number | null // Mean overall score of the scored runs
+}
+
+export interface ResolvedInstructionVersion {
+  document: InstructionDocument
+  version: InstructionVersion
+}
+
+const MAX_DOCUMENT_NAME_LENGTH = 60
+
+/**
+ * Version ID recorded on each run, e.g. "<document id>@7"
+ */
+export function getInstructionVersionId(document: InstructionDocument, version: InstructionVersion): string {
+  return `${document.id}@${version.version}`
+}
+
+/**
+ * Newest version of a document
+ */
+export function getLatestVersion(document: InstructionDocument): InstructionVersion | undefined {
+  return document.versions[document.versions.length - 1]
+}
+
+/**
+ * Name for a document created from instructions, taken from their first line
+ */
+export function suggestDocumentName(instructions: string): string {
+  const firstLine = instructions.trim().split('\n')[0].trim()
+  if (!firstLine) {
+    return 'Untitled instructions'
+  }
+  return firstLine.length > MAX_DOCUMENT_NAME_LENGTH ? `${firstLine.slice(0, MAX_DOCUMENT_NAME_LENGTH - 1)}…` : firstLine
+}
+
+export function createInstructionDocument(name: string, instructions: string, message: string, now = Date.now()): InstructionDocument {
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim() || suggestDocumentName(instructions),
+    versions: [{ version: 1, instructions, message: message.trim(), createdAt: now }],
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+/**
+ * Appends the instructions as the next version of the document. Text
+ * identical to an earlier version is not saved again; that version is
+ * returned instead, so loading v6 and running it still points at v6.
+ */
+export function appendInstructionVersion(
+  document: InstructionDocument,
+  instructions: string,
+  message: string,
+  now = Date.now()
+): { document: InstructionDocument; version: InstructionVersion } {
+  const existing = [...document.versions].reverse().find(version => version.instructions === instructions)
+  if (existing) {
+    return { document, version: existing }
+  }
+
+  const version: InstructionVersion = {
+    version: (getLatestVersion(document)?.version || 0) + 1,
+    instructions,
+    message: message.trim(),
+    createdAt: now
+  }
+  return {
+    document: { ...document, versions: [...document.versions, version], updatedAt: now },
+    version
+  }
+}
+
+/**
+ * Looks up the exact version a run used
+ */
+export function findInstructionVersion(documents: InstructionDocument[], versionId: string): ResolvedInstructionVersion | undefined {
+  for (const document of documents) {
+    const version = document.versions.find(entry => getInstructionVersionId(document, entry) === versionId)
+    if (version) {
+      return { document, version }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Most recently saved version with exactly this text, in any document
+ */
+export function findVersionByText(documents: InstructionDocument[], instructions: string): ResolvedInstructionVersion | undefined {
+  let match: ResolvedInstructionVersion | undefined
+  documents.forEach(document => {
+    document.versions.forEach(version => {
+      if (version.instructions === instructions && (!match || version.createdAt > match.version.createdAt)) {
+        match = { document, version }
+      }
+    })
+  })
+  return match
+}
+
+/**
+ * Short label for a version ID, e.g. "Support bot v7". Falls back to the ID
+ * when the document is gone.
+ */
+export function formatInstructionVersion(documents: InstructionDocument[], versionId: string): string {
+  const resolved = findInstructionVersion(documents, versionId)
+  return resolved ? `${resolved.document.name} v${resolved.version.version}` : versionId
+}
+
+/**
+ * Line-level diff from one text to another, using the longest common
+ * subsequence of lines. Removed lines come before the lines that replace them.
+ */
+export function diffLines(before: string, after: string): LineDiff[] {
+  const oldLines = before ? before.split('\n') : []
+  const newLines = after ? after.split('\n') : []
+
+  // common[i][j]: length of the longest common subsequence of oldLines[i..] and newLines[j..]
+  const common: number[][] = Array.from({ length: oldLines.length + 1 }, () => new Array(newLines.length + 1).fill(0))
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      common[i][j] = oldLines[i] === newLines[j]
+        ? common[i + 1][j + 1] + 1
+        : Math.max(common[i + 1][j], common[i][j + 1])
+    }
+  }
+
+  const diff: LineDiff[] = []
+  let i = 0
+  let j = 0
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      diff.push({ type: 'unchanged', text: oldLines[i], oldLine: i + 1, newLine: j + 1 })
+      i++
+      j++
+    } else if (i < oldLines.length && (j === newLines.length || common[i + 1][j] >= common[i][j + 1])) {
+      diff.push({ type: 'removed', text: oldLines[i], oldLine: i + 1 })
+      i++
+    } else {
+      diff.push({ type: 'added', text: newLines[j], newLine: j + 1 })
+      j++
+    }
+  }
+  return diff
+}
+
+/**
+ * Number of runs and mean overall score per instruction version. Runs whose
+ * evaluation failed count as runs but not towards the mean.
+ */
+export function summarizeVersionScores(testHistory: TestRun[]): Record<string, VersionScore> {
+  const scores: Record<string, { runs: number; total: number; scored: number }> = {}
+  testHistory.forEach(testRun => {
+    if (!testRun.instructionVersion) return
+    const entry = scores[testRun.instructionVersion] || { runs: 0, total: 0, scored: 0 }
+    entry.runs++
+    if (!testRun.metrics.evaluationError) {
+      entry.total += testRun.metrics.overallScore
+      entry.scored++
+    }
+    scores[testRun.instructionVersion] = entry
+  })
+
+  return Object.fromEntries(Object.entries(scores).map(([versionId, entry]) => [
+    versionId,
+    { runs: entry.runs, meanScore: entry.scored > 0 ? entry.total / entry.scored : null }
+  ]))
+}
\ No newline at end of file
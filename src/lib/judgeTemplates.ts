@@ -0,0 +1,148 @@
+// Judge prompt template utilities
+
+import { JudgeTemplate } from './types'
+
+export const JUDGE_TEMPLATE_PLACEHOLDERS = ['instructions', 'prompt', 'response', 'rubric'] as const
+
+export type JudgeTemplatePlaceholder = typeof JUDGE_TEMPLATE_PLACEHOLDERS[number]
+
+const PLACEHOLDER_PATTERN = /\{\{(\w+)\}\}/g
+
+/**
+ * Built-in judge wording. The scoring format the engine parses is appended
+ * after the rendered template, so templates only control how the judge is
+ * briefed, not the shape of its reply.
+ */
+export const DEFAULT_JUDGE_TEMPLATE: JudgeTemplate = {
+  id: 'default',
+  name: 'Default',
+  version: 1,
+  systemPrompt: 'You are an expert AI evaluator. Analyze the given response and provide detailed scoring based on the criteria provided. Return your evaluation in the exact JSON format requested.',
+  prompt: `Please evaluate the following AI response based on how well it follows the given system instructions and addresses the user prompt.
+
+SYSTEM INSTRUCTIONS:
+{{instructions}}
+
+USER PROMPT:
+{{prompt}}
+
+AI RESPONSE:
+{{response}}
+
+Please provide a detailed evaluation with a score for each criterion, using the scale given for it:
+
+{{rubric}}`,
+  createdAt: 0
+}
+
+/**
+ * Validates a judge template and returns a list of problems (empty when valid)
+ */
+export function validateJudgeTemplate(template: JudgeTemplate): string[] {
+  const errors: string[] = []
+
+  if (!template.name.trim()) {
+    errors.push('Template name is required')
+  }
+
+  if (!template.systemPrompt.trim()) {
+    errors.push('System prompt is required')
+  }
+
+  const used = [...template.prompt.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1])
+
+  JUDGE_TEMPLATE_PLACEHOLDERS.forEach(placeholder => {
+    if (!used.includes(placeholder)) {
+      errors.push(`Template must include {{${placeholder}}}`)
+    }
+  })
+
+  new Set(used).forEach(placeholder => {
+    if (!(JUDGE_TEMPLATE_PLACEHOLDERS as readonly string[]).includes(placeholder)) {
+      errors.push(`Unknown placeholder {{${placeholder}}}`)
+    }
+  })
+
+  return errors
+}
+
+/**
+ * Fills in the template's placeholders in a single pass, so placeholder-like
+ * text inside the values (such as a response quoting "{{rubric}}") is kept as is
+ */
+export function renderJudgeTemplate(template: JudgeTemplate, values: Record<JudgeTemplatePlaceholder, string>): string {
+  return template.prompt.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+    name in values ? values[name as JudgeTemplatePlaceholder] : match
+  )
+}
+
+/**
+ * Version ID recorded on each run, e.g. "default@1"
+ */
+export function getJudgeTemplateVersionId(template: JudgeTemplate): string {
+  return `${template.id}@${template.version}`
+}
+
+/**
+ * Latest version of each template, with the built-in default first
+ */
+export function getLatestJudgeTemplates(templates: JudgeTemplate[]): JudgeTemplate[] {
+  const latest = new Map<string, JudgeTemplate>([[DEFAULT_JUDGE_TEMPLATE.id, DEFAULT_JUDGE_TEMPLATE]])
+
+  templates.forEach(template => {
+    const current = latest.get(template.id)
+    if (!current || template.version > current.version) {
+      latest.set(template.id, template)
+    }
+  })
+
+  return [...latest.values()]
+}
+
+/**
+ * Latest version of the template with the given ID, falling back to the default
+ */
+export function resolveJudgeTemplate(templates: JudgeTemplate[], id: string): JudgeTemplate {
+  return getLatestJudgeTemplates(templates).find(template => template.id === id) || DEFAULT_JUDGE_TEMPLATE
+}
+
+/**
+ * Looks up the exact template version a run was scored with
+ */
+export function findJudgeTemplateVersion(templates: JudgeTemplate[], versionId: string): JudgeTemplate | undefined {
+  return [DEFAULT_JUDGE_TEMPLATE, ...templates].find(template => getJudgeTemplateVersionId(template) === versionId)
+}
+
+/**
+ * Appends the draft as the next version of its template. Drafts identical
+ * to the latest version are not saved again.
+ */
+export function saveJudgeTemplateVersion(templates: JudgeTemplate[], draft: JudgeTemplate, now = Date.now()): JudgeTemplate[] {
+  const latest = getLatestJudgeTemplates(templates).find(template => template.id === draft.id)
+
+  if (
+    latest &&
+    latest.name === draft.name &&
+    latest.systemPrompt === draft.systemPrompt &&
+    latest.prompt === draft.prompt
+  ) {
+    return templates
+  }
+
+  return [...templates, { ...draft, version: (latest?.version ?? 0) + 1, createdAt: now }]
+}
+
+/**
+ * Creates a template ID from its name that is unique among the templates
+ */
+export function createJudgeTemplateId(name: string, templates: JudgeTemplate[]): string {
+  const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'template'
+  const taken = new Set([DEFAULT_JUDGE_TEMPLATE.id, ...templates.map(template => template.id)])
+
+  let id = base
+  let suffix = 2
+  while (taken.has(id)) {
+    id = `${base}-${suffix++}`
+  }
+  return id
+}
\ No newline at end of file
@@ -0,0 +1,211 @@
+// Matrix runs: several models crossed with several instruction variants over one prompt set
+
+import {
+  InstructionVariant,
+  MatrixCell,
+  MatrixConfig,
+  Model,
+  SuiteCaseResult,
+  TestCase,
+  TestRun
+} from './types'
+import { mean } from './statistics'
+import { throwIfCancelled } from './errorHandling'
+import { validateInstructions } from './validation'
+import { mergeVariables, resolveTemplateRun } from './templateVariables'
+import { DEFAULT_PASS_THRESHOLD, createPendingResults, runSuiteCases, summarizeSuiteRun, validateTestCases } from './suites'
+import type { TestResult } from '@/services/evaluationEngine'
+
+export const MAX_MATRIX_MODELS = 5
+export const MAX_MATRIX_VARIANTS = 5
+
+// Evaluations in one run (models x variants x prompts), to keep cost in check
+export const MAX_MATRIX_EVALUATIONS = 100
+
+// Cell fields the leaderboard can be sorted by
+export type LeaderboardKey = 'meanOverallScore' | 'passRate' | 'totalCost' | 'meanLatency'
+
+export interface RunMatrixOptions {
+  matrixRunId: string // Set on every TestRun the run creates
+  runCase: (model: Model, variant: InstructionVariant, testCase: TestCase) => Promise<TestResult>
+  details?: Pick<TestRun, 'rubric' | 'judgeTemplateVersion'> // Copied onto every TestRun
+  signal?: AbortSignal
+  onCellUpdate?: (cell: MatrixCell, index: number) => void // Called as each of the cell's prompts starts and finishes
+}
+
+/**
+ * Creates an instruction variant
+ */
+export function createInstructionVariant(label: string, instructions = ''): InstructionVariant {
+  return { id: crypto.randomUUID(), label, instructions }
+}
+
+/**
+ * Validates a matrix run's setup and returns a list of problems (empty when valid)
+ */
+export function validateMatrixConfig(matrixConfig: MatrixConfig): string[] {
+  const { models, variants, prompts } = matrixConfig
+  const errors: string[] = []
+
+  if (models.length === 0) {
+    errors.push('At least one model is required')
+  }
+  if (models.length > MAX_MATRIX_MODELS) {
+    errors.push(`A matrix can have at most ${MAX_MATRIX_MODELS} models`)
+  }
+  if (new Set(models.map(model => model.id)).size !== models.length) {
+    errors.push('Each model can only be added once')
+  }
+
+  if (variants.length === 0) {
+    errors.push('At least one instruction variant is required')
+  }
+  if (variants.length > MAX_MATRIX_VARIANTS) {
+    errors.push(`A matrix can have at most ${MAX_MATRIX_VARIANTS} instruction variants`)
+  }
+  variants.forEach((variant, index) => {
+    if (!variant.label.trim()) {
+      errors.push(`Variant ${index + 1}: a label is required`)
+    }
+    const instructions = validateInstructions(variant.instructions)
+    if (!instructions.isValid) {
+      errors.push(`Variant ${variant.label.trim() || index + 1}: ${instructions.message}`)
+    }
+  })
+
+  errors.push(...validateTestCases(prompts))
+
+  const evaluations = models.length * variants.length * prompts.length
+  if (evaluations > MAX_MATRIX_EVALUATIONS) {
+    errors.push(`This matrix needs ${evaluations} evaluations; the limit is ${MAX_MATRIX_EVALUATIONS}`)
+  }
+
+  return errors
+}
+
+/**
+ * An empty cell for every model and variant, grouped by model
+ */
+export function createMatrixCells(models: Pick<Model, 'id'>[], variants: InstructionVariant[]): MatrixCell[] {
+  return models.flatMap(model => variants.map(variant => ({
+    modelId: model.id,
+    variantId: variant.id,
+    status: 'pending' as const,
+    completedCases: 0,
+    testRunIds: [],
+    meanOverallScore: null,
+    passRate: 0,
+    totalCost: 0,
+    meanLatency: null,
+    errors: 0
+  })))
+}
+
+/**
+ * A cell's scores, cost and latency from its prompts' results so far
+ */
+export function summarizeMatrixCell(cell: MatrixCell, results: SuiteCaseResult[], testRunIds = cell.testRunIds): MatrixCell {
+  const finished = results.filter(result => result.status !== 'pending' && result.status !== 'running')
+  const summary = summarizeSuiteRun(finished, 0)
+  const latencies = finished.filter(result => result.response !== undefined).map(result => result.executionTime)
+
+  return {
+    ...cell,
+    completedCases: finished.length,
+    testRunIds,
+    meanOverallScore: summary.meanOverallScore,
+    passRate: summary.passRate,
+    totalCost: summary.totalCost,
+    meanLatency: latencies.length > 0 ? Math.round(mean(latencies)) : null,
+    errors: summary.erroredCases
+  }
+}
+
+/**
+ * Runs every prompt against every model and variant. Cells run one after
+ * another, each with its prompts a few at a time like a test suite. Every
+ * prompt that gets a response is saved as a TestRun, which its cell links
+ * to by ID. Cancelling stops the run and rejects.
+ */
+export async function runMatrix(
+  matrixConfig: MatrixConfig,
+  options: RunMatrixOptions
+): Promise<{ cells: MatrixCell[]; testRuns: TestRun[] }> {
+  const { models, variants, prompts } = matrixConfig
+  const { matrixRunId, runCase, details, signal, onCellUpdate } = options
+  const passThreshold = matrixConfig.passThreshold ?? DEFAULT_PASS_THRESHOLD
+  const cells = createMatrixCells(models, variants)
+  const testRuns: TestRun[] = []
+
+  const update = (index: number, cell: MatrixCell) => {
+    cells[index] = cell
+    onCellUpdate?.(cell, index)
+  }
+
+  for (let index = 0; index < cells.length; index++) {
+    throwIfCancelled(signal)
+    const model = models.find(entry => entry.id === cells[index].modelId)!
+    const variant = variants.find(entry => entry.id === cells[index].variantId)!
+    const progress = createPendingResults({ cases: prompts })
+    update(index, { ...cells[index], status: 'running' })
+
+    const results = await runSuiteCases(
+      { cases: prompts, passThreshold },
+      testCase => runCase(model, variant, testCase),
+      {
+        signal,
+        onCaseUpdate: (result, caseIndex) => {
+          progress[caseIndex] = result
+          update(index, summarizeMatrixCell(cells[index], progress))
+        }
+      }
+    )
+
+    const cellRuns = results
+      .filter(result => result.response !== undefined && result.metrics)
+      .map((result): TestRun => {
+        const testCase = prompts.find(entry => entry.id === result.caseId)
+        const referenceAnswer = testCase?.referenceAnswer?.trim()
+        return {
+          id: crypto.randomUUID(),
+          timestamp: Date.now(),
+          model: model.name,
+          modelProvider: model.provider,
+          ...resolveTemplateRun(variant.instructions, result.prompt, mergeVariables(matrixConfig.variables, testCase?.variables)),
+          response: result.response!,
+          metrics: result.metrics!,
+          tokenUsage: result.tokenUsage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+          executionTime: result.executionTime,
+          cost: result.cost,
+          matrixRunId,
+          ...details,
+          ...(result.assertionResults && { assertionResults: result.assertionResults }),
+          ...(referenceAnswer && { referenceAnswer })
+        }
+      })
+    testRuns.push(...cellRuns)
+
+    update(index, summarizeMatrixCell({ ...cells[index], status: 'complete' }, results, cellRuns.map(testRun => testRun.id)))
+  }
+
+  return { cells, testRuns }
+}
+
+/**
+ * Cells ordered for the leaderboard. Scores and pass rates rank highest
+ * first, cost and latency lowest first, unless reversed. Cells without a
+ * value always come last.
+ */
+export function rankMatrixCells(cells: MatrixCell[], key: LeaderboardKey, reversed = false): MatrixCell[] {
+  const higherIsBetter = key === 'meanOverallScore' || key === 'passRate'
+  const direction = (higherIsBetter ? -1 : 1) * (reversed ? -1 : 1)
+
+  return [...cells].sort((a, b) => {
+    const valueA = a[key]
+    const valueB = b[key]
+    if (valueA === null || valueB === null) {
+      return valueA === valueB ? 0 : valueA === null ? 1 : -1
+    }
+    return (valueA - valueB) * direction
+  })
+}
\ No newline at end of file
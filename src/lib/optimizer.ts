@@ -0,0 +1,260 @@
+// Instruction optimizer: propose revisions from the judge's feedback, score each, keep the best
+
+import { OptimizerCandidate, OptimizerConfig, OptimizerStopReason, SuiteCaseResult, TestCase } from './types'
+import { throwIfCancelled } from './errorHandling'
+import { validateInstructions } from './validation'
+import { DEFAULT_PASS_THRESHOLD, createPendingResults, runSuiteCases, summarizeSuiteRun, validateTestCases } from './suites'
+import type { RevisionResult, TestResult } from '@/services/evaluationEngine'
+
+export const MAX_OPTIMIZER_ROUNDS = 10
+export const DEFAULT_OPTIMIZER_ROUNDS = 3
+export const DEFAULT_OPTIMIZER_BUDGET = 1 // Dollars
+
+// Evaluations in one run (rounds plus the starting point, times prompts), to keep cost in check
+export const MAX_OPTIMIZER_EVALUATIONS = 100
+
+// Prompts described to the optimizer each round, lowest scoring first
+const FEEDBACK_CASE_COUNT = 5
+
+export interface RunOptimizerOptions {
+  runCase: (instructions: string, testCase: TestCase) => Promise<TestResult>
+  proposeRevision: (instructions: string, feedback: string) => Promise<RevisionResult>
+  signal?: AbortSignal
+  onUpdate?: (candidates: OptimizerCandidate[], bestCandidateId: string | null) => void // Called as each candidate's prompts start and finish
+}
+
+/**
+ * Validates an optimizer run's setup and returns a list of problems (empty when valid)
+ */
+export function validateOptimizerConfig(optimizerConfig: OptimizerConfig): string[] {
+  const { instructions, prompts, maxRounds, maxCost } = optimizerConfig
+  const errors: string[] = []
+
+  const validation = validateInstructions(instructions)
+  if (!validation.isValid) {
+    errors.push(validation.message)
+  }
+
+  errors.push(...validateTestCases(prompts))
+
+  if (!Number.isInteger(maxRounds) || maxRounds < 1 || maxRounds > MAX_OPTIMIZER_ROUNDS) {
+    errors.push(`Rounds must be a whole number from 1 to ${MAX_OPTIMIZER_ROUNDS}`)
+  }
+  if (!(maxCost > 0)) {
+    errors.push('The budget must be more than $0')
+  }
+
+  const evaluations = (maxRounds + 1) * prompts.length
+  if (evaluations > MAX_OPTIMIZER_EVALUATIONS) {
+    errors.push(`This run needs up to ${evaluations} evaluations; the limit is ${MAX_OPTIMIZER_EVALUATIONS}`)
+  }
+
+  return errors
+}
+
+/**
+ * Whether a scored candidate beats the current best: a higher mean overall
+ * score, or the same score with a higher pass rate
+ */
+export function isBetterCandidate(candidate: OptimizerCandidate, best: OptimizerCandidate | undefined): boolean {
+  const score = candidate.summary?.meanOverallScore
+  if (score === null || score === undefined) {
+    return false
+  }
+
+  const bestScore = best?.summary?.meanOverallScore
+  if (bestScore === null || bestScore === undefined) {
+    return true
+  }
+  return score > bestScore || (score === bestScore && candidate.summary!.passRate > best!.summary!.passRate)
+}
+
+export interface ImprovementPoint {
+  round: number
+  score: number // Mean overall score of the round's candidate
+  bestScore: number // Best score up to and including this round
+}
+
+/**
+ * Points for the improvement curve, one per scored candidate in round order
+ */
+export function getImprovementCurve(candidates: OptimizerCandidate[]): ImprovementPoint[] {
+  const points: ImprovementPoint[] = []
+  candidates.forEach(candidate => {
+    const score = candidate.status === 'complete' ? candidate.summary?.meanOverallScore : null
+    if (score === null || score === undefined) return
+    const previous = points[points.length - 1]
+    points.push({ round: candidate.round, score, bestScore: previous ? Math.max(previous.bestScore, score) : score })
+  })
+  return points
+}
+
+const describeResult = (result: SuiteCaseResult, index: number) => {
+  const lines = [`${index + 1}. PROMPT: ${result.prompt}`]
+  if (result.error) {
+    lines.push(`   ERROR: ${result.error}`)
+  }
+  if (result.metrics && !result.metrics.evaluationError) {
+    lines.push(`   SCORE: ${result.metrics.overallScore}/100 (${result.status})`)
+    if (result.metrics.explanation) {
+      lines.push(`   JUDGE: ${result.metrics.explanation}`)
+    }
+    if (result.metrics.reference) {
+      lines.push(`   CORRECTNESS VS REFERENCE: ${result.metrics.reference.correctness}/100`)
+    }
+  }
+  result.assertionResults?.filter(assertion => !assertion.passed).forEach(assertion => {
+    lines.push(`   FAILED CHECK: ${assertion.description}: ${assertion.message}`)
+  })
+  return lines.join('\n')
+}
+
+/**
+ * The feedback shown to the optimizer: the lowest scoring prompts with the
+ * judge's explanations and any failed assertions
+ */
+export function buildOptimizerFeedback(candidate: OptimizerCandidate): string {
+  const { results, summary } = candidate
+  const worst = [...results]
+    .sort((a, b) => {
+      const score = (result: SuiteCaseResult) => (result.metrics && !result.metrics.evaluationError ? result.metrics.overallScore : -1)
+      return score(a) - score(b)
+    })
+    .slice(0, FEEDBACK_CASE_COUNT)
+
+  const overview = summary
+    ? `Mean score ${summary.meanOverallScore ?? 'n/a'}/100; ${summary.passedCases} of ${summary.totalCases} prompts passed.`
+    : ''
+  return [overview, ...worst.map(describeResult)].filter(Boolean).join('\n\n')
+}
+
+const rejected = (round: number, revision: RevisionResult, error: string): OptimizerCandidate => ({
+  id: crypto.randomUUID(),
+  round,
+  instructions: revision.instructions,
+  rationale: revision.rationale,
+  status: 'rejected',
+  results: [],
+  summary: null,
+  cost: revision.cost,
+  error
+})
+
+/**
+ * Scores the starting instructions, then asks for a revision of the best
+ * candidate so far each round and scores it over the same prompts. Stops
+ * after maxRounds, or before a round that would likely go over the budget,
+ * assuming it costs as much as the dearest round so far. Once the actual
+ * spend is over the budget, no further prompts are started, and a candidate
+ * left partly scored is rejected. Cancelling stops the run and rejects.
+ */
+export async function runOptimizer(
+  optimizerConfig: OptimizerConfig,
+  options: RunOptimizerOptions
+): Promise<{ candidates: OptimizerCandidate[]; bestCandidateId: string | null; stopReason: OptimizerStopReason }> {
+  const { prompts, maxRounds, maxCost } = optimizerConfig
+  const { runCase, proposeRevision, signal, onUpdate } = options
+  const passThreshold = optimizerConfig.passThreshold ?? DEFAULT_PASS_THRESHOLD
+  const candidates: OptimizerCandidate[] = []
+  let best: OptimizerCandidate | undefined
+
+  const update = (candidate: OptimizerCandidate) => {
+    const index = candidates.findIndex(entry => entry.id === candidate.id)
+    if (index === -1) {
+      candidates.push(candidate)
+    } else {
+      candidates[index] = candidate
+    }
+    onUpdate?.([...candidates], best?.id ?? null)
+  }
+
+  // Actual spend so far, counting the finished prompts of a candidate still running
+  const getSpent = () => candidates.reduce((total, candidate) => total + (candidate.status === 'running'
+    ? candidate.results.reduce((sum, result) => sum + result.cost, candidate.cost)
+    : candidate.cost), 0)
+
+  // Scores a candidate, and returns false when the budget ran out before every prompt was started
+  const evaluate = async (round: number, instructions: string, rationale: string, proposalCost: number): Promise<boolean> => {
+    let candidate: OptimizerCandidate = {
+      id: crypto.randomUUID(),
+      round,
+      instructions,
+      rationale,
+      status: 'running',
+      results: createPendingResults({ cases: prompts }),
+      summary: null,
+      cost: proposalCost
+    }
+    update(candidate)
+
+    let skippedCases = 0
+    const results = await runSuiteCases(
+      { cases: prompts, passThreshold },
+      async testCase => {
+        if (getSpent() > maxCost) {
+          skippedCases++
+          throw new Error('Skipped: the budget ran out')
+        }
+        return runCase(instructions, testCase)
+      },
+      {
+        signal,
+        onCaseUpdate: (result, index) => {
+          const progress = [...candidate.results]
+          progress[index] = result
+          candidate = { ...candidate, results: progress }
+          update(candidate)
+        }
+      }
+    )
+
+    const summary = summarizeSuiteRun(results, 0)
+    if (skippedCases > 0) {
+      const error = `The budget ran out after ${prompts.length - skippedCases} of ${prompts.length} prompts`
+      update({ ...candidate, status: 'rejected', results, summary: null, cost: proposalCost + summary.totalCost, error })
+      return false
+    }
+
+    candidate = { ...candidate, status: 'complete', results, summary, cost: proposalCost + summary.totalCost }
+    if (isBetterCandidate(candidate, best)) {
+      best = candidate
+    }
+    update(candidate)
+    return true
+  }
+
+  // Nothing is spent yet, so this only stops a run that has no budget at all
+  if (!(maxCost > 0)) {
+    return { candidates, bestCandidateId: null, stopReason: 'budget' }
+  }
+  if (!await evaluate(0, optimizerConfig.instructions, '', 0)) {
+    return { candidates, bestCandidateId: best?.id ?? null, stopReason: 'budget' }
+  }
+
+  for (let round = 1; round <= maxRounds; round++) {
+    throwIfCancelled(signal)
+    const spent = candidates.reduce((total, candidate) => total + candidate.cost, 0)
+    const roundCost = Math.max(...candidates.map(candidate => candidate.cost))
+    if (spent + roundCost > maxCost) {
+      return { candidates, bestCandidateId: best?.id ?? null, stopReason: 'budget' }
+    }
+
+    // With nothing scored yet, the starting instructions are revised
+    const base = best || candidates[0]
+    const revision = await proposeRevision(base.instructions, buildOptimizerFeedback(base))
+    throwIfCancelled(signal)
+
+    const validation = validateInstructions(revision.instructions)
+    if (revision.error) {
+      update(rejected(round, revision, revision.error))
+    } else if (!validation.isValid) {
+      update(rejected(round, revision, validation.message))
+    } else if (candidates.some(candidate => candidate.instructions.trim() === revision.instructions.trim())) {
+      update(rejected(round, revision, 'Same as an earlier candidate'))
+    } else if (!await evaluate(round, revision.instructions, revision.rationale, revision.cost)) {
+      return { candidates, bestCandidateId: best?.id ?? null, stopReason: 'budget' }
+    }
+  }
+
+  return { candidates, bestCandidateId: best?.id ?? null, stopReason: 'rounds' }
+}
\ No newline at end of file
@@ -0,0 +1,213 @@
+// Evaluation rubric utilities
+
+import { Rubric, RubricCriterion, CriterionScore, SuccessMetrics, TestRun } from './types'
+
+/**
+ * Default rubric matching the original four evaluation criteria, weighted as in the PRD
+ */
+export const DEFAULT_RUBRIC: Rubric = {
+  id: 'default',
+  name: 'Default',
+  criteria: [
+    {
+      id: 'coherence',
+      name: 'Coherence',
+      description: 'How logical, clear, and well-structured is the response?',
+      scale: { min: 0, max: 100 },
+      weight: 0.2
+    },
+    {
+      id: 'taskCompletion',
+      name: 'Task Completion',
+      description: "How completely does the response address the user's request?",
+      scale: { min: 0, max: 100 },
+      weight: 0.35
+    },
+    {
+      id: 'instructionAdherence',
+      name: 'Instruction Adherence',
+      description: 'How well does the response follow the system instructions?',
+      scale: { min: 0, max: 100 },
+      weight: 0.35
+    },
+    {
+      id: 'efficiency',
+      name: 'Efficiency',
+      description: 'How concise and relevant is the response without unnecessary content?',
+      scale: { min: 0, max: 100 },
+      weight: 0.1
+    }
+  ]
+}
+
+export const MAX_RUBRIC_CRITERIA = 10
+
+/**
+ * Validates a rubric and returns a list of problems (empty when valid)
+ */
+export function validateRubric(rubric: Rubric): string[] {
+  const errors: string[] = []
+
+  if (!rubric.name.trim()) {
+    errors.push('Rubric name is required')
+  }
+
+  if (rubric.criteria.length === 0) {
+    errors.push('At least one criterion is required')
+  }
+
+  if (rubric.criteria.length > MAX_RUBRIC_CRITERIA) {
+    errors.push(`A rubric can have at most ${MAX_RUBRIC_CRITERIA} criteria`)
+  }
+
+  const ids = new Set<string>()
+  rubric.criteria.forEach((criterion, index) => {
+    const label = criterion.name.trim() || `Criterion ${index + 1}`
+
+    if (!criterion.name.trim()) {
+      errors.push(`Criterion ${index + 1} needs a name`)
+    }
+
+    if (!criterion.id || ids.has(criterion.id)) {
+      errors.push(`${label} needs a unique ID`)
+    }
+    ids.add(criterion.id)
+
+    if (!criterion.description.trim()) {
+      errors.push(`${label} needs a description`)
+    }
+
+    if (!Number.isFinite(criterion.scale.min) || !Number.isFinite(criterion.scale.max) || criterion.scale.max <= criterion.scale.min) {
+      errors.push(`${label} scale maximum must be greater than its minimum`)
+    }
+
+    if (!Number.isFinite(criterion.weight) || criterion.weight < 0) {
+      errors.push(`${label} weight must be zero or positive`)
+    }
+  })
+
+  if (rubric.criteria.length > 0 && rubric.criteria.every(criterion => criterion.weight === 0)) {
+    errors.push('At least one criterion must have a positive weight')
+  }
+
+  return errors
+}
+
+/**
+ * Creates a criterion ID from its name that is unique within the rubric
+ */
+export function createCriterionId(name: string, existing: RubricCriterion[]): string {
+  const base = name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+(.)?/g, (_, char: string | undefined) => (char ? char.toUpperCase() : ''))
+    || 'criterion'
+
+  let id = base
+  let suffix = 2
+  while (existing.some(criterion => criterion.id === id)) {
+    id = `${base}${suffix++}`
+  }
+  return id
+}
+
+/**
+ * Converts a raw criterion score to the 0-100 range
+ */
+export function normalizeScore(score: number, scale: RubricCriterion['scale']): number {
+  const normalized = ((score - scale.min) / (scale.max - scale.min)) * 100
+  return Math.round(Math.min(100, Math.max(0, normalized)))
+}
+
+/**
+ * Builds a criterion score entry for a raw judge score
+ */
+export function toCriterionScore(criterion: RubricCriterion, score: number): CriterionScore {
+  return {
+    criterionId: criterion.id,
+    name: criterion.name,
+    score,
+    normalizedScore: normalizeScore(score, criterion.scale)
+  }
+}
+
+/**
+ * Weighted average of normalized criterion scores. Criteria missing from
+ * either side are skipped; returns null when no weighted criterion was scored.
+ */
+export function calculateWeightedScore(criterionScores: CriterionScore[], rubric: Rubric): number | null {
+  let weightedScore = 0
+  let totalWeight = 0
+
+  for (const criterion of rubric.criteria) {
+    const score = criterionScores.find(entry => entry.criterionId === criterion.id)
+    if (score) {
+      weightedScore += score.normalizedScore * criterion.weight
+      totalWeight += criterion.weight
+    }
+  }
+
+  return totalWeight > 0 ? Math.round(weightedScore / totalWeight) : null
+}
+
+/**
+ * Recomputes a past run's overall score with the weights from the given rubric.
+ * Runs that share no weighted criteria with the rubric are returned unchanged.
+ */
+export function reweightTestRun(testRun: TestRun, rubric: Rubric): TestRun {
+  const overallScore = calculateWeightedScore(testRun.metrics.criterionScores, rubric)
+  if (overallScore === null) {
+    return testRun
+  }
+
+  return {
+    ...testRun,
+    metrics: { ...testRun.metrics, overallScore },
+    ...(testRun.rubric && {
+      rubric: {
+        ...testRun.rubric,
+        criteria: testRun.rubric.criteria.map(criterion => {
+          const weight = rubric.criteria.find(entry => entry.id === criterion.id)?.weight
+          return weight === undefined ? criterion : { ...criterion, weight }
+        })
+      }
+    })
+  }
+}
+
+/**
+ * Whether a run has real judge scores. Runs whose evaluation failed are
+ * kept in history but must be left out of averages and other statistics.
+ */
+export function isScoredRun(testRun: TestRun): boolean {
+  return !testRun.metrics.evaluationError
+}
+
+/**
+ * Looks up the normalized score for a criterion, if it was scored
+ */
+export function getCriterionScore(metrics: SuccessMetrics, criterionId: string): number | undefined {
+  return metrics.criterionScores.find(score => score.criterionId === criterionId)?.normalizedScore
+}
+
+/**
+ * Collects the criteria names used across a set of metrics, in first-seen order
+ */
+export function collectCriterionNames(metricsList: SuccessMetrics[]): string[] {
+  const names: string[] = []
+  metricsList.forEach(metrics => {
+    metrics.criterionScores.forEach(score => {
+      if (!names.includes(score.name)) {
+        names.push(score.name)
+      }
+    })
+  })
+  return names
+}
+
+/**
+ * Formats a criterion scale for display and judge prompts
+ */
+export function formatScale(scale: RubricCriterion['scale']): string {
+  return `${scale.min}-${scale.max}`
+}
\ No newline at end of file
@@ -1,7 +1,9 @@
 'use client'
 
 import { SecurityManager } from './security'
-import { SessionData, TestRun, UserSettings, TestState } from './types'
+import { SessionData, TestRun, UserSettings, TestState, ComparisonRun, TestSuite, SuiteRun, MatrixRun, InstructionDocument } from './types'
+import { DEFAULT_RUBRIC } from './rubrics'
+import { DEFAULT_JUDGE_TEMPLATE } from './judgeTemplates'
 
 /**
  * SessionManager - Handles session lifecycle, expiration, and cleanup
@@ -40,6 +42,11 @@ export class SessionManager {
       createdAt: now,
       expiresAt: now + this.SESSION_TTL,
       testHistory: [],
+      comparisonHistory: [],
+      testSuites: [],
+      suiteHistory: [],
+      matrixHistory: [],
+      instructionDocuments: [],
       currentTest: this.getDefaultTestState(),
       settings: this.getDefaultSettings()
     }
@@ -145,12 +152,96 @@ export class SessionManager {
   }
 
   /**
-   * Clears all test history from the session
+   * Adds an A/B comparison to the session's comparison history
+   */
+  static async addComparisonToHistory(comparison: ComparisonRun, sessionData: SessionData): Promise<SessionData> {
+    const updatedSession: SessionData = {
+      ...sessionData,
+      comparisonHistory: [...(sessionData.comparisonHistory || []), comparison]
+    }
+
+    await this.saveSession(updatedSession)
+    return updatedSession
+  }
+
+  /**
+   * Adds a test suite run to the session's suite history
+   */
+  static async addSuiteRunToHistory(suiteRun: SuiteRun, sessionData: SessionData): Promise<SessionData> {
+    const updatedSession: SessionData = {
+      ...sessionData,
+      suiteHistory: [...(sessionData.suiteHistory || []), suiteRun]
+    }
+
+    await this.saveSession(updatedSession)
+    return updatedSession
+  }
+
+  /**
+   * Adds a matrix run to the session's matrix history, together with the
+   * test runs its cells link to, in a single save
+   */
+  static async addMatrixRunToHistory(matrixRun: MatrixRun, testRuns: TestRun[], sessionData: SessionData): Promise<SessionData> {
+    const updatedSession: SessionData = {
+      ...sessionData,
+      testHistory: [...sessionData.testHistory, ...testRuns],
+      matrixHistory: [...(sessionData.matrixHistory || []), matrixRun]
+    }
+
+    await this.saveSession(updatedSession)
+    return updatedSession
+  }
+
+  /**
+   * Replaces the session's saved test suites
+   */
+  static async replaceTestSuites(testSuites: TestSuite[], sessionData: SessionData): Promise<SessionData> {
+    const updatedSession: SessionData = {
+      ...sessionData,
+      testSuites
+    }
+
+    await this.saveSession(updatedSession)
+    return updatedSession
+  }
+
+  /**
+   * Replaces the session's instruction documents
+   */
+  static async replaceInstructionDocuments(instructionDocuments: InstructionDocument[], sessionData: SessionData): Promise<SessionData> {
+    const updatedSession: SessionData = {
+      ...sessionData,
+      instructionDocuments
+    }
+
+    await this.saveSession(updatedSession)
+    return updatedSession
+  }
+
+  /**
+   * Replaces the session history, e.g. after recomputing scores
+   */
+  static async replaceTestHistory(testHistory: TestRun[], sessionData: SessionData): Promise<SessionData> {
+    const updatedSession: SessionData = {
+      ...sessionData,
+      testHistory
+    }
+
+    await this.saveSession(updatedSession)
+    return updatedSession
+  }
+
+  /**
+   * Clears all test, comparison, suite and matrix run history from the session.
+   * Saved suites are kept.
    */
   static async clearTestHistory(sessionData: SessionData): Promise<SessionData> {
     const updatedSession: SessionData = {
       ...sessionData,
-      testHistory: []
+      testHistory: [],
+      comparisonHistory: [],
+      suiteHistory: [],
+      matrixHistory: []
     }
 
     await this.saveSession(updatedSession)
@@ -342,8 +433,24 @@ export class SessionManager {
       currentStep: 0,
       model: null,
       instructions: '',
+      instructionDocumentId: null,
       prompt: '',
+      conversation: [],
+      transcript: null,
+      assertions: [],
+      assertionResults: null,
+      referenceAnswer: '',
+      comparisonInstructions: '',
+      variables: {},
+      comparison: null,
+      suiteRun: null,
+      matrixRun: null,
+      matrixTestRuns: null,
+      optimizerRun: null,
+      ablationRun: null,
       response: null,
+      streamingResponse: null,
+      streamTiming: null,
       results: null,
       error: null
     }
@@ -357,6 +464,13 @@ export class SessionManager {
       temperature: 0.7,
       maxTokens: 2000,
       evaluationModel: 'openai/gpt-4',
+      additionalEvaluationModels: [],
+      judgeAggregation: 'mean',
+      runsPerTest: 1,
+      rubric: DEFAULT_RUBRIC,
+      judgeTemplates: [],
+      judgeTemplateId: DEFAULT_JUDGE_TEMPLATE.id,
+      providers: [],
       autoSave: true
     }
   }
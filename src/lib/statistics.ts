@@ -0,0 +1,129 @@
+// Descriptive statistics used to combine repeated or parallel scores
+
+import { ScoreAggregation, MetricStatistics } from './types'
+
+// Most samples a single test may take with repeated sampling
+export const MAX_RUNS_PER_TEST = 10
+
+/**
+ * Arithmetic mean (0 for an empty list)
+ */
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+/**
+ * Median of the values (0 for an empty list)
+ */
+export function median(values: number[]): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+/**
+ * Mean after dropping the given proportion of values from each end.
+ * At least one value is dropped from each end once there are three or more.
+ */
+export function trimmedMean(values: number[], proportion = 0.2): number {
+  if (values.length < 3) return mean(values)
+  const sorted = [...values].sort((a, b) => a - b)
+  const trim = Math.max(1, Math.floor(sorted.length * proportion))
+  return mean(sorted.slice(trim, sorted.length - trim))
+}
+
+/**
+ * Combines values using the selected aggregation method
+ */
+export function aggregate(values: number[], method: ScoreAggregation): number {
+  switch (method) {
+    case 'median':
+      return median(values)
+    case 'trimmedMean':
+      return trimmedMean(values)
+    default:
+      return mean(values)
+  }
+}
+
+/**
+ * Sample standard deviation (0 with fewer than two values)
+ */
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0
+  const average = mean(values)
+  const variance = values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1)
+  return Math.sqrt(variance)
+}
+
+// Two-sided 95% Student's t critical values for 1-30 degrees of freedom
+const T_CRITICAL_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086,
+  2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042
+]
+
+/**
+ * 95% confidence interval for the mean using the t distribution.
+ * Collapses to the mean itself with fewer than two values.
+ */
+export function confidenceInterval95(values: number[]): { lower: number; upper: number } {
+  const average = mean(values)
+  if (values.length < 2) {
+    return { lower: average, upper: average }
+  }
+
+  const critical = T_CRITICAL_95[values.length - 2] ?? 1.96
+  const margin = critical * standardDeviation(values) / Math.sqrt(values.length)
+  return { lower: average - margin, upper: average + margin }
+}
+
+/**
+ * Summary statistics for a metric, rounded to one decimal place
+ */
+export function summarize(values: number[]): MetricStatistics {
+  const round = (value: number) => Math.round(value * 10) / 10
+  const interval = confidenceInterval95(values)
+
+  return {
+    mean: round(mean(values)),
+    standardDeviation: round(standardDeviation(values)),
+    min: values.length > 0 ? Math.min(...values) : 0,
+    max: values.length > 0 ? Math.max(...values) : 0,
+    confidenceInterval: {
+      lower: round(interval.lower),
+      upper: round(interval.upper)
+    }
+  }
+}
+
+/**
+ * Difference between the highest and lowest value (0 for an empty list)
+ */
+export function range(values: number[]): number {
+  if (values.length === 0) return 0
+  return Math.max(...values) - Math.min(...values)
+}
+
+/**
+ * Agreement between raters scoring the same items on a 0-100 scale, as a
+ * percentage: 100 minus the mean absolute difference over all rater pairs.
+ * Each entry of `ratings` holds one rater's scores, in the same item order.
+ */
+export function pairwiseAgreement(ratings: number[][]): number {
+  const differences: number[] = []
+
+  for (let a = 0; a < ratings.length; a++) {
+    for (let b = a + 1; b < ratings.length; b++) {
+      ratings[a].forEach((score, item) => {
+        if (ratings[b][item] !== undefined) {
+          differences.push(Math.abs(score - ratings[b][item]))
+        }
+      })
+    }
+  }
+
+  return differences.length > 0 ? Math.round(100 - mean(differences)) : 100
+}
\ No newline at end of file
@@ -1,6 +1,6 @@
 'use client'
 
-import { create } from 'zustand'
+import { create, StoreApi } from 'zustand'
 import { subscribeWithSelector } from 'zustand/middleware'
 import { setupSessionCleanup } from './sessionStorage'
 import { SecurityManager } from './security'
@@ -12,11 +12,26 @@ import {
   UserSettings, 
   Model, 
   TestRun, 
+  TestRunDetails,
   SuccessMetrics,
-  SessionData
+  SessionData,
+  ConversationTurn,
+  Assertion,
+  ComparisonRun,
+  TestSuite,
+  SuiteRun,
+  MatrixConfig,
+  MatrixRun,
+  OptimizerConfig,
+  OptimizerRun,
+  AblationConfig,
+  AblationRun,
+  InstructionDocument,
+  TestCase
 } from './types'
 import { EvaluationEngine, TestParams } from '../services'
 import { openRouterService } from '../services/openRouterService'
+import { createProvider, getActiveProviders, usesOpenRouter } from '../services/providers'
 import { 
   ErrorRecoveryManager, 
   AppError, 
@@ -24,12 +39,33 @@ import {
   GlobalErrorHandler
 } from './errorHandling'
 import { performanceMonitor } from './performanceMonitor'
+import { DEFAULT_RUBRIC, reweightTestRun } from './rubrics'
+import { DEFAULT_JUDGE_TEMPLATE, getJudgeTemplateVersionId, resolveJudgeTemplate } from './judgeTemplates'
+import { DEFAULT_PASS_THRESHOLD, createPendingResults, runSuiteCases, summarizeSuiteRun, validateTestSuite } from './suites'
+import { createMatrixCells, runMatrix, validateMatrixConfig } from './matrix'
+import { runOptimizer, validateOptimizerConfig } from './optimizer'
+import { createAblationVariants, runAblation, validateAblationConfig } from './ablation'
+import { findMissingVariables, interpolateTemplate, mergeVariables, resolveTemplateRun } from './templateVariables'
+import {
+  appendInstructionVersion,
+  createInstructionDocument,
+  findInstructionVersion,
+  findVersionByText,
+  getInstructionVersionId
+} from './instructionVersions'
 
 // Default user settings
 const defaultSettings: UserSettings = {
   temperature: 0.7,
   maxTokens: 1000,
   evaluationModel: null,
+  additionalEvaluationModels: [],
+  judgeAggregation: 'mean',
+  runsPerTest: 1,
+  rubric: DEFAULT_RUBRIC,
+  judgeTemplates: [],
+  judgeTemplateId: DEFAULT_JUDGE_TEMPLATE.id,
+  providers: [],
   autoSave: true
 }
 
@@ -39,8 +75,24 @@ const defaultTestState: TestState = {
   currentStep: 0,
   model: null,
   instructions: '',
+  instructionDocumentId: null,
   prompt: '',
+  conversation: [],
+  transcript: null,
+  assertions: [],
+  assertionResults: null,
+  referenceAnswer: '',
+  comparisonInstructions: '',
+  variables: {},
+  comparison: null,
+  suiteRun: null,
+  matrixRun: null,
+  matrixTestRuns: null,
+  optimizerRun: null,
+  ablationRun: null,
   response: null,
+  streamingResponse: null,
+  streamTiming: null,
   results: null,
   tokenUsage: null,
   executionTime: null,
@@ -48,6 +100,108 @@ const defaultTestState: TestState = {
   error: null
 }
 
+// Controller for the evaluation in flight, aborted by cancelEvaluation
+let activeEvaluation: AbortController | null = null
+
+// Saves instruction documents to the session, falling back to local state only
+async function saveInstructionDocuments(documents: InstructionDocument[]): Promise<InstructionDocument[]> {
+  try {
+    const currentSession = await SessionManager.loadSession()
+    if (currentSession) {
+      const updatedSession = await SessionManager.replaceInstructionDocuments(documents, currentSession)
+      return updatedSession.instructionDocuments || []
+    }
+  } catch (error) {
+    console.error('Failed to save instruction documents:', error)
+  }
+  return documents
+}
+
+type Store = AppState & AppActions
+
+/**
+ * Engine settings shared by every kind of run, taken from the user's
+ * settings and the current test. Overrides set what the run varies, such as
+ * the instructions, prompt or model, and the abort signal.
+ */
+function buildTestParams(
+  state: AppState,
+  overrides: Partial<TestParams> = {}
+): TestParams & Required<Pick<TestParams, 'rubric' | 'judgeTemplate'>> {
+  const { apiKey, settings, currentTest } = state
+  return {
+    apiKey: apiKey || '',
+    providers: getActiveProviders(settings.providers),
+    model: currentTest.model,
+    evaluationModel: settings.evaluationModel,
+    additionalEvaluationModels: settings.additionalEvaluationModels || [],
+    judgeAggregation: settings.judgeAggregation || 'mean',
+    runsPerTest: settings.runsPerTest || 1,
+    systemInstructions: currentTest.instructions,
+    userPrompt: '',
+    rubric: settings.rubric || DEFAULT_RUBRIC,
+    judgeTemplate: resolveJudgeTemplate(settings.judgeTemplates || [], settings.judgeTemplateId || DEFAULT_JUDGE_TEMPLATE.id),
+    temperature: settings.temperature,
+    maxTokens: settings.maxTokens,
+    ...overrides
+  }
+}
+
+// The prompt and checks of one case in a prompt set, with its variables over the run's
+function buildCaseParams(testCase: TestCase, variables?: Record<string, string>): Partial<TestParams> {
+  return {
+    userPrompt: testCase.prompt,
+    assertions: testCase.assertions || [],
+    referenceAnswer: testCase.referenceAnswer?.trim() || undefined,
+    variables: mergeVariables(variables, testCase.variables)
+  }
+}
+
+// Aborts the run in flight, if any, and makes a new one the active run
+function startActiveRun(): AbortController {
+  activeEvaluation?.abort()
+  activeEvaluation = new AbortController()
+  return activeEvaluation
+}
+
+function finishActiveRun(controller: AbortController): void {
+  if (activeEvaluation === controller) {
+    activeEvaluation = null
+  }
+}
+
+/**
+ * Puts the test back after a run that did not complete: on the test step as
+ * it was when cancelled, otherwise in the error state with the classified
+ * message. `cleared` resets the fields the run had filled in.
+ */
+function handleRunFailure(
+  set: StoreApi<Store>['setState'],
+  get: StoreApi<Store>['getState'],
+  error: unknown,
+  cancelled: boolean,
+  label: string,
+  cleared: Partial<TestState> = {}
+): void {
+  if (cancelled) {
+    set({
+      currentTest: { ...get().currentTest, status: 'testing', currentStep: 2, ...cleared, error: null },
+      isLoading: false,
+      error: null
+    })
+    return
+  }
+
+  console.error(`${label} failed:`, error)
+  const appError = error instanceof Error ? ErrorClassifier.classifyError(error) : error as AppError
+
+  set({
+    currentTest: { ...get().currentTest, status: 'error', ...cleared, error: appError.message },
+    isLoading: false,
+    error: appError.message
+  })
+}
+
 // Default app state
 const defaultState: AppState = {
   sessionId: null,
@@ -55,6 +209,11 @@ const defaultState: AppState = {
   isApiKeyValid: false,
   currentTest: defaultTestState,
   testHistory: [],
+  comparisonHistory: [],
+  suiteHistory: [],
+  testSuites: [],
+  matrixHistory: [],
+  instructionDocuments: [],
   settings: defaultSettings,
   isLoading: false,
   error: null,
@@ -89,7 +248,12 @@ export const useAppStore = create<AppState & AppActions>()(
                   currentTest: {
                     ...currentTest,
                     instructions: draftTest.instructions || currentTest.instructions,
-                    prompt: draftTest.prompt || currentTest.prompt
+                    instructionDocumentId: draftTest.instructionDocumentId || currentTest.instructionDocumentId,
+                    prompt: draftTest.prompt || currentTest.prompt,
+                    conversation: draftTest.conversation || currentTest.conversation,
+                    assertions: draftTest.assertions || currentTest.assertions,
+                    referenceAnswer: draftTest.referenceAnswer || currentTest.referenceAnswer,
+                    comparisonInstructions: draftTest.comparisonInstructions || currentTest.comparisonInstructions
                   }
                 })
               }
@@ -136,6 +300,11 @@ export const useAppStore = create<AppState & AppActions>()(
                   apiKey,
                   isApiKeyValid: !!apiKey && SecurityManager.validateApiKeyFormat(apiKey),
                   testHistory: existingSession.testHistory,
+                  comparisonHistory: existingSession.comparisonHistory || [],
+                  suiteHistory: existingSession.suiteHistory || [],
+                  testSuites: existingSession.testSuites || [],
+                  matrixHistory: existingSession.matrixHistory || [],
+                  instructionDocuments: existingSession.instructionDocuments || [],
                   currentTest: existingSession.currentTest,
                   settings: existingSession.settings
                 })
@@ -380,28 +549,152 @@ export const useAppStore = create<AppState & AppActions>()(
           }
         },
 
+        setConversation: (conversation: ConversationTurn[]) => {
+          const { currentTest } = get()
+          const updatedTest = {
+            ...currentTest,
+            conversation
+          }
+          set({
+            currentTest: updatedTest
+          })
+          
+          // Auto-save to session storage to prevent data loss
+          try {
+            sessionStorage.setItem('instruct-lab-draft', JSON.stringify(updatedTest))
+          } catch (error) {
+            console.warn('Failed to auto-save conversation:', error)
+          }
+        },
+
+        setAssertions: (assertions: Assertion[]) => {
+          const { currentTest } = get()
+          const updatedTest = {
+            ...currentTest,
+            assertions
+          }
+          set({
+            currentTest: updatedTest
+          })
+          
+          // Auto-save to session storage to prevent data loss
+          try {
+            sessionStorage.setItem('instruct-lab-draft', JSON.stringify(updatedTest))
+          } catch (error) {
+            console.warn('Failed to auto-save assertions:', error)
+          }
+        },
+
+        setReferenceAnswer: (referenceAnswer: string) => {
+          const { currentTest } = get()
+          const updatedTest = {
+            ...currentTest,
+            referenceAnswer
+          }
+          set({
+            currentTest: updatedTest
+          })
+          
+          // Auto-save to session storage to prevent data loss
+          try {
+            sessionStorage.setItem('instruct-lab-draft', JSON.stringify(updatedTest))
+          } catch (error) {
+            console.warn('Failed to auto-save reference answer:', error)
+          }
+        },
+
+        setComparisonInstructions: (comparisonInstructions: string) => {
+          const { currentTest } = get()
+          const updatedTest = {
+            ...currentTest,
+            comparisonInstructions
+          }
+          set({
+            currentTest: updatedTest
+          })
+          
+          // Auto-save to session storage to prevent data loss
+          try {
+            sessionStorage.setItem('instruct-lab-draft', JSON.stringify(updatedTest))
+          } catch (error) {
+            console.warn('Failed to auto-save comparison instructions:', error)
+          }
+        },
+
+        setVariables: (variables: Record<string, string>) => {
+          const { currentTest } = get()
+          const updatedTest = {
+            ...currentTest,
+            variables
+          }
+          set({
+            currentTest: updatedTest
+          })
+          
+          // Auto-save to session storage to prevent data loss
+          try {
+            sessionStorage.setItem('instruct-lab-draft', JSON.stringify(updatedTest))
+          } catch (error) {
+            console.warn('Failed to auto-save template variables:', error)
+          }
+        },
+
         runEvaluation: async () => {
           const { currentTest, apiKey, settings } = get()
           const operationId = 'run_evaluation'
           
-          if (!apiKey || !currentTest.model || !settings.evaluationModel || !currentTest.instructions || !currentTest.prompt) {
+          if (!currentTest.model || !settings.evaluationModel || !currentTest.instructions || !currentTest.prompt) {
             set({ error: 'Missing required data for evaluation. Please select both primary and evaluation models.' })
             return
           }
 
+          const variables = currentTest.variables || {}
+          const missingVariables = findMissingVariables([
+            currentTest.instructions,
+            currentTest.prompt,
+            currentTest.comparisonInstructions || '',
+            ...(currentTest.conversation || []).map(turn => turn.content)
+          ], variables)
+          if (missingVariables.length > 0) {
+            set({ error: `Fill in a value for each template variable: ${missingVariables.join(', ')}` })
+            return
+          }
+
+          // Only models served through OpenRouter need its key, unless the proxy holds one
+          const selectedModels = [currentTest.model, settings.evaluationModel, ...(settings.additionalEvaluationModels || [])]
+          if (!apiKey && openRouterService.requiresApiKey && selectedModels.some(usesOpenRouter)) {
+            set({ error: 'An OpenRouter API key is required for the selected models.' })
+            return
+          }
+
+          // Every run points back to a saved version of its instructions
+          const instructionVersion = await get().saveInstructionVersion('Saved before test run')
+          const { instructionDocumentId } = get().currentTest
+
           // Preserve evaluation data for recovery
           ErrorRecoveryManager.preserveUserInput(operationId, {
             model: currentTest.model,
             instructions: currentTest.instructions,
             prompt: currentTest.prompt,
+            conversation: currentTest.conversation,
             settings,
             timestamp: Date.now()
           })
 
+          const controller = startActiveRun()
+
           set({
             currentTest: {
               ...currentTest,
+              instructionDocumentId,
               status: 'testing',
+              suiteRun: null,
+              matrixRun: null,
+              matrixTestRuns: null,
+              optimizerRun: null,
+              ablationRun: null,
+              streamingResponse: null,
+              streamTiming: null,
               error: null
             },
             isLoading: true,
@@ -421,19 +714,50 @@ export const useAppStore = create<AppState & AppActions>()(
             set({
               currentTest: {
                 ...currentTest,
-                status: 'evaluating'
+                instructionDocumentId,
+                status: 'evaluating',
+                suiteRun: null,
+                matrixRun: null,
+                matrixTestRuns: null,
+                optimizerRun: null,
+                ablationRun: null
               }
             })
 
             // Prepare test parameters
-            const testParams: TestParams = {
-              apiKey,
-              model: currentTest.model,
-              evaluationModel: settings.evaluationModel,
-              systemInstructions: currentTest.instructions,
+            const testParams = buildTestParams(get(), {
               userPrompt: currentTest.prompt,
-              temperature: settings.temperature,
-              maxTokens: settings.maxTokens
+              conversation: (currentTest.conversation || []).filter(turn => turn.content.trim()),
+              referenceAnswer: currentTest.referenceAnswer?.trim() || undefined,
+              assertions: currentTest.assertions || [],
+              variables,
+              // Render the primary response live while it streams
+              onPartialResponse: (partialResponse: string) => set(state => ({
+                currentTest: { ...state.currentTest, streamingResponse: partialResponse }
+              })),
+              signal: controller.signal
+            })
+            const judgeTemplateVersion = getJudgeTemplateVersionId(testParams.judgeTemplate)
+
+            // Compare two instruction variants when a second one is provided
+            const variantBInstructions = currentTest.comparisonInstructions?.trim()
+            if (variantBInstructions) {
+              const comparison = await EvaluationEngine.executeComparison({ ...testParams, variantBInstructions })
+
+              await get().completeComparison({
+                id: crypto.randomUUID(),
+                timestamp: Date.now(),
+                model: currentTest.model.name,
+                modelProvider: currentTest.model.provider,
+                prompt: interpolateTemplate(currentTest.prompt, variables),
+                rubric: testParams.rubric,
+                judgeTemplateVersion,
+                ...(testParams.referenceAnswer && { referenceAnswer: testParams.referenceAnswer }),
+                ...comparison
+              })
+
+              ErrorRecoveryManager.clearRecoveryState(operationId)
+              return
             }
 
             console.log('Calling EvaluationEngine.executeEvaluation...')
@@ -442,29 +766,36 @@ export const useAppStore = create<AppState & AppActions>()(
             console.log('Evaluation completed:', result)
 
             // Complete the test with results
-            get().completeTest(result.metrics, result.response, result.tokenUsage, result.executionTime, result.cost)
+            get().completeTest(result.metrics, result.response, result.tokenUsage, result.executionTime, result.cost, {
+              rubric: testParams.rubric,
+              conversation: result.conversation,
+              assertionResults: result.assertionResults,
+              referenceAnswer: testParams.referenceAnswer,
+              judgeTemplateVersion,
+              streamTiming: result.streamTiming,
+              instructionVersion: instructionVersion || undefined
+            })
             
             // Clear recovery state on success
             ErrorRecoveryManager.clearRecoveryState(operationId)
           } catch (error) {
-            console.error('Evaluation failed:', error)
-            
-            const appError = error as AppError
-            ErrorRecoveryManager.updateRetryCount(operationId)
-            
-            set({
-              currentTest: {
-                ...currentTest,
-                status: 'error',
-                error: appError.message
-              },
-              isLoading: false,
-              error: appError.message
-            })
+            // Cancelled: back to the test step with the inputs as they were
+            if (controller.signal.aborted) {
+              ErrorRecoveryManager.clearRecoveryState(operationId)
+            } else {
+              ErrorRecoveryManager.updateRetryCount(operationId)
+            }
+            handleRunFailure(set, get, error, controller.signal.aborted, 'Evaluation', { streamingResponse: null })
+          } finally {
+            finishActiveRun(controller)
           }
         },
 
-        completeTest: async (results: SuccessMetrics, response: string, tokenUsage?: import('./types').TokenStats, executionTime?: number, cost?: number) => {
+        cancelEvaluation: () => {
+          activeEvaluation?.abort()
+        },
+
+        completeTest: async (results: SuccessMetrics, response: string, tokenUsage?: import('./types').TokenStats, executionTime?: number, cost?: number, details: TestRunDetails = {}) => {
           const { currentTest, settings } = get()
           
           set({
@@ -474,6 +805,15 @@ export const useAppStore = create<AppState & AppActions>()(
               currentStep: 3, // Automatically advance to results step
               results,
               response,
+              suiteRun: null,
+              matrixRun: null,
+              matrixTestRuns: null,
+              optimizerRun: null,
+              ablationRun: null,
+              streamingResponse: null,
+              streamTiming: details.streamTiming || null,
+              transcript: details.conversation || null,
+              assertionResults: details.assertionResults || null,
               tokenUsage: tokenUsage || null,
               executionTime: executionTime || null,
               cost: cost || null
@@ -488,8 +828,7 @@ export const useAppStore = create<AppState & AppActions>()(
               timestamp: Date.now(),
               model: currentTest.model?.name || 'Unknown Model',
               modelProvider: currentTest.model?.provider || 'Unknown Provider',
-              instructions: currentTest.instructions,
-              prompt: currentTest.prompt,
+              ...resolveTemplateRun(currentTest.instructions, currentTest.prompt, currentTest.variables || {}),
               response,
               metrics: results,
               tokenUsage: tokenUsage || {
@@ -498,13 +837,46 @@ export const useAppStore = create<AppState & AppActions>()(
                 totalTokens: 0
               },
               executionTime: executionTime || 0,
-              cost: cost || 0
+              cost: cost || 0,
+              ...details
             }
 
             await get().addToHistory(testRun)
           }
         },
 
+        completeComparison: async (comparison: ComparisonRun) => {
+          const { currentTest, settings } = get()
+
+          set({
+            currentTest: {
+              ...currentTest,
+              status: 'complete',
+              currentStep: 3, // Automatically advance to results step
+              comparison,
+              suiteRun: null,
+              matrixRun: null,
+              matrixTestRuns: null,
+              optimizerRun: null,
+              ablationRun: null,
+              results: null,
+              response: null,
+              streamingResponse: null,
+              streamTiming: null,
+              transcript: null,
+              assertionResults: null,
+              tokenUsage: null,
+              executionTime: comparison.executionTime,
+              cost: comparison.cost
+            },
+            isLoading: false
+          })
+
+          if (settings.autoSave) {
+            await get().addComparisonToHistory(comparison)
+          }
+        },
+
         resetCurrentTest: () => {
           set({
             currentTest: defaultTestState
@@ -518,6 +890,644 @@ export const useAppStore = create<AppState & AppActions>()(
           }
         },
 
+        // Instruction version actions
+        saveInstructionVersion: async (message: string) => {
+          const { currentTest, instructionDocuments } = get()
+          if (!currentTest.instructions.trim()) {
+            return null
+          }
+
+          const document = instructionDocuments.find(entry => entry.id === currentTest.instructionDocumentId)
+          if (!document) {
+            return get().createInstructionDocument('', message)
+          }
+
+          const { document: updatedDocument, version } = appendInstructionVersion(document, currentTest.instructions, message)
+          if (updatedDocument !== document) {
+            set({
+              instructionDocuments: await saveInstructionDocuments(
+                get().instructionDocuments.map(entry => entry.id === document.id ? updatedDocument : entry)
+              )
+            })
+          }
+          return getInstructionVersionId(updatedDocument, version)
+        },
+
+        createInstructionDocument: async (name: string, message: string) => {
+          const { currentTest } = get()
+          if (!currentTest.instructions.trim()) {
+            return null
+          }
+
+          const document = createInstructionDocument(name, currentTest.instructions, message)
+          set(state => ({
+            currentTest: { ...state.currentTest, instructionDocumentId: document.id }
+          }))
+          set({
+            instructionDocuments: await saveInstructionDocuments([...get().instructionDocuments, document])
+          })
+          return getInstructionVersionId(document, document.versions[0])
+        },
+
+        renameInstructionDocument: async (documentId: string, name: string) => {
+          if (!name.trim()) {
+            return
+          }
+
+          set({
+            instructionDocuments: await saveInstructionDocuments(
+              get().instructionDocuments.map(entry => entry.id === documentId ? { ...entry, name: name.trim() } : entry)
+            )
+          })
+        },
+
+        loadInstructionVersion: (versionId: string) => {
+          const resolved = findInstructionVersion(get().instructionDocuments, versionId)
+          if (!resolved) {
+            set({ error: 'Instruction version not found.' })
+            return
+          }
+
+          const updatedTest = {
+            ...get().currentTest,
+            instructions: resolved.version.instructions,
+            instructionDocumentId: resolved.document.id
+          }
+          set({
+            currentTest: updatedTest
+          })
+
+          // Auto-save to session storage to prevent data loss
+          try {
+            sessionStorage.setItem('instruct-lab-draft', JSON.stringify(updatedTest))
+          } catch (error) {
+            console.warn('Failed to auto-save instructions:', error)
+          }
+        },
+
+        // Test suite actions
+        saveTestSuite: async (suite: TestSuite) => {
+          const saved = { ...suite, updatedAt: Date.now() }
+          const { testSuites } = get()
+          const updatedSuites = testSuites.some(entry => entry.id === suite.id)
+            ? testSuites.map(entry => entry.id === suite.id ? saved : entry)
+            : [...testSuites, saved]
+
+          try {
+            const currentSession = await SessionManager.loadSession()
+            if (currentSession) {
+              const updatedSession = await SessionManager.replaceTestSuites(updatedSuites, currentSession)
+              set({
+                testSuites: updatedSession.testSuites || []
+              })
+            } else {
+              // Fallback to local state only
+              set({ testSuites: updatedSuites })
+            }
+          } catch (error) {
+            console.error('Failed to save test suite:', error)
+            // Fallback to local state only
+            set({ testSuites: updatedSuites })
+          }
+        },
+
+        deleteTestSuite: async (suiteId: string) => {
+          const updatedSuites = get().testSuites.filter(suite => suite.id !== suiteId)
+
+          try {
+            const currentSession = await SessionManager.loadSession()
+            if (currentSession) {
+              const updatedSession = await SessionManager.replaceTestSuites(updatedSuites, currentSession)
+              set({
+                testSuites: updatedSession.testSuites || []
+              })
+            } else {
+              // Fallback to local state only
+              set({ testSuites: updatedSuites })
+            }
+          } catch (error) {
+            console.error('Failed to delete test suite:', error)
+            // Fallback to local state only
+            set({ testSuites: updatedSuites })
+          }
+        },
+
+        runSuite: async (suiteId: string) => {
+          const { currentTest, settings, apiKey, testSuites } = get()
+          const suite = testSuites.find(entry => entry.id === suiteId)
+
+          if (!suite) {
+            set({ error: 'Test suite not found.' })
+            return
+          }
+
+          if (!currentTest.model || !settings.evaluationModel) {
+            set({ error: 'Missing required data for evaluation. Please select both primary and evaluation models.' })
+            return
+          }
+
+          const suiteErrors = validateTestSuite(suite)
+          if (suiteErrors.length > 0) {
+            set({ error: `Test suite is not ready to run: ${suiteErrors[0]}` })
+            return
+          }
+
+          // Only models served through OpenRouter need its key, unless the proxy holds one
+          const selectedModels = [currentTest.model, settings.evaluationModel, ...(settings.additionalEvaluationModels || [])]
+          if (!apiKey && openRouterService.requiresApiKey && selectedModels.some(usesOpenRouter)) {
+            set({ error: 'An OpenRouter API key is required for the selected models.' })
+            return
+          }
+
+          const controller = startActiveRun()
+          const baseParams = buildTestParams(get(), { systemInstructions: suite.instructions, signal: controller.signal })
+          const { rubric, judgeTemplate } = baseParams
+
+          const startTime = Date.now()
+          const suiteRun: SuiteRun = {
+            id: crypto.randomUUID(),
+            suiteId: suite.id,
+            suiteName: suite.name,
+            timestamp: startTime,
+            model: currentTest.model.name,
+            modelProvider: currentTest.model.provider,
+            instructions: suite.instructions,
+            passThreshold: suite.passThreshold,
+            results: createPendingResults(suite),
+            summary: summarizeSuiteRun([], 0),
+            rubric,
+            judgeTemplateVersion: getJudgeTemplateVersionId(judgeTemplate)
+          }
+
+          set({
+            currentTest: {
+              ...currentTest,
+              status: 'evaluating',
+              suiteRun,
+              matrixRun: null,
+              matrixTestRuns: null,
+              optimizerRun: null,
+              ablationRun: null,
+              error: null
+            },
+            isLoading: true,
+            error: null
+          })
+
+          try {
+            const results = await runSuiteCases(
+              suite,
+              testCase => EvaluationEngine.executeEvaluation({
+                ...baseParams,
+                ...buildCaseParams(testCase, currentTest.variables)
+              }),
+              {
+                signal: controller.signal,
+                // Show each case's progress as it starts and finishes
+                onCaseUpdate: (result, index) => set(state => {
+                  const current = state.currentTest.suiteRun
+                  if (current?.id !== suiteRun.id) {
+                    return {}
+                  }
+                  const updatedResults = [...current.results]
+                  updatedResults[index] = result
+                  return { currentTest: { ...state.currentTest, suiteRun: { ...current, results: updatedResults } } }
+                })
+              }
+            )
+
+            await get().completeSuiteRun({
+              ...suiteRun,
+              results,
+              summary: summarizeSuiteRun(results, Date.now() - startTime)
+            })
+          } catch (error) {
+            // Cancelled: back to the test step with the suite as it was
+            handleRunFailure(set, get, error, controller.signal.aborted, 'Suite run', { suiteRun: null })
+          } finally {
+            finishActiveRun(controller)
+          }
+        },
+
+        completeSuiteRun: async (suiteRun: SuiteRun) => {
+          const { currentTest, settings } = get()
+
+          set({
+            currentTest: {
+              ...currentTest,
+              status: 'complete',
+              currentStep: 3, // Automatically advance to results step
+              suiteRun,
+              comparison: null,
+              matrixRun: null,
+              matrixTestRuns: null,
+              optimizerRun: null,
+              ablationRun: null,
+              results: null,
+              response: null,
+              streamingResponse: null,
+              streamTiming: null,
+              transcript: null,
+              assertionResults: null,
+              tokenUsage: null,
+              executionTime: suiteRun.summary.executionTime,
+              cost: suiteRun.summary.totalCost
+            },
+            isLoading: false
+          })
+
+          if (settings.autoSave) {
+            await get().addSuiteRunToHistory(suiteRun)
+          }
+        },
+
+        // Matrix run actions
+        runMatrix: async (matrixConfig: MatrixConfig) => {
+          const { currentTest, settings, apiKey } = get()
+
+          if (!settings.evaluationModel) {
+            set({ error: 'Missing required data for evaluation. Please select an evaluation model.' })
+            return
+          }
+
+          const matrixErrors = validateMatrixConfig(matrixConfig)
+          if (matrixErrors.length > 0) {
+            set({ error: `Matrix run is not ready: ${matrixErrors[0]}` })
+            return
+          }
+
+          // Only models served through OpenRouter need its key, unless the proxy holds one
+          const selectedModels = [...matrixConfig.models, settings.evaluationModel, ...(settings.additionalEvaluationModels || [])]
+          if (!apiKey && openRouterService.requiresApiKey && selectedModels.some(usesOpenRouter)) {
+            set({ error: 'An OpenRouter API key is required for the selected models.' })
+            return
+          }
+
+          const controller = startActiveRun()
+          const baseParams = buildTestParams(get(), { signal: controller.signal })
+          const { rubric, judgeTemplate } = baseParams
+
+          const startTime = Date.now()
+          const matrixRun: MatrixRun = {
+            id: crypto.randomUUID(),
+            timestamp: startTime,
+            models: matrixConfig.models.map(({ id, name, provider }) => ({ id, name, provider })),
+            variants: matrixConfig.variants,
+            prompts: matrixConfig.prompts,
+            passThreshold: matrixConfig.passThreshold ?? DEFAULT_PASS_THRESHOLD,
+            cells: createMatrixCells(matrixConfig.models, matrixConfig.variants),
+            executionTime: 0,
+            cost: 0,
+            rubric,
+            judgeTemplateVersion: getJudgeTemplateVersionId(judgeTemplate)
+          }
+
+          set({
+            currentTest: {
+              ...currentTest,
+              status: 'evaluating',
+              suiteRun: null,
+              matrixRun,
+              matrixTestRuns: null,
+              optimizerRun: null,
+              ablationRun: null,
+              error: null
+            },
+            isLoading: true,
+            error: null
+          })
+
+          try {
+            const variables = mergeVariables(currentTest.variables, matrixConfig.variables)
+            const { cells, testRuns } = await runMatrix({ ...matrixConfig, variables }, {
+              matrixRunId: matrixRun.id,
+              details: { rubric, judgeTemplateVersion: matrixRun.judgeTemplateVersion },
+              runCase: (model, variant, testCase) => EvaluationEngine.executeEvaluation({
+                ...baseParams,
+                model,
+                systemInstructions: variant.instructions,
+                ...buildCaseParams(testCase, variables)
+              }),
+              signal: controller.signal,
+              // Show each cell's progress as its prompts finish
+              onCellUpdate: (cell, index) => set(state => {
+                const current = state.currentTest.matrixRun
+                if (current?.id !== matrixRun.id) {
+                  return {}
+                }
+                const updatedCells = [...current.cells]
+                updatedCells[index] = cell
+                return { currentTest: { ...state.currentTest, matrixRun: { ...current, cells: updatedCells } } }
+              })
+            })
+
+            // Variants that match a saved instruction version point back to it
+            const { instructionDocuments } = get()
+            const versionedRuns = testRuns.map(testRun => {
+              const match = findVersionByText(instructionDocuments, testRun.template?.instructions ?? testRun.instructions)
+              return match ? { ...testRun, instructionVersion: getInstructionVersionId(match.document, match.version) } : testRun
+            })
+
+            await get().completeMatrixRun({
+              ...matrixRun,
+              cells,
+              executionTime: Date.now() - startTime,
+              cost: cells.reduce((total, cell) => total + cell.totalCost, 0)
+            }, versionedRuns)
+          } catch (error) {
+            // Cancelled: back to the test step with the setup as it was
+            handleRunFailure(set, get, error, controller.signal.aborted, 'Matrix run', { matrixRun: null })
+          } finally {
+            finishActiveRun(controller)
+          }
+        },
+
+        completeMatrixRun: async (matrixRun: MatrixRun, testRuns: TestRun[]) => {
+          const { currentTest, settings } = get()
+
+          set({
+            currentTest: {
+              ...currentTest,
+              status: 'complete',
+              currentStep: 3, // Automatically advance to results step
+              matrixRun,
+              matrixTestRuns: testRuns,
+              optimizerRun: null,
+              ablationRun: null,
+              suiteRun: null,
+              comparison: null,
+              results: null,
+              response: null,
+              streamingResponse: null,
+              streamTiming: null,
+              transcript: null,
+              assertionResults: null,
+              tokenUsage: null,
+              executionTime: matrixRun.executionTime,
+              cost: matrixRun.cost
+            },
+            isLoading: false
+          })
+
+          if (settings.autoSave) {
+            await get().addMatrixRunToHistory(matrixRun, testRuns)
+          }
+        },
+
+        // Instruction optimizer actions
+        runOptimizer: async (optimizerConfig: OptimizerConfig) => {
+          const { currentTest, settings, apiKey } = get()
+
+          if (!currentTest.model || !settings.evaluationModel) {
+            set({ error: 'Missing required data for evaluation. Please select a model and evaluation model.' })
+            return
+          }
+
+          const optimizerErrors = validateOptimizerConfig(optimizerConfig)
+          if (optimizerErrors.length > 0) {
+            set({ error: `Optimizer is not ready: ${optimizerErrors[0]}` })
+            return
+          }
+
+          // The evaluation model also proposes the revisions
+          const selectedModels = [currentTest.model, settings.evaluationModel, ...(settings.additionalEvaluationModels || [])]
+          if (!apiKey && openRouterService.requiresApiKey && selectedModels.some(usesOpenRouter)) {
+            set({ error: 'An OpenRouter API key is required for the selected models.' })
+            return
+          }
+
+          const controller = startActiveRun()
+          const baseParams = buildTestParams(get(), { signal: controller.signal })
+          const { rubric, judgeTemplate } = baseParams
+
+          const startTime = Date.now()
+          const model = currentTest.model
+          const evaluationModel = settings.evaluationModel
+          const optimizerRun: OptimizerRun = {
+            id: crypto.randomUUID(),
+            timestamp: startTime,
+            model: model.id,
+            modelProvider: model.provider,
+            optimizerModel: evaluationModel.id,
+            prompts: optimizerConfig.prompts,
+            passThreshold: optimizerConfig.passThreshold ?? DEFAULT_PASS_THRESHOLD,
+            maxRounds: optimizerConfig.maxRounds,
+            maxCost: optimizerConfig.maxCost,
+            candidates: [],
+            bestCandidateId: null,
+            executionTime: 0,
+            cost: 0,
+            rubric,
+            judgeTemplateVersion: getJudgeTemplateVersionId(judgeTemplate)
+          }
+
+          set({
+            currentTest: {
+              ...currentTest,
+              status: 'evaluating',
+              suiteRun: null,
+              matrixRun: null,
+              matrixTestRuns: null,
+              optimizerRun,
+              ablationRun: null,
+              error: null
+            },
+            isLoading: true,
+            error: null
+          })
+
+          try {
+            const variables = mergeVariables(currentTest.variables, optimizerConfig.variables)
+            const { candidates, bestCandidateId, stopReason } = await runOptimizer(optimizerConfig, {
+              runCase: (instructions, testCase) => EvaluationEngine.executeEvaluation({
+                ...baseParams,
+                systemInstructions: instructions,
+                ...buildCaseParams(testCase, variables)
+              }),
+              proposeRevision: (instructions, feedback) => EvaluationEngine.proposeRevision({
+                apiKey: baseParams.apiKey,
+                providers: baseParams.providers,
+                model: evaluationModel,
+                instructions,
+                feedback,
+                signal: controller.signal
+              }),
+              signal: controller.signal,
+              // Show each candidate's progress as its prompts finish
+              onUpdate: (updatedCandidates, updatedBestId) => set(state => {
+                const current = state.currentTest.optimizerRun
+                if (current?.id !== optimizerRun.id) {
+                  return {}
+                }
+                return {
+                  currentTest: {
+                    ...state.currentTest,
+                    optimizerRun: { ...current, candidates: updatedCandidates, bestCandidateId: updatedBestId }
+                  }
+                }
+              })
+            })
+
+            const executionTime = Date.now() - startTime
+            const cost = candidates.reduce((total, candidate) => total + candidate.cost, 0)
+            set({
+              currentTest: {
+                ...get().currentTest,
+                status: 'complete',
+                currentStep: 3, // Automatically advance to results step
+                optimizerRun: { ...optimizerRun, candidates, bestCandidateId, stopReason, executionTime, cost },
+                comparison: null,
+                results: null,
+                response: null,
+                streamingResponse: null,
+                streamTiming: null,
+                transcript: null,
+                assertionResults: null,
+                tokenUsage: null,
+                executionTime,
+                cost
+              },
+              isLoading: false
+            })
+          } catch (error) {
+            // Cancelled: back to the test step with the instructions as they were
+            handleRunFailure(set, get, error, controller.signal.aborted, 'Optimizer run', { optimizerRun: null })
+          } finally {
+            finishActiveRun(controller)
+          }
+        },
+
+        acceptOptimizerCandidate: async (candidateId: string) => {
+          const optimizerRun = get().currentTest.optimizerRun
+          const candidate = optimizerRun?.candidates.find(entry => entry.id === candidateId)
+          if (!optimizerRun || !candidate || candidate.status !== 'complete') {
+            return
+          }
+
+          get().setInstructions(candidate.instructions)
+          const message = candidate.round === 0
+            ? 'Optimizer: starting instructions'
+            : `Optimizer round ${candidate.round}${candidate.rationale ? `: ${candidate.rationale}` : ''}`
+          const versionId = await get().saveInstructionVersion(message)
+
+          set(state => ({
+            currentTest: {
+              ...state.currentTest,
+              optimizerRun: state.currentTest.optimizerRun?.id === optimizerRun.id
+                ? { ...state.currentTest.optimizerRun, acceptedVersion: versionId || undefined }
+                : state.currentTest.optimizerRun
+            }
+          }))
+        },
+
+        // Ablation actions
+        runAblation: async (ablationConfig: AblationConfig) => {
+          const { currentTest, settings, apiKey } = get()
+
+          if (!currentTest.model || !settings.evaluationModel) {
+            set({ error: 'Missing required data for evaluation. Please select a model and evaluation model.' })
+            return
+          }
+
+          const ablationErrors = validateAblationConfig(ablationConfig)
+          if (ablationErrors.length > 0) {
+            set({ error: `Ablation run is not ready: ${ablationErrors[0]}` })
+            return
+          }
+
+          const selectedModels = [currentTest.model, settings.evaluationModel, ...(settings.additionalEvaluationModels || [])]
+          if (!apiKey && openRouterService.requiresApiKey && selectedModels.some(usesOpenRouter)) {
+            set({ error: 'An OpenRouter API key is required for the selected models.' })
+            return
+          }
+
+          const controller = startActiveRun()
+          const baseParams = buildTestParams(get(), { signal: controller.signal })
+          const { rubric, judgeTemplate } = baseParams
+
+          const startTime = Date.now()
+          const model = currentTest.model
+          const ablationRun: AblationRun = {
+            id: crypto.randomUUID(),
+            timestamp: startTime,
+            model: model.id,
+            modelProvider: model.provider,
+            mode: ablationConfig.mode,
+            instructions: ablationConfig.instructions,
+            prompts: ablationConfig.prompts,
+            passThreshold: ablationConfig.passThreshold ?? DEFAULT_PASS_THRESHOLD,
+            variants: createAblationVariants(ablationConfig.instructions, ablationConfig.mode, ablationConfig.prompts),
+            executionTime: 0,
+            cost: 0,
+            rubric,
+            judgeTemplateVersion: getJudgeTemplateVersionId(judgeTemplate)
+          }
+
+          set({
+            currentTest: {
+              ...currentTest,
+              status: 'evaluating',
+              suiteRun: null,
+              matrixRun: null,
+              matrixTestRuns: null,
+              optimizerRun: null,
+              ablationRun,
+              error: null
+            },
+            isLoading: true,
+            error: null
+          })
+
+          try {
+            const variables = mergeVariables(currentTest.variables, ablationConfig.variables)
+            const variants = await runAblation(ablationConfig, {
+              runCase: (instructions, testCase) => EvaluationEngine.executeEvaluation({
+                ...baseParams,
+                systemInstructions: instructions,
+                ...buildCaseParams(testCase, variables)
+              }),
+              signal: controller.signal,
+              // Show each variant's progress as its prompts finish
+              onVariantUpdate: (variant, index) => set(state => {
+                const current = state.currentTest.ablationRun
+                if (current?.id !== ablationRun.id) {
+                  return {}
+                }
+                const updatedVariants = [...current.variants]
+                updatedVariants[index] = variant
+                return { currentTest: { ...state.currentTest, ablationRun: { ...current, variants: updatedVariants } } }
+              })
+            })
+
+            const executionTime = Date.now() - startTime
+            const cost = variants.reduce((total, variant) => total + (variant.summary?.totalCost || 0), 0)
+            set({
+              currentTest: {
+                ...get().currentTest,
+                status: 'complete',
+                currentStep: 3, // Automatically advance to results step
+                ablationRun: { ...ablationRun, variants, executionTime, cost },
+                comparison: null,
+                results: null,
+                response: null,
+                streamingResponse: null,
+                streamTiming: null,
+                transcript: null,
+                assertionResults: null,
+                tokenUsage: null,
+                executionTime,
+                cost
+              },
+              isLoading: false
+            })
+          } catch (error) {
+            // Cancelled: back to the test step with the instructions as they were
+            handleRunFailure(set, get, error, controller.signal.aborted, 'Ablation run', { ablationRun: null })
+          } finally {
+            finishActiveRun(controller)
+          }
+        },
+
         // History management actions
         addToHistory: async (testRun: TestRun) => {
           try {
@@ -544,29 +1554,149 @@ export const useAppStore = create<AppState & AppActions>()(
           }
         },
 
+        addComparisonToHistory: async (comparison: ComparisonRun) => {
+          try {
+            const currentSession = await SessionManager.loadSession()
+            if (currentSession) {
+              const updatedSession = await SessionManager.addComparisonToHistory(comparison, currentSession)
+              set({
+                comparisonHistory: updatedSession.comparisonHistory || []
+              })
+            } else {
+              // Fallback to local state only
+              const { comparisonHistory } = get()
+              set({
+                comparisonHistory: [comparison, ...comparisonHistory]
+              })
+            }
+          } catch (error) {
+            console.error('Failed to add comparison to history:', error)
+            // Fallback to local state only
+            const { comparisonHistory } = get()
+            set({
+              comparisonHistory: [comparison, ...comparisonHistory]
+            })
+          }
+        },
+
+        addSuiteRunToHistory: async (suiteRun: SuiteRun) => {
+          try {
+            const currentSession = await SessionManager.loadSession()
+            if (currentSession) {
+              const updatedSession = await SessionManager.addSuiteRunToHistory(suiteRun, currentSession)
+              set({
+                suiteHistory: updatedSession.suiteHistory || []
+              })
+            } else {
+              // Fallback to local state only
+              const { suiteHistory } = get()
+              set({
+                suiteHistory: [suiteRun, ...suiteHistory]
+              })
+            }
+          } catch (error) {
+            console.error('Failed to add suite run to history:', error)
+            // Fallback to local state only
+            const { suiteHistory } = get()
+            set({
+              suiteHistory: [suiteRun, ...suiteHistory]
+            })
+          }
+        },
+
+        addMatrixRunToHistory: async (matrixRun: MatrixRun, testRuns: TestRun[]) => {
+          try {
+            const currentSession = await SessionManager.loadSession()
+            if (currentSession) {
+              const updatedSession = await SessionManager.addMatrixRunToHistory(matrixRun, testRuns, currentSession)
+              set({
+                testHistory: updatedSession.testHistory,
+                matrixHistory: updatedSession.matrixHistory || []
+              })
+            } else {
+              // Fallback to local state only
+              const { testHistory, matrixHistory } = get()
+              set({
+                testHistory: [...testRuns, ...testHistory],
+                matrixHistory: [matrixRun, ...matrixHistory]
+              })
+            }
+          } catch (error) {
+            console.error('Failed to add matrix run to history:', error)
+            // Fallback to local state only
+            const { testHistory, matrixHistory } = get()
+            set({
+              testHistory: [...testRuns, ...testHistory],
+              matrixHistory: [matrixRun, ...matrixHistory]
+            })
+          }
+        },
+
         clearHistory: async () => {
           try {
             const currentSession = await SessionManager.loadSession()
             if (currentSession) {
               const updatedSession = await SessionManager.clearTestHistory(currentSession)
               set({
-                testHistory: updatedSession.testHistory
+                testHistory: updatedSession.testHistory,
+                comparisonHistory: [],
+                suiteHistory: [],
+                matrixHistory: []
               })
             } else {
               set({
-                testHistory: []
+                testHistory: [],
+                comparisonHistory: [],
+                suiteHistory: [],
+                matrixHistory: []
               })
             }
           } catch (error) {
             console.error('Failed to clear history:', error)
             set({
-              testHistory: []
+              testHistory: [],
+              comparisonHistory: [],
+              suiteHistory: [],
+              matrixHistory: []
+            })
+          }
+        },
+
+        recomputeHistoryScores: async () => {
+          const { testHistory, settings } = get()
+          const rubric = settings.rubric || DEFAULT_RUBRIC
+          const reweighted = testHistory.map(testRun => reweightTestRun(testRun, rubric))
+
+          try {
+            const currentSession = await SessionManager.loadSession()
+            if (currentSession) {
+              const updatedSession = await SessionManager.replaceTestHistory(
+                currentSession.testHistory.map(testRun => reweightTestRun(testRun, rubric)),
+                currentSession
+              )
+              set({
+                testHistory: updatedSession.testHistory
+              })
+            } else {
+              set({
+                testHistory: reweighted
+              })
+            }
+          } catch (error) {
+            console.error('Failed to recompute history scores:', error)
+            set({
+              testHistory: reweighted
             })
           }
         },
 
         // Settings management actions
         updateSettings: async (newSettings: Partial<UserSettings>) => {
+          // A changed provider list means a different set of models
+          if (newSettings.providers) {
+            set({ modelsLastFetched: null })
+          }
+
           try {
             const currentSession = await SessionManager.loadSession()
             if (currentSession) {
@@ -599,7 +1729,7 @@ export const useAppStore = create<AppState & AppActions>()(
 
         // Models management actions
         fetchModels: async () => {
-          const { modelsLastFetched, apiKey } = get()
+          const { modelsLastFetched, apiKey, settings } = get()
           const operationId = 'fetch_models'
           
           // Check cache first and record cache event
@@ -608,7 +1738,9 @@ export const useAppStore = create<AppState & AppActions>()(
             return
           }
 
-          if (!apiKey) {
+          const providers = getActiveProviders(settings.providers)
+          const canUseOpenRouter = !!apiKey || !openRouterService.requiresApiKey
+          if (!canUseOpenRouter && providers.length === 0) {
             set({ error: 'API key required to fetch models' })
             return
           }
@@ -624,7 +1756,25 @@ export const useAppStore = create<AppState & AppActions>()(
 
             // Time the API call
             const models = await performanceMonitor.timeAsync('fetch_models_api', async () => {
-              return await openRouterService.fetchModels(apiKey)
+              // Other providers add to the list; one that fails is skipped
+              // unless no models were found at all
+              const failures: unknown[] = []
+              const modelLists = await Promise.all([
+                canUseOpenRouter ? openRouterService.fetchModels(apiKey || '') : Promise.resolve([]),
+                ...providers.map(config =>
+                  createProvider(config).fetchModels(config.apiKey).catch(error => {
+                    console.warn(`Failed to fetch models from ${config.name}:`, error)
+                    failures.push(error)
+                    return []
+                  })
+                )
+              ])
+
+              const allModels = modelLists.flat()
+              if (allModels.length === 0 && failures.length > 0) {
+                throw failures[0]
+              }
+              return allModels
             })
 
             performanceMonitor.recordCacheEvent('models_fetch', false)
@@ -690,6 +1840,16 @@ export const useCurrentTest = () => useAppStore((state) => state.currentTest)
 
 export const useTestHistory = () => useAppStore((state) => state.testHistory)
 
+export const useComparisonHistory = () => useAppStore((state) => state.comparisonHistory)
+
+export const useSuiteHistory = () => useAppStore((state) => state.suiteHistory)
+
+export const useTestSuites = () => useAppStore((state) => state.testSuites)
+
+export const useMatrixHistory = () => useAppStore((state) => state.matrixHistory)
+
+export const useInstructionDocuments = () => useAppStore((state) => state.instructionDocuments)
+
 export const useAppError = () => useAppStore((state) => ({
   error: state.error,
   isLoading: state.isLoading
@@ -735,13 +1895,49 @@ export const useTestActions = () => useAppStore((state) => ({
   selectEvaluationModel: state.selectEvaluationModel,
   setInstructions: state.setInstructions,
   setPrompt: state.setPrompt,
+  setConversation: state.setConversation,
+  setAssertions: state.setAssertions,
+  setReferenceAnswer: state.setReferenceAnswer,
+  setComparisonInstructions: state.setComparisonInstructions,
+  setVariables: state.setVariables,
   runEvaluation: state.runEvaluation,
+  cancelEvaluation: state.cancelEvaluation,
   resetCurrentTest: state.resetCurrentTest
 }))
 
+export const useSuiteActions = () => useAppStore((state) => ({
+  saveTestSuite: state.saveTestSuite,
+  deleteTestSuite: state.deleteTestSuite,
+  runSuite: state.runSuite
+}))
+
+export const useInstructionVersionActions = () => useAppStore((state) => ({
+  saveInstructionVersion: state.saveInstructionVersion,
+  createInstructionDocument: state.createInstructionDocument,
+  renameInstructionDocument: state.renameInstructionDocument,
+  loadInstructionVersion: state.loadInstructionVersion
+}))
+
+export const useMatrixActions = () => useAppStore((state) => ({
+  runMatrix: state.runMatrix
+}))
+
+export const useOptimizerActions = () => useAppStore((state) => ({
+  runOptimizer: state.runOptimizer,
+  acceptOptimizerCandidate: state.acceptOptimizerCandidate
+}))
+
+export const useAblationActions = () => useAppStore((state) => ({
+  runAblation: state.runAblation
+}))
+
 export const useHistoryActions = () => useAppStore((state) => ({
   addToHistory: state.addToHistory,
-  clearHistory: state.clearHistory
+  addComparisonToHistory: state.addComparisonToHistory,
+  addSuiteRunToHistory: state.addSuiteRunToHistory,
+  addMatrixRunToHistory: state.addMatrixRunToHistory,
+  clearHistory: state.clearHistory,
+  recomputeHistoryScores: state.recomputeHistoryScores
 }))
 
 export const useModelsActions = () => useAppStore((state) => ({
@@ -0,0 +1,243 @@
+// Test suites: many prompts run against one set of instructions
+
+import { AssertionResult, SuccessMetrics, SuiteCaseResult, SuiteSummary, TestCase, TestSuite } from './types'
+import { MAX_ASSERTIONS, validateAssertion } from './assertions'
+import { mean } from './statistics'
+import { throwIfCancelled } from './errorHandling'
+import { validateInstructions, validatePrompt } from './validation'
+import type { TestResult } from '@/services/evaluationEngine'
+
+export const MAX_SUITE_CASES = 100
+
+// Cases evaluated at the same time; more would run into provider rate limits
+export const SUITE_CONCURRENCY = 3
+
+export const DEFAULT_PASS_THRESHOLD = 70
+
+// Cases listed as the worst in a summary
+const WORST_CASE_COUNT = 3
+
+export interface RunSuiteOptions {
+  concurrency?: number // Defaults to SUITE_CONCURRENCY
+  signal?: AbortSignal
+  onCaseUpdate?: (result: SuiteCaseResult, index: number) => void // Called as each case starts and finishes
+}
+
+/**
+ * Creates a test case with the given prompt and no checks
+ */
+export function createTestCase(prompt = ''): TestCase {
+  return { id: crypto.randomUUID(), prompt }
+}
+
+/**
+ * Creates a suite for the given instructions, starting with one empty case
+ * unless cases are given
+ */
+export function createTestSuite(name: string, instructions: string, cases: TestCase[] = [createTestCase()], now = Date.now()): TestSuite {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    instructions,
+    cases,
+    passThreshold: DEFAULT_PASS_THRESHOLD,
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+/**
+ * Validates a suite and returns a list of problems (empty when valid)
+ */
+export function validateTestSuite(suite: TestSuite): string[] {
+  const errors: string[] = []
+
+  if (!suite.name.trim()) {
+    errors.push('Suite name is required')
+  }
+
+  const instructions = validateInstructions(suite.instructions)
+  if (!instructions.isValid) {
+    errors.push(`Instructions: ${instructions.message}`)
+  }
+
+  if (!(suite.passThreshold >= 0 && suite.passThreshold <= 100)) {
+    errors.push('Pass threshold must be between 0 and 100')
+  }
+
+  return [...errors, ...validateTestCases(suite.cases)]
+}
+
+/**
+ * Validates a list of test cases and returns a list of problems (empty when valid)
+ */
+export function validateTestCases(cases: TestCase[]): string[] {
+  const errors: string[] = []
+
+  if (cases.length === 0) {
+    errors.push('At least one test case is required')
+  }
+
+  if (cases.length > MAX_SUITE_CASES) {
+    errors.push(`A suite can have at most ${MAX_SUITE_CASES} test cases`)
+  }
+
+  cases.forEach((testCase, index) => {
+    const prompt = validatePrompt(testCase.prompt)
+    if (!prompt.isValid) {
+      errors.push(`Case ${index + 1}: ${prompt.message}`)
+    }
+    if ((testCase.assertions?.length || 0) > MAX_ASSERTIONS) {
+      errors.push(`Case ${index + 1}: at most ${MAX_ASSERTIONS} assertions are allowed`)
+    }
+    testCase.assertions?.forEach(assertion => {
+      validateAssertion(assertion).forEach(error => errors.push(`Case ${index + 1}: ${error}`))
+    })
+  })
+
+  return errors
+}
+
+/**
+ * Whether a scored case passed: every assertion holds and the overall
+ * score reaches the threshold. Cases the judge could not score are errors.
+ */
+export function getCaseStatus(
+  metrics: SuccessMetrics,
+  assertionResults: AssertionResult[] | undefined,
+  passThreshold: number
+): 'passed' | 'failed' | 'error' {
+  if (metrics.evaluationError) {
+    return 'error'
+  }
+  if (assertionResults?.some(result => !result.passed)) {
+    return 'failed'
+  }
+  return metrics.overallScore >= passThreshold ? 'passed' : 'failed'
+}
+
+/**
+ * Turns an evaluation result into the case's result
+ */
+export function toCaseResult(testCase: TestCase, result: TestResult, passThreshold: number): SuiteCaseResult {
+  return {
+    caseId: testCase.id,
+    prompt: testCase.prompt,
+    status: getCaseStatus(result.metrics, result.assertionResults, passThreshold),
+    response: result.response,
+    metrics: result.metrics,
+    tokenUsage: result.tokenUsage,
+    cost: result.cost,
+    executionTime: result.executionTime,
+    ...(result.assertionResults && { assertionResults: result.assertionResults }),
+    ...(result.metrics.evaluationError && { error: result.metrics.evaluationError })
+  }
+}
+
+/**
+ * A result for every case of the suite, none of them run yet
+ */
+export function createPendingResults(suite: Pick<TestSuite, 'cases'>): SuiteCaseResult[] {
+  return suite.cases.map(testCase => ({
+    caseId: testCase.id,
+    prompt: testCase.prompt,
+    status: 'pending',
+    cost: 0,
+    executionTime: 0
+  }))
+}
+
+/**
+ * Runs every case of a suite through runCase, a few at a time, and returns
+ * the results in case order. A case that fails is recorded as an error and
+ * the rest carry on; cancelling stops the run and rejects.
+ */
+export async function runSuiteCases(
+  suite: Pick<TestSuite, 'cases' | 'passThreshold'>,
+  runCase: (testCase: TestCase) => Promise<TestResult>,
+  options: RunSuiteOptions = {}
+): Promise<SuiteCaseResult[]> {
+  const { signal, onCaseUpdate } = options
+  const concurrency = Math.max(1, Math.floor(options.concurrency ?? SUITE_CONCURRENCY))
+  const results = createPendingResults(suite)
+
+  const update = (index: number, result: SuiteCaseResult) => {
+    results[index] = result
+    onCaseUpdate?.(result, index)
+  }
+
+  let nextIndex = 0
+  const worker = async () => {
+    while (nextIndex < suite.cases.length) {
+      throwIfCancelled(signal)
+      const index = nextIndex++
+      const testCase = suite.cases[index]
+      const startTime = Date.now()
+      update(index, { ...results[index], status: 'running' })
+
+      try {
+        update(index, toCaseResult(testCase, await runCase(testCase), suite.passThreshold))
+      } catch (error) {
+        if (signal?.aborted || (error as { type?: string })?.type === 'cancelled') {
+          throw error
+        }
+        update(index, {
+          ...results[index],
+          status: 'error',
+          executionTime: Date.now() - startTime,
+          error: (error as { message?: string })?.message || String(error)
+        })
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, suite.cases.length) }, worker))
+  return results
+}
+
+/**
+ * Aggregates a suite run: pass rate, mean scores over the cases that were
+ * scored, the worst cases and the total cost
+ */
+export function summarizeSuiteRun(results: SuiteCaseResult[], executionTime: number): SuiteSummary {
+  const scored = results.filter(result => result.metrics && !result.metrics.evaluationError)
+  const passedCases = results.filter(result => result.status === 'passed').length
+  const erroredCases = results.filter(result => result.status === 'error').length
+
+  const criterionMeans: SuiteSummary['criterionMeans'] = []
+  scored.forEach(result => {
+    result.metrics!.criterionScores.forEach(score => {
+      if (!criterionMeans.some(entry => entry.criterionId === score.criterionId)) {
+        criterionMeans.push({ criterionId: score.criterionId, name: score.name, mean: 0 })
+      }
+    })
+  })
+  criterionMeans.forEach(entry => {
+    const scores = scored
+      .map(result => result.metrics!.criterionScores.find(score => score.criterionId === entry.criterionId)?.normalizedScore)
+      .filter((score): score is number => score !== undefined)
+    entry.mean = Math.round(mean(scores))
+  })
+
+  // Unscored cases sort first, then by ascending score
+  const sortScore = (result: SuiteCaseResult) =>
+    result.metrics && !result.metrics.evaluationError ? result.metrics.overallScore : -1
+  const worstCaseIds = [...results]
+    .sort((a, b) => sortScore(a) - sortScore(b))
+    .slice(0, WORST_CASE_COUNT)
+    .map(result => result.caseId)
+
+  return {
+    totalCases: results.length,
+    passedCases,
+    failedCases: results.filter(result => result.status === 'failed').length,
+    erroredCases,
+    passRate: results.length > 0 ? Math.round((passedCases / results.length) * 100) : 0,
+    meanOverallScore: scored.length > 0 ? Math.round(mean(scored.map(result => result.metrics!.overallScore))) : null,
+    criterionMeans,
+    worstCaseIds,
+    totalCost: results.reduce((sum, result) => sum + result.cost, 0),
+    totalTokens: results.reduce((sum, result) => sum + (result.tokenUsage?.totalTokens || 0), 0),
+    executionTime
+  }
+}
\ No newline at end of file
@@ -0,0 +1,84 @@
+// {{variable}} placeholders in instructions and prompts
+
+import { TestRun } from './types'
+
+// Names allowed inside {{ }}
+export const TEMPLATE_VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+const hasValue = (values: Record<string, string>, name: string) => Object.prototype.hasOwnProperty.call(values, name)
+
+const TEMPLATE_VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g
+
+/**
+ * Variable names used in the texts, in order of first use
+ */
+export function extractTemplateVariables(...texts: string[]): string[] {
+  const names: string[] = []
+  texts.forEach(text => {
+    const pattern = new RegExp(TEMPLATE_VARIABLE_PATTERN.source, 'g')
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(text || '')) !== null) {
+      if (!names.includes(match[1])) {
+        names.push(match[1])
+      }
+    }
+  })
+  return names
+}
+
+/**
+ * Variables used in the texts that have no value. Blank values count as missing.
+ */
+export function findMissingVariables(texts: string[], values: Record<string, string>): string[] {
+  return extractTemplateVariables(...texts).filter(name => !values[name]?.trim())
+}
+
+/**
+ * Fills in the placeholders in a single pass, so placeholder-like text inside
+ * a value is kept as is. Placeholders without a value are left in place.
+ */
+export function interpolateTemplate(text: string, values: Record<string, string>): string {
+  return text.replace(TEMPLATE_VARIABLE_PATTERN, (match, name: string) =>
+    hasValue(values, name) ? values[name] : match
+  )
+}
+
+/**
+ * Combines sets of values; later sets win, except where their value is blank
+ */
+export function mergeVariables(...sources: (Record<string, string> | undefined)[]): Record<string, string> {
+  const merged: Record<string, string> = {}
+  sources.forEach(source => {
+    Object.entries(source || {}).forEach(([name, value]) => {
+      if (value.trim() || !hasValue(merged, name)) {
+        merged[name] = value
+      }
+    })
+  })
+  return merged
+}
+
+/**
+ * The instructions and prompt a TestRun records: the resolved text, plus the
+ * templates and the values used when either contains a variable
+ */
+export function resolveTemplateRun(
+  instructions: string,
+  prompt: string,
+  values: Record<string, string>
+): Pick<TestRun, 'instructions' | 'prompt' | 'template'> {
+  const names = extractTemplateVariables(instructions, prompt)
+  if (names.length === 0) {
+    return { instructions, prompt }
+  }
+
+  return {
+    instructions: interpolateTemplate(instructions, values),
+    prompt: interpolateTemplate(prompt, values),
+    template: {
+      instructions,
+      prompt,
+      variables: Object.fromEntries(names.filter(name => hasValue(values, name)).map(name => [name, values[name]]))
+    }
+  }
+}
\ No newline at end of file
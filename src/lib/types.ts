@@ -10,6 +10,19 @@ export interface Model {
     completion: number
   }
   description?: string
+  supportedParameters?: string[] // Request parameters the provider accepts, e.g. "response_format"
+  providerId?: string // Provider that serves the model; OpenRouter when unset
+}
+
+export type ProviderKind = 'openai-compatible' | 'anthropic' | 'local' | 'mock'
+
+// A model provider the user has added alongside OpenRouter
+export interface ProviderConfig {
+  id: string
+  name: string
+  kind: ProviderKind
+  baseUrl: string
+  apiKey: string // Optional for local servers; stored with the encrypted session
 }
 
 export interface TestRun {
@@ -24,15 +37,416 @@ export interface TestRun {
   tokenUsage: TokenStats
   executionTime: number
   cost: number
+  rubric?: Rubric // Rubric the judge scored against
+  conversation?: ConversationTurn[] // Full transcript for multi-turn tests
+  assertionResults?: AssertionResult[] // Deterministic checks run on the response
+  referenceAnswer?: string // Expected answer the response was graded against
+  judgeTemplateVersion?: string // Judge template version ID, e.g. "default@1"
+  streamTiming?: StreamTiming // Set when the primary response was streamed
+  matrixRunId?: string // Matrix run the test was part of
+  template?: TemplateSource // Set when the instructions or prompt used {{variables}}; instructions and prompt hold the resolved text
+  instructionVersion?: string // Instruction version ID, e.g. "<document id>@7"
 }
 
-export interface SuccessMetrics {
-  overallScore: number // 0-100
-  coherenceScore: number // 0-100
-  taskCompletionScore: number // 0-100
+// Instructions and prompt as written, with the variable values they were resolved with
+export interface TemplateSource {
+  instructions: string
+  prompt: string
+  variables: Record<string, string>
+}
+
+export type AssertionType =
+  | 'regex'
+  | 'notRegex'
+  | 'isJson'
+  | 'jsonSchema'
+  | 'wordCount'
+  | 'characterCount'
+  | 'sentenceCount'
+  | 'contains'
+  | 'excludes'
+  | 'startsWith'
+  | 'endsWith'
+
+export interface Assertion {
+  id: string
+  type: AssertionType
+  value?: string // Pattern, prefix/suffix, or JSON Schema source
+  values?: string[] // Phrases for contains/excludes
+  min?: number // Lower bound for count assertions
+  max?: number // Upper bound for count assertions
+  caseSensitive?: boolean // Text matching ignores case unless set
+}
+
+export interface AssertionResult {
+  assertionId: string
+  type: AssertionType
+  description: string
+  passed: boolean
+  message: string
+}
+
+export type ComparisonVariant = 'A' | 'B'
+
+export interface PairwisePreference {
+  winner: ComparisonVariant | 'tie' | null // null when the judge returned no usable judgment
+  rationale: string
+  presentedFirst: ComparisonVariant // Randomized to cancel position bias
+}
+
+export interface ComparisonVariantResult {
+  instructions: string
+  response: string
+  metrics: SuccessMetrics
+  tokenUsage: TokenStats
+  conversation?: ConversationTurn[]
+  assertionResults?: AssertionResult[]
+}
+
+// A/B comparison of two instruction variants against the same prompt and model
+export interface ComparisonRun {
+  id: string
+  timestamp: number
+  model: string
+  modelProvider: string
+  prompt: string
+  referenceAnswer?: string
+  variantA: ComparisonVariantResult
+  variantB: ComparisonVariantResult
+  preference: PairwisePreference
+  executionTime: number
+  cost: number
+  rubric?: Rubric
+  judgeTemplateVersion?: string
+}
+
+// A prompt in a test suite, with its own checks
+export interface TestCase {
+  id: string
+  prompt: string
+  assertions?: Assertion[]
+  referenceAnswer?: string // Enables reference grading for this case
+  tags?: string[]
+  variables?: Record<string, string> // Template variable values for this case
+}
+
+// Many prompts run against one set of instructions
+export interface TestSuite {
+  id: string
+  name: string
+  instructions: string
+  cases: TestCase[]
+  passThreshold: number // Overall score (0-100) a case needs to pass
+  createdAt: number
+  updatedAt: number
+}
+
+export type SuiteCaseStatus = 'pending' | 'running' | 'passed' | 'failed' | 'error'
+
+export interface SuiteCaseResult {
+  caseId: string
+  prompt: string
+  status: SuiteCaseStatus
+  response?: string
+  metrics?: SuccessMetrics
+  assertionResults?: AssertionResult[]
+  tokenUsage?: TokenStats
+  cost: number
+  executionTime: number
+  error?: string // Why the case could not be run
+}
+
+export interface SuiteSummary {
+  totalCases: number
+  passedCases: number
+  failedCases: number
+  erroredCases: number // Cases that could not be run or scored
+  passRate: number // 0-100, passed over all cases
+  meanOverallScore: number | null // Over scored cases; null when none were scored
+  criterionMeans: { criterionId: string; name: string; mean: number }[]
+  worstCaseIds: string[] // Lowest scoring cases first, errors before scores
+  totalCost: number
+  totalTokens: number
+  executionTime: number
+}
+
+// One run of a test suite against one model
+export interface SuiteRun {
+  id: string
+  suiteId: string
+  suiteName: string
+  timestamp: number
+  model: string
+  modelProvider: string
+  instructions: string
+  passThreshold: number
+  results: SuiteCaseResult[] // In the suite's case order
+  summary: SuiteSummary
+  rubric?: Rubric
+  judgeTemplateVersion?: string
+}
+
+// Instructions compared in a matrix run
+export interface InstructionVariant {
+  id: string
+  label: string
+  instructions: string
+}
+
+// One model with one instruction variant in a matrix run, over the whole prompt set
+export interface MatrixCell {
+  modelId: string
+  variantId: string
+  status: 'pending' | 'running' | 'complete'
+  completedCases: number
+  testRunIds: string[] // TestRuns saved for the cell's prompts
+  meanOverallScore: number | null // Over scored prompts; null when none were scored
+  passRate: number // 0-100
+  totalCost: number
+  meanLatency: number | null // Mean execution time in ms of the prompts that ran
+  errors: number // Prompts that could not be run or scored
+}
+
+// Every model run with every instruction variant over a prompt set
+export interface MatrixRun {
+  id: string
+  timestamp: number
+  models: Pick<Model, 'id' | 'name' | 'provider'>[]
+  variants: InstructionVariant[]
+  prompts: TestCase[]
+  passThreshold: number
+  cells: MatrixCell[] // One per model and variant, grouped by model
+  executionTime: number
+  cost: number
+  rubric?: Rubric
+  judgeTemplateVersion?: string
+}
+
+// What to run in a matrix run
+export interface MatrixConfig {
+  models: Model[]
+  variants: InstructionVariant[]
+  prompts: TestCase[]
+  passThreshold?: number // Defaults to DEFAULT_PASS_THRESHOLD
+  variables?: Record<string, string> // Template variable values; each prompt's own values take precedence
+}
+
+// What to run in an optimizer run
+export interface OptimizerConfig {
+  instructions: string // Starting instructions
+  prompts: TestCase[]
+  maxRounds: number // Revisions to try after scoring the starting instructions
+  maxCost: number // Budget in dollars for the whole run, proposals included
+  passThreshold?: number // Defaults to DEFAULT_PASS_THRESHOLD
+  variables?: Record<string, string> // Template variable values; each prompt's own values take precedence
+}
+
+// Instructions scored in an optimizer run. Round 0 is the starting point.
+export interface OptimizerCandidate {
+  id: string
+  round: number
+  instructions: string
+  rationale: string // Why the optimizer proposed the change; empty for round 0
+  status: 'running' | 'complete' | 'rejected'
+  results: SuiteCaseResult[] // In prompt order; empty when rejected, unless the budget ran out part way
+  summary: SuiteSummary | null // Null until scored, and for rejected candidates
+  cost: number // Proposal plus evaluation
+  error?: string // Why a rejected candidate was not scored
+}
+
+export type OptimizerStopReason = 'rounds' | 'budget'
+
+// Revisions proposed from the judge's feedback, each scored over the same prompt set
+export interface OptimizerRun {
+  id: string
+  timestamp: number
+  model: string
+  modelProvider: string
+  optimizerModel: string // Model that proposed the revisions
+  prompts: TestCase[]
+  passThreshold: number
+  maxRounds: number
+  maxCost: number
+  candidates: OptimizerCandidate[] // In round order
+  bestCandidateId: string | null // Highest scoring candidate so far
+  stopReason?: OptimizerStopReason // Set once the run completes
+  acceptedVersion?: string // Instruction version ID an accepted candidate was saved as
+  executionTime: number
+  cost: number
+  rubric?: Rubric
+  judgeTemplateVersion?: string
+}
+
+// How instructions are split into segments for an ablation run
+export type SegmentMode = 'sentence' | 'bullet' | 'section'
+
+// What to run in an ablation run
+export interface AblationConfig {
+  instructions: string
+  mode: SegmentMode
+  prompts: TestCase[]
+  passThreshold?: number // Defaults to DEFAULT_PASS_THRESHOLD
+  variables?: Record<string, string> // Template variable values; each prompt's own values take precedence
+}
+
+// The instructions with one segment removed, or the full instructions, scored over the prompt set
+export interface AblationVariant {
+  segmentIndex: number | null // Segment removed; null for the full instructions
+  segment: string // Removed text, trimmed; empty for the full instructions
+  instructions: string
+  status: 'pending' | 'running' | 'complete'
+  results: SuiteCaseResult[] // In prompt order
+  summary: SuiteSummary | null // Null until complete
+}
+
+// Each segment of the instructions removed in turn to measure what it contributes
+export interface AblationRun {
+  id: string
+  timestamp: number
+  model: string
+  modelProvider: string
+  mode: SegmentMode
+  instructions: string
+  prompts: TestCase[]
+  passThreshold: number
+  variants: AblationVariant[] // Full instructions first, then one per segment in order
+  executionTime: number
+  cost: number
+  rubric?: Rubric
+  judgeTemplateVersion?: string
+}
+
+// Optional TestRun fields carried through completeTest
+export type TestRunDetails = Partial<Pick<TestRun, 'rubric' | 'conversation' | 'assertionResults' | 'referenceAnswer' | 'judgeTemplateVersion' | 'streamTiming' | 'instructionVersion'>>
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant'
+  content: string
+  scripted?: boolean // Assistant reply taken from the script rather than the model; never scored
+}
+
+export interface TurnScore {
+  turn: number // 1-based index of the assistant turn
   instructionAdherenceScore: number // 0-100
-  efficiencyScore: number // 0-100
+  explanation?: string
+}
+
+export interface RubricCriterion {
+  id: string
+  name: string
+  description: string
+  scale: {
+    min: number
+    max: number
+  }
+  weight: number // Relative weight in the overall score
+}
+
+export interface Rubric {
+  id: string
+  name: string
+  criteria: RubricCriterion[]
+}
+
+// Wording sent to the judge. Saved versions are never edited in place, so a
+// run's version ID always identifies the exact prompt that scored it.
+export interface JudgeTemplate {
+  id: string
+  name: string
+  version: number
+  systemPrompt: string
+  prompt: string // Uses {{instructions}}, {{prompt}}, {{response}} and {{rubric}}
+  createdAt: number
+}
+
+// Saved instructions under a name. Versions are append-only: a new version is
+// added on each save and none is edited or removed, so a run's version ID
+// keeps pointing at the text it used.
+export interface InstructionDocument {
+  id: string
+  name: string
+  versions: InstructionVersion[] // Oldest first
+  createdAt: number
+  updatedAt: number
+}
+
+export interface InstructionVersion {
+  version: number // 1-based, increasing within the document
+  instructions: string
+  message: string // What changed, like a commit message; may be empty
+  createdAt: number
+}
+
+export interface CriterionScore {
+  criterionId: string
+  name: string
+  score: number // Raw score on the criterion's scale
+  normalizedScore: number // 0-100
+}
+
+export interface SuccessMetrics {
+  overallScore: number // 0-100, weighted from criterionScores using the rubric weights
+  judgeOverallScore?: number // Overall score as reported by the judge model, kept for comparison
+  criterionScores: CriterionScore[]
   explanation: string
+  turnScores?: TurnScore[] // Per-turn adherence for multi-turn tests
+  ensemble?: EnsembleSummary // Present when more than one judge scored the response
+  sampling?: SamplingSummary // Present when the test was run more than once
+  reference?: ReferenceScore // Present when the test has a reference answer
+  evaluationError?: string // Set when no usable judgment was returned; scores are empty and excluded from statistics
+}
+
+// Grading of a response against an expected answer
+export interface ReferenceScore {
+  correctness: number // 0-100, mean of factual agreement and coverage
+  factualAgreement: number // 0-100, how far the response's claims agree with the reference
+  coverage: number // 0-100, how much of the reference the response covers
+  explanation?: string
+}
+
+export interface MetricStatistics {
+  mean: number
+  standardDeviation: number // Sample standard deviation
+  min: number
+  max: number
+  confidenceInterval: {
+    lower: number
+    upper: number
+  } // 95% interval for the mean
+}
+
+export interface SampleResult {
+  response: string
+  metrics: SuccessMetrics
+  assertionResults?: AssertionResult[]
+}
+
+export interface SamplingSummary {
+  runs: number
+  failedRuns?: number // Samples whose evaluation failed; excluded from the statistics
+  overall: MetricStatistics
+  criteria: {
+    criterionId: string
+    name: string
+    statistics: MetricStatistics // Over normalized 0-100 scores
+  }[]
+  samples: SampleResult[]
+}
+
+export type ScoreAggregation = 'mean' | 'median' | 'trimmedMean'
+
+export interface JudgeResult {
+  modelId: string
+  modelName: string
+  metrics: SuccessMetrics
+}
+
+export interface EnsembleSummary {
+  aggregation: ScoreAggregation
+  judges: JudgeResult[]
+  spread: number // Highest minus lowest judge overall score
+  agreement: number // 0-100, see pairwiseAgreement in lib/statistics
+  failedJudges?: string[] // Model IDs of judges whose call failed
 }
 
 export interface TokenStats {
@@ -41,13 +455,57 @@ export interface TokenStats {
   totalTokens: number
 }
 
+// Generation speed of a streamed primary response
+export interface StreamTiming {
+  timeToFirstToken: number // ms from sending the request to the first content
+  tokensPerSecond: number // Completion tokens over the time spent generating them
+}
+
+// Body of POST /api/evaluations. Models are given by ID.
+export interface EvaluationRequest {
+  model: string
+  judge: string
+  additionalJudges?: string[] // Extra judges for ensemble scoring
+  instructions: string
+  prompt: string
+  settings?: EvaluationRequestSettings
+}
+
+export interface EvaluationRequestSettings {
+  temperature?: number
+  maxTokens?: number
+  runsPerTest?: number
+  judgeAggregation?: ScoreAggregation
+  conversation?: ConversationTurn[]
+  referenceAnswer?: string
+  rubric?: Rubric
+  judgeTemplate?: JudgeTemplate
+  assertions?: Assertion[]
+}
+
 export interface TestState {
   status: 'idle' | 'setup' | 'instructions' | 'testing' | 'evaluating' | 'complete' | 'error'
   currentStep: number // 0-3 for the 4 steps
   model: Model | null
   instructions: string
+  instructionDocumentId: string | null // Document the instructions are saved to; runs record its version
   prompt: string
+  conversation: ConversationTurn[] // Scripted turns that follow the initial prompt
+  transcript: ConversationTurn[] | null // Played conversation once the test completes
+  comparisonInstructions: string // Variant B instructions; comparison mode when non-empty
+  variables: Record<string, string> // Values for {{variables}} in the instructions and prompt
+  comparison: ComparisonRun | null // Result of the last comparison run
+  suiteRun: SuiteRun | null // Suite run in progress or just completed
+  matrixRun: MatrixRun | null // Matrix run in progress or just completed
+  matrixTestRuns: TestRun[] | null // TestRuns behind the matrix cells, saved to history with auto-save
+  optimizerRun: OptimizerRun | null // Optimizer run in progress or just completed
+  ablationRun: AblationRun | null // Ablation run in progress or just completed
+  assertions: Assertion[] // Deterministic checks run on the response
+  assertionResults: AssertionResult[] | null // Results once the test completes
+  referenceAnswer: string // Expected answer; reference grading when non-empty
   response: string | null
+  streamingResponse: string | null // Partial response while the primary model generates
+  streamTiming: StreamTiming | null
   results: SuccessMetrics | null
   tokenUsage: TokenStats | null
   executionTime: number | null
@@ -61,6 +519,11 @@ export interface SessionData {
   expiresAt: number
   encryptedApiKey?: string
   testHistory: TestRun[]
+  comparisonHistory?: ComparisonRun[] // Missing in sessions saved before comparisons existed
+  testSuites?: TestSuite[] // Missing in sessions saved before suites existed
+  suiteHistory?: SuiteRun[]
+  matrixHistory?: MatrixRun[]
+  instructionDocuments?: InstructionDocument[]
   currentTest: TestState
   settings: UserSettings
 }
@@ -69,6 +532,13 @@ export interface UserSettings {
   temperature: number
   maxTokens: number
   evaluationModel: Model | null
+  additionalEvaluationModels: Model[] // Extra judges scored alongside evaluationModel
+  judgeAggregation: ScoreAggregation
+  runsPerTest: number // Times the primary test is sampled and judged
+  rubric: Rubric
+  judgeTemplates: JudgeTemplate[] // Every saved version of the user's templates
+  judgeTemplateId: string // Active template; its latest version is used
+  providers: ProviderConfig[] // Providers used alongside OpenRouter
   autoSave: boolean
 }
 
@@ -84,6 +554,15 @@ export interface AppState {
   
   // Test history
   testHistory: TestRun[]
+  comparisonHistory: ComparisonRun[]
+  suiteHistory: SuiteRun[]
+  matrixHistory: MatrixRun[]
+  
+  // Test suites
+  testSuites: TestSuite[]
+  
+  // Saved instructions and their versions
+  instructionDocuments: InstructionDocument[]
   
   // User settings
   settings: UserSettings
@@ -112,13 +591,47 @@ export interface AppActions {
   selectModel: (model: Model) => void
   setInstructions: (instructions: string) => void
   setPrompt: (prompt: string) => void
+  setConversation: (conversation: ConversationTurn[]) => void
+  setAssertions: (assertions: Assertion[]) => void
+  setReferenceAnswer: (referenceAnswer: string) => void
+  setComparisonInstructions: (instructions: string) => void
+  setVariables: (variables: Record<string, string>) => void
   runEvaluation: () => Promise<void>
-  completeTest: (results: SuccessMetrics, response: string, tokenUsage?: TokenStats, executionTime?: number, cost?: number) => Promise<void>
+  cancelEvaluation: () => void // Aborts the running evaluation, including pending retries
+  completeTest: (results: SuccessMetrics, response: string, tokenUsage?: TokenStats, executionTime?: number, cost?: number, details?: TestRunDetails) => Promise<void>
+  completeComparison: (comparison: ComparisonRun) => Promise<void>
   resetCurrentTest: () => void
   
+  // Test suites
+  saveTestSuite: (suite: TestSuite) => Promise<void>
+  deleteTestSuite: (suiteId: string) => Promise<void>
+  runSuite: (suiteId: string) => Promise<void> // Runs against the selected model; cancelled with cancelEvaluation
+  completeSuiteRun: (suiteRun: SuiteRun) => Promise<void>
+  
+  // Instruction versions
+  saveInstructionVersion: (message: string) => Promise<string | null> // Saves the current instructions to their document, creating one if needed; returns the version ID
+  createInstructionDocument: (name: string, message: string) => Promise<string | null> // Starts a new document from the current instructions
+  renameInstructionDocument: (documentId: string, name: string) => Promise<void>
+  loadInstructionVersion: (versionId: string) => void
+  
+  // Matrix runs
+  runMatrix: (matrixConfig: MatrixConfig) => Promise<void> // Cancelled with cancelEvaluation
+  completeMatrixRun: (matrixRun: MatrixRun, testRuns: TestRun[]) => Promise<void>
+  
+  // Instruction optimizer
+  runOptimizer: (optimizerConfig: OptimizerConfig) => Promise<void> // Cancelled with cancelEvaluation
+  acceptOptimizerCandidate: (candidateId: string) => Promise<void> // Loads the candidate and saves it as a new instruction version
+
+  // Ablation analysis
+  runAblation: (ablationConfig: AblationConfig) => Promise<void> // Cancelled with cancelEvaluation
+  
   // History management
   addToHistory: (testRun: TestRun) => Promise<void>
+  addComparisonToHistory: (comparison: ComparisonRun) => Promise<void>
+  addSuiteRunToHistory: (suiteRun: SuiteRun) => Promise<void>
+  addMatrixRunToHistory: (matrixRun: MatrixRun, testRuns: TestRun[]) => Promise<void>
   clearHistory: () => Promise<void>
+  recomputeHistoryScores: () => Promise<void>
   
   // Settings management
   updateSettings: (settings: Partial<UserSettings>) => Promise<void>
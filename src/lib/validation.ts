@@ -1,4 +1,10 @@
-// Validation utilities for form inputs
+// Validation utilities for form inputs and API requests
+
+import { EvaluationRequest, Model } from './types'
+import { validateRubric } from './rubrics'
+import { ASSERTION_LABELS, MAX_ASSERTIONS, validateAssertion, validatePatternSafety } from './assertions'
+import { validateJudgeTemplate } from './judgeTemplates'
+import { MAX_RUNS_PER_TEST } from './statistics'
 
 export interface ValidationResult {
   isValid: boolean
@@ -117,4 +123,132 @@ export function getHelperTextClasses(status: ValidationResult['status']): string
     default:
       return 'text-xs text-muted-foreground'
   }
+}
+
+const SCORE_AGGREGATIONS = ['mean', 'median', 'trimmedMean']
+
+// Bounds on API requests, so one request cannot run up an unbounded bill
+export const MAX_ADDITIONAL_JUDGES = 4
+export const MAX_CONVERSATION_TURNS = 20
+export const MAX_TURN_LENGTH = 4000
+
+/**
+ * Run a validator on untrusted input, reporting a value whose shape it
+ * cannot read as malformed
+ */
+function checkShape(label: string, validate: () => string[]): string[] {
+  try {
+    return validate().map(error => `${label}: ${error}`)
+  } catch {
+    return [`${label} is malformed`]
+  }
+}
+
+/**
+ * Validates the body of an evaluation API request with the same rules as
+ * the test flow, and returns a list of problems (empty when valid)
+ */
+export function validateEvaluationRequest(body: unknown): string[] {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return ['Request body must be a JSON object']
+  }
+
+  const request = body as Partial<EvaluationRequest>
+  const errors: string[] = []
+
+  if (typeof request.model !== 'string' || !request.model.trim()) {
+    errors.push('model must be a model ID')
+  }
+  if (typeof request.judge !== 'string' || !request.judge.trim()) {
+    errors.push('judge must be a model ID')
+  }
+  if (request.additionalJudges !== undefined &&
+      (!Array.isArray(request.additionalJudges) || !request.additionalJudges.every(id => typeof id === 'string' && id.trim()))) {
+    errors.push('additionalJudges must be a list of model IDs')
+  } else if (request.additionalJudges && request.additionalJudges.length > MAX_ADDITIONAL_JUDGES) {
+    errors.push(`additionalJudges must list at most ${MAX_ADDITIONAL_JUDGES} models`)
+  }
+
+  const instructions = validateInstructions(typeof request.instructions === 'string' ? request.instructions : '')
+  if (!instructions.isValid) {
+    errors.push(`instructions: ${instructions.message}`)
+  }
+  const prompt = validatePrompt(typeof request.prompt === 'string' ? request.prompt : '')
+  if (!prompt.isValid) {
+    errors.push(`prompt: ${prompt.message}`)
+  }
+
+  const settings = request.settings
+  if (settings === undefined) {
+    return errors
+  }
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    return [...errors, 'settings must be an object']
+  }
+
+  if (settings.temperature !== undefined && !(typeof settings.temperature === 'number' && settings.temperature >= 0 && settings.temperature <= 2)) {
+    errors.push('settings.temperature must be between 0 and 2')
+  }
+  if (settings.maxTokens !== undefined && !(Number.isInteger(settings.maxTokens) && settings.maxTokens >= 1)) {
+    errors.push('settings.maxTokens must be a positive integer')
+  }
+  if (settings.runsPerTest !== undefined &&
+      !(Number.isInteger(settings.runsPerTest) && settings.runsPerTest >= 1 && settings.runsPerTest <= MAX_RUNS_PER_TEST)) {
+    errors.push(`settings.runsPerTest must be an integer from 1 to ${MAX_RUNS_PER_TEST}`)
+  }
+  if (settings.judgeAggregation !== undefined && !SCORE_AGGREGATIONS.includes(settings.judgeAggregation)) {
+    errors.push(`settings.judgeAggregation must be one of ${SCORE_AGGREGATIONS.join(', ')}`)
+  }
+  if (settings.referenceAnswer !== undefined && typeof settings.referenceAnswer !== 'string') {
+    errors.push('settings.referenceAnswer must be a string')
+  }
+  if (settings.conversation !== undefined &&
+      (!Array.isArray(settings.conversation) || !settings.conversation.every(turn =>
+        turn && ['user', 'assistant'].includes(turn.role) && typeof turn.content === 'string' && turn.content.trim()))) {
+    errors.push('settings.conversation must be a list of user and assistant turns with content')
+  } else if (settings.conversation && settings.conversation.length > MAX_CONVERSATION_TURNS) {
+    errors.push(`settings.conversation must have at most ${MAX_CONVERSATION_TURNS} turns`)
+  } else if (settings.conversation && settings.conversation.some(turn => turn.content.length > MAX_TURN_LENGTH)) {
+    errors.push(`settings.conversation turns must be at most ${MAX_TURN_LENGTH} characters`)
+  } else if (settings.conversation && settings.conversation.length > 0 &&
+      settings.conversation[settings.conversation.length - 1].role === 'assistant') {
+    errors.push('settings.conversation must end with a user turn for the model to answer')
+  }
+  if (settings.rubric !== undefined) {
+    errors.push(...checkShape('settings.rubric', () => validateRubric(settings.rubric!)))
+  }
+  if (settings.judgeTemplate !== undefined) {
+    errors.push(...checkShape('settings.judgeTemplate', () => validateJudgeTemplate(settings.judgeTemplate!)))
+  }
+  if (settings.assertions !== undefined) {
+    if (!Array.isArray(settings.assertions) || settings.assertions.length > MAX_ASSERTIONS) {
+      errors.push(`settings.assertions must be a list of at most ${MAX_ASSERTIONS} assertions`)
+    } else {
+      settings.assertions.forEach((assertion, index) => {
+        const label = `settings.assertions[${index}]`
+        if (!assertion || !Object.keys(ASSERTION_LABELS).includes(assertion.type)) {
+          errors.push(`${label} has an unknown type`)
+        } else {
+          errors.push(...checkShape(label, () => {
+            const assertionErrors = validateAssertion(assertion)
+            return assertionErrors.length > 0 ? assertionErrors : validatePatternSafety(assertion)
+          }))
+        }
+      })
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Checks the parts of a valid evaluation request that depend on the model
+ * it names, once the model has been looked up
+ */
+export function validateModelLimits(request: EvaluationRequest, model: Model): string[] {
+  const maxTokens = request.settings?.maxTokens
+  if (maxTokens !== undefined && model.contextLength > 0 && maxTokens > model.contextLength) {
+    return [`settings.maxTokens must be at most ${model.contextLength}, the context length of ${model.id}`]
+  }
+  return []
 }
\ No newline at end of file
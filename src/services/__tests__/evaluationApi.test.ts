@@ -0,0 +1,144 @@
+/**
+ * Tests for the evaluations REST API
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { EvaluationApi } from '../evaluationApi'
+import { openRouterService } from '../openRouterService'
+import { config } from '@/lib/config'
+import { resetRateLimiter } from '@/lib/apiProxy'
+
+const evaluationRequest = (body: unknown, headers: Record<string, string> = {}) =>
+  new Request('http://localhost:3000/api/evaluations', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  })
+
+const validBody = {
+  model: 'mock/assistant',
+  judge: 'mock/judge',
+  instructions: 'You are a helpful assistant. Be brief.',
+  prompt: 'What is the capital of France?'
+}
+
+const openRouterModels = {
+  data: [{
+    id: 'openai/gpt-4o',
+    name: 'GPT-4o',
+    context_length: 128000,
+    pricing: { prompt: '0.0000025', completion: '0.00001' },
+    top_provider: { context_length: 128000 }
+  }]
+}
+
+describe('EvaluationApi', () => {
+  const mockFetch = vi.fn()
+
+  beforeEach(() => {
+    config.enableMockProvider = true
+    resetRateLimiter()
+    openRouterService.clearCache()
+    mockFetch.mockReset()
+    vi.stubGlobal('fetch', mockFetch)
+  })
+
+  afterEach(() => {
+    config.enableMockProvider = false
+    vi.unstubAllGlobals()
+  })
+
+  it('should run an evaluation and return its TestResult', async () => {
+    const response = await EvaluationApi.handleRequest(evaluationRequest({ ...validBody, settings: { temperature: 0, runsPerTest: 2 } }))
+    const result = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(result.response).toBe('Mock answer to "What is the capital of France?".')
+    expect(result.metrics.criterionScores).toHaveLength(4)
+    expect(result.metrics.sampling.runs).toBe(2)
+    expect(result.tokenUsage.totalTokens).toBeGreaterThan(0)
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should list every invalid field', async () => {
+    const response = await EvaluationApi.handleRequest(evaluationRequest({
+      model: 'mock/assistant',
+      instructions: 'Too short',
+      prompt: 'What is the capital of France?',
+      settings: { temperature: 3, judgeAggregation: 'max' }
+    }))
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({
+      error: {
+        code: 400,
+        type: 'validation',
+        message: 'Invalid evaluation request',
+        details: [
+          'judge must be a model ID',
+          'instructions: 1 more characters needed',
+          'settings.temperature must be between 0 and 2',
+          'settings.judgeAggregation must be one of mean, median, trimmedMean'
+        ]
+      }
+    })
+  })
+
+  it('should reject requests over the size bounds', async () => {
+    const tooManyJudges = await EvaluationApi.handleRequest(evaluationRequest({
+      ...validBody,
+      additionalJudges: ['mock/judge', 'mock/judge', 'mock/judge', 'mock/judge', 'mock/judge']
+    }))
+    const tooManyTokens = await EvaluationApi.handleRequest(evaluationRequest({ ...validBody, settings: { maxTokens: 100000 } }))
+
+    expect(tooManyJudges.status).toBe(400)
+    expect((await tooManyJudges.json()).error.details).toEqual(['additionalJudges must list at most 4 models'])
+    expect(tooManyTokens.status).toBe(400)
+    expect((await tooManyTokens.json()).error.details).toEqual([
+      'settings.maxTokens must be at most 8192, the context length of mock/assistant'
+    ])
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should reject a body that is not JSON', async () => {
+    const response = await EvaluationApi.handleRequest(evaluationRequest('{'))
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).error.message).toBe('Request body must be JSON')
+  })
+
+  it('should reject unknown models after checking OpenRouter', async () => {
+    mockFetch.mockResolvedValueOnce(new Response(JSON.stringify(openRouterModels)))
+
+    const response = await EvaluationApi.handleRequest(evaluationRequest({ ...validBody, judge: 'acme/judge-9000' }))
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).error.details).toEqual(['Unknown model: acme/judge-9000'])
+  })
+
+  it('should require a key for OpenRouter models', async () => {
+    mockFetch.mockResolvedValueOnce(new Response(JSON.stringify(openRouterModels)))
+
+    const response = await EvaluationApi.handleRequest(evaluationRequest({ ...validBody, judge: 'openai/gpt-4o' }))
+
+    expect(response.status).toBe(401)
+    expect((await response.json()).error.type).toBe('authentication')
+  })
+
+  it('should map provider errors to their status', async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response(JSON.stringify(openRouterModels)))
+      .mockResolvedValueOnce(new Response('{}', { status: 401, statusText: 'Unauthorized' }))
+
+    const response = await EvaluationApi.handleRequest(
+      evaluationRequest({ ...validBody, model: 'openai/gpt-4o' }, { authorization: 'Bearer sk-or-revoked-key' })
+    )
+    const body = await response.json()
+
+    expect(response.status).toBe(401)
+    expect(body.error.type).toBe('authentication')
+    expect(mockFetch.mock.calls[1][1].headers.Authorization).toBe('Bearer sk-or-revoked-key')
+    expect(EvaluationApi.getErrorStatus('rate_limit')).toBe(429)
+    expect(EvaluationApi.getErrorStatus('timeout')).toBe(504)
+  })
+})
\ No newline at end of file
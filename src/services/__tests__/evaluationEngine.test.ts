@@ -1,6 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { EvaluationEngine, TestParams, OpenRouterResponse } from '../evaluationEngine'
-import { Model } from '@/lib/types'
+import { Model, Rubric } from '@/lib/types'
+import { DEFAULT_JUDGE_TEMPLATE } from '@/lib/judgeTemplates'
+import { MOCK_PROVIDER_CONFIG } from '../providers'
+import { httpFixtures, HttpFixtureFile } from '@/lib/httpFixtures'
 
 // Mock fetch globally
 const mockFetch = vi.fn()
@@ -18,9 +21,21 @@ describe('EvaluationEngine', () => {
     }
   }
 
+  const mockEvaluationModel: Model = {
+    id: 'openai/gpt-4-turbo-preview',
+    name: 'GPT-4 Turbo',
+    provider: 'OpenAI',
+    contextLength: 128000,
+    pricing: {
+      prompt: 10,
+      completion: 30
+    }
+  }
+
   const mockTestParams: TestParams = {
     apiKey: 'sk-or-test-key',
     model: mockModel,
+    evaluationModel: mockEvaluationModel,
     systemInstructions: 'You are a helpful assistant.',
     userPrompt: 'What is the capital of France?',
     temperature: 0.7,
@@ -58,10 +73,12 @@ describe('EvaluationEngine', () => {
         role: 'assistant',
         content: JSON.stringify({
           overallScore: 85,
-          coherenceScore: 90,
-          taskCompletionScore: 85,
-          instructionAdherenceScore: 80,
-          efficiencyScore: 85,
+          scores: {
+            coherence: 90,
+            taskCompletion: 85,
+            instructionAdherence: 80,
+            efficiency: 85
+          },
           explanation: 'The response correctly identifies Paris as the capital of France.'
         })
       },
@@ -100,11 +117,14 @@ describe('EvaluationEngine', () => {
       expect(result).toEqual({
         response: 'The capital of France is Paris.',
         metrics: {
-          overallScore: 85,
-          coherenceScore: 90,
-          taskCompletionScore: 85,
-          instructionAdherenceScore: 80,
-          efficiencyScore: 85,
+          overallScore: 84, // Weighted locally from the criterion scores
+          judgeOverallScore: 85,
+          criterionScores: [
+            { criterionId: 'coherence', name: 'Coherence', score: 90, normalizedScore: 90 },
+            { criterionId: 'taskCompletion', name: 'Task Completion', score: 85, normalizedScore: 85 },
+            { criterionId: 'instructionAdherence', name: 'Instruction Adherence', score: 80, normalizedScore: 80 },
+            { criterionId: 'efficiency', name: 'Efficiency', score: 85, normalizedScore: 85 }
+          ],
           explanation: 'The response correctly identifies Paris as the capital of France.'
         },
         tokenUsage: {
@@ -180,30 +200,190 @@ describe('EvaluationEngine', () => {
     })
   })
 
+  describe('streaming', () => {
+    const sseResponse = (events: object[]) => {
+      const body = events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n'
+      return new Response(body, { status: 200 })
+    }
+
+    const delta = (content: string, usage?: object) => ({
+      id: 'stream-id',
+      model: 'gpt-3.5-turbo',
+      choices: [{ index: 0, delta: { content }, finish_reason: usage ? 'stop' : null }],
+      ...(usage && { usage })
+    })
+
+    it('should report partial responses and record stream timing', async () => {
+      mockFetch
+        .mockResolvedValueOnce(sseResponse([
+          delta('The capital '),
+          delta('is Paris.', { prompt_tokens: 20, completion_tokens: 10, total_tokens: 30 })
+        ]))
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockEvaluationResponse) })
+      const partials: string[] = []
+
+      const result = await EvaluationEngine.executeEvaluation({
+        ...mockTestParams,
+        onPartialResponse: partial => partials.push(partial)
+      })
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).stream).toBe(true)
+      expect(partials).toEqual(['The capital ', 'The capital is Paris.'])
+      expect(result.response).toBe('The capital is Paris.')
+      expect(result.tokenUsage).toEqual({ promptTokens: 20, completionTokens: 10, totalTokens: 30 })
+      expect(result.streamTiming?.timeToFirstToken).toBeGreaterThanOrEqual(0)
+      expect(result.streamTiming?.tokensPerSecond).toBeGreaterThanOrEqual(0)
+      // Judges are never streamed
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body).stream).toBeUndefined()
+    })
+
+    it('should fail when the stream ends without usage totals', async () => {
+      mockFetch.mockResolvedValueOnce(sseResponse([delta('Paris.')]))
+
+      await expect(EvaluationEngine.executeEvaluation({ ...mockTestParams, onPartialResponse: () => {} }))
+        .rejects.toThrow('Usage information missing from the streamed response')
+    })
+
+    it('should not stream without a partial response callback', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockEvaluationResponse) })
+
+      const result = await EvaluationEngine.executeEvaluation(mockTestParams)
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).stream).toBeUndefined()
+      expect(result.streamTiming).toBeUndefined()
+    })
+  })
+
+  describe('providers', () => {
+    it('should send the primary model and the judge to their own providers', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockEvaluationResponse) })
+
+      await EvaluationEngine.executeEvaluation({
+        ...mockTestParams,
+        evaluationModel: { ...mockEvaluationModel, id: 'gpt-4o', providerId: 'openai' },
+        providers: [{ id: 'openai', name: 'OpenAI', kind: 'openai-compatible', baseUrl: 'https://api.openai.com/v1', apiKey: 'sk-openai' }]
+      })
+
+      const [primaryUrl, primaryInit] = mockFetch.mock.calls[0]
+      const [judgeUrl, judgeInit] = mockFetch.mock.calls[1]
+      expect(primaryUrl).toBe('https://openrouter.ai/api/v1/chat/completions')
+      expect(primaryInit.headers.Authorization).toBe('Bearer sk-or-test-key')
+      expect(judgeUrl).toBe('https://api.openai.com/v1/chat/completions')
+      expect(judgeInit.headers.Authorization).toBe('Bearer sk-openai')
+      expect(JSON.parse(judgeInit.body).model).toBe('gpt-4o')
+    })
+
+    it('should run an evaluation end to end on the mock provider without network access', async () => {
+      const result = await EvaluationEngine.executeEvaluation({
+        ...mockTestParams,
+        apiKey: '',
+        model: { ...mockModel, id: 'mock/assistant', providerId: 'mock' },
+        evaluationModel: { ...mockEvaluationModel, id: 'mock/judge', providerId: 'mock' },
+        providers: [MOCK_PROVIDER_CONFIG]
+      })
+
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect(result.response).toContain('What is the capital of France?')
+      expect(result.metrics.evaluationError).toBeUndefined()
+      expect(result.metrics.criterionScores).toHaveLength(4)
+      expect(result.metrics.overallScore).toBeGreaterThan(0)
+    })
+  })
+
+  describe('recorded fixtures', () => {
+    afterEach(() => {
+      httpFixtures.stop()
+    })
+
+    it('should reproduce a recorded evaluation without the network', async () => {
+      const jsonResponse = (body: OpenRouterResponse) =>
+        new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json' } })
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(mockPrimaryResponse))
+        .mockResolvedValueOnce(jsonResponse(mockEvaluationResponse))
+
+      httpFixtures.startRecording()
+      const recorded = await EvaluationEngine.executeEvaluation(mockTestParams)
+      await httpFixtures.whenIdle()
+      // Round-tripped through JSON like a saved fixture file
+      const fixtureFile: HttpFixtureFile = JSON.parse(JSON.stringify(httpFixtures.toFile()))
+      mockFetch.mockClear()
+
+      httpFixtures.startReplay(fixtureFile)
+      const result = await EvaluationEngine.executeEvaluation({ ...mockTestParams, apiKey: 'sk-or-another-key' })
+
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect(fixtureFile.fixtures).toHaveLength(2)
+      expect(JSON.stringify(fixtureFile)).not.toContain('sk-or-test-key')
+      expect(result.response).toBe('The capital of France is Paris.')
+      expect(result.tokenUsage).toEqual(recorded.tokenUsage)
+      expect(result.metrics.criterionScores.map(score => score.score)).toEqual([90, 85, 80, 85])
+      expect(result.metrics.explanation).toBe(recorded.metrics.explanation)
+      expect(result.cost).toBe(recorded.cost)
+    })
+  })
+
+  describe('cancellation', () => {
+    it('should reject with a cancellation error once aborted', async () => {
+      const controller = new AbortController()
+      mockFetch.mockImplementationOnce((_, init) =>
+        new Promise((_, reject) => {
+          init.signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+        })
+      )
+
+      const evaluation = EvaluationEngine.executeEvaluation({ ...mockTestParams, signal: controller.signal })
+      controller.abort()
+
+      await expect(evaluation).rejects.toMatchObject({ type: 'cancelled', message: 'Operation cancelled' })
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not call the judge when cancelled after the primary response', async () => {
+      const controller = new AbortController()
+      mockFetch.mockImplementationOnce(async () => {
+        controller.abort()
+        return { ok: true, json: () => Promise.resolve(mockPrimaryResponse) }
+      })
+
+      await expect(EvaluationEngine.executeEvaluation({ ...mockTestParams, signal: controller.signal }))
+        .rejects.toMatchObject({ type: 'cancelled' })
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+  })
+
   describe('calculateOverallScore', () => {
     it('should calculate weighted average correctly', () => {
       const metrics = {
-        coherenceScore: 80,
-        taskCompletionScore: 90,
-        instructionAdherenceScore: 85,
-        efficiencyScore: 75
+        criterionScores: [
+          { criterionId: 'coherence', name: 'Coherence', score: 80, normalizedScore: 80 },
+          { criterionId: 'taskCompletion', name: 'Task Completion', score: 90, normalizedScore: 90 },
+          { criterionId: 'instructionAdherence', name: 'Instruction Adherence', score: 85, normalizedScore: 85 },
+          { criterionId: 'efficiency', name: 'Efficiency', score: 75, normalizedScore: 75 }
+        ]
       }
 
-      const overallScore = EvaluationEngine.calculateOverallScore(metrics)
+      const overallScore = EvaluationEngine.calculateOverallScore(metrics.criterionScores)
       
-      // Expected: (90*0.3) + (85*0.3) + (80*0.25) + (75*0.15) = 27 + 25.5 + 20 + 11.25 = 83.75 ≈ 84
-      expect(overallScore).toBe(84)
+      // Expected: (90*0.35) + (85*0.35) + (80*0.2) + (75*0.1) = 31.5 + 29.75 + 16 + 7.5 = 84.75 ≈ 85
+      expect(overallScore).toBe(85)
     })
 
     it('should handle edge case scores', () => {
       const metrics = {
-        coherenceScore: 0,
-        taskCompletionScore: 100,
-        instructionAdherenceScore: 50,
-        efficiencyScore: 25
+        criterionScores: [
+          { criterionId: 'coherence', name: 'Coherence', score: 0, normalizedScore: 0 },
+          { criterionId: 'taskCompletion', name: 'Task Completion', score: 100, normalizedScore: 100 },
+          { criterionId: 'instructionAdherence', name: 'Instruction Adherence', score: 50, normalizedScore: 50 },
+          { criterionId: 'efficiency', name: 'Efficiency', score: 25, normalizedScore: 25 }
+        ]
       }
 
-      const overallScore = EvaluationEngine.calculateOverallScore(metrics)
+      const overallScore = EvaluationEngine.calculateOverallScore(metrics.criterionScores)
       expect(overallScore).toBeGreaterThanOrEqual(0)
       expect(overallScore).toBeLessThanOrEqual(100)
     })
@@ -247,10 +427,32 @@ describe('EvaluationEngine', () => {
         expect(evaluationPrompt).toContain('EFFICIENCY')
       })
     })
+
+    it('should brief the judge with a custom template and append the reply format', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockEvaluationResponse) })
+
+      await EvaluationEngine.executeEvaluation({
+        ...mockTestParams,
+        judgeTemplate: {
+          ...DEFAULT_JUDGE_TEMPLATE,
+          id: 'strict',
+          version: 2,
+          systemPrompt: 'You are a harsh grader.',
+          prompt: 'Rules: {{instructions}}\nAsked: {{prompt}}\nAnswer: {{response}}\nCriteria:\n{{rubric}}'
+        }
+      })
+
+      const [system, user] = JSON.parse(mockFetch.mock.calls[1][1].body).messages
+      expect(system.content).toBe('You are a harsh grader.')
+      expect(user.content).toMatch(/^Rules: You are a helpful assistant\.\nAsked: What is the capital of France\?\nAnswer: The capital of France is Paris\.\nCriteria:\n1\. COHERENCE/)
+      expect(user.content).toContain('Return your evaluation in this exact JSON format')
+    })
   })
 
   describe('evaluation response parsing', () => {
-    it('should handle malformed evaluation response gracefully', async () => {
+    it('should flag the evaluation as failed when the judge never returns usable JSON', async () => {
       const malformedEvaluationResponse = {
         ...mockEvaluationResponse,
         choices: [{
@@ -267,22 +469,65 @@ describe('EvaluationEngine', () => {
           ok: true,
           json: () => Promise.resolve(mockPrimaryResponse)
         })
-        .mockResolvedValueOnce({
+        .mockResolvedValue({
           ok: true,
           json: () => Promise.resolve(malformedEvaluationResponse)
         })
 
       const result = await EvaluationEngine.executeEvaluation(mockTestParams)
 
-      // Should fallback to default scores
-      expect(result.metrics).toEqual({
-        overallScore: 50,
-        coherenceScore: 50,
-        taskCompletionScore: 50,
-        instructionAdherenceScore: 50,
-        efficiencyScore: 50,
-        explanation: 'Evaluation parsing failed. Default scores applied.'
+      // One primary call plus three judge attempts, and no default scores
+      expect(mockFetch).toHaveBeenCalledTimes(4)
+      expect(result.metrics.overallScore).toBe(0)
+      expect(result.metrics.criterionScores).toEqual([])
+      expect(result.metrics.evaluationError).toContain('after 3 attempts')
+      expect(result.metrics.explanation).toBe(result.metrics.evaluationError)
+      // Every failed attempt is still billed: 150 prompt and 50 completion tokens at $10/$30 per million
+      expect(result.cost).toBeCloseTo(3 * 0.003, 5)
+    })
+
+    it('should re-ask the judge with the parse error and keep the second answer', async () => {
+      const invalidReply = {
+        ...mockEvaluationResponse,
+        choices: [{
+          ...mockEvaluationResponse.choices[0],
+          message: { role: 'assistant' as const, content: '{"overallScore": 85}' }
+        }]
+      }
+
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(invalidReply) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockEvaluationResponse) })
+
+      const result = await EvaluationEngine.executeEvaluation(mockTestParams)
+
+      const retryMessages = JSON.parse(mockFetch.mock.calls[2][1].body).messages
+      expect(retryMessages.at(-2)).toEqual({ role: 'assistant', content: '{"overallScore": 85}' })
+      expect(retryMessages.at(-1).content).toContain('Missing required field: scores')
+
+      expect(result.metrics.evaluationError).toBeUndefined()
+      expect(result.metrics.criterionScores.map(score => score.score)).toEqual([90, 85, 80, 85])
+      expect(result.cost).toBeCloseTo(2 * 0.003, 5)
+    })
+
+    it('should request structured output from judges that support it', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockEvaluationResponse) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockEvaluationResponse) })
+
+      await EvaluationEngine.executeEvaluation({
+        ...mockTestParams,
+        evaluationModel: { ...mockEvaluationModel, supportedParameters: ['structured_outputs', 'response_format'] }
       })
+      await EvaluationEngine.executeEvaluation(mockTestParams)
+
+      const structured = JSON.parse(mockFetch.mock.calls[1][1].body).response_format
+      expect(structured.type).toBe('json_schema')
+      expect(structured.json_schema.schema.required).toEqual(['overallScore', 'scores', 'explanation'])
+      expect(JSON.parse(mockFetch.mock.calls[3][1].body).response_format).toBeUndefined()
     })
 
     it('should handle evaluation response with extra text around JSON', async () => {
@@ -296,10 +541,12 @@ describe('EvaluationEngine', () => {
 
 ${JSON.stringify({
   overallScore: 92,
-  coherenceScore: 95,
-  taskCompletionScore: 90,
-  instructionAdherenceScore: 88,
-  efficiencyScore: 94,
+  scores: {
+    coherence: 95,
+    taskCompletion: 90,
+    instructionAdherence: 88,
+    efficiency: 94
+  },
   explanation: 'Excellent response with clear and accurate information.'
 })}
 
@@ -321,13 +568,674 @@ This completes the evaluation.`
       const result = await EvaluationEngine.executeEvaluation(mockTestParams)
 
       expect(result.metrics).toEqual({
-        overallScore: 92,
-        coherenceScore: 95,
-        taskCompletionScore: 90,
-        instructionAdherenceScore: 88,
-        efficiencyScore: 94,
+        overallScore: 91,
+        judgeOverallScore: 92,
+        criterionScores: [
+          { criterionId: 'coherence', name: 'Coherence', score: 95, normalizedScore: 95 },
+          { criterionId: 'taskCompletion', name: 'Task Completion', score: 90, normalizedScore: 90 },
+          { criterionId: 'instructionAdherence', name: 'Instruction Adherence', score: 88, normalizedScore: 88 },
+          { criterionId: 'efficiency', name: 'Efficiency', score: 94, normalizedScore: 94 }
+        ],
         explanation: 'Excellent response with clear and accurate information.'
       })
     })
   })
-})
\ No newline at end of file
+
+  describe('custom rubrics', () => {
+    const customRubric: Rubric = {
+      id: 'support',
+      name: 'Support',
+      criteria: [
+        { id: 'empathy', name: 'Empathy', description: 'Does the reply acknowledge the customer?', scale: { min: 1, max: 5 }, weight: 1 },
+        { id: 'accuracy', name: 'Accuracy', description: 'Is the information correct?', scale: { min: 0, max: 10 }, weight: 3 }
+      ]
+    }
+
+    const rubricEvaluation = (scores: Record<string, number>): OpenRouterResponse => ({
+      ...mockEvaluationResponse,
+      choices: [{
+        ...mockEvaluationResponse.choices[0],
+        message: {
+          role: 'assistant',
+          content: JSON.stringify({ overallScore: 70, scores, explanation: 'Accurate but curt.' })
+        }
+      }]
+    })
+
+    it('should list the rubric criteria in the evaluation prompt', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(rubricEvaluation({ empathy: 2, accuracy: 9 })) })
+
+      await EvaluationEngine.executeEvaluation({ ...mockTestParams, rubric: customRubric })
+
+      const evaluationPrompt = JSON.parse(mockFetch.mock.calls[1][1].body).messages[1].content
+      expect(evaluationPrompt).toContain('EMPATHY (ID "empathy", 1-5): Does the reply acknowledge the customer?')
+      expect(evaluationPrompt).toContain('ACCURACY (ID "accuracy", 0-10): Is the information correct?')
+      expect(evaluationPrompt).not.toContain('coherence')
+    })
+
+    it('should normalize scores from each criterion scale to 0-100', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(rubricEvaluation({ empathy: 2, accuracy: 9 })) })
+
+      const result = await EvaluationEngine.executeEvaluation({ ...mockTestParams, rubric: customRubric })
+
+      expect(result.metrics.criterionScores).toEqual([
+        { criterionId: 'empathy', name: 'Empathy', score: 2, normalizedScore: 25 },
+        { criterionId: 'accuracy', name: 'Accuracy', score: 9, normalizedScore: 90 }
+      ])
+    })
+
+    it('should reject scores outside a criterion scale', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+        .mockResolvedValue({ ok: true, json: () => Promise.resolve(rubricEvaluation({ empathy: 8, accuracy: 9 })) })
+
+      const result = await EvaluationEngine.executeEvaluation({ ...mockTestParams, rubric: customRubric })
+
+      expect(result.metrics.evaluationError).toContain('Invalid score for empathy: 8 (expected a number from 1-5)')
+      expect(result.metrics.criterionScores).toEqual([])
+    })
+  })
+
+  describe('judge ensembles', () => {
+    const judgeModel = (id: string, prompt: number): Model => ({
+      id,
+      name: id.toUpperCase(),
+      provider: 'Test',
+      contextLength: 8192,
+      pricing: { prompt, completion: 0 }
+    })
+
+    const judgeReply = (scores: Record<string, number>, overallScore = 80): OpenRouterResponse => ({
+      ...mockEvaluationResponse,
+      choices: [{
+        ...mockEvaluationResponse.choices[0],
+        message: {
+          role: 'assistant',
+          content: JSON.stringify({ overallScore, scores, explanation: `Judged ${overallScore}` })
+        }
+      }]
+    })
+
+    const uniformScores = (score: number) => ({
+      coherence: score,
+      taskCompletion: score,
+      instructionAdherence: score,
+      efficiency: score
+    })
+
+    it('should aggregate judge scores and report agreement', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(judgeReply(uniformScores(60), 60)) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(judgeReply(uniformScores(80), 80)) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(judgeReply(uniformScores(85), 85)) })
+
+      const result = await EvaluationEngine.executeEvaluation({
+        ...mockTestParams,
+        additionalEvaluationModels: [judgeModel('judge-b', 0), judgeModel('judge-c', 0)],
+        judgeAggregation: 'median'
+      })
+
+      const judgeIds = mockFetch.mock.calls.slice(1).map(call => JSON.parse(call[1].body).model)
+      expect(judgeIds).toEqual(['openai/gpt-4-turbo-preview', 'judge-b', 'judge-c'])
+
+      expect(result.metrics.overallScore).toBe(80)
+      expect(result.metrics.judgeOverallScore).toBe(80)
+      expect(result.metrics.explanation).toBe('Judged 60')
+      expect(result.metrics.ensemble).toMatchObject({
+        aggregation: 'median',
+        spread: 25,
+        // Mean absolute pairwise difference: (20 + 25 + 5) / 3
+        agreement: 83
+      })
+      expect(result.metrics.ensemble?.judges.map(judge => judge.metrics.overallScore)).toEqual([60, 80, 85])
+    })
+
+    it('should skip a failed judge and price every judge that answered', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(judgeReply(uniformScores(70))) })
+        .mockRejectedValueOnce(new Error('Network error'))
+
+      const result = await EvaluationEngine.executeEvaluation({
+        ...mockTestParams,
+        model: { ...mockModel, pricing: { prompt: 0, completion: 0 } },
+        evaluationModel: judgeModel('judge-a', 1000),
+        additionalEvaluationModels: [judgeModel('judge-b', 1000)]
+      })
+
+      expect(result.metrics.overallScore).toBe(70)
+      expect(result.metrics.ensemble?.judges).toHaveLength(1)
+      expect(result.metrics.ensemble?.failedJudges).toEqual(['judge-b'])
+      // 150 evaluation prompt tokens at 1000 per million
+      expect(result.cost).toBeCloseTo(0.15)
+    })
+
+    it('should price the attempts of a judge that fails on a retry', async () => {
+      const unusable = { ...mockEvaluationResponse, choices: [{ ...mockEvaluationResponse.choices[0], message: { role: 'assistant' as const, content: 'No JSON here' } }] }
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(judgeReply(uniformScores(70))) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(unusable) })
+        .mockRejectedValueOnce(new Error('Network error'))
+
+      const result = await EvaluationEngine.executeEvaluation({
+        ...mockTestParams,
+        model: { ...mockModel, pricing: { prompt: 0, completion: 0 } },
+        evaluationModel: judgeModel('judge-a', 1000),
+        additionalEvaluationModels: [judgeModel('judge-b', 1000)]
+      })
+
+      expect(result.metrics.ensemble?.failedJudges).toEqual(['judge-b'])
+      // 150 prompt tokens each for judge-a and judge-b's unusable first reply
+      expect(result.cost).toBeCloseTo(0.3)
+    })
+
+    it('should list a judge with unusable output as failed', async () => {
+      const unusable = { ...mockEvaluationResponse, choices: [{ ...mockEvaluationResponse.choices[0], message: { role: 'assistant' as const, content: 'No JSON here' } }] }
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(judgeReply(uniformScores(70))) })
+        .mockResolvedValue({ ok: true, json: () => Promise.resolve(unusable) })
+
+      const result = await EvaluationEngine.executeEvaluation({
+        ...mockTestParams,
+        additionalEvaluationModels: [judgeModel('judge-b', 0)]
+      })
+
+      expect(result.metrics.evaluationError).toBeUndefined()
+      expect(result.metrics.overallScore).toBe(70)
+      expect(result.metrics.ensemble?.failedJudges).toEqual(['judge-b'])
+    })
+
+    it('should not add ensemble details for a single judge', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockEvaluationResponse) })
+
+      const result = await EvaluationEngine.executeEvaluation({
+        ...mockTestParams,
+        additionalEvaluationModels: [mockTestParams.evaluationModel!]
+      })
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(result.metrics.ensemble).toBeUndefined()
+    })
+  })
+
+  describe('repeated sampling', () => {
+    const sampleReply = (content: string): OpenRouterResponse => ({
+      ...mockPrimaryResponse,
+      choices: [{ ...mockPrimaryResponse.choices[0], message: { role: 'assistant', content } }]
+    })
+
+    const sampleEvaluation = (score: number): OpenRouterResponse => ({
+      ...mockEvaluationResponse,
+      choices: [{
+        ...mockEvaluationResponse.choices[0],
+        message: {
+          role: 'assistant',
+          content: JSON.stringify({
+            overallScore: score,
+            scores: { coherence: score, taskCompletion: score, instructionAdherence: score, efficiency: score },
+            explanation: `Sample scored ${score}`
+          })
+        }
+      }]
+    })
+
+    it('should run and judge the test once per sample and report statistics', async () => {
+      [70, 80, 90].forEach((score, index) => {
+        mockFetch
+          .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(sampleReply(`Answer ${index + 1}`)) })
+          .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(sampleEvaluation(score)) })
+      })
+
+      const result = await EvaluationEngine.executeEvaluation({ ...mockTestParams, runsPerTest: 3 })
+
+      expect(mockFetch).toHaveBeenCalledTimes(6)
+      expect(result.response).toBe('Answer 1')
+      expect(result.metrics.overallScore).toBe(80)
+      expect(result.metrics.explanation).toBe('Sample scored 70')
+      expect(result.metrics.sampling?.runs).toBe(3)
+      expect(result.metrics.sampling?.overall).toEqual({
+        mean: 80,
+        standardDeviation: 10,
+        min: 70,
+        max: 90,
+        confidenceInterval: { lower: 55.2, upper: 104.8 }
+      })
+      expect(result.metrics.sampling?.criteria.map(criterion => criterion.criterionId))
+        .toEqual(['coherence', 'taskCompletion', 'instructionAdherence', 'efficiency'])
+      expect(result.metrics.sampling?.samples.map(sample => sample.response))
+        .toEqual(['Answer 1', 'Answer 2', 'Answer 3'])
+    })
+
+    it('should exclude samples whose evaluation failed from the statistics', async () => {
+      const unusable = sampleEvaluation(0)
+      unusable.choices[0].message.content = 'Not JSON'
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(sampleReply('Answer 1')) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(sampleEvaluation(70)) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(sampleReply('Answer 2')) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(unusable) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(unusable) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(unusable) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(sampleReply('Answer 3')) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(sampleEvaluation(90)) })
+
+      const result = await EvaluationEngine.executeEvaluation({ ...mockTestParams, runsPerTest: 3 })
+
+      expect(result.metrics.overallScore).toBe(80)
+      expect(result.metrics.sampling?.runs).toBe(3)
+      expect(result.metrics.sampling?.failedRuns).toBe(1)
+      expect(result.metrics.sampling?.overall.mean).toBe(80)
+      expect(result.metrics.sampling?.samples[1].metrics.evaluationError).toBeDefined()
+    })
+
+    it('should sum token usage and cost across samples', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockEvaluationResponse) })
+      const single = await EvaluationEngine.executeEvaluation(mockTestParams)
+
+      for (let i = 0; i < 2; i++) {
+        mockFetch
+          .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+          .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockEvaluationResponse) })
+      }
+      const repeated = await EvaluationEngine.executeEvaluation({ ...mockTestParams, runsPerTest: 2 })
+
+      expect(repeated.tokenUsage.totalTokens).toBe(single.tokenUsage.totalTokens * 2)
+      expect(repeated.cost).toBeCloseTo(single.cost * 2)
+      expect(single.metrics.sampling).toBeUndefined()
+    })
+  })
+
+  describe('reference grading', () => {
+    const referenceEvaluation = (reference: unknown): OpenRouterResponse => ({
+      ...mockEvaluationResponse,
+      choices: [{
+        ...mockEvaluationResponse.choices[0],
+        message: {
+          role: 'assistant',
+          content: JSON.stringify({
+            overallScore: 90,
+            scores: { coherence: 90, taskCompletion: 90, instructionAdherence: 90, efficiency: 90 },
+            reference,
+            explanation: 'Accurate answer'
+          })
+        }
+      }]
+    })
+
+    it('should grade the response against the reference answer', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve(referenceEvaluation({ factualAgreement: 100, coverage: 75, explanation: 'Omits the population.' }))
+        })
+
+      const result = await EvaluationEngine.executeEvaluation({
+        ...mockTestParams,
+        referenceAnswer: 'Paris is the capital of France, with about 2 million residents.'
+      })
+
+      const evaluationPrompt = JSON.parse(mockFetch.mock.calls[1][1].body).messages[1].content
+      expect(evaluationPrompt).toContain('REFERENCE ANSWER:\nParis is the capital of France, with about 2 million residents.')
+      expect(result.metrics.reference).toEqual({
+        correctness: 88,
+        factualAgreement: 100,
+        coverage: 75,
+        explanation: 'Omits the population.'
+      })
+      expect(result.metrics.overallScore).toBe(90)
+    })
+
+    it('should use the standard template and omit the metric without a reference answer', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockEvaluationResponse) })
+
+      const result = await EvaluationEngine.executeEvaluation({ ...mockTestParams, referenceAnswer: '   ' })
+
+      const evaluationPrompt = JSON.parse(mockFetch.mock.calls[1][1].body).messages[1].content
+      expect(evaluationPrompt).not.toContain('REFERENCE ANSWER')
+      expect(result.metrics.reference).toBeUndefined()
+    })
+
+    it('should fail the evaluation when the judge keeps omitting the reference grading', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+        .mockResolvedValue({ ok: true, json: () => Promise.resolve(referenceEvaluation(undefined)) })
+
+      const result = await EvaluationEngine.executeEvaluation({ ...mockTestParams, referenceAnswer: 'Paris.' })
+
+      expect(result.metrics.reference).toBeUndefined()
+      expect(result.metrics.evaluationError).toBeDefined()
+    })
+  })
+
+  describe('assertions', () => {
+    it('should check assertions locally on the response without extra calls', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockEvaluationResponse) })
+
+      const result = await EvaluationEngine.executeEvaluation({
+        ...mockTestParams,
+        assertions: [
+          { id: 'mentions-paris', type: 'contains', values: ['Paris'] },
+          { id: 'short', type: 'wordCount', max: 3 }
+        ]
+      })
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(result.assertionResults).toEqual([
+        expect.objectContaining({ assertionId: 'mentions-paris', passed: true }),
+        expect.objectContaining({ assertionId: 'short', passed: false, message: '6 words' })
+      ])
+    })
+
+    it('should omit assertion results when no assertions are configured', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockEvaluationResponse) })
+
+      const result = await EvaluationEngine.executeEvaluation(mockTestParams)
+
+      expect(result.assertionResults).toBeUndefined()
+    })
+  })
+
+  describe('pairwise comparison', () => {
+    const comparisonParams = {
+      ...mockTestParams,
+      variantBInstructions: 'You are a terse assistant. Answer in one word.'
+    }
+
+    const pairwiseJudgment = (content: string): OpenRouterResponse => ({
+      ...mockEvaluationResponse,
+      choices: [{ ...mockEvaluationResponse.choices[0], message: { role: 'assistant', content } }]
+    })
+
+    const mockVariantRuns = () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockEvaluationResponse) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockEvaluationResponse) })
+    }
+
+    it('should run both variants and map the preferred position back to a variant', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.9)
+      mockVariantRuns()
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(pairwiseJudgment('{"preferred": "1", "rationale": "More direct."}'))
+      })
+
+      const result = await EvaluationEngine.executeComparison(comparisonParams)
+
+      expect(mockFetch).toHaveBeenCalledTimes(5)
+      const variantBRequest = JSON.parse(mockFetch.mock.calls[2][1].body)
+      expect(variantBRequest.messages[0].content).toBe(comparisonParams.variantBInstructions)
+      expect(result.variantA.instructions).toBe(mockTestParams.systemInstructions)
+      expect(result.variantB.instructions).toBe(comparisonParams.variantBInstructions)
+      // Variant B was shown first, so "1" means B
+      expect(result.preference).toEqual({ winner: 'B', rationale: 'More direct.', presentedFirst: 'B' })
+    })
+
+    it('should include both variants and the pairwise judgment in the cost', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.1)
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockEvaluationResponse) })
+      const single = await EvaluationEngine.executeEvaluation(mockTestParams)
+
+      mockVariantRuns()
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(pairwiseJudgment('{"preferred": "tie", "rationale": "Equivalent."}'))
+      })
+      const result = await EvaluationEngine.executeComparison(comparisonParams)
+
+      expect(result.preference.winner).toBe('tie')
+      expect(result.preference.presentedFirst).toBe('A')
+      expect(result.cost).toBeGreaterThan(single.cost * 2)
+    })
+
+    it('should record no preference when the pairwise judgment cannot be parsed', async () => {
+      mockVariantRuns()
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve(pairwiseJudgment('Response 1 is better.'))
+      })
+
+      const result = await EvaluationEngine.executeComparison(comparisonParams)
+
+      expect(result.preference.winner).toBeNull()
+      expect(result.preference.rationale).toContain('Pairwise judgment failed after 3 attempts')
+    })
+  })
+
+  describe('multi-turn conversations', () => {
+    const primaryReply = (content: string): OpenRouterResponse => ({
+      ...mockPrimaryResponse,
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content },
+        finish_reason: 'stop'
+      }]
+    })
+
+    const multiTurnEvaluation = (turnScores: unknown): OpenRouterResponse => ({
+      ...mockEvaluationResponse,
+      choices: [{
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: JSON.stringify({
+            overallScore: 70,
+            scores: {
+              coherence: 80,
+              taskCompletion: 75,
+              instructionAdherence: 60,
+              efficiency: 70
+            },
+            turnScores,
+            explanation: 'Adherence drops on the second turn.'
+          })
+        },
+        finish_reason: 'stop'
+      }]
+    })
+
+    it('should play scripted turns and score adherence per turn', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(primaryReply('Paris.')) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(primaryReply('It has about two million people.')) })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve(multiTurnEvaluation([
+            { turn: 1, instructionAdherenceScore: 90, explanation: 'Concise.' },
+            { turn: 2, instructionAdherenceScore: 40 }
+          ]))
+        })
+
+      const result = await EvaluationEngine.executeEvaluation({
+        ...mockTestParams,
+        conversation: [{ role: 'user', content: 'And its population?' }]
+      })
+
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+
+      const secondTurnBody = JSON.parse(mockFetch.mock.calls[1][1].body)
+      expect(secondTurnBody.messages).toEqual([
+        { role: 'system', content: 'You are a helpful assistant.' },
+        { role: 'user', content: 'What is the capital of France?' },
+        { role: 'assistant', content: 'Paris.' },
+        { role: 'user', content: 'And its population?' }
+      ])
+
+      const evaluationPrompt = JSON.parse(mockFetch.mock.calls[2][1].body).messages[1].content
+      expect(evaluationPrompt).toContain('AI RESPONSE (TURN 2):')
+      expect(evaluationPrompt).toContain('turnScores')
+
+      expect(result.response).toBe('It has about two million people.')
+      expect(result.conversation).toHaveLength(4)
+      expect(result.metrics.turnScores).toEqual([
+        { turn: 1, instructionAdherenceScore: 90, explanation: 'Concise.' },
+        { turn: 2, instructionAdherenceScore: 40 }
+      ])
+      expect(result.tokenUsage).toEqual({
+        promptTokens: 40,
+        completionTokens: 20,
+        totalTokens: 60
+      })
+    })
+
+    it('should use scripted assistant replies instead of calling the model, without scoring them', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(primaryReply('Sure, shorter now.')) })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve(multiTurnEvaluation([{ turn: 1, instructionAdherenceScore: 70 }]))
+        })
+
+      const result = await EvaluationEngine.executeEvaluation({
+        ...mockTestParams,
+        conversation: [
+          { role: 'assistant', content: 'Paris is the capital of France.' },
+          { role: 'user', content: 'Make it shorter.' }
+        ]
+      })
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(result.conversation?.map(turn => turn.content)).toEqual([
+        'What is the capital of France?',
+        'Paris is the capital of France.',
+        'Make it shorter.',
+        'Sure, shorter now.'
+      ])
+      expect(result.conversation?.[1].scripted).toBe(true)
+      expect(result.response).toBe('Sure, shorter now.')
+      expect(result.metrics.turnScores).toEqual([{ turn: 1, instructionAdherenceScore: 70 }])
+
+      const primaryMessages = JSON.parse(mockFetch.mock.calls[0][1].body).messages
+      expect(primaryMessages[2]).toEqual({ role: 'assistant', content: 'Paris is the capital of France.' })
+      const evaluationPrompt = JSON.parse(mockFetch.mock.calls[1][1].body).messages[1].content
+      expect(evaluationPrompt).toContain('SCRIPTED AI TURN (written by the tester, for context only; do not score):\nParis is the capital of France.')
+      expect(evaluationPrompt).toContain('AI RESPONSE (TURN 1):\nSure, shorter now.')
+      expect(evaluationPrompt).not.toContain('TURN 2')
+    })
+
+    it('should reject a script that ends on an assistant turn without calling the model', async () => {
+      await expect(EvaluationEngine.executeEvaluation({
+        ...mockTestParams,
+        conversation: [
+          { role: 'user', content: 'Make it shorter.' },
+          { role: 'assistant', content: 'Paris.' }
+        ]
+      })).rejects.toMatchObject({ message: expect.stringContaining('must end with a user turn') })
+
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('template variables', () => {
+    it('should fill in variables before calling the model and the judge', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPrimaryResponse) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockEvaluationResponse) })
+
+      await EvaluationEngine.executeEvaluation({
+        ...mockTestParams,
+        systemInstructions: 'You are a {{ persona }}.',
+        userPrompt: 'What is the capital of {{country}}?',
+        variables: { persona: 'tour guide', country: 'France' }
+      })
+
+      const primaryBody = JSON.parse(mockFetch.mock.calls[0][1].body)
+      expect(primaryBody.messages).toEqual([
+        { role: 'system', content: 'You are a tour guide.' },
+        { role: 'user', content: 'What is the capital of France?' }
+      ])
+      const judgeMessages = JSON.parse(mockFetch.mock.calls[1][1].body).messages
+      const judgePrompt = judgeMessages[judgeMessages.length - 1].content
+      expect(judgePrompt).toContain('You are a tour guide.')
+      expect(judgePrompt).not.toContain('{{')
+    })
+
+    it('should fail without calling the model when a variable has no value', async () => {
+      await expect(EvaluationEngine.executeEvaluation({
+        ...mockTestParams,
+        userPrompt: 'What is the capital of {{country}}?',
+        variables: { country: ' ' }
+      })).rejects.toMatchObject({ message: expect.stringContaining('Missing values for template variables: country') })
+
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('instruction revisions', () => {
+    const revisionParams = {
+      apiKey: 'sk-or-test-key',
+      model: mockEvaluationModel,
+      instructions: 'You are a {{persona}}. Answer questions.',
+      feedback: '1. PROMPT: What is the capital of France?\n   JUDGE: Too long.'
+    }
+
+    const revisionReply = (content: string): OpenRouterResponse => ({
+      ...mockEvaluationResponse,
+      choices: [{ ...mockEvaluationResponse.choices[0], message: { role: 'assistant', content } }]
+    })
+
+    it('should send the instructions and feedback and return the revision with its cost', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(revisionReply('{"instructions": "You are a {{persona}}. Answer in one sentence.", "rationale": "Shorter answers."}'))
+      })
+
+      const revision = await EvaluationEngine.proposeRevision(revisionParams)
+
+      const request = JSON.parse(mockFetch.mock.calls[0][1].body)
+      const prompt = request.messages[request.messages.length - 1].content
+      expect(prompt).toContain('You are a {{persona}}. Answer questions.')
+      expect(prompt).toContain('JUDGE: Too long.')
+      expect(revision).toEqual({
+        instructions: 'You are a {{persona}}. Answer in one sentence.',
+        rationale: 'Shorter answers.',
+        cost: expect.any(Number)
+      })
+      expect(revision.cost).toBeGreaterThan(0)
+    })
+
+    it('should return an error instead of a revision when no reply is usable', async () => {
+      mockFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve(revisionReply('{"rationale": "Forgot the instructions."}')) })
+
+      const revision = await EvaluationEngine.proposeRevision(revisionParams)
+
+      expect(revision.instructions).toBe('')
+      expect(revision.error).toContain('No usable revision after 3 attempts')
+    })
+
+    it('should propose a revision on the mock provider without network access', async () => {
+      const revision = await EvaluationEngine.proposeRevision({
+        ...revisionParams,
+        apiKey: '',
+        model: { ...mockEvaluationModel, id: 'mock/judge', providerId: 'mock' },
+        providers: [MOCK_PROVIDER_CONFIG]
+      })
+
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect(revision.error).toBeUndefined()
+      expect(revision.instructions.length).toBeGreaterThan(0)
+    })
+  })
+})
@@ -41,10 +41,12 @@ const mockDocument = {
 describe('ExportService Integration', () => {
   const mockMetrics: SuccessMetrics = {
     overallScore: 85,
-    coherenceScore: 90,
-    taskCompletionScore: 80,
-    instructionAdherenceScore: 88,
-    efficiencyScore: 82,
+    criterionScores: [
+      { criterionId: 'coherence', name: 'Coherence', score: 90, normalizedScore: 90 },
+      { criterionId: 'taskCompletion', name: 'Task Completion', score: 80, normalizedScore: 80 },
+      { criterionId: 'instructionAdherence', name: 'Instruction Adherence', score: 88, normalizedScore: 88 },
+      { criterionId: 'efficiency', name: 'Efficiency', score: 82, normalizedScore: 82 }
+    ],
     explanation: 'The response demonstrates good coherence and task completion.'
   }
 
@@ -79,7 +81,9 @@ describe('ExportService Integration', () => {
       metrics: {
         ...mockMetrics,
         overallScore: 92,
-        coherenceScore: 95
+        criterionScores: mockMetrics.criterionScores.map(score =>
+          score.criterionId === 'coherence' ? { ...score, score: 95, normalizedScore: 95 } : score
+        )
       },
       cost: 0.0038
     }
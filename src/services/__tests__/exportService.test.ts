@@ -74,10 +74,12 @@ const mockTokenStats: TokenStats = {
 
 const mockMetrics: SuccessMetrics = {
   overallScore: 85,
-  coherenceScore: 90,
-  taskCompletionScore: 80,
-  instructionAdherenceScore: 85,
-  efficiencyScore: 88,
+  criterionScores: [
+    { criterionId: 'coherence', name: 'Coherence', score: 90, normalizedScore: 90 },
+    { criterionId: 'taskCompletion', name: 'Task Completion', score: 80, normalizedScore: 80 },
+    { criterionId: 'instructionAdherence', name: 'Instruction Adherence', score: 85, normalizedScore: 85 },
+    { criterionId: 'efficiency', name: 'Efficiency', score: 88, normalizedScore: 88 }
+  ],
   explanation: 'The response demonstrates excellent coherence and task completion.'
 }
 
@@ -106,7 +108,9 @@ const mockTestRuns: TestRun[] = [
     metrics: {
       ...mockMetrics,
       overallScore: 78,
-      coherenceScore: 82
+      criterionScores: mockMetrics.criterionScores.map(score =>
+        score.criterionId === 'coherence' ? { ...score, score: 82, normalizedScore: 82 } : score
+      )
     },
     cost: 0.0018
   }
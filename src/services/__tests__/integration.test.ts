@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { EvaluationEngine } from '../evaluationEngine'
 import { Model } from '@/lib/types'
+import { getCriterionScore } from '@/lib/rubrics'
 
 // Mock fetch for integration tests
 const mockFetch = vi.fn()
@@ -60,10 +61,12 @@ describe('EvaluationEngine Integration', () => {
               role: 'assistant',
               content: JSON.stringify({
                 overallScore: 88,
-                coherenceScore: 90,
-                taskCompletionScore: 85,
-                instructionAdherenceScore: 90,
-                efficiencyScore: 87,
+                scores: {
+                  coherence: 90,
+                  taskCompletion: 85,
+                  instructionAdherence: 90,
+                  efficiency: 87
+                },
                 explanation: 'The response follows the instructions well and provides a clear, helpful answer.'
               })
             },
@@ -99,10 +102,12 @@ describe('EvaluationEngine Integration', () => {
     // Verify metrics structure
     expect(result.metrics).toEqual({
       overallScore: 88,
-      coherenceScore: 90,
-      taskCompletionScore: 85,
-      instructionAdherenceScore: 90,
-      efficiencyScore: 87,
+      criterionScores: [
+        { criterionId: 'coherence', name: 'Coherence', score: 90, normalizedScore: 90 },
+        { criterionId: 'taskCompletion', name: 'Task Completion', score: 85, normalizedScore: 85 },
+        { criterionId: 'instructionAdherence', name: 'Instruction Adherence', score: 90, normalizedScore: 90 },
+        { criterionId: 'efficiency', name: 'Efficiency', score: 87, normalizedScore: 87 }
+      ],
       explanation: 'The response follows the instructions well and provides a clear, helpful answer.'
     })
 
@@ -173,10 +178,12 @@ This document outlines the requirements for a new mobile application.
               role: 'assistant',
               content: JSON.stringify({
                 overallScore: 92,
-                coherenceScore: 95,
-                taskCompletionScore: 90,
-                instructionAdherenceScore: 88,
-                efficiencyScore: 95,
+                scores: {
+                  coherence: 95,
+                  taskCompletion: 90,
+                  instructionAdherence: 88,
+                  efficiency: 95
+                },
                 explanation: 'Excellent structured response that follows the PRD format perfectly. All required sections are present and well-organized.'
               })
             },
@@ -208,7 +215,7 @@ Keep responses concise but comprehensive.`,
 
     // Verify high-quality results for well-structured instructions
     expect(result.metrics.overallScore).toBeGreaterThan(85)
-    expect(result.metrics.instructionAdherenceScore).toBeGreaterThan(80)
+    expect(getCriterionScore(result.metrics, 'instructionAdherence')).toBeGreaterThan(80)
     expect(result.response).toContain('# Product Requirements Document')
     expect(result.tokenUsage.totalTokens).toBeGreaterThan(200) // Complex response should use more tokens
   })
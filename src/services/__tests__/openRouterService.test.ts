@@ -312,6 +312,89 @@ describe('OpenRouterService', () => {
     })
   })
 
+  describe('streamChatCompletion', () => {
+    const request = {
+      model: 'openai/gpt-4',
+      messages: [{ role: 'user' as const, content: 'Hello!' }]
+    }
+
+    // Delivers the text in the given pieces, which need not align with events
+    const streamOf = (...pieces: string[]) => {
+      const encoder = new TextEncoder()
+      return new Response(new ReadableStream({
+        start(controller) {
+          pieces.forEach(piece => controller.enqueue(encoder.encode(piece)))
+          controller.close()
+        }
+      }), { status: 200 })
+    }
+
+    const collect = async <T>(stream: AsyncIterable<T>) => {
+      const chunks: T[] = []
+      for await (const chunk of stream) {
+        chunks.push(chunk)
+      }
+      return chunks
+    }
+
+    it('should yield parsed chunks across split reads and skip comments', async () => {
+      vi.mocked(fetch).mockResolvedValue(streamOf(
+        ': OPENROUTER PROCESSING\n\n',
+        'data: {"id":"1","model":"m","choices":[{"index":0,"delta":{"content":"Hel"},"finish_reason":null}]}\n\ndata: {"id":"1","mo',
+        'del":"m","choices":[{"index":0,"delta":{"content":"lo"},"finish_reason":"stop"}],"usage":{"prompt_tokens":5,"completion_tokens":2,"total_tokens":7}}\r\n\r\n',
+        'data: [DONE]\n\n'
+      ))
+
+      const chunks = await collect(service.streamChatCompletion('valid-key', request))
+
+      expect(chunks.map(chunk => chunk.choices[0].delta.content)).toEqual(['Hel', 'lo'])
+      expect(chunks[1].usage?.total_tokens).toBe(7)
+      expect(JSON.parse(vi.mocked(fetch).mock.calls[0][1]!.body as string)).toMatchObject({
+        stream: true,
+        stream_options: { include_usage: true }
+      })
+    })
+
+    it('should throw when the provider reports an error mid-stream', async () => {
+      vi.mocked(fetch).mockResolvedValue(streamOf(
+        'data: {"id":"1","model":"m","choices":[{"index":0,"delta":{"content":"Hi"},"finish_reason":null}]}\n\n',
+        'data: {"error":{"message":"Provider overloaded"}}\n\n'
+      ))
+
+      await expect(collect(service.streamChatCompletion('valid-key', request))).rejects.toThrow('Provider overloaded')
+    })
+
+    it('should validate the request before connecting', async () => {
+      await expect(collect(service.streamChatCompletion('valid-key', { ...request, model: '' }))).rejects.toThrow('Model is required')
+      expect(fetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('proxy mode', () => {
+    it('should call the app routes and send the key only when set', async () => {
+      const proxied = new OpenRouterService('proxy')
+      const response = {
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Hi' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 }
+      }
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(new Response(JSON.stringify(response)))
+        .mockResolvedValueOnce(new Response('{}'))
+
+      await proxied.chatCompletion('', { model: 'openai/gpt-4', messages: [{ role: 'user', content: 'Hello' }] })
+      await proxied.validateApiKey('user-key')
+
+      const [chatUrl, chatInit] = vi.mocked(fetch).mock.calls[0] as [string, RequestInit]
+      const [keyUrl, keyInit] = vi.mocked(fetch).mock.calls[1] as [string, RequestInit]
+      expect(chatUrl).toBe('/api/chat')
+      expect(chatInit.headers).not.toHaveProperty('Authorization')
+      expect(keyUrl).toBe('/api/auth/key')
+      expect(keyInit.headers).toHaveProperty('Authorization', 'Bearer user-key')
+      expect(proxied.requiresApiKey).toBe(false)
+      expect(service.requiresApiKey).toBe(true)
+    })
+  })
+
   describe('cache management', () => {
     it('should return cached models', () => {
       expect(service.getCachedModels()).toBeNull()
@@ -0,0 +1,311 @@
+/**
+ * Tests for the chat provider implementations and registry
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  AnthropicProvider,
+  LocalProvider,
+  MOCK_PROVIDER_CONFIG,
+  MockProvider,
+  OpenAICompatibleProvider,
+  createProvider,
+  createProviderId,
+  resolveProvider
+} from '../providers'
+import { openRouterService } from '../openRouterService'
+import { apiCache } from '@/lib/cacheManager'
+import { Model, ProviderConfig } from '@/lib/types'
+
+const streamOf = (...pieces: string[]) => {
+  const encoder = new TextEncoder()
+  return new Response(new ReadableStream({
+    start(controller) {
+      pieces.forEach(piece => controller.enqueue(encoder.encode(piece)))
+      controller.close()
+    }
+  }), { status: 200 })
+}
+
+const collect = async <T,>(stream: AsyncIterable<T>) => {
+  const chunks: T[] = []
+  for await (const chunk of stream) {
+    chunks.push(chunk)
+  }
+  return chunks
+}
+
+const request = {
+  model: 'local-model',
+  messages: [
+    { role: 'system' as const, content: 'Be brief.' },
+    { role: 'user' as const, content: 'Hello!' }
+  ],
+  temperature: 1.5,
+  max_tokens: 100
+}
+
+describe('chat providers', () => {
+  beforeEach(() => {
+    global.fetch = vi.fn()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    apiCache.clear()
+  })
+
+  describe('OpenAICompatibleProvider', () => {
+    const provider = new OpenAICompatibleProvider('local', 'Local', 'http://localhost:8080/v1/')
+
+    it('should call the configured base URL without a key when none is set', async () => {
+      vi.mocked(fetch).mockResolvedValue(new Response(JSON.stringify({
+        id: 'chat-1',
+        object: 'chat.completion',
+        created: 0,
+        model: 'local-model',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Hi' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 }
+      }), { status: 200 }))
+
+      const response = await provider.chatCompletion('', request)
+
+      expect(response.choices[0].message.content).toBe('Hi')
+      const [url, init] = vi.mocked(fetch).mock.calls[0]
+      expect(url).toBe('http://localhost:8080/v1/chat/completions')
+      expect(init?.headers).not.toHaveProperty('Authorization')
+    })
+
+    it('should list models tagged with the provider', async () => {
+      vi.mocked(fetch).mockResolvedValue(new Response(JSON.stringify({
+        data: [{ id: 'qwen', owned_by: 'library' }, { id: 'llama', context_length: 8192 }]
+      }), { status: 200 }))
+
+      const models = await provider.fetchModels('key')
+
+      expect(models).toEqual([
+        { id: 'llama', name: 'llama', provider: 'Local', providerId: 'local', contextLength: 8192, pricing: { prompt: 0, completion: 0 } },
+        { id: 'qwen', name: 'qwen', provider: 'Local', providerId: 'local', contextLength: 4096, pricing: { prompt: 0, completion: 0 } }
+      ])
+      expect(vi.mocked(fetch).mock.calls[0][1]?.headers).toMatchObject({ Authorization: 'Bearer key' })
+    })
+  })
+
+  describe('AnthropicProvider', () => {
+    const provider = new AnthropicProvider('claude', 'Anthropic')
+
+    it('should translate requests and responses for the Messages API', async () => {
+      vi.mocked(fetch).mockResolvedValue(new Response(JSON.stringify({
+        id: 'msg-1',
+        model: 'claude-model',
+        content: [{ type: 'text', text: 'Hi ' }, { type: 'text', text: 'there' }],
+        stop_reason: 'max_tokens',
+        usage: { input_tokens: 10, output_tokens: 2 }
+      }), { status: 200 }))
+
+      const response = await provider.chatCompletion('sk-ant-key', { ...request, response_format: { type: 'json_object' } })
+
+      const [url, init] = vi.mocked(fetch).mock.calls[0]
+      expect(url).toBe('https://api.anthropic.com/v1/messages')
+      expect(init?.headers).toMatchObject({ 'x-api-key': 'sk-ant-key', 'anthropic-version': '2023-06-01' })
+      expect(JSON.parse(init?.body as string)).toEqual({
+        model: 'local-model',
+        system: 'Be brief.',
+        messages: [{ role: 'user', content: 'Hello!' }],
+        max_tokens: 100,
+        temperature: 1
+      })
+      expect(response.choices[0]).toEqual({
+        index: 0,
+        message: { role: 'assistant', content: 'Hi there' },
+        finish_reason: 'length'
+      })
+      expect(response.usage).toEqual({ prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 })
+    })
+
+    it('should stream text deltas and report usage once the message stops', async () => {
+      vi.mocked(fetch).mockResolvedValue(streamOf(
+        'event: message_start\ndata: {"type":"message_start","message":{"id":"msg-1","model":"claude-model","usage":{"input_tokens":10,"output_tokens":1}}}\n\n',
+        'event: ping\ndata: {"type":"ping"}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hel"}}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"lo"}}\n\n',
+        'event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"end_turn"},"usage":{"output_tokens":2}}\n\n',
+        'event: message_stop\ndata: {"type":"message_stop"}\n\n'
+      ))
+
+      const chunks = await collect(provider.streamChatCompletion('sk-ant-key', request))
+
+      expect(chunks.map(chunk => chunk.choices[0].delta.content)).toEqual(['Hel', 'lo', undefined])
+      expect(chunks[2].choices[0].finish_reason).toBe('stop')
+      expect(chunks[2].usage).toEqual({ prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 })
+      expect(JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string).stream).toBe(true)
+    })
+
+    it('should throw on a stream error event', async () => {
+      vi.mocked(fetch).mockResolvedValue(streamOf(
+        'event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}\n\n'
+      ))
+
+      await expect(collect(provider.streamChatCompletion('sk-ant-key', request))).rejects.toThrow('Overloaded')
+    })
+  })
+
+  describe('LocalProvider', () => {
+    it('should discover Ollama models from /api/tags', async () => {
+      const provider = new LocalProvider('ollama', 'Ollama', 'http://localhost:11434/v1')
+      vi.mocked(fetch).mockResolvedValue(new Response(JSON.stringify({
+        models: [{ name: 'llama3.1:8b', details: { family: 'llama', parameter_size: '8.0B', quantization_level: 'Q4_K_M' } }]
+      }), { status: 200 }))
+
+      const models = await provider.fetchModels('')
+
+      expect(vi.mocked(fetch).mock.calls[0][0]).toBe('http://localhost:11434/api/tags')
+      expect(models).toEqual([{
+        id: 'llama3.1:8b',
+        name: 'llama3.1:8b',
+        provider: 'Ollama',
+        providerId: 'ollama',
+        contextLength: 4096,
+        pricing: { prompt: 0, completion: 0 },
+        description: 'llama · 8.0B · Q4_K_M'
+      }])
+    })
+
+    it('should fall back to /v1/models on servers without /api/tags', async () => {
+      const provider = new LocalProvider('llama-cpp', 'llama.cpp', 'http://localhost:8080')
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(new Response('Not Found', { status: 404 }))
+        .mockResolvedValueOnce(new Response(JSON.stringify({ data: [{ id: 'qwen2.5-7b-instruct' }] }), { status: 200 }))
+
+      const models = await provider.fetchModels('')
+
+      expect(vi.mocked(fetch).mock.calls[1][0]).toBe('http://localhost:8080/v1/models')
+      expect(models.map(model => [model.id, model.providerId, model.pricing.prompt])).toEqual([['qwen2.5-7b-instruct', 'llama-cpp', 0]])
+    })
+
+    it('should send chat completions to the server\'s /v1 API', async () => {
+      const provider = new LocalProvider('ollama', 'Ollama')
+      vi.mocked(fetch).mockResolvedValue(new Response(JSON.stringify({
+        id: 'chat-1',
+        object: 'chat.completion',
+        created: 0,
+        model: 'llama3.1:8b',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Hi' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 }
+      }), { status: 200 }))
+
+      await provider.chatCompletion('', request)
+
+      expect(vi.mocked(fetch).mock.calls[0][0]).toBe('http://localhost:11434/v1/chat/completions')
+    })
+  })
+
+  describe('MockProvider', () => {
+    it('should serve the fixture catalog and rule-based replies without fetching', async () => {
+      const provider = new MockProvider('mock', 'Mock')
+
+      const models = await provider.fetchModels()
+      const echo = await provider.chatCompletion('', { ...request, model: 'mock/echo' })
+      const brief = await provider.chatCompletion('', { ...request, model: 'mock/assistant' })
+      const json = await provider.chatCompletion('', {
+        ...request,
+        model: 'mock/assistant',
+        messages: [{ role: 'system', content: 'Answer in JSON.' }, { role: 'user', content: 'Hello!' }]
+      })
+
+      expect(models.map(model => model.id)).toEqual(['mock/assistant', 'mock/echo', 'mock/judge'])
+      expect(models.every(model => model.providerId === 'mock')).toBe(true)
+      expect(echo.choices[0].message.content).toBe('Hello!')
+      expect(brief.choices[0].message.content).toBe('Mock answer to "Hello!".')
+      expect(JSON.parse(json.choices[0].message.content)).toEqual({ answer: 'Mock answer to "Hello!"' })
+      expect(echo.usage).toEqual({ prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 })
+      expect(fetch).not.toHaveBeenCalled()
+    })
+
+    it('should answer judge prompts with the requested reply format', async () => {
+      const provider = new MockProvider('mock', 'Mock')
+      const prompt = 'Return your evaluation in this exact JSON format:\n{\n  "overallScore": 85,\n  "turnScores": [\n    { "turn": 1, "instructionAdherenceScore": 90, "explanation": "Note {with braces}" }\n  ]\n}\n\nEnsure that "turnScores" has exactly 3 entries.'
+
+      const response = await provider.chatCompletion('', { model: 'mock/judge', messages: [{ role: 'user', content: prompt }] })
+      const reply = JSON.parse(response.choices[0].message.content)
+
+      expect(reply.overallScore).toBe(85)
+      expect(reply.turnScores.map((score: { turn: number }) => score.turn)).toEqual([1, 2, 3])
+      expect(reply.turnScores[2].explanation).toBe('Note {with braces}')
+    })
+
+    it('should stream the reply word by word with usage on the last chunk', async () => {
+      const provider = new MockProvider('mock', 'Mock')
+
+      const chunks = await collect(provider.streamChatCompletion('', { ...request, model: 'mock/echo', messages: [{ role: 'user', content: 'One two three' }] }))
+
+      expect(chunks.map(chunk => chunk.choices[0].delta.content)).toEqual(['One ', 'two ', 'three', undefined])
+      expect(chunks[3].usage?.completion_tokens).toBe(4)
+    })
+
+    it('should inject failures that go through the usual retries', async () => {
+      const provider = new MockProvider('mock', 'Mock', {
+        failure: { status: 429, every: 2 },
+        retry: { baseDelay: 1, maxRetries: 1 }
+      })
+      const failing = new MockProvider('mock', 'Mock', {
+        failure: { status: 500, every: 1 },
+        retry: { baseDelay: 1, maxRetries: 1 }
+      })
+
+      await provider.chatCompletion('', { ...request, model: 'mock/echo' })
+      // The second request fails with a 429 and succeeds on retry
+      await expect(provider.chatCompletion('', { ...request, model: 'mock/echo' })).resolves.toBeDefined()
+      await expect(failing.chatCompletion('', { ...request, model: 'mock/echo' }))
+        .rejects.toMatchObject({ type: 'api', code: '500', retryCount: 1 })
+    })
+
+    it('should stop waiting when cancelled', async () => {
+      const provider = new MockProvider('mock', 'Mock', { latencyMs: 10000 })
+      const controller = new AbortController()
+
+      const reply = provider.chatCompletion('', { ...request, model: 'mock/echo' }, controller.signal)
+      controller.abort()
+
+      await expect(reply).rejects.toMatchObject({ type: 'cancelled' })
+    })
+  })
+
+  describe('registry', () => {
+    const config: ProviderConfig = { id: 'local', name: 'Local', kind: 'openai-compatible', baseUrl: 'http://localhost:11434/v1', apiKey: '' }
+    const model = (providerId?: string): Model => ({
+      id: 'm',
+      name: 'M',
+      provider: 'P',
+      contextLength: 4096,
+      pricing: { prompt: 0, completion: 0 },
+      ...(providerId && { providerId })
+    })
+
+    it('should send models without a provider ID to OpenRouter with the session key', () => {
+      expect(resolveProvider(model(), [config], 'sk-or-key')).toEqual({ provider: openRouterService, apiKey: 'sk-or-key' })
+    })
+
+    it('should resolve configured providers and reuse their instances', () => {
+      const connection = resolveProvider(model('local'), [config], 'sk-or-key')
+
+      expect(connection.provider).toBeInstanceOf(OpenAICompatibleProvider)
+      expect(connection.apiKey).toBe('')
+      expect(createProvider(config)).toBe(connection.provider)
+      expect(createProvider({ ...config, kind: 'anthropic' })).toBeInstanceOf(AnthropicProvider)
+      expect(createProvider({ ...config, kind: 'local' })).toBeInstanceOf(LocalProvider)
+      expect(createProvider(MOCK_PROVIDER_CONFIG)).toBeInstanceOf(MockProvider)
+    })
+
+    it('should fail for a provider that is no longer configured', () => {
+      expect(() => resolveProvider(model('gone'), [config], 'sk-or-key')).toThrow('Provider "gone" for model M is not configured')
+    })
+
+    it('should create unique provider IDs', () => {
+      expect(createProviderId('My Server!', [])).toBe('my-server')
+      expect(createProviderId('Local', [config])).toBe('local-2')
+      expect(createProviderId('OpenRouter', [])).toBe('openrouter-2')
+      expect(createProviderId('Mock', [])).toBe('mock-2')
+    })
+  })
+})
\ No newline at end of file
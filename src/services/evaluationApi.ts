@@ -0,0 +1,145 @@
+/**
+ * Server side of the evaluations REST API (POST /api/evaluations)
+ */
+
+import { EvaluationRequest, Model } from '@/lib/types'
+import { AppError, ErrorClassifier, ErrorType } from '@/lib/errorHandling'
+import { validateEvaluationRequest, validateModelLimits } from '@/lib/validation'
+import { checkRateLimit, resolveApiKey } from '@/lib/apiProxy'
+import { EvaluationEngine } from './evaluationEngine'
+import { openRouterService } from './openRouterService'
+import { createProvider, getActiveProviders, usesOpenRouter } from './providers'
+
+// HTTP status for each kind of failure
+const ERROR_STATUS: Record<ErrorType, number> = {
+  validation: 400,
+  authentication: 401,
+  rate_limit: 429,
+  cancelled: 499, // The client went away
+  api: 502,
+  network: 502,
+  timeout: 504,
+  unknown: 500
+}
+
+export interface EvaluationApiError {
+  error: {
+    code: number
+    type: ErrorType
+    message: string
+    details?: string[] // One entry per invalid field
+  }
+}
+
+/**
+ * Runs evaluations for scripts and CI. Requests are validated with the
+ * same rules as the test flow, models are looked up by ID so they carry
+ * their real pricing, and failures come back as a JSON error body whose
+ * status follows the AppError type.
+ */
+export class EvaluationApi {
+  /**
+   * Handle a POST /api/evaluations request and respond with a TestResult
+   */
+  static async handleRequest(request: Request): Promise<Response> {
+    const { limited } = checkRateLimit(request)
+    if (limited) {
+      return limited
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return this.errorResponse('validation', 'Request body must be JSON')
+    }
+
+    const errors = validateEvaluationRequest(body)
+    if (errors.length > 0) {
+      return this.errorResponse('validation', 'Invalid evaluation request', errors)
+    }
+
+    const evaluationRequest = body as EvaluationRequest
+    const { apiKey } = resolveApiKey(request)
+
+    try {
+      const ids = [evaluationRequest.model, evaluationRequest.judge, ...(evaluationRequest.additionalJudges || [])]
+      const models = await this.findModels(ids, apiKey || '')
+      const unknownIds = ids.filter((_, index) => !models[index])
+      if (unknownIds.length > 0) {
+        return this.errorResponse('validation', 'Invalid evaluation request', unknownIds.map(id => `Unknown model: ${id}`))
+      }
+      const [model, judge, ...additionalJudges] = models as Model[]
+      const limitErrors = validateModelLimits(evaluationRequest, model)
+      if (limitErrors.length > 0) {
+        return this.errorResponse('validation', 'Invalid evaluation request', limitErrors)
+      }
+
+      if (!apiKey && [model, judge, ...additionalJudges].some(usesOpenRouter)) {
+        return this.errorResponse(
+          'authentication',
+          'An OpenRouter API key is required for the selected models. Send it as a bearer token, or set OPENROUTER_API_KEY on the server.'
+        )
+      }
+
+      // Settings are picked one by one so a request cannot set the key or providers
+      const {
+        temperature, maxTokens, runsPerTest, judgeAggregation,
+        conversation, referenceAnswer, rubric, judgeTemplate, assertions
+      } = evaluationRequest.settings || {}
+      const result = await EvaluationEngine.executeEvaluation({
+        apiKey: apiKey || '',
+        providers: getActiveProviders(),
+        model,
+        evaluationModel: judge,
+        additionalEvaluationModels: additionalJudges,
+        systemInstructions: evaluationRequest.instructions,
+        userPrompt: evaluationRequest.prompt,
+        temperature,
+        maxTokens,
+        runsPerTest,
+        judgeAggregation,
+        conversation: conversation?.length ? conversation : undefined,
+        referenceAnswer,
+        rubric,
+        judgeTemplate,
+        assertions,
+        signal: request.signal
+      })
+
+      return Response.json(result)
+    } catch (error) {
+      const appError = error instanceof Error ? ErrorClassifier.classifyError(error) : error as AppError
+      return this.errorResponse(appError.type, appError.message)
+    }
+  }
+
+  /**
+   * The HTTP status for a failure of this type
+   */
+  static getErrorStatus(type: ErrorType): number {
+    return ERROR_STATUS[type] ?? 500
+  }
+
+  /**
+   * Look models up in the built-in providers' catalogs, then OpenRouter's.
+   * OpenRouter is only asked when a model is not found locally.
+   */
+  private static async findModels(ids: string[], apiKey: string): Promise<(Model | undefined)[]> {
+    const catalog: Model[] = (await Promise.all(
+      getActiveProviders().map(config => createProvider(config).fetchModels(config.apiKey))
+    )).flat()
+
+    if (ids.some(id => !catalog.some(model => model.id === id))) {
+      catalog.push(...await openRouterService.fetchModels(apiKey))
+    }
+
+    return ids.map(id => catalog.find(model => model.id === id))
+  }
+
+  private static errorResponse(type: ErrorType, message: string, details?: string[]): Response {
+    const code = this.getErrorStatus(type)
+    const body: EvaluationApiError = { error: { code, type, message, ...(details && { details }) } }
+    return Response.json(body, { status: code })
+  }
+}
\ No newline at end of file
@@ -1,31 +1,74 @@
-import { Model, SuccessMetrics, TokenStats } from '@/lib/types'
+import {
+  Model,
+  SuccessMetrics,
+  TokenStats,
+  ConversationTurn,
+  TurnScore,
+  Rubric,
+  JudgeTemplate,
+  CriterionScore,
+  ScoreAggregation,
+  ComparisonVariant,
+  ComparisonVariantResult,
+  PairwisePreference,
+  Assertion,
+  AssertionResult,
+  ReferenceScore,
+  StreamTiming,
+  ProviderConfig
+} from '@/lib/types'
+import { runAssertions } from '@/lib/assertions'
+import { DEFAULT_RUBRIC, calculateWeightedScore, formatScale, toCriterionScore } from '@/lib/rubrics'
+import { DEFAULT_JUDGE_TEMPLATE, renderJudgeTemplate } from '@/lib/judgeTemplates'
+import { findMissingVariables, interpolateTemplate } from '@/lib/templateVariables'
+import { aggregate, mean, pairwiseAgreement, range, summarize, MAX_RUNS_PER_TEST } from '@/lib/statistics'
 import { 
-  openRouterService, 
   OpenRouterRequest, 
-  OpenRouterResponse 
+  OpenRouterResponse,
+  OpenRouterResponseFormat
 } from './openRouterService'
+import { ProviderConnection, resolveProvider } from './providers'
 import { 
   ErrorRecoveryManager, 
   AppError,
-  ErrorClassifier 
+  ErrorClassifier,
+  throwIfCancelled
 } from '@/lib/errorHandling'
 
 export interface TestParams {
-  apiKey: string
+  apiKey: string // OpenRouter key
+  providers?: ProviderConfig[] // Providers for models not served by OpenRouter
   model: Model | null
   evaluationModel: Model | null
+  additionalEvaluationModels?: Model[] // Extra judges for ensemble scoring
+  judgeAggregation?: ScoreAggregation // How judge scores are combined, defaults to mean
+  runsPerTest?: number // Repeat the test and judging this many times, defaults to 1
   systemInstructions: string
   userPrompt: string
+  conversation?: ConversationTurn[] // Scripted turns played after userPrompt
+  referenceAnswer?: string // Expected answer; enables reference grading
+  rubric?: Rubric // Defaults to DEFAULT_RUBRIC
+  judgeTemplate?: JudgeTemplate // Defaults to DEFAULT_JUDGE_TEMPLATE
+  assertions?: Assertion[] // Deterministic checks run locally on the final response
+  variables?: Record<string, string> // Values for {{variables}} in the instructions, prompt and scripted turns
   temperature?: number
   maxTokens?: number
+  onPartialResponse?: (partialResponse: string) => void // Streams each primary model reply as it generates
+  signal?: AbortSignal // Cancels every outstanding request and retry
 }
 
 export interface EvaluationParams {
   response: string
   instructions: string
   prompt: string
+  conversation?: ConversationTurn[]
+  referenceAnswer?: string
+  rubric: Rubric
+  judgeTemplate: JudgeTemplate
   apiKey: string
+  providers?: ProviderConfig[]
   evaluationModel: Model
+  signal?: AbortSignal
 }
 
 export interface TestResult {
@@ -34,6 +77,67 @@ export interface TestResult {
   tokenUsage: TokenStats
   executionTime: number
   cost: number
+  conversation?: ConversationTurn[]
+  assertionResults?: AssertionResult[]
+  streamTiming?: StreamTiming // Set when the primary response was streamed
+}
+
+interface JudgeEvaluation {
+  model: Model
+  metrics: SuccessMetrics
+  evaluationTokens: TokenStats
+}
+
+// What a judge spent, whether or not it returned an evaluation
+type JudgeUsage = Pick<JudgeEvaluation, 'model' | 'evaluationTokens'>
+
+interface SampleRun {
+  primaryResult: ConversationResult
+  metrics: SuccessMetrics
+  cost: number
+  isMultiTurn: boolean
+  assertionResults?: AssertionResult[]
+}
+
+interface ConversationResult {
+  conversation: ConversationTurn[]
+  response: string
+  tokenUsage: TokenStats
+  streamTiming?: StreamTiming
+}
+
+interface PrimaryCompletion {
+  response: OpenRouterResponse
+  timeToFirstToken?: number // Only measured when streaming
+  generationTime?: number // ms from the first content to the end of the stream
+}
+
+export interface ComparisonParams extends TestParams {
+  variantBInstructions: string // systemInstructions is variant A
+}
+
+export interface ComparisonResult {
+  variantA: ComparisonVariantResult
+  variantB: ComparisonVariantResult
+  preference: PairwisePreference
+  executionTime: number
+  cost: number
+}
+
+export interface RevisionParams {
+  apiKey: string
+  providers?: ProviderConfig[]
+  model: Model // Model that proposes the revision
+  instructions: string
+  feedback: string // Test results to address, from buildOptimizerFeedback
+  signal?: AbortSignal
+}
+
+export interface RevisionResult {
+  instructions: string
+  rationale: string
+  cost: number
+  error?: string // Set when the model gave no usable revision
 }
 
 export interface CostBreakdown {
@@ -44,8 +148,10 @@ export interface CostBreakdown {
 
 /**
  * EvaluationEngine orchestrates the dual-model evaluation process:
- * 1. Execute the primary test with the user's selected model
- * 2. Evaluate the response using GPT-4 for scoring
+ * 1. Execute the primary test with the user's selected model, turn by turn
+ *    when a scripted conversation is provided
+ * 2. Evaluate the response against the rubric using the evaluation model,
+ *    or a panel of judges whose scores are aggregated
  * 3. Calculate metrics and costs
  */
 export class EvaluationEngine {
@@ -53,6 +159,30 @@ export class EvaluationEngine {
   private static readonly DEFAULT_TEMPERATURE = 0.7
   private static readonly DEFAULT_MAX_TOKENS = 1000
   private static readonly EVALUATION_MAX_TOKENS = 500
+  private static readonly JUDGE_MAX_ATTEMPTS = 3 // First request plus two re-asks with the parse error
+  private static readonly REFERENCE_GRADING_GUIDE = `- FACTUAL AGREEMENT (0-100): Do the response's claims agree with the reference? Penalize contradictions and errors, not differences in wording or style.
+- COVERAGE (0-100): How many of the key points in the reference does the response include?`
+  private static readonly REFERENCE_EXAMPLE = '{ "factualAgreement": 90, "coverage": 80, "explanation": "Which reference points were matched, missed or contradicted" }'
+  private static readonly PAIRWISE_SCHEMA = {
+    type: 'object',
+    properties: {
+      preferred: { type: 'string', enum: ['1', '2', 'tie'] },
+      rationale: { type: 'string' }
+    },
+    required: ['preferred', 'rationale'],
+    additionalProperties: false
+  }
+
+  private static readonly REVISION_MAX_TOKENS = 2000 // Room for the longest allowed instructions
+  private static readonly REVISION_SCHEMA = {
+    type: 'object',
+    properties: {
+      instructions: { type: 'string' },
+      rationale: { type: 'string' }
+    },
+    required: ['instructions', 'rationale'],
+    additionalProperties: false
+  }
 
   /**
    * Execute the complete dual-model evaluation workflow
@@ -72,47 +202,47 @@ export class EvaluationEngine {
         startTime
       })
 
-      // Step 1: Execute primary test with user's selected model
-      const primaryResponse = await this.executePrimaryTest(params, operationId)
-      
-      // Step 2: Evaluate the response using user's selected evaluation model
-      const evaluationParams: EvaluationParams = {
-        response: primaryResponse.choices[0].message.content,
-        instructions: params.systemInstructions,
-        prompt: params.userPrompt,
-        apiKey: params.apiKey,
-        evaluationModel: params.evaluationModel
+      // Template variables are filled in before anything is sent
+      const resolvedParams = this.resolveVariables(params)
+
+      // Steps 1-2, repeated once per sample
+      const runs = Math.min(MAX_RUNS_PER_TEST, Math.max(1, Math.floor(params.runsPerTest ?? 1)))
+      const samples: SampleRun[] = []
+      for (let i = 0; i < runs; i++) {
+        throwIfCancelled(params.signal)
+        samples.push(await this.executeSample(resolvedParams, operationId))
       }
+      const [firstSample] = samples
       
-      const evaluationResult = await this.evaluateResponse(evaluationParams, operationId)
-      
-      // Step 3: Calculate execution time and costs
+      // Step 3: Calculate execution time, summing usage and cost across samples
       const executionTime = Date.now() - startTime
-      
-      // Create token usage from primary response
       const tokenUsage: TokenStats = {
-        promptTokens: primaryResponse.usage.prompt_tokens,
-        completionTokens: primaryResponse.usage.completion_tokens,
-        totalTokens: primaryResponse.usage.total_tokens
+        promptTokens: samples.reduce((sum, sample) => sum + sample.primaryResult.tokenUsage.promptTokens, 0),
+        completionTokens: samples.reduce((sum, sample) => sum + sample.primaryResult.tokenUsage.completionTokens, 0),
+        totalTokens: samples.reduce((sum, sample) => sum + sample.primaryResult.tokenUsage.totalTokens, 0)
       }
-      
-      const cost = this.calculateCost(primaryResponse, evaluationResult.evaluationTokens, params.model, params.evaluationModel)
+      const cost = samples.reduce((sum, sample) => sum + sample.cost, 0)
       
       // Clear recovery state on success
       ErrorRecoveryManager.clearRecoveryState(operationId)
       
       return {
-        response: primaryResponse.choices[0].message.content,
-        metrics: evaluationResult.metrics,
+        response: firstSample.primaryResult.response,
+        metrics: samples.length > 1 && samples.some(sample => !sample.metrics.evaluationError)
+          ? this.summarizeSamples(samples, params.rubric || DEFAULT_RUBRIC)
+          : firstSample.metrics,
         tokenUsage,
         executionTime,
-        cost
+        cost,
+        ...(firstSample.isMultiTurn && { conversation: firstSample.primaryResult.conversation }),
+        ...(firstSample.assertionResults && { assertionResults: firstSample.assertionResults }),
+        ...(firstSample.primaryResult.streamTiming && { streamTiming: firstSample.primaryResult.streamTiming })
       }
     } catch (error) {
       const appError = error instanceof Error ? ErrorClassifier.classifyError(error) : error as AppError
       
       // Add "Evaluation failed:" prefix to error message
-      if (!appError.message.startsWith('Evaluation failed:')) {
+      if (appError.type !== 'cancelled' && !appError.message.startsWith('Evaluation failed:')) {
         appError.message = `Evaluation failed: ${appError.message}`
       }
       
@@ -131,43 +261,525 @@ export class EvaluationEngine {
   }
 
   /**
-   * Execute the primary test using the user's selected model and instructions
+   * Run two instruction variants against the same prompt and model, score
+   * each on the rubric, then ask the evaluation model which response it
+   * prefers. The order the responses are shown in is randomized.
    */
-  private static async executePrimaryTest(params: TestParams, operationId: string): Promise<OpenRouterResponse> {
-    if (!params.model?.id) {
-      throw new Error('Model is required for evaluation')
+  static async executeComparison(params: ComparisonParams): Promise<ComparisonResult> {
+    const operationId = `comparison_${Date.now()}`
+    const startTime = Date.now()
+
+    try {
+      // Both variants and the pairwise judge see the text with variables filled in
+      const paramsA = this.resolveVariables(params)
+      const paramsB = this.resolveVariables({ ...params, systemInstructions: params.variantBInstructions })
+
+      // Variants run one after the other to stay within provider rate limits
+      const resultA = await this.executeEvaluation(paramsA)
+      const resultB = await this.executeEvaluation(paramsB)
+
+      const toVariant = (instructions: string, result: TestResult): ComparisonVariantResult => ({
+        instructions,
+        response: result.response,
+        metrics: result.metrics,
+        tokenUsage: result.tokenUsage,
+        ...(result.conversation && { conversation: result.conversation }),
+        ...(result.assertionResults && { assertionResults: result.assertionResults })
+      })
+      const variantA = toVariant(paramsA.systemInstructions, resultA)
+      const variantB = toVariant(paramsB.systemInstructions, resultB)
+
+      const presentedFirst: ComparisonVariant = Math.random() < 0.5 ? 'A' : 'B'
+      const pairwise = await this.judgePairwise(paramsA, variantA, variantB, presentedFirst, operationId)
+
+      return {
+        variantA,
+        variantB,
+        preference: pairwise.preference,
+        executionTime: Date.now() - startTime,
+        cost: resultA.cost + resultB.cost + pairwise.cost
+      }
+    } catch (error) {
+      const appError = error instanceof Error ? ErrorClassifier.classifyError(error) : error as AppError
+
+      if (appError.type !== 'cancelled' && !appError.message.startsWith('Evaluation failed:')) {
+        appError.message = `Evaluation failed: ${appError.message}`
+      }
+
+      appError.context = {
+        ...appError.context,
+        operation: 'comparison',
+        model: params.model?.id || 'unknown',
+        executionTime: Date.now() - startTime
+      }
+
+      throw appError
+    }
+  }
+
+  /**
+   * Ask the evaluation model which of two responses better serves the user
+   */
+  private static async judgePairwise(
+    params: ComparisonParams,
+    variantA: ComparisonVariantResult,
+    variantB: ComparisonVariantResult,
+    presentedFirst: ComparisonVariant,
+    operationId: string
+  ): Promise<{ preference: PairwisePreference; cost: number }> {
+    if (!params.evaluationModel?.id) {
+      throw new Error('Evaluation model is required for evaluation')
+    }
+
+    const [first, second] = presentedFirst === 'A' ? [variantA, variantB] : [variantB, variantA]
+
+    const request: OpenRouterRequest = {
+      model: params.evaluationModel.id,
+      messages: [
+        {
+          role: 'system',
+          content: 'You are an expert AI evaluator comparing two responses to the same request. Judge only the responses, not their order or length. Return your judgment in the exact JSON format requested.'
+        },
+        {
+          role: 'user',
+          content: this.buildPairwisePrompt(params.userPrompt, first, second, params.rubric || DEFAULT_RUBRIC, params.referenceAnswer?.trim())
+        }
+      ],
+      temperature: 0.1,
+      max_tokens: this.EVALUATION_MAX_TOKENS,
+      ...this.getResponseFormat(params.evaluationModel, 'pairwise_judgment', this.PAIRWISE_SCHEMA)
+    }
+
+    try {
+      const judgment = await this.requestJudgment(
+        resolveProvider(params.evaluationModel, params.providers || [], params.apiKey),
+        request,
+        text => this.parsePairwiseResponse(text, presentedFirst),
+        'No pairwise judgment generated',
+        params.signal
+      )
+
+      return {
+        preference: judgment.result ?? {
+          winner: null,
+          rationale: `Pairwise judgment failed after ${judgment.attempts} attempts: ${judgment.error}`,
+          presentedFirst
+        },
+        cost: this.calculateJudgeCost(judgment.tokens, params.evaluationModel)
+      }
+    } catch (error) {
+      const appError = error as AppError
+      appError.context = {
+        ...appError.context,
+        phase: 'pairwise_evaluation',
+        evaluationModel: params.evaluationModel?.id || 'unknown',
+        operationId
+      }
+      throw appError
+    }
+  }
+
+  /**
+   * Build the pairwise preference prompt. Responses are labelled by position only.
+   */
+  private static buildPairwisePrompt(
+    prompt: string,
+    first: ComparisonVariantResult,
+    second: ComparisonVariantResult,
+    rubric: Rubric,
+    referenceAnswer?: string
+  ): string {
+    const formatResponse = (variant: ComparisonVariantResult) => variant.conversation
+      ? variant.conversation.map(turn => `[${turn.role.toUpperCase()}]\n${turn.content}`).join('\n\n')
+      : variant.response
+
+    return `Two AI assistants were given the same user request under different system instructions. Decide which response better serves the user.
+
+USER PROMPT:
+${prompt}
+${referenceAnswer ? `
+REFERENCE ANSWER (prefer the response that agrees with and covers it):
+${referenceAnswer}
+` : ''}
+RESPONSE 1:
+${formatResponse(first)}
+
+RESPONSE 2:
+${formatResponse(second)}
+
+Consider these criteria:
+
+${this.formatRubricCriteria(rubric)}
+
+Return your judgment in this exact JSON format:
+{
+  "preferred": "1",
+  "rationale": "Why this response is better, citing specific differences"
+}
+
+Use "1" or "2" for the better response, or "tie" if neither is clearly better. Return only the JSON object, no additional text.`
+  }
+
+  /**
+   * Map a positional pairwise judgment back to variants A and B. Throws when
+   * the judgment is unusable.
+   */
+  private static parsePairwiseResponse(text: string, presentedFirst: ComparisonVariant): PairwisePreference {
+    const presentedSecond: ComparisonVariant = presentedFirst === 'A' ? 'B' : 'A'
+
+    const judgment = this.extractJson(text)
+    const preferred = String(judgment.preferred).trim().toLowerCase()
+    if (!['1', '2', 'tie'].includes(preferred)) {
+      throw new Error(`Invalid value for "preferred": ${JSON.stringify(judgment.preferred)}. Use "1", "2" or "tie"`)
     }
+    if (typeof judgment.rationale !== 'string') {
+      throw new Error('Missing required field: rationale')
+    }
+
+    return {
+      winner: preferred === 'tie' ? 'tie' : preferred === '1' ? presentedFirst : presentedSecond,
+      rationale: judgment.rationale,
+      presentedFirst
+    }
+  }
 
+  /**
+   * Ask a model to revise system instructions so they score better, given
+   * feedback from testing them. Unusable replies are re-asked like judge
+   * replies; if none is usable, the result carries the error instead.
+   */
+  static async proposeRevision(params: RevisionParams): Promise<RevisionResult> {
     const request: OpenRouterRequest = {
       model: params.model.id,
       messages: [
         {
           role: 'system',
-          content: params.systemInstructions
+          content: 'You are an expert prompt engineer. You revise system instructions so that a model following them handles the tested prompts better. Return your revision in the exact JSON format requested.'
         },
         {
           role: 'user',
-          content: params.userPrompt
+          content: this.buildRevisionPrompt(params.instructions, params.feedback)
         }
       ],
+      temperature: 0.7, // Some variety, so later rounds can try something different
+      max_tokens: this.REVISION_MAX_TOKENS,
+      ...this.getResponseFormat(params.model, 'instruction_revision', this.REVISION_SCHEMA)
+    }
+
+    try {
+      const judgment = await this.requestJudgment(
+        resolveProvider(params.model, params.providers || [], params.apiKey),
+        request,
+        text => this.parseRevisionResponse(text),
+        'No revision generated',
+        params.signal
+      )
+      const cost = this.calculateJudgeCost(judgment.tokens, params.model)
+
+      return judgment.result
+        ? { ...judgment.result, cost }
+        : {
+          instructions: '',
+          rationale: '',
+          cost,
+          error: `No usable revision after ${judgment.attempts} attempts (${judgment.error})`
+        }
+    } catch (error) {
+      const appError = error instanceof Error ? ErrorClassifier.classifyError(error) : error as AppError
+      appError.context = {
+        ...appError.context,
+        phase: 'revision',
+        model: params.model.id
+      }
+      throw appError
+    }
+  }
+
+  /**
+   * Build the prompt asking for revised instructions
+   */
+  private static buildRevisionPrompt(instructions: string, feedback: string): string {
+    return `Revise the following system instructions to fix the problems found when testing them. Keep what already works, change what the feedback points to, and keep every {{variable}} placeholder exactly as written.
+
+CURRENT INSTRUCTIONS:
+${instructions}
+
+TEST FEEDBACK (lowest scoring prompts first):
+${feedback || 'No feedback was recorded.'}
+
+Return the complete revised instructions in this exact JSON format:
+{
+  "instructions": "The complete revised system instructions",
+  "rationale": "One or two sentences on what was changed and why"
+}`
+  }
+
+  /**
+   * Read a revision reply. Throws when it has no instructions.
+   */
+  private static parseRevisionResponse(text: string): { instructions: string; rationale: string } {
+    const revision = this.extractJson(text)
+    if (typeof revision.instructions !== 'string' || !revision.instructions.trim()) {
+      throw new Error('Missing required field: instructions')
+    }
+
+    return {
+      instructions: revision.instructions.trim(),
+      rationale: typeof revision.rationale === 'string' ? revision.rationale.trim() : ''
+    }
+  }
+
+  /**
+   * Fill in {{variables}} in the instructions, prompt and scripted turns.
+   * Params without variable values are used as written.
+   */
+  private static resolveVariables<T extends TestParams>(params: T): T {
+    if (!params.variables) {
+      return params
+    }
+
+    const conversation = params.conversation || []
+    const missing = findMissingVariables(
+      [params.systemInstructions, params.userPrompt, ...conversation.map(turn => turn.content)],
+      params.variables
+    )
+    if (missing.length > 0) {
+      throw new Error(`Missing values for template variables: ${missing.join(', ')}`)
+    }
+
+    const values = params.variables
+    return {
+      ...params,
+      systemInstructions: interpolateTemplate(params.systemInstructions, values),
+      userPrompt: interpolateTemplate(params.userPrompt, values),
+      ...(params.conversation && { conversation: conversation.map(turn => ({ ...turn, content: interpolateTemplate(turn.content, values) })) }),
+      variables: undefined
+    }
+  }
+
+  /**
+   * Run the primary test once and judge the result
+   */
+  private static async executeSample(params: TestParams, operationId: string): Promise<SampleRun> {
+    // Step 1: Execute primary test with user's selected model
+    const primaryResult = await this.executeConversation(params, operationId)
+    const userTurns = primaryResult.conversation.filter(turn => turn.role === 'user')
+    const isMultiTurn = userTurns.length > 1
+
+    // Step 2: Evaluate the response using user's selected evaluation model(s)
+    const evaluationParams: EvaluationParams = {
+      response: primaryResult.response,
+      instructions: params.systemInstructions,
+      prompt: params.userPrompt,
+      conversation: isMultiTurn ? primaryResult.conversation : undefined,
+      referenceAnswer: params.referenceAnswer?.trim() || undefined,
+      rubric: params.rubric || DEFAULT_RUBRIC,
+      judgeTemplate: params.judgeTemplate || DEFAULT_JUDGE_TEMPLATE,
+      apiKey: params.apiKey,
+      providers: params.providers,
+      evaluationModel: params.evaluationModel,
+      signal: params.signal
+    }
+
+    const evaluationResult = await this.evaluateWithJudges(
+      evaluationParams,
+      params.additionalEvaluationModels || [],
+      params.judgeAggregation || 'mean',
+      operationId
+    )
+
+    return {
+      primaryResult,
+      metrics: evaluationResult.metrics,
+      cost: this.calculateCost(
+        primaryResult.tokenUsage,
+        [...evaluationResult.evaluations, ...evaluationResult.failedJudgeUsage],
+        params.model
+      ),
+      isMultiTurn,
+      // Step 2b: Deterministic assertions need no model call
+      ...(params.assertions && params.assertions.length > 0 && { assertionResults: runAssertions(params.assertions, primaryResult.response) })
+    }
+  }
+
+  /**
+   * Combine repeated samples into mean metrics with per-metric statistics.
+   * Samples whose evaluation failed are kept in the list but excluded from
+   * the statistics. The explanation and transcript come from the first
+   * scored sample.
+   */
+  private static summarizeSamples(samples: SampleRun[], rubric: Rubric): SuccessMetrics {
+    const sampleMetrics = samples.map(sample => sample.metrics).filter(metrics => !metrics.evaluationError)
+    const failedRuns = samples.length - sampleMetrics.length
+
+    const criterionScores = rubric.criteria.map(criterion => {
+      const scores = sampleMetrics
+        .map(metrics => metrics.criterionScores.find(score => score.criterionId === criterion.id)?.score)
+        .filter((score): score is number => score !== undefined)
+      return toCriterionScore(criterion, Math.round(mean(scores) * 100) / 100)
+    })
+
+    const judgeOverallScores = sampleMetrics
+      .map(metrics => metrics.judgeOverallScore)
+      .filter((score): score is number => score !== undefined)
+
+    const metrics: SuccessMetrics = {
+      overallScore: this.calculateOverallScore(criterionScores, rubric),
+      criterionScores,
+      explanation: sampleMetrics[0].explanation,
+      sampling: {
+        runs: samples.length,
+        ...(failedRuns > 0 && { failedRuns }),
+        overall: summarize(sampleMetrics.map(entry => entry.overallScore)),
+        criteria: rubric.criteria.map(criterion => ({
+          criterionId: criterion.id,
+          name: criterion.name,
+          statistics: summarize(
+            sampleMetrics
+              .map(entry => entry.criterionScores.find(score => score.criterionId === criterion.id)?.normalizedScore)
+              .filter((score): score is number => score !== undefined)
+          )
+        })),
+        samples: samples.map(sample => ({
+          response: sample.primaryResult.response,
+          metrics: sample.metrics,
+          ...(sample.assertionResults && { assertionResults: sample.assertionResults })
+        }))
+      }
+    }
+
+    if (judgeOverallScores.length > 0) {
+      metrics.judgeOverallScore = Math.round(mean(judgeOverallScores))
+    }
+
+    if (sampleMetrics[0].turnScores) {
+      metrics.turnScores = sampleMetrics[0].turnScores
+    }
+
+    const referenceScores = sampleMetrics
+      .map(entry => entry.reference)
+      .filter((score): score is ReferenceScore => score !== undefined)
+    if (referenceScores.length > 0) {
+      metrics.reference = this.combineReferenceScores(referenceScores, mean)
+    }
+
+    return metrics
+  }
+
+  /**
+   * Play the scripted conversation against the selected model. User turns are
+   * sent as-is; the model answers each user turn unless the script already
+   * supplies the assistant reply that follows it, which is marked as scripted.
+   * The script must end on a user turn, so the last reply is the model's.
+   */
+  private static async executeConversation(params: TestParams, operationId: string): Promise<ConversationResult> {
+    const script: ConversationTurn[] = [
+      { role: 'user', content: params.userPrompt },
+      ...(params.conversation || []).map(turn => turn.role === 'assistant' ? { ...turn, scripted: true } : turn)
+    ]
+    if (script[script.length - 1].role === 'assistant') {
+      throw new Error('The scripted conversation must end with a user turn for the model to answer')
+    }
+    const conversation: ConversationTurn[] = []
+    const tokenUsage: TokenStats = { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+    const completions: PrimaryCompletion[] = []
+
+    for (let i = 0; i < script.length; i++) {
+      const turn = script[i]
+      conversation.push(turn)
+
+      if (turn.role === 'assistant' || script[i + 1]?.role === 'assistant') {
+        continue
+      }
+
+      throwIfCancelled(params.signal)
+      const completion = await this.executePrimaryTest(params, conversation, operationId)
+      const { response } = completion
+      completions.push(completion)
+      conversation.push({ role: 'assistant', content: response.choices[0].message.content })
+
+      tokenUsage.promptTokens += response.usage.prompt_tokens
+      tokenUsage.completionTokens += response.usage.completion_tokens
+      tokenUsage.totalTokens += response.usage.total_tokens
+    }
+
+    const lastAssistantTurn = [...conversation].reverse().find(turn => turn.role === 'assistant' && !turn.scripted)
+    const streamTiming = this.calculateStreamTiming(completions)
+
+    return {
+      conversation,
+      response: lastAssistantTurn?.content || '',
+      tokenUsage,
+      ...(streamTiming && { streamTiming })
+    }
+  }
+
+  /**
+   * Time to first token of the opening call, and tokens per second over
+   * every streamed call. Undefined when nothing was streamed.
+   */
+  private static calculateStreamTiming(completions: PrimaryCompletion[]): StreamTiming | undefined {
+    const streamed = completions.filter(completion => completion.timeToFirstToken !== undefined)
+    if (streamed.length === 0) {
+      return undefined
+    }
+
+    const completionTokens = streamed.reduce((sum, completion) => sum + completion.response.usage.completion_tokens, 0)
+    const generationTime = streamed.reduce((sum, completion) => sum + (completion.generationTime ?? 0), 0)
+
+    return {
+      timeToFirstToken: streamed[0].timeToFirstToken ?? 0,
+      tokensPerSecond: generationTime > 0 ? Math.round(completionTokens / (generationTime / 1000) * 10) / 10 : 0
+    }
+  }
+
+  /**
+   * Execute one primary model call using the user's instructions and the
+   * conversation so far, streaming it when a partial response callback is set
+   */
+  private static async executePrimaryTest(
+    params: TestParams,
+    conversation: ConversationTurn[],
+    operationId: string
+  ): Promise<PrimaryCompletion> {
+    if (!params.model?.id) {
+      throw new Error('Model is required for evaluation')
+    }
+
+    const request: OpenRouterRequest = {
+      model: params.model.id,
+      messages: [
+        {
+          role: 'system',
+          content: params.systemInstructions
+        },
+        ...conversation.map(({ role, content }) => ({ role, content }))
+      ],
       temperature: params.temperature ?? this.DEFAULT_TEMPERATURE,
       max_tokens: params.maxTokens ?? this.DEFAULT_MAX_TOKENS
     }
 
     try {
-      const response = await openRouterService.chatCompletion(params.apiKey, request)
+      const connection = resolveProvider(params.model, params.providers || [], params.apiKey)
+
+      if (params.onPartialResponse) {
+        return await this.streamPrimaryTest(connection, request, params.onPartialResponse, params.signal)
+      }
+
+      const response = await connection.provider.chatCompletion(connection.apiKey, request, params.signal)
       
       if (!response.choices || response.choices.length === 0) {
         throw new Error('Evaluation failed: No response generated from the model')
       }
 
-      return response
+      return { response }
     } catch (error) {
       const appError = error as AppError
       appError.context = {
         ...appError.context,
         phase: 'primary_test',
         model: params.model?.id || 'unknown',
+        turn: conversation.length,
         operationId
       }
       throw appError
@@ -175,28 +787,224 @@ export class EvaluationEngine {
   }
 
   /**
-   * Evaluate the primary response using GPT-4 to generate success metrics
+   * Stream one primary model call, reporting the text so far after each
+   * delta. The usage totals from the final chunk are kept for costing.
+   */
+  private static async streamPrimaryTest(
+    connection: ProviderConnection,
+    request: OpenRouterRequest,
+    onPartialResponse: (partialResponse: string) => void,
+    signal?: AbortSignal
+  ): Promise<PrimaryCompletion> {
+    const startTime = Date.now()
+    let firstTokenTime: number | null = null
+    let content = ''
+    let usage: OpenRouterResponse['usage'] | undefined
+    let id = ''
+    let finishReason = 'stop'
+
+    for await (const chunk of connection.provider.streamChatCompletion(connection.apiKey, request, signal)) {
+      id = chunk.id || id
+      usage = chunk.usage || usage
+
+      const choice = chunk.choices?.[0]
+      if (choice?.finish_reason) {
+        finishReason = choice.finish_reason
+      }
+
+      if (choice?.delta?.content) {
+        firstTokenTime ??= Date.now()
+        content += choice.delta.content
+        onPartialResponse(content)
+      }
+    }
+
+    if (!content) {
+      throw new Error('Evaluation failed: No response generated from the model')
+    }
+    if (!usage) {
+      throw new Error('Evaluation failed: Usage information missing from the streamed response')
+    }
+
+    const endTime = Date.now()
+
+    return {
+      response: {
+        id,
+        object: 'chat.completion',
+        created: Math.floor(startTime / 1000),
+        model: request.model,
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: finishReason }],
+        usage
+      },
+      timeToFirstToken: (firstTokenTime ?? endTime) - startTime,
+      generationTime: endTime - (firstTokenTime ?? endTime)
+    }
+  }
+
+  /**
+   * Score the response with the evaluation model and any additional judges.
+   * Judges run in parallel; with more than one, a failed judge is recorded
+   * and skipped, and the evaluation only fails if every judge fails. Tokens
+   * a failed judge spent before its error are returned for the cost.
+   */
+  private static async evaluateWithJudges(
+    params: EvaluationParams,
+    additionalJudges: Model[],
+    aggregation: ScoreAggregation,
+    operationId: string
+  ): Promise<{ metrics: SuccessMetrics; evaluations: JudgeEvaluation[]; failedJudgeUsage: JudgeUsage[] }> {
+    const judges = [params.evaluationModel, ...additionalJudges].filter(
+      (judge, index, all) => all.findIndex(other => other?.id === judge?.id) === index
+    )
+
+    if (judges.length === 1) {
+      const evaluation = await this.evaluateResponse(params, operationId)
+      return {
+        metrics: evaluation.metrics,
+        evaluations: [{ model: params.evaluationModel, ...evaluation }],
+        failedJudgeUsage: []
+      }
+    }
+
+    const settled = await Promise.allSettled(
+      judges.map(judge => this.evaluateResponse({ ...params, evaluationModel: judge }, operationId))
+    )
+    throwIfCancelled(params.signal)
+
+    // Judges that errored or returned no usable evaluation are left out of the scores
+    const evaluations: JudgeEvaluation[] = []
+    const failedJudges: string[] = []
+    const failedJudgeUsage: JudgeUsage[] = []
+    settled.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        evaluations.push({ model: judges[index], ...result.value })
+      } else if ((result.reason as AppError)?.context?.evaluationTokens) {
+        failedJudgeUsage.push({ model: judges[index], evaluationTokens: (result.reason as AppError).context!.evaluationTokens })
+      }
+      if (result.status === 'rejected' || result.value.metrics.evaluationError) {
+        failedJudges.push(judges[index]?.id || 'unknown')
+      }
+    })
+
+    const scored = evaluations.filter(evaluation => !evaluation.metrics.evaluationError)
+    if (scored.length === 0) {
+      if (evaluations.length === 0) {
+        throw (settled[0] as PromiseRejectedResult).reason
+      }
+      return { metrics: evaluations[0].metrics, evaluations, failedJudgeUsage }
+    }
+
+    return {
+      metrics: this.aggregateJudgeMetrics(scored, params.rubric, aggregation, failedJudges),
+      evaluations,
+      failedJudgeUsage
+    }
+  }
+
+  /**
+   * Combine per-judge metrics into a single result with agreement statistics
+   */
+  private static aggregateJudgeMetrics(
+    evaluations: JudgeEvaluation[],
+    rubric: Rubric,
+    aggregation: ScoreAggregation,
+    failedJudges: string[]
+  ): SuccessMetrics {
+    const judgeMetrics = evaluations.map(evaluation => evaluation.metrics)
+
+    const criterionScores = rubric.criteria.map(criterion => {
+      const scores = judgeMetrics
+        .map(metrics => metrics.criterionScores.find(score => score.criterionId === criterion.id)?.score)
+        .filter((score): score is number => score !== undefined)
+      return toCriterionScore(criterion, Math.round(aggregate(scores, aggregation) * 100) / 100)
+    })
+
+    const judgeOverallScores = judgeMetrics
+      .map(metrics => metrics.judgeOverallScore)
+      .filter((score): score is number => score !== undefined)
+
+    const metrics: SuccessMetrics = {
+      overallScore: this.calculateOverallScore(criterionScores, rubric),
+      criterionScores,
+      explanation: judgeMetrics[0].explanation,
+      ensemble: {
+        aggregation,
+        judges: evaluations.map(evaluation => ({
+          modelId: evaluation.model.id,
+          modelName: evaluation.model.name,
+          metrics: evaluation.metrics
+        })),
+        spread: range(judgeMetrics.map(metrics => metrics.overallScore)),
+        agreement: pairwiseAgreement(
+          judgeMetrics.map(metrics => metrics.criterionScores.map(score => score.normalizedScore))
+        ),
+        ...(failedJudges.length > 0 && { failedJudges })
+      }
+    }
+
+    if (judgeOverallScores.length > 0) {
+      metrics.judgeOverallScore = Math.round(aggregate(judgeOverallScores, aggregation))
+    }
+
+    if (judgeMetrics.every(entry => entry.turnScores)) {
+      metrics.turnScores = judgeMetrics[0].turnScores!.map((turnScore, index) => ({
+        turn: turnScore.turn,
+        instructionAdherenceScore: Math.round(aggregate(
+          judgeMetrics.map(entry => entry.turnScores![index]?.instructionAdherenceScore ?? turnScore.instructionAdherenceScore),
+          aggregation
+        ))
+      }))
+    }
+
+    const referenceScores = judgeMetrics
+      .map(entry => entry.reference)
+      .filter((score): score is ReferenceScore => score !== undefined)
+    if (referenceScores.length > 0) {
+      metrics.reference = this.combineReferenceScores(referenceScores, values => aggregate(values, aggregation))
+    }
+
+    return metrics
+  }
+
+  /**
+   * Combine reference scores from several judges or samples. The explanation
+   * comes from the first one.
+   */
+  private static combineReferenceScores(scores: ReferenceScore[], combine: (values: number[]) => number): ReferenceScore {
+    const factualAgreement = Math.round(combine(scores.map(score => score.factualAgreement)))
+    const coverage = Math.round(combine(scores.map(score => score.coverage)))
+
+    return {
+      correctness: Math.round((factualAgreement + coverage) / 2),
+      factualAgreement,
+      coverage,
+      ...(scores[0].explanation && { explanation: scores[0].explanation })
+    }
+  }
+
+  /**
+   * Evaluate the primary response with a single judge model to generate success metrics
    */
   private static async evaluateResponse(params: EvaluationParams, operationId: string): Promise<{
     metrics: SuccessMetrics
     evaluationTokens: TokenStats
   }> {
-    const evaluationPrompt = this.buildEvaluationPrompt(
-      params.instructions,
-      params.prompt,
-      params.response
-    )
+    const evaluationPrompt = params.conversation
+      ? this.buildConversationEvaluationPrompt(params.instructions, params.conversation, params.rubric, params.referenceAnswer)
+      : this.buildEvaluationPrompt(params.judgeTemplate, params.instructions, params.prompt, params.response, params.rubric, params.referenceAnswer)
 
     if (!params.evaluationModel?.id) {
       throw new Error('Evaluation model is required for evaluation')
     }
 
+    const expectedTurns = params.conversation ? this.countAssistantTurns(params.conversation) : 0
     const request: OpenRouterRequest = {
       model: params.evaluationModel.id,
       messages: [
         {
           role: 'system',
-          content: 'You are an expert AI evaluator. Analyze the given response and provide detailed scoring based on the criteria provided. Return your evaluation in the exact JSON format requested.'
+          content: params.judgeTemplate.systemPrompt
         },
         {
           role: 'user',
@@ -204,24 +1012,29 @@ export class EvaluationEngine {
         }
       ],
       temperature: 0.1, // Low temperature for consistent evaluation
-      max_tokens: this.EVALUATION_MAX_TOKENS
+      max_tokens: this.EVALUATION_MAX_TOKENS,
+      ...this.getResponseFormat(
+        params.evaluationModel,
+        'evaluation',
+        this.buildEvaluationSchema(params.rubric, expectedTurns, Boolean(params.referenceAnswer))
+      )
     }
 
     try {
-      const response = await openRouterService.chatCompletion(params.apiKey, request)
-      
-      if (!response.choices || response.choices.length === 0) {
-        throw new Error('Evaluation failed: No evaluation response generated')
-      }
+      const judgment = await this.requestJudgment(
+        resolveProvider(params.evaluationModel, params.providers || [], params.apiKey),
+        request,
+        text => this.parseEvaluationResponse(text, params.rubric, expectedTurns, Boolean(params.referenceAnswer)),
+        'No evaluation response generated',
+        params.signal
+      )
 
-      const metrics = this.parseEvaluationResponse(response.choices[0].message.content)
-      const evaluationTokens: TokenStats = {
-        promptTokens: response.usage.prompt_tokens,
-        completionTokens: response.usage.completion_tokens,
-        totalTokens: response.usage.total_tokens
+      return {
+        metrics: judgment.result ?? this.failedMetrics(
+          `Evaluation failed: The judge returned no usable evaluation after ${judgment.attempts} attempts (${judgment.error})`
+        ),
+        evaluationTokens: judgment.tokens
       }
-      
-      return { metrics, evaluationTokens }
     } catch (error) {
       const appError = error as AppError
       appError.context = {
@@ -235,157 +1048,429 @@ export class EvaluationEngine {
   }
 
   /**
-   * Build the evaluation prompt template for consistent scoring
+   * Send a judge request and parse the reply, re-asking with the parse error
+   * up to JUDGE_MAX_ATTEMPTS times. Returns a null result when every attempt
+   * was unusable; request errors are thrown as usual, with the tokens spent
+   * on earlier attempts in `context.evaluationTokens`.
+   */
+  private static async requestJudgment<T>(
+    connection: ProviderConnection,
+    request: OpenRouterRequest,
+    parse: (text: string) => T,
+    emptyMessage: string,
+    signal?: AbortSignal
+  ): Promise<{ result: T | null; error?: string; attempts: number; tokens: TokenStats }> {
+    const tokens: TokenStats = { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+    const messages = [...request.messages]
+    let lastError = ''
+
+    for (let attempt = 1; attempt <= this.JUDGE_MAX_ATTEMPTS; attempt++) {
+      let response: OpenRouterResponse
+      try {
+        response = await connection.provider.chatCompletion(connection.apiKey, { ...request, messages }, signal)
+      } catch (error) {
+        const appError = error as AppError
+        appError.context = { ...appError.context, evaluationTokens: { ...tokens } }
+        throw appError
+      }
+
+      if (!response.choices || response.choices.length === 0) {
+        throw new Error(`Evaluation failed: ${emptyMessage}`)
+      }
+
+      tokens.promptTokens += response.usage.prompt_tokens
+      tokens.completionTokens += response.usage.completion_tokens
+      tokens.totalTokens += response.usage.total_tokens
+
+      const content = response.choices[0].message.content
+      try {
+        return { result: parse(content), attempts: attempt, tokens }
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error)
+        console.warn(`Judge reply unusable (attempt ${attempt} of ${this.JUDGE_MAX_ATTEMPTS}):`, lastError)
+        messages.push(
+          { role: 'assistant', content },
+          {
+            role: 'user',
+            content: `Your previous reply could not be used: ${lastError}. Reply again with only the JSON object in the requested format.`
+          }
+        )
+      }
+    }
+
+    return { result: null, error: lastError, attempts: this.JUDGE_MAX_ATTEMPTS, tokens }
+  }
+
+  /**
+   * Request structured output when the judge model supports it: a JSON schema
+   * where available, otherwise plain JSON mode
+   */
+  private static getResponseFormat(
+    judge: Model,
+    name: string,
+    schema: Record<string, unknown>
+  ): { response_format?: OpenRouterResponseFormat } {
+    const supported = judge.supportedParameters || []
+
+    if (supported.includes('structured_outputs')) {
+      return { response_format: { type: 'json_schema', json_schema: { name, strict: true, schema } } }
+    }
+    if (supported.includes('response_format')) {
+      return { response_format: { type: 'json_object' } }
+    }
+    return {}
+  }
+
+  /**
+   * JSON schema for the judge's evaluation reply, matching the prompt's format
+   */
+  private static buildEvaluationSchema(rubric: Rubric, expectedTurns: number, expectReference: boolean): Record<string, unknown> {
+    const properties: Record<string, unknown> = {
+      overallScore: { type: 'number' },
+      scores: {
+        type: 'object',
+        properties: Object.fromEntries(rubric.criteria.map(criterion => [criterion.id, { type: 'number' }])),
+        required: rubric.criteria.map(criterion => criterion.id),
+        additionalProperties: false
+      },
+      explanation: { type: 'string' }
+    }
+
+    if (expectedTurns > 0) {
+      properties.turnScores = {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            turn: { type: 'integer' },
+            instructionAdherenceScore: { type: 'number' },
+            explanation: { type: 'string' }
+          },
+          required: ['turn', 'instructionAdherenceScore', 'explanation'],
+          additionalProperties: false
+        }
+      }
+    }
+
+    if (expectReference) {
+      properties.reference = {
+        type: 'object',
+        properties: {
+          factualAgreement: { type: 'number' },
+          coverage: { type: 'number' },
+          explanation: { type: 'string' }
+        },
+        required: ['factualAgreement', 'coverage', 'explanation'],
+        additionalProperties: false
+      }
+    }
+
+    return {
+      type: 'object',
+      properties,
+      required: Object.keys(properties),
+      additionalProperties: false
+    }
+  }
+
+  /**
+   * Metrics for a response no judge could score. Scores are left empty so
+   * the run is never mistaken for a real result.
+   */
+  private static failedMetrics(evaluationError: string): SuccessMetrics {
+    return {
+      overallScore: 0,
+      criterionScores: [],
+      explanation: evaluationError,
+      evaluationError
+    }
+  }
+
+  /**
+   * Build the single-turn evaluation prompt from the judge template. The
+   * reference grading and reply format are appended after the template, so
+   * custom wording cannot break the JSON the parser expects.
    */
   private static buildEvaluationPrompt(
+    template: JudgeTemplate,
     instructions: string,
     prompt: string,
-    response: string
+    response: string,
+    rubric: Rubric,
+    referenceAnswer?: string
   ): string {
-    return `Please evaluate the following AI response based on how well it follows the given system instructions and addresses the user prompt.
+    const briefing = renderJudgeTemplate(template, {
+      instructions,
+      prompt,
+      response,
+      rubric: this.formatRubricCriteria(rubric)
+    })
+
+    return `${briefing}
+${referenceAnswer ? `
+Then grade the response against the reference answer:
+
+REFERENCE ANSWER:
+${referenceAnswer}
+
+${this.REFERENCE_GRADING_GUIDE}
+` : ''}
+Also provide:
+- Your own holistic success probability score (0-100) for the response as a whole
+- A brief explanation of the scoring rationale
+
+Return your evaluation in this exact JSON format:
+{
+  "overallScore": 85,
+  "scores": ${this.buildScoresExample(rubric)},${referenceAnswer ? `\n  "reference": ${this.REFERENCE_EXAMPLE},` : ''}
+  "explanation": "Brief explanation of the scoring rationale and key strengths/weaknesses"
+}
+
+Ensure the JSON is valid and contains only the requested fields, with a numeric score for every criterion ID inside its scale${referenceAnswer ? ' and reference scores between 0-100' : ''}.`
+  }
+
+  /**
+   * Build the evaluation prompt for a multi-turn conversation, asking for
+   * per-turn instruction adherence in addition to the overall scores. The
+   * transcript has no single prompt/response pair, so only the judge
+   * template's system prompt applies here.
+   */
+  private static buildConversationEvaluationPrompt(
+    instructions: string,
+    conversation: ConversationTurn[],
+    rubric: Rubric,
+    referenceAnswer?: string
+  ): string {
+    let assistantTurn = 0
+    const transcript = conversation
+      .map(turn => {
+        if (turn.role === 'assistant' && turn.scripted) {
+          return `SCRIPTED AI TURN (written by the tester, for context only; do not score):\n${turn.content}`
+        }
+        if (turn.role === 'assistant') {
+          assistantTurn++
+          return `AI RESPONSE (TURN ${assistantTurn}):\n${turn.content}`
+        }
+        return `USER:\n${turn.content}`
+      })
+      .join('\n\n')
+
+    return `Please evaluate the following multi-turn conversation based on how well the AI follows the given system instructions throughout the dialogue and addresses each user message.
 
 SYSTEM INSTRUCTIONS:
 ${instructions}
 
-USER PROMPT:
-${prompt}
-
-AI RESPONSE:
-${response}
+CONVERSATION:
+${transcript}
 
-Please provide a detailed evaluation with scores from 0-100 for each criterion:
+Please provide a detailed evaluation with a score for each criterion, judged across the whole conversation and using the scale given for it:
 
-1. COHERENCE (0-100): How logical, clear, and well-structured is the response?
-2. TASK COMPLETION (0-100): How completely does the response address the user's request?
-3. INSTRUCTION ADHERENCE (0-100): How well does the response follow the system instructions?
-4. EFFICIENCY (0-100): How concise and relevant is the response without unnecessary content?
+${this.formatRubricCriteria(rubric)}
+${referenceAnswer ? `
+Then grade the final AI turn against this reference answer:
+${referenceAnswer}
 
+${this.REFERENCE_GRADING_GUIDE}
+` : ''}
 Also provide:
-- An overall success probability score (0-100) that represents the weighted average
-- A brief explanation of the scoring rationale
+- Your own holistic success probability score (0-100) for the response as a whole
+- An instruction adherence score (0-100) for each of the ${assistantTurn} AI RESPONSE turns, in order, leaving out scripted turns
+- A brief explanation of the scoring rationale, noting the turn where adherence first degrades, if any
 
 Return your evaluation in this exact JSON format:
 {
   "overallScore": 85,
-  "coherenceScore": 90,
-  "taskCompletionScore": 85,
-  "instructionAdherenceScore": 80,
-  "efficiencyScore": 85,
+  "scores": ${this.buildScoresExample(rubric)},
+  "turnScores": [
+    { "turn": 1, "instructionAdherenceScore": 90, "explanation": "Brief note on this turn" }
+  ],${referenceAnswer ? `\n  "reference": ${this.REFERENCE_EXAMPLE},` : ''}
   "explanation": "Brief explanation of the scoring rationale and key strengths/weaknesses"
 }
 
-Ensure the JSON is valid and contains only the requested fields with numeric scores between 0-100.`
+Ensure the JSON is valid, that "scores" has a numeric score for every criterion ID inside its scale, and that "turnScores" has exactly ${assistantTurn} entries with scores between 0-100.`
   }
 
   /**
-   * Parse the evaluation response and extract metrics
+   * List rubric criteria for the judge prompt
    */
-  private static parseEvaluationResponse(evaluationText: string): SuccessMetrics {
-    try {
-      // Extract JSON from the response (handle cases where there might be extra text)
-      const jsonMatch = evaluationText.match(/\{[\s\S]*\}/)
-      if (!jsonMatch) {
-        throw new Error('Evaluation failed: No JSON found in evaluation response')
+  private static formatRubricCriteria(rubric: Rubric): string {
+    return rubric.criteria
+      .map((criterion, index) =>
+        `${index + 1}. ${criterion.name.toUpperCase()} (ID "${criterion.id}", ${formatScale(criterion.scale)}): ${criterion.description}`
+      )
+      .join('\n')
+  }
+
+  /**
+   * Build the example "scores" object for the judge's JSON format
+   */
+  private static buildScoresExample(rubric: Rubric): string {
+    const example = rubric.criteria.reduce((acc, criterion) => {
+      acc[criterion.id] = Math.round(criterion.scale.min + (criterion.scale.max - criterion.scale.min) * 0.8)
+      return acc
+    }, {} as Record<string, number>)
+
+    return JSON.stringify(example)
+  }
+
+  /**
+   * Parse the evaluation response and extract metrics. Throws a
+   * description of the problem, which is fed back to the judge on re-ask.
+   */
+  private static parseEvaluationResponse(
+    evaluationText: string,
+    rubric: Rubric,
+    expectedTurns = 0,
+    expectReference = false
+  ): SuccessMetrics {
+    const evaluation = this.extractJson(evaluationText)
+
+    // Validate required fields
+    for (const field of ['overallScore', 'scores', 'explanation']) {
+      if (!(field in evaluation)) {
+        throw new Error(`Missing required field: ${field}`)
       }
+    }
 
-      const evaluation = JSON.parse(jsonMatch[0])
-      
-      // Validate required fields
-      const requiredFields = [
-        'overallScore',
-        'coherenceScore', 
-        'taskCompletionScore',
-        'instructionAdherenceScore',
-        'efficiencyScore',
-        'explanation'
-      ]
-      
-      for (const field of requiredFields) {
-        if (!(field in evaluation)) {
-          throw new Error(`Evaluation failed: Missing required field: ${field}`)
-        }
+    if (typeof evaluation.overallScore !== 'number' || evaluation.overallScore < 0 || evaluation.overallScore > 100) {
+      throw new Error(`Invalid score for overallScore: ${evaluation.overallScore}`)
+    }
+
+    // Validate every rubric criterion was scored inside its scale
+    const scores = (evaluation.scores ?? {}) as Record<string, unknown>
+    const criterionScores: CriterionScore[] = rubric.criteria.map(criterion => {
+      const score = scores[criterion.id]
+      if (typeof score !== 'number' || score < criterion.scale.min || score > criterion.scale.max) {
+        throw new Error(`Invalid score for ${criterion.id}: ${score} (expected a number from ${formatScale(criterion.scale)})`)
       }
+      return toCriterionScore(criterion, score)
+    })
 
-      // Validate score ranges
-      const scoreFields = [
-        'overallScore',
-        'coherenceScore',
-        'taskCompletionScore', 
-        'instructionAdherenceScore',
-        'efficiencyScore'
-      ]
-      
-      for (const field of scoreFields) {
-        const score = evaluation[field]
-        if (typeof score !== 'number' || score < 0 || score > 100) {
-          throw new Error(`Evaluation failed: Invalid score for ${field}: ${score}`)
-        }
+    // The overall score is always computed locally; the judge's own figure is kept for comparison
+    const metrics: SuccessMetrics = {
+      overallScore: this.calculateOverallScore(criterionScores, rubric),
+      judgeOverallScore: Math.round(evaluation.overallScore),
+      criterionScores,
+      explanation: String(evaluation.explanation)
+    }
+
+    if (expectedTurns > 0) {
+      metrics.turnScores = this.parseTurnScores(evaluation.turnScores, expectedTurns)
+    }
+
+    if (expectReference) {
+      metrics.reference = this.parseReferenceScore(evaluation.reference)
+    }
+
+    return metrics
+  }
+
+  /**
+   * Extract the JSON object from a judge reply, tolerating surrounding text
+   */
+  private static extractJson(text: string): Record<string, unknown> {
+    const jsonMatch = text.match(/\{[\s\S]*\}/)
+    if (!jsonMatch) {
+      throw new Error('No JSON object found in the reply')
+    }
+
+    try {
+      return JSON.parse(jsonMatch[0])
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}`)
+    }
+  }
+
+  /**
+   * Validate per-turn scores from a multi-turn evaluation
+   */
+  private static parseTurnScores(turnScores: unknown, expectedTurns: number): TurnScore[] {
+    if (!Array.isArray(turnScores) || turnScores.length !== expectedTurns) {
+      throw new Error(`Expected ${expectedTurns} turn scores`)
+    }
+
+    return turnScores.map((entry, index) => {
+      const score = entry?.instructionAdherenceScore
+      if (typeof score !== 'number' || score < 0 || score > 100) {
+        throw new Error(`Invalid score for turn ${index + 1}: ${score}`)
       }
 
       return {
-        overallScore: Math.round(evaluation.overallScore),
-        coherenceScore: Math.round(evaluation.coherenceScore),
-        taskCompletionScore: Math.round(evaluation.taskCompletionScore),
-        instructionAdherenceScore: Math.round(evaluation.instructionAdherenceScore),
-        efficiencyScore: Math.round(evaluation.efficiencyScore),
-        explanation: evaluation.explanation
+        turn: index + 1,
+        instructionAdherenceScore: Math.round(score),
+        ...(typeof entry.explanation === 'string' && { explanation: entry.explanation })
       }
-    } catch (error) {
-      // Fallback scoring if evaluation parsing fails
-      console.error('Failed to parse evaluation response:', error)
-      return {
-        overallScore: 50,
-        coherenceScore: 50,
-        taskCompletionScore: 50,
-        instructionAdherenceScore: 50,
-        efficiencyScore: 50,
-        explanation: 'Evaluation parsing failed. Default scores applied.'
+    })
+  }
+
+  /**
+   * Validate the reference grading and derive correctness from it
+   */
+  private static parseReferenceScore(reference: unknown): ReferenceScore {
+    const entry = (reference ?? {}) as Record<string, unknown>
+
+    for (const field of ['factualAgreement', 'coverage']) {
+      const score = entry[field]
+      if (typeof score !== 'number' || score < 0 || score > 100) {
+        throw new Error(`Invalid reference score for ${field}: ${score}`)
       }
     }
+
+    const factualAgreement = Math.round(entry.factualAgreement as number)
+    const coverage = Math.round(entry.coverage as number)
+
+    return {
+      correctness: Math.round((factualAgreement + coverage) / 2),
+      factualAgreement,
+      coverage,
+      ...(typeof entry.explanation === 'string' && { explanation: entry.explanation })
+    }
+  }
+
+  /**
+   * Count the model replies in a conversation, leaving out scripted ones
+   */
+  private static countAssistantTurns(conversation: ConversationTurn[]): number {
+    return conversation.filter(turn => turn.role === 'assistant' && !turn.scripted).length
   }
 
-  // Removed makeOpenRouterRequest method as we now use openRouterService
+  // Removed makeOpenRouterRequest method as model calls now go through the chat providers
 
   /**
    * Calculate the total cost of the evaluation including both API calls
    */
   private static calculateCost(
-    primaryResponse: OpenRouterResponse,
-    evaluationTokens: TokenStats,
-    model: Model,
-    evaluationModel: Model
+    primaryTokens: TokenStats,
+    judgeUsage: JudgeUsage[],
+    model: Model
   ): number {
-    // Calculate primary test cost
-    const primaryPromptCost = (primaryResponse.usage.prompt_tokens / 1000000) * (model.pricing?.prompt || 0)
-    const primaryCompletionCost = (primaryResponse.usage.completion_tokens / 1000000) * (model.pricing?.completion || 0)
+    // Calculate primary test cost across all conversation turns
+    const primaryPromptCost = (primaryTokens.promptTokens / 1000000) * (model.pricing?.prompt || 0)
+    const primaryCompletionCost = (primaryTokens.completionTokens / 1000000) * (model.pricing?.completion || 0)
     const primaryTestCost = primaryPromptCost + primaryCompletionCost
 
-    // Calculate evaluation cost using the selected evaluation model's pricing
-    const evaluationPromptCost = (evaluationTokens.promptTokens / 1000000) * (evaluationModel.pricing?.prompt || 0)
-    const evaluationCompletionCost = (evaluationTokens.completionTokens / 1000000) * (evaluationModel.pricing?.completion || 0)
-    const evaluationCost = evaluationPromptCost + evaluationCompletionCost
+    // Calculate evaluation cost using each judge's own pricing
+    const evaluationCost = judgeUsage.reduce(
+      (total, { evaluationTokens, model: judge }) => total + this.calculateJudgeCost(evaluationTokens, judge),
+      0
+    )
 
     return primaryTestCost + evaluationCost
   }
 
   /**
-   * Calculate the overall score from individual metrics using weighted average
+   * Calculate the cost of a single judge call
    */
-  static calculateOverallScore(metrics: Omit<SuccessMetrics, 'overallScore' | 'explanation'>): number {
-    // Weighted scoring: Task completion and instruction adherence are most important
-    const weights = {
-      taskCompletion: 0.3,
-      instructionAdherence: 0.3,
-      coherence: 0.25,
-      efficiency: 0.15
-    }
-
-    const weightedScore = 
-      (metrics.taskCompletionScore * weights.taskCompletion) +
-      (metrics.instructionAdherenceScore * weights.instructionAdherence) +
-      (metrics.coherenceScore * weights.coherence) +
-      (metrics.efficiencyScore * weights.efficiency)
+  private static calculateJudgeCost(tokens: TokenStats, judge: Model): number {
+    const promptCost = (tokens.promptTokens / 1000000) * (judge.pricing?.prompt || 0)
+    const completionCost = (tokens.completionTokens / 1000000) * (judge.pricing?.completion || 0)
+    return promptCost + completionCost
+  }
 
-    return Math.round(weightedScore)
+  /**
+   * Calculate the overall score from criterion scores using the rubric's weights
+   */
+  static calculateOverallScore(criterionScores: CriterionScore[], rubric: Rubric = DEFAULT_RUBRIC): number {
+    return calculateWeightedScore(criterionScores, rubric) ?? 0
   }
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 'use client'
 
-import { TestRun } from '@/lib/types'
+import { TestRun, ConversationTurn, TurnScore, EnsembleSummary, SamplingSummary, ComparisonRun, ComparisonVariantResult, AssertionResult, ReferenceScore, SuccessMetrics, PairwisePreference } from '@/lib/types'
+import { collectCriterionNames, isScoredRun } from '@/lib/rubrics'
 
 export interface ExportData {
   metadata: {
@@ -15,12 +16,10 @@ export interface ExportData {
   testRuns: TestRun[]
   summary?: {
     averageScores: {
-      overall: number
-      coherence: number
-      taskCompletion: number
-      instructionAdherence: number
-      efficiency: number
+      overall: number | null // Null when no run has scores
+      criteria: Record<string, number> // Keyed by criterion name
     }
+    failedEvaluations: number // Runs excluded from the averages because their evaluation failed
     totalTokens: number
     totalCost: number
     totalExecutionTime: number
@@ -34,6 +33,12 @@ export interface SingleTestExportData {
   version: string
 }
 
+export interface ComparisonExportData {
+  comparison: ComparisonRun
+  exportedAt: string
+  version: string
+}
+
 export type ExportFormat = 'json' | 'markdown' | 'pdf'
 
 export class ExportService {
@@ -120,6 +125,36 @@ export class ExportService {
     }
   }
 
+  /**
+   * Export an A/B comparison in the specified format
+   */
+  static async exportComparison(
+    comparison: ComparisonRun,
+    format: ExportFormat = 'json'
+  ): Promise<void> {
+    const exportData: ComparisonExportData = {
+      comparison,
+      exportedAt: new Date().toISOString(),
+      version: "1.0"
+    }
+
+    const filename = `instruct-lab-comparison-${comparison.id.slice(0, 8)}-${this.formatDateForFilename(new Date())}`
+
+    switch (format) {
+      case 'json':
+        await this.downloadJSON(exportData, `${filename}.json`)
+        break
+      case 'markdown':
+        await this.downloadComparisonMarkdown(comparison, `${filename}.md`)
+        break
+      case 'pdf':
+        await this.generatePDFFromHTML(this.generateComparisonHTML(comparison))
+        break
+      default:
+        throw new Error(`Unsupported export format: ${format}`)
+    }
+  }
+
   /**
    * Prepare comprehensive export data with metadata and summary
    */
@@ -149,23 +184,16 @@ export class ExportService {
     const totalTests = testRuns.length
     if (totalTests === 0) return undefined
 
+    const scoredRuns = testRuns.filter(isScoredRun)
     const totals = testRuns.reduce(
       (acc, test) => ({
-        overall: acc.overall + test.metrics.overallScore,
-        coherence: acc.coherence + test.metrics.coherenceScore,
-        taskCompletion: acc.taskCompletion + test.metrics.taskCompletionScore,
-        instructionAdherence: acc.instructionAdherence + test.metrics.instructionAdherenceScore,
-        efficiency: acc.efficiency + test.metrics.efficiencyScore,
+        overall: acc.overall + (isScoredRun(test) ? test.metrics.overallScore : 0),
         tokens: acc.tokens + test.tokenUsage.totalTokens,
         cost: acc.cost + test.cost,
         executionTime: acc.executionTime + test.executionTime
       }),
       {
         overall: 0,
-        coherence: 0,
-        taskCompletion: 0,
-        instructionAdherence: 0,
-        efficiency: 0,
         tokens: 0,
         cost: 0,
         executionTime: 0
@@ -181,12 +209,10 @@ export class ExportService {
 
     return {
       averageScores: {
-        overall: Math.round(totals.overall / totalTests),
-        coherence: Math.round(totals.coherence / totalTests),
-        taskCompletion: Math.round(totals.taskCompletion / totalTests),
-        instructionAdherence: Math.round(totals.instructionAdherence / totalTests),
-        efficiency: Math.round(totals.efficiency / totalTests)
+        overall: scoredRuns.length > 0 ? Math.round(totals.overall / scoredRuns.length) : null,
+        criteria: this.calculateCriterionAverages(scoredRuns)
       },
+      failedEvaluations: totalTests - scoredRuns.length,
       totalTokens: totals.tokens,
       totalCost: totals.cost,
       totalExecutionTime: totals.executionTime,
@@ -194,10 +220,26 @@ export class ExportService {
     }
   }
 
+  /**
+   * Average each criterion over the runs that scored it, keyed by criterion name
+   */
+  private static calculateCriterionAverages(testRuns: TestRun[]): Record<string, number> {
+    const averages: Record<string, number> = {}
+
+    collectCriterionNames(testRuns.map(test => test.metrics)).forEach(name => {
+      const scores = testRuns
+        .map(test => test.metrics.criterionScores.find(score => score.name === name)?.normalizedScore)
+        .filter((score): score is number => score !== undefined)
+      averages[name] = Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length)
+    })
+
+    return averages
+  }
+
   /**
    * Download data as JSON file
    */
-  private static async downloadJSON(data: ExportData | SingleTestExportData, filename: string): Promise<void> {
+  private static async downloadJSON(data: ExportData | SingleTestExportData | ComparisonExportData, filename: string): Promise<void> {
     try {
       const jsonString = JSON.stringify(data, null, 2)
       const blob = new Blob([jsonString], { type: 'application/json' })
@@ -219,14 +261,23 @@ export class ExportService {
 - **Provider:** ${testRun.modelProvider}
 - **Execution Time:** ${testRun.executionTime}ms
 - **Cost:** $${testRun.cost.toFixed(4)}
-
+${testRun.streamTiming ? `- **Time to First Token:** ${testRun.streamTiming.timeToFirstToken}ms\n- **Tokens per Second:** ${testRun.streamTiming.tokensPerSecond}\n` : ''}${testRun.judgeTemplateVersion ? `- **Judge Template:** ${testRun.judgeTemplateVersion}\n` : ''}${testRun.instructionVersion ? `- **Instruction Version:** ${testRun.instructionVersion}\n` : ''}
 ## Evaluation Scores
-- **Overall Score:** ${testRun.metrics.overallScore}/100
-- **Coherence:** ${testRun.metrics.coherenceScore}/100
-- **Task Completion:** ${testRun.metrics.taskCompletionScore}/100
-- **Instruction Adherence:** ${testRun.metrics.instructionAdherenceScore}/100
-- **Efficiency:** ${testRun.metrics.efficiencyScore}/100
-
+- **Overall Score:** ${this.formatOverallScore(testRun.metrics)}
+${testRun.metrics.judgeOverallScore !== undefined ? `- **Judge-Reported Overall:** ${testRun.metrics.judgeOverallScore}/100\n` : ''}${testRun.metrics.criterionScores.map(score => `- **${score.name}:** ${score.normalizedScore}/100`).join('\n')}
+${testRun.metrics.reference ? `
+## Correctness vs Reference
+${this.formatReferenceMarkdown(testRun.metrics.reference)}
+` : ''}${testRun.assertionResults?.length ? `
+## Assertions
+${this.formatAssertionsMarkdown(testRun.assertionResults)}
+` : ''}${testRun.metrics.sampling ? `
+## Variance Across ${testRun.metrics.sampling.runs} Runs
+${this.formatSamplingMarkdown(testRun.metrics.sampling)}
+` : ''}${testRun.metrics.ensemble ? `
+## Judges
+${this.formatEnsembleMarkdown(testRun.metrics.ensemble)}
+` : ''}
 ## System Instructions
 \`\`\`
 ${testRun.instructions}
@@ -236,12 +287,20 @@ ${testRun.instructions}
 \`\`\`
 ${testRun.prompt}
 \`\`\`
-
+${testRun.referenceAnswer ? `
+## Reference Answer
+\`\`\`
+${testRun.referenceAnswer}
+\`\`\`
+` : ''}
 ## Model Response
 \`\`\`
 ${testRun.response}
 \`\`\`
-
+${testRun.conversation ? `
+## Conversation
+${this.formatConversationMarkdown(testRun.conversation, testRun.metrics.turnScores)}
+` : ''}
 ## Evaluation Summary
 ${testRun.metrics.explanation}
 
@@ -272,19 +331,18 @@ Total Tests: ${testRuns.length}
 |--------|---------------|`
 
     // Calculate averages
-    const avgOverall = Math.round(testRuns.reduce((sum, test) => sum + test.metrics.overallScore, 0) / testRuns.length)
-    const avgCoherence = Math.round(testRuns.reduce((sum, test) => sum + test.metrics.coherenceScore, 0) / testRuns.length)
-    const avgTaskCompletion = Math.round(testRuns.reduce((sum, test) => sum + test.metrics.taskCompletionScore, 0) / testRuns.length)
-    const avgInstructionAdherence = Math.round(testRuns.reduce((sum, test) => sum + test.metrics.instructionAdherenceScore, 0) / testRuns.length)
-    const avgEfficiency = Math.round(testRuns.reduce((sum, test) => sum + test.metrics.efficiencyScore, 0) / testRuns.length)
+    const scoredRuns = testRuns.filter(isScoredRun)
+    const avgOverall = scoredRuns.length > 0
+      ? `${Math.round(scoredRuns.reduce((sum, test) => sum + test.metrics.overallScore, 0) / scoredRuns.length)}/100`
+      : 'n/a'
+    const criterionAverages = this.calculateCriterionAverages(scoredRuns)
 
     markdownContent += `
-| Overall | ${avgOverall}/100 |
-| Coherence | ${avgCoherence}/100 |
-| Task Completion | ${avgTaskCompletion}/100 |
-| Instruction Adherence | ${avgInstructionAdherence}/100 |
-| Efficiency | ${avgEfficiency}/100 |
-
+| Overall | ${avgOverall} |
+${Object.entries(criterionAverages).map(([name, average]) => `| ${name} | ${average}/100 |`).join('\n')}
+${scoredRuns.length < testRuns.length ? `
+*${testRuns.length - scoredRuns.length} test(s) with a failed evaluation are excluded from the averages.*
+` : ''}
 ## Test Results
 
 `
@@ -293,19 +351,22 @@ Total Tests: ${testRuns.length}
       markdownContent += `### Test ${index + 1} - ${new Date(test.timestamp).toLocaleString()}
 
 **Model:** ${test.model} (${test.modelProvider})
-**Overall Score:** ${test.metrics.overallScore}/100
+**Overall Score:** ${this.formatOverallScore(test.metrics)}
 
 #### Detailed Scores
-- Coherence: ${test.metrics.coherenceScore}/100
-- Task Completion: ${test.metrics.taskCompletionScore}/100
-- Instruction Adherence: ${test.metrics.instructionAdherenceScore}/100
-- Efficiency: ${test.metrics.efficiencyScore}/100
-
+${test.metrics.criterionScores.map(score => `- ${score.name}: ${score.normalizedScore}/100`).join('\n')}
+${test.metrics.reference ? `
+#### Correctness vs Reference
+${this.formatReferenceMarkdown(test.metrics.reference)}
+` : ''}${test.assertionResults?.length ? `
+#### Assertions
+${this.formatAssertionsMarkdown(test.assertionResults)}
+` : ''}
 #### Performance
 - Execution Time: ${test.executionTime}ms
 - Cost: $${test.cost.toFixed(4)}
 - Tokens: ${test.tokenUsage.totalTokens} (${test.tokenUsage.promptTokens} prompt + ${test.tokenUsage.completionTokens} completion)
-
+${test.streamTiming ? `- Time to First Token: ${test.streamTiming.timeToFirstToken}ms\n- Tokens per Second: ${test.streamTiming.tokensPerSecond}\n` : ''}${test.judgeTemplateVersion ? `- Judge Template: ${test.judgeTemplateVersion}\n` : ''}${test.instructionVersion ? `- Instruction Version: ${test.instructionVersion}\n` : ''}
 #### System Instructions
 \`\`\`
 ${test.instructions}
@@ -315,12 +376,20 @@ ${test.instructions}
 \`\`\`
 ${test.prompt}
 \`\`\`
-
+${test.referenceAnswer ? `
+#### Reference Answer
+\`\`\`
+${test.referenceAnswer}
+\`\`\`
+` : ''}
 #### Model Response
 \`\`\`
 ${test.response}
 \`\`\`
-
+${test.conversation ? `
+#### Conversation
+${this.formatConversationMarkdown(test.conversation, test.metrics.turnScores)}
+` : ''}
 #### Evaluation Summary
 ${test.metrics.explanation}
 
@@ -333,6 +402,64 @@ ${test.metrics.explanation}
     this.downloadBlob(blob, filename)
   }
 
+  /**
+   * Download an A/B comparison as Markdown
+   */
+  private static async downloadComparisonMarkdown(comparison: ComparisonRun, filename: string): Promise<void> {
+    const { preference } = comparison
+    const formatVariant = (label: string, variant: ComparisonVariantResult) => `## Variant ${label}${preference.winner === label ? ' (preferred)' : ''}
+- **Overall Score:** ${this.formatOverallScore(variant.metrics)}
+${variant.metrics.reference ? `- **Correctness vs Reference:** ${variant.metrics.reference.correctness}/100\n` : ''}${variant.metrics.criterionScores.map(score => `- **${score.name}:** ${score.normalizedScore}/100`).join('\n')}
+${variant.assertionResults?.length ? `\n### Assertions\n${this.formatAssertionsMarkdown(variant.assertionResults)}\n` : ''}
+### System Instructions
+\`\`\`
+${variant.instructions}
+\`\`\`
+
+### ${variant.conversation ? 'Conversation' : 'Model Response'}
+${variant.conversation
+  ? this.formatConversationMarkdown(variant.conversation, variant.metrics.turnScores)
+  : `\`\`\`\n${variant.response}\n\`\`\``}
+
+### Evaluation Summary
+${variant.metrics.explanation}
+`
+
+    const markdownContent = `# A/B Comparison Report
+
+## Comparison Information
+- **Date:** ${new Date(comparison.timestamp).toLocaleString()}
+- **Model:** ${comparison.model}
+- **Provider:** ${comparison.modelProvider}
+- **Execution Time:** ${comparison.executionTime}ms
+- **Cost:** $${comparison.cost.toFixed(4)}
+${comparison.judgeTemplateVersion ? `- **Judge Template:** ${comparison.judgeTemplateVersion}\n` : ''}
+## Judge Preference
+- **Preferred:** ${this.describePreference(preference)}
+- **Shown first to the judge:** Variant ${preference.presentedFirst}
+
+${preference.rationale}
+
+## Test Prompt
+\`\`\`
+${comparison.prompt}
+\`\`\`
+${comparison.referenceAnswer ? `
+## Reference Answer
+\`\`\`
+${comparison.referenceAnswer}
+\`\`\`
+` : ''}
+${formatVariant('A', comparison.variantA)}
+${formatVariant('B', comparison.variantB)}
+---
+*Generated by Instruct-Lab on ${new Date().toLocaleString()}*
+`
+
+    const blob = new Blob([markdownContent], { type: 'text/markdown' })
+    this.downloadBlob(blob, filename)
+  }
+
   /**
    * Download single test as PDF
    */
@@ -349,6 +476,77 @@ ${test.metrics.explanation}
     await this.generatePDFFromHTML(htmlContent)
   }
 
+  /**
+   * Generate HTML content for an A/B comparison PDF
+   */
+  private static generateComparisonHTML(comparison: ComparisonRun): string {
+    const { preference } = comparison
+    const variantColumn = (label: string, variant: ComparisonVariantResult) => `
+          <div class="variant ${preference.winner === label ? 'preferred' : ''}">
+            <h2 class="section-title">Variant ${label}${preference.winner === label ? ' · Preferred' : ''}</h2>
+            <div class="metric-value ${this.getScoreClass(variant.metrics.overallScore)}">${variant.metrics.overallScore}%</div>
+            <table>
+              ${variant.metrics.criterionScores.map(score => `
+              <tr><td>${this.escapeHtml(score.name)}</td><td class="${this.getScoreClass(score.normalizedScore)}">${score.normalizedScore}%</td></tr>
+              `).join('')}
+            </table>
+            <div class="content-box">
+              <div class="content-label">System Instructions</div>
+              <div class="content-text">${this.escapeHtml(variant.instructions)}</div>
+            </div>
+            <div class="content-box">
+              <div class="content-label">Model Response</div>
+              <div class="content-text">${this.escapeHtml(variant.response)}</div>
+            </div>
+          </div>`
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Instruct-Lab Comparison Report</title>
+        <style>
+          body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; margin: 40px; color: #333; }
+          .header { border-bottom: 2px solid #e5e7eb; padding-bottom: 20px; margin-bottom: 30px; }
+          .title { font-size: 24px; font-weight: bold; margin: 0; color: #111827; }
+          .subtitle { font-size: 14px; color: #6b7280; margin: 5px 0 0 0; }
+          .section-title { font-size: 18px; font-weight: 600; margin-bottom: 15px; color: #374151; }
+          .variants { display: grid; grid-template-columns: repeat(2, 1fr); gap: 20px; }
+          .variant { border: 1px solid #e5e7eb; border-radius: 8px; padding: 15px; }
+          .variant.preferred { border-color: #059669; }
+          .metric-value { font-size: 24px; font-weight: bold; margin: 5px 0; }
+          .excellent { color: #059669; }
+          .good { color: #d97706; }
+          .poor { color: #dc2626; }
+          table { width: 100%; font-size: 12px; margin: 10px 0; }
+          .content-box { background: #f9fafb; border: 1px solid #e5e7eb; border-radius: 6px; padding: 15px; margin: 10px 0; }
+          .content-label { font-weight: 600; margin-bottom: 8px; }
+          .content-text { white-space: pre-wrap; font-family: 'SF Mono', Monaco, monospace; font-size: 12px; line-height: 1.5; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1 class="title">Instruct-Lab Comparison Report</h1>
+          <p class="subtitle">${this.escapeHtml(comparison.model)} · ${new Date(comparison.timestamp).toLocaleString()} · $${comparison.cost.toFixed(4)}</p>
+        </div>
+        <div class="content-box">
+          <div class="content-label">Judge preference: ${this.describePreference(preference)} (Variant ${preference.presentedFirst} shown first)</div>
+          <div>${this.escapeHtml(preference.rationale)}</div>
+        </div>
+        <div class="content-box">
+          <div class="content-label">Test Prompt</div>
+          <div class="content-text">${this.escapeHtml(comparison.prompt)}</div>
+        </div>
+        <div class="variants">
+          ${variantColumn('A', comparison.variantA)}
+          ${variantColumn('B', comparison.variantB)}
+        </div>
+      </body>
+      </html>
+    `
+  }
+
   /**
    * Generate HTML content for single test PDF
    */
@@ -414,30 +612,49 @@ ${test.metrics.explanation}
           <div class="metrics-grid">
             <div class="metric-card">
               <div class="metric-label">Overall Score</div>
-              <div class="metric-value ${this.getScoreClass(testRun.metrics.overallScore)}">${testRun.metrics.overallScore}%</div>
+              <div class="metric-value ${this.getScoreClass(testRun.metrics.overallScore)}">${testRun.metrics.evaluationError ? 'Failed' : `${testRun.metrics.overallScore}%`}</div>
             </div>
+            ${testRun.metrics.criterionScores.map(score => `
             <div class="metric-card">
-              <div class="metric-label">Coherence</div>
-              <div class="metric-value ${this.getScoreClass(testRun.metrics.coherenceScore)}">${testRun.metrics.coherenceScore}%</div>
+              <div class="metric-label">${this.escapeHtml(score.name)}</div>
+              <div class="metric-value ${this.getScoreClass(score.normalizedScore)}">${score.normalizedScore}%</div>
             </div>
+            `).join('')}
             <div class="metric-card">
-              <div class="metric-label">Task Completion</div>
-              <div class="metric-value ${this.getScoreClass(testRun.metrics.taskCompletionScore)}">${testRun.metrics.taskCompletionScore}%</div>
+              <div class="metric-label">Total Tokens</div>
+              <div class="metric-value">${testRun.tokenUsage.totalTokens.toLocaleString()}</div>
             </div>
+          </div>
+        </div>
+        ${testRun.metrics.reference ? `
+        <div class="section">
+          <h2 class="section-title">Correctness vs Reference</h2>
+          <div class="metrics-grid">
             <div class="metric-card">
-              <div class="metric-label">Instruction Adherence</div>
-              <div class="metric-value ${this.getScoreClass(testRun.metrics.instructionAdherenceScore)}">${testRun.metrics.instructionAdherenceScore}%</div>
+              <div class="metric-label">Correctness</div>
+              <div class="metric-value ${this.getScoreClass(testRun.metrics.reference.correctness)}">${testRun.metrics.reference.correctness}%</div>
             </div>
             <div class="metric-card">
-              <div class="metric-label">Efficiency</div>
-              <div class="metric-value ${this.getScoreClass(testRun.metrics.efficiencyScore)}">${testRun.metrics.efficiencyScore}%</div>
+              <div class="metric-label">Factual Agreement</div>
+              <div class="metric-value ${this.getScoreClass(testRun.metrics.reference.factualAgreement)}">${testRun.metrics.reference.factualAgreement}%</div>
             </div>
             <div class="metric-card">
-              <div class="metric-label">Total Tokens</div>
-              <div class="metric-value">${testRun.tokenUsage.totalTokens.toLocaleString()}</div>
+              <div class="metric-label">Coverage</div>
+              <div class="metric-value ${this.getScoreClass(testRun.metrics.reference.coverage)}">${testRun.metrics.reference.coverage}%</div>
             </div>
           </div>
         </div>
+        ` : ''}
+        ${testRun.assertionResults?.length ? `
+        <div class="section">
+          <h2 class="section-title">Assertions</h2>
+          <ul>
+            ${testRun.assertionResults.map(result => `
+            <li><strong style="color: ${result.passed ? '#059669' : '#dc2626'}">${result.passed ? 'PASS' : 'FAIL'}</strong> ${this.escapeHtml(result.description)}: ${this.escapeHtml(result.message)}</li>
+            `).join('')}
+          </ul>
+        </div>
+        ` : ''}
 
         <div class="section">
           <h2 class="section-title">Execution Statistics</h2>
@@ -509,6 +726,7 @@ ${test.metrics.explanation}
    */
   private static generateHistoryHTML(exportData: ExportData): string {
     const { metadata, tests, summary } = exportData
+    const criterionNames = collectCriterionNames(exportData.testRuns.map(test => test.metrics))
     
     return `
       <!DOCTYPE html>
@@ -546,7 +764,7 @@ ${test.metrics.explanation}
           <h1 class="title">Instruct-Lab Test History Report</h1>
           <p class="subtitle">Generated on ${new Date(metadata.exportDate).toLocaleString()}</p>
           <p class="subtitle">Total Tests: ${metadata.totalTests} • ${new Date(metadata.dateRange.earliest).toLocaleDateString()} to ${new Date(metadata.dateRange.latest).toLocaleDateString()}</p>
-          <p class="subtitle">Average Score: ${summary ? summary.averageScores.overall : 0}%</p>
+          <p class="subtitle">Average Score: ${summary?.averageScores.overall != null ? `${summary.averageScores.overall}%` : 'N/A'}</p>
         </div>
         
         <!-- Test expectations -->
@@ -562,7 +780,9 @@ ${test.metrics.explanation}
           <div class="summary-grid">
             <div class="summary-card">
               <div class="summary-label">Average Overall Score</div>
-              <div class="summary-value ${this.getScoreClass(summary.averageScores.overall)}">${summary.averageScores.overall}%</div>
+              ${summary.averageScores.overall === null
+                ? '<div class="summary-value">N/A</div>'
+                : `<div class="summary-value ${this.getScoreClass(summary.averageScores.overall)}">${summary.averageScores.overall}%</div>`}
             </div>
             <div class="summary-card">
               <div class="summary-label">Total Tokens Used</div>
@@ -572,14 +792,12 @@ ${test.metrics.explanation}
               <div class="summary-label">Total Cost</div>
               <div class="summary-value">$${summary.totalCost.toFixed(4)}</div>
             </div>
+            ${Object.entries(summary.averageScores.criteria).map(([name, average]) => `
             <div class="summary-card">
-              <div class="summary-label">Avg Coherence</div>
-              <div class="summary-value ${this.getScoreClass(summary.averageScores.coherence)}">${summary.averageScores.coherence}%</div>
-            </div>
-            <div class="summary-card">
-              <div class="summary-label">Avg Task Completion</div>
-              <div class="summary-value ${this.getScoreClass(summary.averageScores.taskCompletion)}">${summary.averageScores.taskCompletion}%</div>
+              <div class="summary-label">Avg ${this.escapeHtml(name)}</div>
+              <div class="summary-value ${this.getScoreClass(average)}">${average}%</div>
             </div>
+            `).join('')}
             <div class="summary-card">
               <div class="summary-label">Total Execution Time</div>
               <div class="summary-value">${(summary.totalExecutionTime / 1000).toFixed(1)}s</div>
@@ -608,10 +826,7 @@ ${test.metrics.explanation}
                 <th>Date</th>
                 <th>Model</th>
                 <th>Overall</th>
-                <th>Coherence</th>
-                <th>Task Complete</th>
-                <th>Adherence</th>
-                <th>Efficiency</th>
+                ${criterionNames.map(name => `<th>${this.escapeHtml(name)}</th>`).join('')}
                 <th>Tokens</th>
                 <th>Time</th>
                 <th>Cost</th>
@@ -622,11 +837,13 @@ ${test.metrics.explanation}
                 <tr>
                   <td>${new Date(test.timestamp).toLocaleDateString()}</td>
                   <td>${test.model}</td>
-                  <td><span class="score ${this.getScoreClass(test.metrics.overallScore)}">${test.metrics.overallScore}%</span></td>
-                  <td><span class="score ${this.getScoreClass(test.metrics.coherenceScore)}">${test.metrics.coherenceScore}%</span></td>
-                  <td><span class="score ${this.getScoreClass(test.metrics.taskCompletionScore)}">${test.metrics.taskCompletionScore}%</span></td>
-                  <td><span class="score ${this.getScoreClass(test.metrics.instructionAdherenceScore)}">${test.metrics.instructionAdherenceScore}%</span></td>
-                  <td><span class="score ${this.getScoreClass(test.metrics.efficiencyScore)}">${test.metrics.efficiencyScore}%</span></td>
+                  <td><span class="score ${this.getScoreClass(test.metrics.overallScore)}">${test.metrics.evaluationError ? 'Failed' : `${test.metrics.overallScore}%`}</span></td>
+                  ${criterionNames.map(name => {
+                    const score = test.metrics.criterionScores.find(entry => entry.name === name)
+                    return score
+                      ? `<td><span class="score ${this.getScoreClass(score.normalizedScore)}">${score.normalizedScore}%</span></td>`
+                      : '<td>—</td>'
+                  }).join('')}
                   <td>${test.tokenUsage.totalTokens.toLocaleString()}</td>
                   <td>${(test.executionTime / 1000).toFixed(1)}s</td>
                   <td>$${test.cost.toFixed(4)}</td>
@@ -712,6 +929,74 @@ ${test.metrics.explanation}
     }
   }
 
+  private static formatSamplingMarkdown(sampling: SamplingSummary): string {
+    const rows = [
+      { label: 'Overall', statistics: sampling.overall },
+      ...sampling.criteria.map(criterion => ({ label: criterion.name, statistics: criterion.statistics }))
+    ]
+    return [
+      '| Metric | Mean | SD | Min–Max | 95% CI |',
+      '|--------|------|----|---------|--------|',
+      ...rows.map(({ label, statistics }) =>
+        `| ${label} | ${statistics.mean} | ${statistics.standardDeviation} | ${statistics.min}–${statistics.max} | ${statistics.confidenceInterval.lower}–${statistics.confidenceInterval.upper} |`
+      )
+    ].join('\n')
+  }
+
+  private static describePreference(preference: PairwisePreference): string {
+    if (preference.winner === null) return 'None (judgment failed)'
+    return preference.winner === 'tie' ? 'Tie' : `Variant ${preference.winner}`
+  }
+
+  private static formatOverallScore(metrics: SuccessMetrics): string {
+    return metrics.evaluationError ? `Evaluation failed (${metrics.evaluationError})` : `${metrics.overallScore}/100`
+  }
+
+  private static formatReferenceMarkdown(reference: ReferenceScore): string {
+    return [
+      `- **Correctness:** ${reference.correctness}/100`,
+      `- **Factual Agreement:** ${reference.factualAgreement}/100`,
+      `- **Coverage:** ${reference.coverage}/100`,
+      ...(reference.explanation ? ['', reference.explanation] : [])
+    ].join('\n')
+  }
+
+  private static formatAssertionsMarkdown(results: AssertionResult[]): string {
+    const passed = results.filter(result => result.passed).length
+    return [
+      `${passed}/${results.length} passed.`,
+      '',
+      ...results.map(result => `- **${result.passed ? 'PASS' : 'FAIL'}** ${result.description}: ${result.message}`)
+    ].join('\n')
+  }
+
+  private static formatEnsembleMarkdown(ensemble: EnsembleSummary): string {
+    const lines = [
+      `Combined by ${ensemble.aggregation}. Spread: ${ensemble.spread} pts. Agreement: ${ensemble.agreement}%.`,
+      '',
+      ...ensemble.judges.map(judge => `- **${judge.modelName}:** ${judge.metrics.overallScore}/100`)
+    ]
+    if (ensemble.failedJudges?.length) {
+      lines.push(`- No score from: ${ensemble.failedJudges.join(', ')}`)
+    }
+    return lines.join('\n')
+  }
+
+  private static formatConversationMarkdown(conversation: ConversationTurn[], turnScores: TurnScore[] = []): string {
+    let assistantTurn = 0
+
+    return conversation.map(turn => {
+      if (turn.role === 'user') {
+        return `**User:**\n\`\`\`\n${turn.content}\n\`\`\``
+      }
+
+      assistantTurn++
+      const turnScore = turnScores.find(score => score.turn === assistantTurn)
+      const scoreLabel = turnScore ? ` (Adherence: ${turnScore.instructionAdherenceScore}/100)` : ''
+      return `**Model, Turn ${assistantTurn}${scoreLabel}:**\n\`\`\`\n${turn.content}\n\`\`\``
+    }).join('\n\n')
+  }
+
   private static formatDateForFilename(date: Date): string {
     return date.toISOString().split('T')[0].replace(/-/g, '')
   }
@@ -4,6 +4,10 @@ export type {
   TestParams, 
   EvaluationParams, 
   TestResult, 
+  ComparisonParams,
+  ComparisonResult,
+  RevisionParams,
+  RevisionResult,
   OpenRouterRequest,
   OpenRouterResponse,
   OpenRouterMessage 
@@ -13,6 +17,7 @@ export { ExportService } from './exportService'
 export type {
   ExportData,
   SingleTestExportData,
+  ComparisonExportData,
   ExportFormat
 } from './exportService'
 
@@ -20,4 +25,18 @@ export { OpenRouterService, openRouterService } from './openRouterService'
 export type {
   OpenRouterModel,
   OpenRouterModelsResponse
-} from './openRouterService'
\ No newline at end of file
+} from './openRouterService'
+
+export {
+  OpenAICompatibleProvider,
+  AnthropicProvider,
+  createProvider,
+  resolveProvider
+} from './providers'
+export type {
+  ChatProvider,
+  ChatRequest,
+  ChatResponse,
+  ChatStreamChunk,
+  ProviderConnection
+} from './providers'
\ No newline at end of file
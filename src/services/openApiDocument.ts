@@ -0,0 +1,246 @@
+/**
+ * OpenAPI description of the app's HTTP API, served at /api/openapi.json
+ */
+
+import { MAX_RUNS_PER_TEST } from '@/lib/statistics'
+import { ASSERTION_LABELS, MAX_ASSERTIONS, MAX_PATTERN_LENGTH } from '@/lib/assertions'
+import { MAX_RUBRIC_CRITERIA } from '@/lib/rubrics'
+import { MAX_ADDITIONAL_JUDGES, MAX_CONVERSATION_TURNS } from '@/lib/validation'
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` })
+
+const jsonContent = (schema: object) => ({ 'application/json': { schema } })
+
+const errorResponse = (description: string) => ({ description, content: jsonContent(ref('Error')) })
+
+export const OPENAPI_DOCUMENT = {
+  openapi: '3.1.0',
+  info: {
+    title: 'Instruct-Lab API',
+    version: '0.1.0',
+    description: 'Run evaluations from scripts and CI, and reach OpenRouter through the app. OpenRouter keys are sent as bearer tokens; without one, the server key (OPENROUTER_API_KEY) is used when set. Requests are rate limited per client IP.'
+  },
+  servers: [{ url: '/' }],
+  components: {
+    securitySchemes: {
+      openRouterKey: { type: 'http', scheme: 'bearer', description: 'OpenRouter API key' }
+    },
+    schemas: {
+      Error: {
+        type: 'object',
+        required: ['error'],
+        properties: {
+          error: {
+            type: 'object',
+            required: ['code', 'message'],
+            properties: {
+              code: { type: 'integer', description: 'HTTP status' },
+              type: {
+                type: 'string',
+                enum: ['validation', 'authentication', 'rate_limit', 'cancelled', 'api', 'network', 'timeout', 'unknown'],
+                description: 'Error category. Validation is 400, authentication 401, rate_limit 429, api and network 502, timeout 504, anything else 500.'
+              },
+              message: { type: 'string' },
+              details: { type: 'array', items: { type: 'string' }, description: 'One entry per invalid field' }
+            }
+          }
+        }
+      },
+      ConversationTurn: {
+        type: 'object',
+        required: ['role', 'content'],
+        properties: {
+          role: { type: 'string', enum: ['user', 'assistant'] },
+          content: { type: 'string' },
+          scripted: { type: 'boolean', description: 'Set in results on assistant turns taken from the script; these are not scored' }
+        }
+      },
+      Rubric: {
+        type: 'object',
+        required: ['id', 'name', 'criteria'],
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          criteria: {
+            type: 'array',
+            minItems: 1,
+            maxItems: MAX_RUBRIC_CRITERIA,
+            items: {
+              type: 'object',
+              required: ['id', 'name', 'description', 'scale', 'weight'],
+              properties: {
+                id: { type: 'string' },
+                name: { type: 'string' },
+                description: { type: 'string' },
+                scale: {
+                  type: 'object',
+                  required: ['min', 'max'],
+                  properties: { min: { type: 'number' }, max: { type: 'number' } }
+                },
+                weight: { type: 'number', minimum: 0 }
+              }
+            }
+          }
+        }
+      },
+      JudgeTemplate: {
+        type: 'object',
+        required: ['id', 'name', 'version', 'systemPrompt', 'prompt', 'createdAt'],
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          version: { type: 'integer' },
+          systemPrompt: { type: 'string' },
+          prompt: { type: 'string', description: 'Must use {{instructions}}, {{prompt}}, {{response}} and {{rubric}}' },
+          createdAt: { type: 'integer' }
+        }
+      },
+      Assertion: {
+        type: 'object',
+        required: ['id', 'type'],
+        properties: {
+          id: { type: 'string' },
+          type: { type: 'string', enum: Object.keys(ASSERTION_LABELS) },
+          value: {
+            type: 'string',
+            description: `Pattern, prefix or suffix, or JSON Schema source. Regex patterns, including JSON Schema pattern keywords, may be at most ${MAX_PATTERN_LENGTH} characters and must not repeat a group that contains a quantifier, such as (a+)+`
+          },
+          values: { type: 'array', items: { type: 'string' }, description: 'Phrases for contains and excludes' },
+          min: { type: 'number' },
+          max: { type: 'number' },
+          caseSensitive: { type: 'boolean' }
+        }
+      },
+      EvaluationRequest: {
+        type: 'object',
+        required: ['model', 'judge', 'instructions', 'prompt'],
+        properties: {
+          model: { type: 'string', description: 'ID of the model under test, e.g. openai/gpt-4o' },
+          judge: { type: 'string', description: 'ID of the evaluation model' },
+          additionalJudges: { type: 'array', maxItems: MAX_ADDITIONAL_JUDGES, items: { type: 'string' }, description: 'Extra judges for ensemble scoring' },
+          instructions: { type: 'string', minLength: 10, maxLength: 4000, description: 'System instructions under test' },
+          prompt: { type: 'string', minLength: 5, maxLength: 2000 },
+          settings: {
+            type: 'object',
+            properties: {
+              temperature: { type: 'number', minimum: 0, maximum: 2 },
+              maxTokens: { type: 'integer', minimum: 1, description: "At most the model's context length" },
+              runsPerTest: { type: 'integer', minimum: 1, maximum: MAX_RUNS_PER_TEST },
+              judgeAggregation: { type: 'string', enum: ['mean', 'median', 'trimmedMean'] },
+              conversation: { type: 'array', maxItems: MAX_CONVERSATION_TURNS, items: ref('ConversationTurn'), description: 'Scripted turns played after the prompt' },
+              referenceAnswer: { type: 'string' },
+              rubric: ref('Rubric'),
+              judgeTemplate: ref('JudgeTemplate'),
+              assertions: { type: 'array', maxItems: MAX_ASSERTIONS, items: ref('Assertion') }
+            }
+          }
+        }
+      },
+      TestResult: {
+        type: 'object',
+        required: ['response', 'metrics', 'tokenUsage', 'executionTime', 'cost'],
+        properties: {
+          response: { type: 'string' },
+          metrics: {
+            type: 'object',
+            required: ['overallScore', 'criterionScores', 'explanation'],
+            properties: {
+              overallScore: { type: 'number', minimum: 0, maximum: 100 },
+              judgeOverallScore: { type: 'number' },
+              criterionScores: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    criterionId: { type: 'string' },
+                    name: { type: 'string' },
+                    score: { type: 'number' },
+                    normalizedScore: { type: 'number' }
+                  }
+                }
+              },
+              explanation: { type: 'string' },
+              turnScores: { type: 'array', items: { type: 'object' } },
+              ensemble: { type: 'object', description: 'Present with additional judges' },
+              sampling: { type: 'object', description: 'Present when runsPerTest is above 1' },
+              reference: { type: 'object', description: 'Present with a reference answer' },
+              evaluationError: { type: 'string', description: 'Set when no usable judgment was returned' }
+            }
+          },
+          tokenUsage: {
+            type: 'object',
+            properties: {
+              promptTokens: { type: 'integer' },
+              completionTokens: { type: 'integer' },
+              totalTokens: { type: 'integer' }
+            }
+          },
+          executionTime: { type: 'number', description: 'Milliseconds' },
+          cost: { type: 'number', description: 'USD' },
+          conversation: { type: 'array', items: ref('ConversationTurn') },
+          assertionResults: { type: 'array', items: { type: 'object' } }
+        }
+      }
+    }
+  },
+  paths: {
+    '/api/evaluations': {
+      post: {
+        summary: 'Run an evaluation',
+        description: 'Runs the model under test and scores its response with the judge, then returns the result. Models come from OpenRouter, or from the mock provider when it is enabled.',
+        security: [{ openRouterKey: [] }, {}],
+        requestBody: { required: true, content: jsonContent(ref('EvaluationRequest')) },
+        responses: {
+          200: { description: 'Evaluation result', content: jsonContent(ref('TestResult')) },
+          400: errorResponse('Invalid request or unknown model'),
+          401: errorResponse('No usable OpenRouter key'),
+          429: errorResponse('Rate limited'),
+          502: errorResponse('Model provider error'),
+          504: errorResponse('Model provider timed out')
+        }
+      }
+    },
+    '/api/chat': {
+      post: {
+        summary: 'Chat completion proxied to OpenRouter',
+        description: 'Takes and returns the OpenRouter chat completions format. With "stream": true the reply is a server-sent event stream.',
+        security: [{ openRouterKey: [] }, {}],
+        requestBody: { required: true, content: jsonContent({ type: 'object' }) },
+        responses: {
+          200: { description: 'Chat completion' },
+          401: errorResponse('No usable OpenRouter key'),
+          429: errorResponse('Rate limited'),
+          502: errorResponse('OpenRouter could not be reached')
+        }
+      }
+    },
+    '/api/models': {
+      get: {
+        summary: "OpenRouter's model list",
+        responses: {
+          200: { description: 'Models in the OpenRouter format' },
+          429: errorResponse('Rate limited')
+        }
+      }
+    },
+    '/api/auth/key': {
+      get: {
+        summary: 'Check an OpenRouter key',
+        security: [{ openRouterKey: [] }],
+        responses: {
+          200: { description: 'The key is valid' },
+          401: errorResponse('The key is missing or invalid')
+        }
+      }
+    },
+    '/api/health': {
+      get: {
+        summary: 'Deployment health and configuration check',
+        responses: {
+          200: { description: 'Healthy' },
+          500: { description: 'Configuration is invalid' }
+        }
+      }
+    }
+  }
+}
\ No newline at end of file
@@ -3,14 +3,17 @@
  */
 
 import { Model } from '@/lib/types'
-import { 
-  ApiClient, 
-  ErrorRecoveryManager, 
-  AppError,
-  RetryManager,
-  DEFAULT_RETRY_CONFIG
-} from '@/lib/errorHandling'
+import { ErrorRecoveryManager } from '@/lib/errorHandling'
 import { apiCache, searchCache } from '@/lib/cacheManager'
+import { config, OpenRouterMode } from '@/lib/config'
+import { OpenAICompatibleProvider } from './providers/openAICompatibleProvider'
+import {
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  ChatResponseFormat,
+  ChatStreamChunk
+} from './providers/types'
 
 export interface OpenRouterModel {
   id: string
@@ -25,150 +28,53 @@ export interface OpenRouterModel {
     context_length: number
     max_completion_tokens?: number
   }
+  supported_parameters?: string[]
 }
 
 export interface OpenRouterModelsResponse {
   data: OpenRouterModel[]
 }
 
-export interface OpenRouterMessage {
-  role: 'system' | 'user' | 'assistant'
-  content: string
-}
+// OpenRouter speaks the shared chat format; these names predate the provider abstraction
+export type OpenRouterMessage = ChatMessage
+export type OpenRouterRequest = ChatRequest
+export type OpenRouterResponseFormat = ChatResponseFormat
+export type OpenRouterResponse = ChatResponse
+export type OpenRouterStreamChunk = ChatStreamChunk
 
-export interface OpenRouterRequest {
-  model: string
-  messages: OpenRouterMessage[]
-  temperature?: number
-  max_tokens?: number
-  top_p?: number
-  frequency_penalty?: number
-  presence_penalty?: number
-}
+export const OPENROUTER_PROVIDER_ID = 'openrouter'
 
-export interface OpenRouterResponse {
-  id: string
-  object: string
-  created: number
-  model: string
-  choices: Array<{
-    index: number
-    message: OpenRouterMessage
-    finish_reason: string
-  }>
-  usage: {
-    prompt_tokens: number
-    completion_tokens: number
-    total_tokens: number
-  }
-}
+// The app's own route handlers that forward to OpenRouter (src/app/api)
+export const OPENROUTER_PROXY_URL = '/api'
 
 /**
- * Enhanced OpenRouter service with error handling and retry mechanisms
+ * Enhanced OpenRouter service with error handling and retry mechanisms.
+ * In direct mode the browser calls the OpenRouter URL from the app config.
+ * In proxy mode it calls the app's /api routes, which can supply a key held
+ * on the server, so a user key is optional.
  */
-export class OpenRouterService {
-  private static readonly BASE_URL = 'https://openrouter.ai/api/v1'
-  private static readonly MODELS_CACHE_TTL = 60 * 60 * 1000 // 1 hour
+export class OpenRouterService extends OpenAICompatibleProvider {
   private static readonly SEARCH_CACHE_TTL = 30 * 60 * 1000 // 30 minutes
-  
-  private apiClient: ApiClient
-  private retryManager: RetryManager
-
-  constructor() {
-    this.apiClient = new ApiClient({
-      ...DEFAULT_RETRY_CONFIG,
-      maxRetries: 3,
-      baseDelay: 1000,
-      maxDelay: 10000
-    })
-    this.retryManager = new RetryManager()
-  }
-
-  /**
-   * Validate API key by making a test request
-   */
-  async validateApiKey(apiKey: string): Promise<boolean> {
-    const operationId = 'validate_api_key'
-    
-    try {
-      ErrorRecoveryManager.preserveUserInput(operationId, { apiKey })
 
-      const response = await this.apiClient.fetch(
-        `${OpenRouterService.BASE_URL}/auth/key`,
-        {
-          method: 'GET',
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json'
-          }
-        },
-        operationId
-      )
+  readonly mode: OpenRouterMode
+  protected readonly keyValidationPath = '/auth/key'
+  protected readonly chatCompletionsPath: string
 
-      ErrorRecoveryManager.clearRecoveryState(operationId)
-      return response.ok
-    } catch (error) {
-      const appError = error as AppError
-      
-      // Authentication errors mean invalid key
-      if (appError.type === 'authentication') {
-        ErrorRecoveryManager.clearRecoveryState(operationId)
-        return false
-      }
-      
-      // For other errors, throw to allow retry
-      throw appError
-    }
+  // Server code, such as the proxy and the evaluations API, always calls OpenRouter directly
+  constructor(
+    mode: OpenRouterMode = typeof window === 'undefined' ? 'direct' : config.openRouterMode,
+    baseUrl = mode === 'proxy' ? OPENROUTER_PROXY_URL : config.openRouterApiUrl
+  ) {
+    super(OPENROUTER_PROVIDER_ID, 'OpenRouter', baseUrl)
+    this.mode = mode
+    this.chatCompletionsPath = mode === 'proxy' ? '/chat' : '/chat/completions'
   }
 
   /**
-   * Fetch available models with enhanced caching and error handling
+   * Whether calls need the user's key. The proxy may hold one for them.
    */
-  async fetchModels(apiKey: string, forceRefresh = false): Promise<Model[]> {
-    const operationId = 'fetch_models'
-    
-    // Return cached data if available and not expired
-    if (!forceRefresh) {
-      const cachedModels = apiCache.getCachedApiResponse<Model[]>('models', { apiKey: 'masked' })
-      if (cachedModels) {
-        return cachedModels
-      }
-    }
-
-    try {
-      ErrorRecoveryManager.preserveUserInput(operationId, { apiKey, forceRefresh })
-
-      const response = await this.apiClient.fetchJson<OpenRouterModelsResponse>(
-        `${OpenRouterService.BASE_URL}/models`,
-        {
-          method: 'GET',
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json'
-          }
-        },
-        operationId
-      )
-
-      const models = this.transformModels(response.data)
-      
-      // Cache the results with enhanced cache manager
-      apiCache.cacheApiResponse('models', { apiKey: 'masked' }, models, OpenRouterService.MODELS_CACHE_TTL)
-
-      ErrorRecoveryManager.clearRecoveryState(operationId)
-      return models
-    } catch (error) {
-      const appError = error as AppError
-      
-      // Add context for better error messages
-      appError.context = {
-        ...appError.context,
-        operation: 'fetchModels',
-        cacheStats: apiCache.getStats()
-      }
-      
-      throw appError
-    }
+  get requiresApiKey(): boolean {
+    return this.mode === 'direct'
   }
 
   /**
@@ -203,69 +109,6 @@ export class OpenRouterService {
     return filteredModels
   }
 
-  /**
-   * Execute chat completion with comprehensive error handling
-   */
-  async chatCompletion(
-    apiKey: string,
-    request: OpenRouterRequest
-  ): Promise<OpenRouterResponse> {
-    const operationId = `chat_completion_${Date.now()}`
-    
-    try {
-      // Preserve request data for retry
-      ErrorRecoveryManager.preserveUserInput(operationId, { 
-        apiKey, 
-        request,
-        timestamp: Date.now()
-      })
-
-      // Validate request
-      this.validateChatRequest(request)
-
-      const response = await this.apiClient.fetchJson<OpenRouterResponse>(
-        `${OpenRouterService.BASE_URL}/chat/completions`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json',
-            'HTTP-Referer': typeof window !== 'undefined' ? window.location.origin : '',
-            'X-Title': 'Instruct-Lab'
-          },
-          body: JSON.stringify(request)
-        },
-        operationId
-      )
-
-      // Validate response
-      this.validateChatResponse(response)
-
-      ErrorRecoveryManager.clearRecoveryState(operationId)
-      return response
-    } catch (error) {
-      const appError = error as AppError
-      
-      // Add context for better error handling
-      appError.context = {
-        ...appError.context,
-        operation: 'chatCompletion',
-        model: request.model,
-        messageCount: request.messages.length,
-        maxTokens: request.max_tokens
-      }
-      
-      throw appError
-    }
-  }
-
-  /**
-   * Get cached models without making API call
-   */
-  getCachedModels(): Model[] | null {
-    return apiCache.getCachedApiResponse<Model[]>('models', { apiKey: 'masked' })
-  }
-
   /**
    * Clear all caches
    */
@@ -294,10 +137,21 @@ export class OpenRouterService {
     return ErrorRecoveryManager.restoreUserInput(operationId)
   }
 
+  /**
+   * OpenRouter asks apps to identify themselves on each request
+   */
+  protected buildHeaders(apiKey: string): Record<string, string> {
+    return {
+      ...super.buildHeaders(apiKey),
+      'HTTP-Referer': typeof window !== 'undefined' ? window.location.origin : '',
+      'X-Title': 'Instruct-Lab'
+    }
+  }
+
   /**
    * Transform OpenRouter model format to internal format
    */
-  private transformModels(openRouterModels: OpenRouterModel[]): Model[] {
+  protected transformModels(openRouterModels: OpenRouterModel[]): Model[] {
     return openRouterModels
       .filter(model => model.id && model.name) // Filter out invalid models
       .map(model => {
@@ -323,7 +177,8 @@ export class OpenRouterService {
             prompt: parseFloat(model.pricing?.prompt) || 0, // Already per 1K tokens from API
             completion: parseFloat(model.pricing?.completion) || 0 // Already per 1K tokens from API
           },
-          description: model.description
+          description: model.description,
+          ...(model.supported_parameters && { supportedParameters: model.supported_parameters })
         }
       })
       .sort((a, b) => a.name.localeCompare(b.name)) // Sort alphabetically
@@ -341,55 +196,6 @@ export class OpenRouterService {
     }
     return 'Unknown'
   }
-
-  /**
-   * Validate chat completion request
-   */
-  private validateChatRequest(request: OpenRouterRequest): void {
-    if (!request.model) {
-      throw new Error('Model is required')
-    }
-    
-    if (!request.messages || request.messages.length === 0) {
-      throw new Error('At least one message is required')
-    }
-    
-    for (const message of request.messages) {
-      if (!message.role || !message.content) {
-        throw new Error('Each message must have role and content')
-      }
-      
-      if (!['system', 'user', 'assistant'].includes(message.role)) {
-        throw new Error('Invalid message role')
-      }
-    }
-    
-    if (request.temperature !== undefined && (request.temperature < 0 || request.temperature > 2)) {
-      throw new Error('Temperature must be between 0 and 2')
-    }
-    
-    if (request.max_tokens !== undefined && request.max_tokens < 1) {
-      throw new Error('Max tokens must be at least 1')
-    }
-  }
-
-  /**
-   * Validate chat completion response
-   */
-  private validateChatResponse(response: OpenRouterResponse): void {
-    if (!response.choices || response.choices.length === 0) {
-      throw new Error('No response choices received')
-    }
-    
-    const choice = response.choices[0]
-    if (!choice.message || !choice.message.content) {
-      throw new Error('Invalid response format')
-    }
-    
-    if (!response.usage) {
-      throw new Error('Usage information missing from response')
-    }
-  }
 }
 
 // Export singleton instance
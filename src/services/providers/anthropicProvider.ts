@@ -0,0 +1,342 @@
+/**
+ * Provider for the Anthropic Messages API
+ */
+
+import { Model } from '@/lib/types'
+import {
+  ApiClient,
+  ErrorRecoveryManager,
+  AppError,
+  DEFAULT_RETRY_CONFIG
+} from '@/lib/errorHandling'
+import { apiCache } from '@/lib/cacheManager'
+import { ChatProvider, ChatRequest, ChatResponse, ChatStreamChunk, ChatUsage } from './types'
+import { readServerSentEvents, toAppError, validateChatRequest } from './utils'
+
+interface AnthropicModelsResponse {
+  data: Array<{ id: string; display_name?: string }>
+}
+
+interface AnthropicMessagesRequest {
+  model: string
+  system?: string
+  messages: Array<{ role: 'user' | 'assistant'; content: string }>
+  max_tokens: number
+  temperature?: number
+  top_p?: number
+  stream?: boolean
+}
+
+interface AnthropicMessagesResponse {
+  id: string
+  model: string
+  content: Array<{ type: string; text?: string }>
+  stop_reason: string | null
+  usage: { input_tokens: number; output_tokens: number }
+}
+
+// A streamed event. Which fields are set depends on the type; pings and
+// content block starts and stops carry nothing this provider needs.
+interface AnthropicStreamEvent {
+  type: string
+  message?: { id: string; model: string; usage: { input_tokens: number; output_tokens: number } }
+  delta?: { text?: string; stop_reason?: string | null }
+  usage?: { output_tokens: number }
+  error?: { message?: string }
+}
+
+/**
+ * Chat provider for the Anthropic Messages API. Requests in the shared chat
+ * format are translated: system messages become the top-level system prompt,
+ * and usage and stop reasons are mapped back to their OpenAI equivalents.
+ */
+export class AnthropicProvider implements ChatProvider {
+  private static readonly API_VERSION = '2023-06-01'
+  private static readonly MODELS_CACHE_TTL = 60 * 60 * 1000 // 1 hour
+  private static readonly DEFAULT_MAX_TOKENS = 1024 // The API requires max_tokens
+  private static readonly CONTEXT_LENGTH = 200000
+  private static readonly STOP_REASONS: Record<string, string> = {
+    end_turn: 'stop',
+    stop_sequence: 'stop',
+    max_tokens: 'length'
+  }
+
+  readonly id: string
+  readonly name: string
+  private readonly baseUrl: string
+  private apiClient: ApiClient
+
+  constructor(id: string, name: string, baseUrl = 'https://api.anthropic.com/v1') {
+    this.id = id
+    this.name = name
+    this.baseUrl = baseUrl.replace(/\/+$/, '')
+    this.apiClient = new ApiClient({
+      ...DEFAULT_RETRY_CONFIG,
+      maxRetries: 3,
+      baseDelay: 1000,
+      maxDelay: 10000
+    })
+  }
+
+  /**
+   * Validate API key by listing models
+   */
+  async validateApiKey(apiKey: string): Promise<boolean> {
+    const operationId = `validate_api_key_${this.id}`
+
+    try {
+      const response = await this.apiClient.fetch(
+        `${this.baseUrl}/models`,
+        { method: 'GET', headers: this.buildHeaders(apiKey) },
+        operationId
+      )
+
+      return response.ok
+    } catch (error) {
+      const appError = error as AppError
+
+      // Authentication errors mean invalid key
+      if (appError.type === 'authentication') {
+        return false
+      }
+
+      throw appError
+    }
+  }
+
+  /**
+   * Fetch available models, cached per provider. The API does not report
+   * pricing, so these models are costed at zero.
+   */
+  async fetchModels(apiKey: string, forceRefresh = false): Promise<Model[]> {
+    if (!forceRefresh) {
+      const cachedModels = apiCache.getCachedApiResponse<Model[]>('models', { provider: this.id })
+      if (cachedModels) {
+        return cachedModels
+      }
+    }
+
+    try {
+      const response = await this.apiClient.fetchJson<AnthropicModelsResponse>(
+        `${this.baseUrl}/models`,
+        { method: 'GET', headers: this.buildHeaders(apiKey) },
+        `fetch_models_${this.id}`
+      )
+
+      const models: Model[] = (response.data || [])
+        .filter(model => model.id)
+        .map(model => ({
+          id: model.id,
+          name: model.display_name || model.id,
+          provider: this.name,
+          providerId: this.id,
+          contextLength: AnthropicProvider.CONTEXT_LENGTH,
+          pricing: { prompt: 0, completion: 0 }
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name))
+
+      apiCache.cacheApiResponse('models', { provider: this.id }, models, AnthropicProvider.MODELS_CACHE_TTL)
+      return models
+    } catch (error) {
+      const appError = error as AppError
+      appError.context = {
+        ...appError.context,
+        operation: 'fetchModels',
+        provider: this.id
+      }
+      throw appError
+    }
+  }
+
+  /**
+   * Execute chat completion, translating to and from the Messages API
+   */
+  async chatCompletion(apiKey: string, request: ChatRequest, signal?: AbortSignal): Promise<ChatResponse> {
+    const operationId = `chat_completion_${Date.now()}`
+
+    try {
+      ErrorRecoveryManager.preserveUserInput(operationId, {
+        apiKey,
+        request,
+        timestamp: Date.now()
+      })
+
+      validateChatRequest(request)
+
+      const response = await this.apiClient.fetchJson<AnthropicMessagesResponse>(
+        `${this.baseUrl}/messages`,
+        {
+          method: 'POST',
+          headers: this.buildHeaders(apiKey),
+          body: JSON.stringify(this.toMessagesRequest(request)),
+          signal
+        },
+        operationId
+      )
+
+      const content = (response.content || [])
+        .map(block => block.type === 'text' ? block.text ?? '' : '')
+        .join('')
+
+      if (!content) {
+        throw new Error('Invalid response format')
+      }
+      if (!response.usage) {
+        throw new Error('Usage information missing from response')
+      }
+
+      ErrorRecoveryManager.clearRecoveryState(operationId)
+      return {
+        id: response.id,
+        object: 'chat.completion',
+        created: Math.floor(Date.now() / 1000),
+        model: response.model,
+        choices: [{
+          index: 0,
+          message: { role: 'assistant', content },
+          finish_reason: this.toFinishReason(response.stop_reason)
+        }],
+        usage: this.toUsage(response.usage.input_tokens, response.usage.output_tokens)
+      }
+    } catch (error) {
+      const appError = toAppError(error, signal)
+      appError.context = {
+        ...appError.context,
+        operation: 'chatCompletion',
+        provider: this.id,
+        model: request.model,
+        messageCount: request.messages.length,
+        maxTokens: request.max_tokens
+      }
+      throw appError
+    }
+  }
+
+  /**
+   * Stream a chat completion, yielding chunks in the shared format. Input
+   * tokens arrive with message_start and output tokens with message_delta,
+   * so usage is sent on the final chunk once the message stops.
+   */
+  async *streamChatCompletion(apiKey: string, request: ChatRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamChunk> {
+    const operationId = `chat_stream_${Date.now()}`
+
+    try {
+      validateChatRequest(request)
+
+      const response = await this.apiClient.fetch(
+        `${this.baseUrl}/messages`,
+        {
+          method: 'POST',
+          headers: this.buildHeaders(apiKey),
+          body: JSON.stringify({ ...this.toMessagesRequest(request), stream: true }),
+          signal
+        },
+        operationId
+      )
+
+      if (!response.body) {
+        throw new Error('Streaming response has no body')
+      }
+
+      let id = ''
+      let model = request.model
+      let inputTokens = 0
+      let outputTokens = 0
+      let finishReason: string | null = null
+
+      for await (const data of readServerSentEvents(response.body)) {
+        let event: AnthropicStreamEvent
+        try {
+          event = JSON.parse(data)
+        } catch {
+          throw new Error('Failed to parse stream chunk as JSON')
+        }
+
+        switch (event.type) {
+          case 'message_start':
+            id = event.message?.id ?? id
+            model = event.message?.model ?? model
+            inputTokens = event.message?.usage.input_tokens ?? 0
+            outputTokens = event.message?.usage.output_tokens ?? 0
+            break
+          case 'content_block_delta':
+            if (event.delta?.text) {
+              yield { id, model, choices: [{ index: 0, delta: { content: event.delta.text }, finish_reason: null }] }
+            }
+            break
+          case 'message_delta':
+            outputTokens = event.usage?.output_tokens ?? outputTokens
+            finishReason = this.toFinishReason(event.delta?.stop_reason ?? null)
+            break
+          case 'message_stop':
+            yield {
+              id,
+              model,
+              choices: [{ index: 0, delta: {}, finish_reason: finishReason ?? 'stop' }],
+              usage: this.toUsage(inputTokens, outputTokens)
+            }
+            return
+          case 'error':
+            throw new Error(event.error?.message || 'Stream interrupted by the provider')
+        }
+      }
+    } catch (error) {
+      const appError = toAppError(error, signal)
+      appError.context = {
+        ...appError.context,
+        operation: 'streamChatCompletion',
+        provider: this.id,
+        model: request.model,
+        messageCount: request.messages.length,
+        maxTokens: request.max_tokens
+      }
+      throw appError
+    }
+  }
+
+  /**
+   * Request headers. Browser calls must opt in to direct access.
+   */
+  private buildHeaders(apiKey: string): Record<string, string> {
+    return {
+      'x-api-key': apiKey,
+      'anthropic-version': AnthropicProvider.API_VERSION,
+      'anthropic-dangerous-direct-browser-access': 'true',
+      'Content-Type': 'application/json'
+    }
+  }
+
+  /**
+   * Translate a shared-format request. Temperature is capped at the API's
+   * maximum of 1, and structured output settings are dropped.
+   */
+  private toMessagesRequest(request: ChatRequest): AnthropicMessagesRequest {
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n')
+
+    return {
+      model: request.model,
+      ...(system && { system }),
+      messages: request.messages
+        .filter(message => message.role !== 'system')
+        .map(message => ({ role: message.role as 'user' | 'assistant', content: message.content })),
+      max_tokens: request.max_tokens ?? AnthropicProvider.DEFAULT_MAX_TOKENS,
+      ...(request.temperature !== undefined && { temperature: Math.min(request.temperature, 1) }),
+      ...(request.top_p !== undefined && { top_p: request.top_p })
+    }
+  }
+
+  private toFinishReason(stopReason: string | null): string {
+    return (stopReason && AnthropicProvider.STOP_REASONS[stopReason]) || stopReason || 'stop'
+  }
+
+  private toUsage(inputTokens: number, outputTokens: number): ChatUsage {
+    return {
+      prompt_tokens: inputTokens,
+      completion_tokens: outputTokens,
+      total_tokens: inputTokens + outputTokens
+    }
+  }
+}
\ No newline at end of file
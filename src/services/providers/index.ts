@@ -0,0 +1,132 @@
+/**
+ * Provider registry: maps models to the provider that serves them
+ */
+
+import { Model, ProviderConfig } from '@/lib/types'
+import { config as appConfig } from '@/lib/config'
+import { openRouterService, OPENROUTER_PROVIDER_ID } from '../openRouterService'
+import { OpenAICompatibleProvider } from './openAICompatibleProvider'
+import { AnthropicProvider } from './anthropicProvider'
+import { LocalProvider } from './localProvider'
+import { MockProvider } from './mockProvider'
+import { ChatProvider } from './types'
+
+export type {
+  ChatProvider,
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  ChatResponseFormat,
+  ChatStreamChunk,
+  ChatUsage
+} from './types'
+export { OpenAICompatibleProvider } from './openAICompatibleProvider'
+export { AnthropicProvider } from './anthropicProvider'
+export { LocalProvider } from './localProvider'
+export { MockProvider, MOCK_MODELS } from './mockProvider'
+export type { MockProviderOptions } from './mockProvider'
+
+// A provider and the key to call it with
+export interface ProviderConnection {
+  provider: ChatProvider
+  apiKey: string
+}
+
+export const PROVIDER_KINDS: { value: ProviderConfig['kind']; label: string; defaultBaseUrl: string }[] = [
+  { value: 'openai-compatible', label: 'OpenAI-compatible', defaultBaseUrl: 'https://api.openai.com/v1' },
+  { value: 'anthropic', label: 'Anthropic', defaultBaseUrl: 'https://api.anthropic.com/v1' },
+  { value: 'local', label: 'Local (Ollama / llama.cpp)', defaultBaseUrl: 'http://localhost:11434' }
+]
+
+// Built in, and offered only when the app config enables it
+export const MOCK_PROVIDER_CONFIG: ProviderConfig = {
+  id: 'mock',
+  name: 'Mock',
+  kind: 'mock',
+  baseUrl: '',
+  apiKey: ''
+}
+
+// Instances are reused so each provider keeps its model cache
+const providerInstances = new Map<string, ChatProvider>()
+
+/**
+ * Creates a provider from its configuration, reusing the instance while the
+ * configuration is unchanged
+ */
+export function createProvider(config: ProviderConfig): ChatProvider {
+  const key = `${config.id}|${config.kind}|${config.name}|${config.baseUrl}`
+  const existing = providerInstances.get(key)
+  if (existing) {
+    return existing
+  }
+
+  let provider: ChatProvider
+  switch (config.kind) {
+    case 'anthropic':
+      provider = new AnthropicProvider(config.id, config.name, config.baseUrl)
+      break
+    case 'local':
+      provider = new LocalProvider(config.id, config.name, config.baseUrl)
+      break
+    case 'mock':
+      provider = new MockProvider(config.id, config.name, {
+        latencyMs: appConfig.mockLatencyMs,
+        ...(appConfig.mockErrorStatus && appConfig.mockErrorEvery > 0 && {
+          failure: { status: appConfig.mockErrorStatus, every: appConfig.mockErrorEvery }
+        })
+      })
+      break
+    default:
+      provider = new OpenAICompatibleProvider(config.id, config.name, config.baseUrl)
+  }
+
+  providerInstances.set(key, provider)
+  return provider
+}
+
+/**
+ * The user's providers, plus the mock provider when the app config enables it
+ */
+export function getActiveProviders(providers: ProviderConfig[] = []): ProviderConfig[] {
+  return appConfig.enableMockProvider ? [MOCK_PROVIDER_CONFIG, ...providers] : providers
+}
+
+/**
+ * Whether the model is called through OpenRouter and so needs its key
+ */
+export function usesOpenRouter(model: Model): boolean {
+  return !model.providerId || model.providerId === OPENROUTER_PROVIDER_ID
+}
+
+/**
+ * Finds the provider for a model. Models without a provider ID come from
+ * OpenRouter and use the session's OpenRouter key.
+ */
+export function resolveProvider(model: Model, providers: ProviderConfig[], openRouterApiKey: string): ProviderConnection {
+  if (usesOpenRouter(model)) {
+    return { provider: openRouterService, apiKey: openRouterApiKey }
+  }
+
+  const config = providers.find(provider => provider.id === model.providerId)
+  if (!config) {
+    throw new Error(`Provider "${model.providerId}" for model ${model.name} is not configured`)
+  }
+
+  return { provider: createProvider(config), apiKey: config.apiKey }
+}
+
+/**
+ * Creates a provider ID from its name that is unique among the providers
+ */
+export function createProviderId(name: string, providers: ProviderConfig[]): string {
+  const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'provider'
+  const taken = new Set([OPENROUTER_PROVIDER_ID, MOCK_PROVIDER_CONFIG.id, ...providers.map(provider => provider.id)])
+
+  let id = base
+  let suffix = 2
+  while (taken.has(id)) {
+    id = `${base}-${suffix++}`
+  }
+  return id
+}
\ No newline at end of file
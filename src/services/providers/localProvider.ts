@@ -0,0 +1,97 @@
+/**
+ * Provider for a local Ollama or llama.cpp server
+ */
+
+import { Model } from '@/lib/types'
+import { AppError } from '@/lib/errorHandling'
+import { apiCache } from '@/lib/cacheManager'
+import { OpenAICompatibleProvider } from './openAICompatibleProvider'
+
+// Entry in Ollama's installed model list
+export interface OllamaModel {
+  name: string
+  details?: {
+    family?: string
+    parameter_size?: string
+    quantization_level?: string
+  }
+}
+
+export interface OllamaTagsResponse {
+  models: OllamaModel[]
+}
+
+/**
+ * Chat provider for a model server on the user's machine, so prompts never
+ * leave it. Both Ollama and the llama.cpp server expose the OpenAI chat API
+ * under /v1, which is used for completions. Models are discovered from
+ * Ollama's /api/tags, falling back to /v1/models for servers without it.
+ * Local models cost nothing.
+ */
+export class LocalProvider extends OpenAICompatibleProvider {
+  private readonly serverUrl: string
+
+  constructor(id: string, name: string, baseUrl = 'http://localhost:11434') {
+    // Accept the server root or its /v1 API base
+    const serverUrl = baseUrl.replace(/\/+$/, '').replace(/\/v1$/, '')
+    super(id, name, `${serverUrl}/v1`)
+    this.serverUrl = serverUrl
+  }
+
+  /**
+   * Fetch the installed models, cached per provider
+   */
+  async fetchModels(apiKey: string, forceRefresh = false): Promise<Model[]> {
+    if (!forceRefresh) {
+      const cachedModels = this.getCachedModels()
+      if (cachedModels) {
+        return cachedModels
+      }
+    }
+
+    try {
+      const response = await this.apiClient.fetchJson<OllamaTagsResponse>(
+        `${this.serverUrl}/api/tags`,
+        { method: 'GET', headers: this.buildHeaders(apiKey) },
+        `fetch_models_${this.id}`
+      )
+
+      if (Array.isArray(response.models)) {
+        const models = this.transformOllamaModels(response.models)
+        apiCache.cacheApiResponse('models', { provider: this.id }, models, OpenAICompatibleProvider.MODELS_CACHE_TTL)
+        return models
+      }
+    } catch (error) {
+      // An unreachable server will not answer /v1/models either
+      if ((error as AppError).type === 'network') {
+        throw error
+      }
+    }
+
+    return super.fetchModels(apiKey, true)
+  }
+
+  /**
+   * Transform Ollama's model list to the internal format
+   */
+  private transformOllamaModels(models: OllamaModel[]): Model[] {
+    return models
+      .filter(model => model.name)
+      .map(model => {
+        const details = [model.details?.family, model.details?.parameter_size, model.details?.quantization_level]
+          .filter(Boolean)
+          .join(' · ')
+
+        return {
+          id: model.name,
+          name: model.name,
+          provider: this.name,
+          providerId: this.id,
+          contextLength: OpenAICompatibleProvider.DEFAULT_CONTEXT_LENGTH,
+          pricing: { prompt: 0, completion: 0 },
+          ...(details && { description: details })
+        }
+      })
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+}
\ No newline at end of file
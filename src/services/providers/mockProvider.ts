@@ -0,0 +1,269 @@
+/**
+ * Deterministic provider for offline development and tests
+ */
+
+import { Model } from '@/lib/types'
+import {
+  CancellationError,
+  DEFAULT_RETRY_CONFIG,
+  ErrorClassifier,
+  RetryConfig,
+  RetryManager,
+  throwIfCancelled
+} from '@/lib/errorHandling'
+import { ChatMessage, ChatProvider, ChatRequest, ChatResponse, ChatStreamChunk, ChatUsage } from './types'
+import { validateChatRequest } from './utils'
+
+export interface MockProviderOptions {
+  latencyMs?: number // Delay before each reply
+  failure?: { status: 429 | 500; every: number } // Fail every nth request with this HTTP status
+  retry?: Partial<RetryConfig>
+}
+
+export const MOCK_MODELS: Omit<Model, 'providerId'>[] = [
+  {
+    id: 'mock/assistant',
+    name: 'Mock Assistant',
+    provider: 'Mock',
+    contextLength: 8192,
+    pricing: { prompt: 0.000001, completion: 0.000002 },
+    description: 'Rule-based replies that follow simple instructions, such as answering in JSON or briefly'
+  },
+  {
+    id: 'mock/echo',
+    name: 'Mock Echo',
+    provider: 'Mock',
+    contextLength: 8192,
+    pricing: { prompt: 0, completion: 0 },
+    description: 'Repeats the last user message'
+  },
+  {
+    id: 'mock/judge',
+    name: 'Mock Judge',
+    provider: 'Mock',
+    contextLength: 8192,
+    pricing: { prompt: 0.000001, completion: 0.000002 },
+    description: 'Scores every response with the example values from the requested reply format'
+  }
+]
+
+// Every evaluation prompt ends with the reply format, introduced by this phrase
+const REPLY_FORMAT_MARKER = 'exact JSON format:'
+
+/**
+ * Chat provider that answers without any network access. Replies depend
+ * only on the request, so runs are repeatable:
+ * - Judge prompts (any model) get the example JSON from the prompt's reply
+ *   format, with one turn score per turn the prompt asks for
+ * - mock/echo repeats the last user message
+ * - Other models reply from simple rules on the system instructions
+ *
+ * Injected failures go through the same retry logic as real requests.
+ */
+export class MockProvider implements ChatProvider {
+  readonly id: string
+  readonly name: string
+  private readonly latencyMs: number
+  private readonly failure?: MockProviderOptions['failure']
+  private retryManager: RetryManager
+  private requestCount = 0
+
+  constructor(id: string, name: string, options: MockProviderOptions = {}) {
+    this.id = id
+    this.name = name
+    this.latencyMs = options.latencyMs ?? 0
+    this.failure = options.failure
+    this.retryManager = new RetryManager({ ...DEFAULT_RETRY_CONFIG, ...options.retry })
+  }
+
+  /**
+   * Any key is accepted
+   */
+  async validateApiKey(): Promise<boolean> {
+    return true
+  }
+
+  /**
+   * The fixture model catalog
+   */
+  async fetchModels(): Promise<Model[]> {
+    return MOCK_MODELS.map(model => ({ ...model, providerId: this.id }))
+  }
+
+  async chatCompletion(apiKey: string, request: ChatRequest, signal?: AbortSignal): Promise<ChatResponse> {
+    validateChatRequest(request)
+    await this.respond(signal)
+
+    const content = this.generateReply(request)
+
+    return {
+      id: `mock-${this.requestCount}`,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model: request.model,
+      choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+      usage: this.estimateUsage(request.messages, content)
+    }
+  }
+
+  /**
+   * Streams the reply a word at a time, with usage on the final chunk
+   */
+  async *streamChatCompletion(apiKey: string, request: ChatRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamChunk> {
+    validateChatRequest(request)
+    await this.respond(signal)
+
+    const id = `mock-${this.requestCount}`
+    const content = this.generateReply(request)
+    const pieces = content.match(/\S+\s*/g) || [content]
+
+    for (const piece of pieces) {
+      throwIfCancelled(signal)
+      yield { id, model: request.model, choices: [{ index: 0, delta: { content: piece }, finish_reason: null }] }
+    }
+
+    yield {
+      id,
+      model: request.model,
+      choices: [{ index: 0, delta: {}, finish_reason: 'stop' }],
+      usage: this.estimateUsage(request.messages, content)
+    }
+  }
+
+  /**
+   * Wait out the configured latency and apply any injected failure
+   */
+  private respond(signal?: AbortSignal): Promise<void> {
+    return this.retryManager.executeWithRetry(async () => {
+      this.requestCount++
+      await this.wait(signal)
+
+      if (this.failure && this.requestCount % this.failure.every === 0) {
+        // Shaped like a failed fetch, so ErrorClassifier reads the status
+        const error: Error & { status: number } = Object.assign(
+          new Error(`HTTP ${this.failure.status}: Injected mock failure`),
+          { status: this.failure.status }
+        )
+        throw error
+      }
+    }, { provider: this.id }, signal)
+  }
+
+  private wait(signal?: AbortSignal): Promise<void> {
+    throwIfCancelled(signal)
+    if (this.latencyMs <= 0) {
+      return Promise.resolve()
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timeoutId)
+        reject(ErrorClassifier.classifyError(new CancellationError()))
+      }
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }, this.latencyMs)
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+
+  private generateReply(request: ChatRequest): string {
+    const lastUserMessage = [...request.messages].reverse().find(message => message.role === 'user')?.content || ''
+
+    const judgeReply = this.buildJudgeReply(lastUserMessage)
+    if (judgeReply) {
+      return judgeReply
+    }
+
+    if (request.model === 'mock/echo') {
+      return lastUserMessage
+    }
+
+    const instructions = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n')
+      .toLowerCase()
+    const topic = lastUserMessage.trim().replace(/\s+/g, ' ').slice(0, 80)
+
+    if (instructions.includes('json')) {
+      return JSON.stringify({ answer: `Mock answer to "${topic}"` })
+    }
+    if (/\b(brief|concise|short|one sentence)\b/.test(instructions)) {
+      return `Mock answer to "${topic}".`
+    }
+    return `Here is a mock answer to "${topic}". It is generated locally from fixed rules, so the same request always gets the same reply. No model was called.`
+  }
+
+  /**
+   * Reply to a judge prompt with the example from its reply format. Returns
+   * null for prompts that do not ask for one.
+   */
+  private buildJudgeReply(prompt: string): string | null {
+    const markerIndex = prompt.lastIndexOf(REPLY_FORMAT_MARKER)
+    if (markerIndex === -1) {
+      return null
+    }
+
+    const example = this.extractJsonObject(prompt.slice(markerIndex + REPLY_FORMAT_MARKER.length))
+    if (!example) {
+      return null
+    }
+
+    // The multi-turn format shows a single turn; repeat it for each requested turn
+    const turnCount = Number(prompt.match(/"turnScores" has exactly (\d+) entries/)?.[1])
+    if (Array.isArray(example.turnScores) && turnCount > 0) {
+      const [template] = example.turnScores as Record<string, unknown>[]
+      example.turnScores = Array.from({ length: turnCount }, (_, index) => ({ ...template, turn: index + 1 }))
+    }
+
+    return JSON.stringify(example)
+  }
+
+  /**
+   * Parse the first balanced JSON object in the text
+   */
+  private extractJsonObject(text: string): Record<string, unknown> | null {
+    const start = text.indexOf('{')
+    if (start === -1) {
+      return null
+    }
+
+    let depth = 0
+    let inString = false
+    for (let index = start; index < text.length; index++) {
+      const char = text[index]
+      if (inString) {
+        if (char === '\\') index++
+        else if (char === '"') inString = false
+      } else if (char === '"') {
+        inString = true
+      } else if (char === '{') {
+        depth++
+      } else if (char === '}' && --depth === 0) {
+        try {
+          return JSON.parse(text.slice(start, index + 1))
+        } catch {
+          return null
+        }
+      }
+    }
+    return null
+  }
+
+  /**
+   * Rough token counts at four characters per token
+   */
+  private estimateUsage(messages: ChatMessage[], content: string): ChatUsage {
+    const countTokens = (text: string) => Math.max(1, Math.ceil(text.length / 4))
+    const promptTokens = messages.reduce((sum, message) => sum + countTokens(message.content), 0)
+    const completionTokens = countTokens(content)
+
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,304 @@
+/**
+ * Provider for any server exposing the OpenAI chat completions API
+ */
+
+import { Model } from '@/lib/types'
+import {
+  ApiClient,
+  ErrorRecoveryManager,
+  AppError,
+  DEFAULT_RETRY_CONFIG
+} from '@/lib/errorHandling'
+import { apiCache } from '@/lib/cacheManager'
+import { ChatProvider, ChatRequest, ChatResponse, ChatStreamChunk } from './types'
+import { readServerSentEvents, toAppError, validateChatRequest } from './utils'
+
+// Entry in the OpenAI-style model list. Only `id` is guaranteed.
+export interface OpenAICompatibleModel {
+  id: string
+  owned_by?: string
+  context_length?: number
+}
+
+export interface OpenAICompatibleModelsResponse<T = OpenAICompatibleModel> {
+  data: T[]
+}
+
+/**
+ * Chat provider for an OpenAI-compatible base URL, such as a self-hosted
+ * inference server or another hosted API. The key is sent as a bearer
+ * token and may be left empty for servers that do not need one.
+ */
+export class OpenAICompatibleProvider implements ChatProvider {
+  protected static readonly MODELS_CACHE_TTL = 60 * 60 * 1000 // 1 hour
+  protected static readonly DEFAULT_CONTEXT_LENGTH = 4096
+
+  readonly id: string
+  readonly name: string
+  protected readonly baseUrl: string
+  protected readonly keyValidationPath: string = '/models'
+  protected readonly chatCompletionsPath: string = '/chat/completions'
+  protected apiClient: ApiClient
+
+  constructor(id: string, name: string, baseUrl: string) {
+    this.id = id
+    this.name = name
+    this.baseUrl = baseUrl.replace(/\/+$/, '')
+    this.apiClient = new ApiClient({
+      ...DEFAULT_RETRY_CONFIG,
+      maxRetries: 3,
+      baseDelay: 1000,
+      maxDelay: 10000
+    })
+  }
+
+  /**
+   * Validate API key by making a test request
+   */
+  async validateApiKey(apiKey: string): Promise<boolean> {
+    const operationId = `validate_api_key_${this.id}`
+
+    try {
+      ErrorRecoveryManager.preserveUserInput(operationId, { apiKey })
+
+      const response = await this.apiClient.fetch(
+        `${this.baseUrl}${this.keyValidationPath}`,
+        {
+          method: 'GET',
+          headers: this.buildHeaders(apiKey)
+        },
+        operationId
+      )
+
+      ErrorRecoveryManager.clearRecoveryState(operationId)
+      return response.ok
+    } catch (error) {
+      const appError = error as AppError
+
+      // Authentication errors mean invalid key
+      if (appError.type === 'authentication') {
+        ErrorRecoveryManager.clearRecoveryState(operationId)
+        return false
+      }
+
+      // For other errors, throw to allow retry
+      throw appError
+    }
+  }
+
+  /**
+   * Fetch available models, cached per provider
+   */
+  async fetchModels(apiKey: string, forceRefresh = false): Promise<Model[]> {
+    const operationId = `fetch_models_${this.id}`
+
+    if (!forceRefresh) {
+      const cachedModels = this.getCachedModels()
+      if (cachedModels) {
+        return cachedModels
+      }
+    }
+
+    try {
+      ErrorRecoveryManager.preserveUserInput(operationId, { apiKey, forceRefresh })
+
+      const response = await this.apiClient.fetchJson<OpenAICompatibleModelsResponse>(
+        `${this.baseUrl}/models`,
+        {
+          method: 'GET',
+          headers: this.buildHeaders(apiKey)
+        },
+        operationId
+      )
+
+      const models = this.transformModels(response.data || [])
+
+      apiCache.cacheApiResponse('models', { provider: this.id }, models, OpenAICompatibleProvider.MODELS_CACHE_TTL)
+
+      ErrorRecoveryManager.clearRecoveryState(operationId)
+      return models
+    } catch (error) {
+      const appError = error as AppError
+
+      // Add context for better error messages
+      appError.context = {
+        ...appError.context,
+        operation: 'fetchModels',
+        provider: this.id,
+        cacheStats: apiCache.getStats()
+      }
+
+      throw appError
+    }
+  }
+
+  /**
+   * Execute chat completion with comprehensive error handling.
+   * Aborting the signal cancels the request and any pending retry.
+   */
+  async chatCompletion(
+    apiKey: string,
+    request: ChatRequest,
+    signal?: AbortSignal
+  ): Promise<ChatResponse> {
+    const operationId = `chat_completion_${Date.now()}`
+
+    try {
+      // Preserve request data for retry
+      ErrorRecoveryManager.preserveUserInput(operationId, {
+        apiKey,
+        request,
+        timestamp: Date.now()
+      })
+
+      validateChatRequest(request)
+
+      const response = await this.apiClient.fetchJson<ChatResponse>(
+        `${this.baseUrl}${this.chatCompletionsPath}`,
+        {
+          method: 'POST',
+          headers: this.buildHeaders(apiKey),
+          body: JSON.stringify(request),
+          signal
+        },
+        operationId
+      )
+
+      this.validateChatResponse(response)
+
+      ErrorRecoveryManager.clearRecoveryState(operationId)
+      return response
+    } catch (error) {
+      const appError = toAppError(error, signal)
+
+      // Add context for better error handling
+      appError.context = {
+        ...appError.context,
+        operation: 'chatCompletion',
+        provider: this.id,
+        model: request.model,
+        messageCount: request.messages.length,
+        maxTokens: request.max_tokens
+      }
+
+      throw appError
+    }
+  }
+
+  /**
+   * Stream a chat completion over server-sent events, yielding each chunk
+   * as it arrives. Usage totals come with the final chunk. Aborting the
+   * signal also stops reading a stream that has already started.
+   */
+  async *streamChatCompletion(
+    apiKey: string,
+    request: ChatRequest,
+    signal?: AbortSignal
+  ): AsyncGenerator<ChatStreamChunk> {
+    const operationId = `chat_stream_${Date.now()}`
+
+    try {
+      validateChatRequest(request)
+
+      const response = await this.apiClient.fetch(
+        `${this.baseUrl}${this.chatCompletionsPath}`,
+        {
+          method: 'POST',
+          headers: this.buildHeaders(apiKey),
+          body: JSON.stringify({ ...request, stream: true, stream_options: { include_usage: true } }),
+          signal
+        },
+        operationId
+      )
+
+      if (!response.body) {
+        throw new Error('Streaming response has no body')
+      }
+
+      for await (const data of readServerSentEvents(response.body)) {
+        if (data === '[DONE]') {
+          return
+        }
+
+        let chunk: ChatStreamChunk
+        try {
+          chunk = JSON.parse(data)
+        } catch {
+          throw new Error('Failed to parse stream chunk as JSON')
+        }
+
+        if (chunk.error) {
+          throw new Error(chunk.error.message || 'Stream interrupted by the provider')
+        }
+
+        yield chunk
+      }
+    } catch (error) {
+      const appError = toAppError(error, signal)
+
+      appError.context = {
+        ...appError.context,
+        operation: 'streamChatCompletion',
+        provider: this.id,
+        model: request.model,
+        messageCount: request.messages.length,
+        maxTokens: request.max_tokens
+      }
+
+      throw appError
+    }
+  }
+
+  /**
+   * Get cached models without making API call
+   */
+  getCachedModels(): Model[] | null {
+    return apiCache.getCachedApiResponse<Model[]>('models', { provider: this.id })
+  }
+
+  /**
+   * Request headers. The Authorization header is left out without a key.
+   */
+  protected buildHeaders(apiKey: string): Record<string, string> {
+    return {
+      ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+      'Content-Type': 'application/json'
+    }
+  }
+
+  /**
+   * Transform the provider's model list to the internal format. The list
+   * carries no pricing, so these models are costed at zero.
+   */
+  protected transformModels(models: OpenAICompatibleModel[]): Model[] {
+    return models
+      .filter(model => model.id)
+      .map(model => ({
+        id: model.id,
+        name: model.id,
+        provider: this.name,
+        providerId: this.id,
+        contextLength: Number(model.context_length) || OpenAICompatibleProvider.DEFAULT_CONTEXT_LENGTH,
+        pricing: { prompt: 0, completion: 0 }
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  /**
+   * Validate chat completion response
+   */
+  private validateChatResponse(response: ChatResponse): void {
+    if (!response.choices || response.choices.length === 0) {
+      throw new Error('No response choices received')
+    }
+
+    const choice = response.choices[0]
+    if (!choice.message || !choice.message.content) {
+      throw new Error('Invalid response format')
+    }
+
+    if (!response.usage) {
+      throw new Error('Usage information missing from response')
+    }
+  }
+}
\ No newline at end of file
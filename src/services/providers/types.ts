@@ -0,0 +1,74 @@
+/**
+ * Shared types for chat model providers. Requests and responses use the
+ * OpenAI chat completions shape; providers with a different wire format
+ * translate to and from it.
+ */
+
+import { Model } from '@/lib/types'
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export type ChatResponseFormat =
+  | { type: 'json_object' }
+  | { type: 'json_schema'; json_schema: { name: string; strict: boolean; schema: Record<string, unknown> } }
+
+export interface ChatRequest {
+  model: string
+  messages: ChatMessage[]
+  temperature?: number
+  max_tokens?: number
+  top_p?: number
+  frequency_penalty?: number
+  presence_penalty?: number
+  response_format?: ChatResponseFormat
+  stream?: boolean
+  stream_options?: { include_usage: boolean }
+}
+
+export interface ChatUsage {
+  prompt_tokens: number
+  completion_tokens: number
+  total_tokens: number
+}
+
+export interface ChatResponse {
+  id: string
+  object: string
+  created: number
+  model: string
+  choices: Array<{
+    index: number
+    message: ChatMessage
+    finish_reason: string
+  }>
+  usage: ChatUsage
+}
+
+// One streamed delta. Usage is only set on the final chunk.
+export interface ChatStreamChunk {
+  id: string
+  model: string
+  choices: Array<{
+    index: number
+    delta: Partial<ChatMessage>
+    finish_reason: string | null
+  }>
+  usage?: ChatUsage
+  error?: { message?: string }
+}
+
+/**
+ * A source of chat models. The primary model and each judge are sent to
+ * the provider that listed them (see `Model.providerId`).
+ */
+export interface ChatProvider {
+  readonly id: string
+  readonly name: string // Display name
+  validateApiKey(apiKey: string): Promise<boolean>
+  fetchModels(apiKey: string, forceRefresh?: boolean): Promise<Model[]>
+  chatCompletion(apiKey: string, request: ChatRequest, signal?: AbortSignal): Promise<ChatResponse>
+  streamChatCompletion(apiKey: string, request: ChatRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamChunk>
+}
\ No newline at end of file
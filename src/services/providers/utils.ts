@@ -0,0 +1,86 @@
+/**
+ * Helpers shared by the chat providers
+ */
+
+import { AppError, CancellationError, ErrorClassifier } from '@/lib/errorHandling'
+import { ChatRequest } from './types'
+
+/**
+ * Validate a chat completion request before it is sent
+ */
+export function validateChatRequest(request: ChatRequest): void {
+  if (!request.model) {
+    throw new Error('Model is required')
+  }
+
+  if (!request.messages || request.messages.length === 0) {
+    throw new Error('At least one message is required')
+  }
+
+  for (const message of request.messages) {
+    if (!message.role || !message.content) {
+      throw new Error('Each message must have role and content')
+    }
+
+    if (!['system', 'user', 'assistant'].includes(message.role)) {
+      throw new Error('Invalid message role')
+    }
+  }
+
+  if (request.temperature !== undefined && (request.temperature < 0 || request.temperature > 2)) {
+    throw new Error('Temperature must be between 0 and 2')
+  }
+
+  if (request.max_tokens !== undefined && request.max_tokens < 1) {
+    throw new Error('Max tokens must be at least 1')
+  }
+}
+
+/**
+ * Errors raised after the signal aborted (such as the AbortError from an
+ * interrupted body read) are reported as a cancellation
+ */
+export function toAppError(error: unknown, signal?: AbortSignal): AppError {
+  return (signal?.aborted ? ErrorClassifier.classifyError(new CancellationError()) : error) as AppError
+}
+
+/**
+ * Read the data fields of a server-sent event stream. Event names and
+ * comment lines, which some providers send as keep-alives while the model
+ * is queued, are skipped.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let finished = false
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) {
+        finished = true
+        break
+      }
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split(/\r?\n/)
+      buffer = lines.pop() ?? ''
+
+      for (const line of lines) {
+        if (line.startsWith('data:')) {
+          yield line.slice(5).trim()
+        }
+      }
+    }
+
+    if (buffer.startsWith('data:')) {
+      yield buffer.slice(5).trim()
+    }
+  } finally {
+    if (!finished) {
+      await reader.cancel().catch(() => undefined)
+    }
+    reader.releaseLock()
+  }
+}
\ No newline at end of file